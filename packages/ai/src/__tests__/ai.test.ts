@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AI, createAI } from '../ai';
 import { AIError, AIErrorCode } from '../errors';
-import type { Provider, Message, ChatOptions, StreamChunk, ModelInfo } from '../types';
+import type {
+  Provider,
+  Message,
+  ChatOptions,
+  StreamChunk,
+  ModelInfo,
+} from '../types';
 
 // Create a mock provider
 function createMockProvider(
@@ -185,6 +191,49 @@ describe('AI', () => {
       );
     });
 
+    it('should return tool calls when tools are given', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        autoInitialize: true,
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      const tools = [
+        {
+          name: 'get_weather',
+          parameters: {
+            type: 'object',
+            properties: { city: { type: 'string' } },
+          },
+        },
+      ];
+      const toolCall = {
+        id: 'call_1',
+        name: 'get_weather',
+        arguments: { city: 'Paris' },
+      };
+      vi.mocked(mockProvider.chat).mockResolvedValueOnce({
+        content: '',
+        toolCalls: [toolCall],
+      });
+
+      const result = await ai.chat('Weather in Paris?', { tools });
+
+      expect(result.toolCalls).toEqual([toolCall]);
+      expect(mockProvider.chat).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ tools })
+      );
+
+      // Providers without tool support answer in text
+      await expect(ai.chat('Hello', { tools })).resolves.toEqual({
+        content: 'Mock response',
+        toolCalls: [],
+      });
+    });
+
     it('should throw error when no model selected', async () => {
       const ai = new AI({
         providers: [mockProvider],
@@ -224,6 +273,410 @@ describe('AI', () => {
     });
   });
 
+  describe('generateObject', () => {
+    const schema = {
+      type: 'object',
+      properties: { title: { type: 'string' } },
+      required: ['title'],
+    };
+
+    it('should pass the schema and return the parsed object', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        autoInitialize: true,
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.chat).mockResolvedValueOnce('{"title": "Milk"}');
+
+      const note = await ai.generateObject<{ title: string }>(
+        schema,
+        'Note: buy milk'
+      );
+
+      expect(note).toEqual({ title: 'Milk' });
+      expect(mockProvider.chat).toHaveBeenCalledWith(
+        [
+          { role: 'system', content: expect.stringContaining('JSON Schema') },
+          { role: 'user', content: 'Note: buy milk' },
+        ],
+        expect.objectContaining({
+          model: 'model-1',
+          responseFormat: { type: 'json', schema },
+        })
+      );
+    });
+
+    it('should ask again when the output is invalid', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        autoInitialize: true,
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.chat)
+        .mockResolvedValueOnce('{"name": "Milk"}')
+        .mockResolvedValueOnce('{"title": "Milk"}');
+
+      await expect(
+        ai.generateObject(schema, 'Note: buy milk')
+      ).resolves.toEqual({ title: 'Milk' });
+
+      const retry = vi.mocked(mockProvider.chat).mock.calls[1][0];
+      expect(retry.slice(2)).toEqual([
+        { role: 'assistant', content: '{"name": "Milk"}' },
+        {
+          role: 'user',
+          content: expect.stringContaining('title: is required'),
+        },
+      ]);
+    });
+
+    it('should give up after the retries', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        autoInitialize: true,
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      await expect(
+        ai.generateObject(schema, 'Note: buy milk', { maxRetries: 1 })
+      ).rejects.toMatchObject({ code: AIErrorCode.INVALID_OUTPUT });
+      expect(mockProvider.chat).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('streamObject', () => {
+    it('should yield partial objects, then the final object', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        autoInitialize: true,
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      const pieces = ['{"title": "Mi', 'lk", "tags": [', '"food"]}'];
+      vi.mocked(mockProvider.stream).mockImplementationOnce(async function* () {
+        for (const [index, content] of pieces.entries()) {
+          yield {
+            content,
+            done: index === pieces.length - 1,
+            model: 'model-1',
+            provider: 'mock',
+          };
+        }
+      });
+
+      const chunks = [];
+      for await (const chunk of ai.streamObject(
+        { type: 'object', required: ['title'] },
+        'Note: buy milk'
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toEqual([
+        { done: false, partial: { title: 'Mi' } },
+        { done: false, partial: { title: 'Milk', tags: [] } },
+        { done: false, partial: { title: 'Milk', tags: ['food'] } },
+        { done: true, object: { title: 'Milk', tags: ['food'] } },
+      ]);
+    });
+  });
+
+  describe('embed', () => {
+    function createEmbeddingProvider(): Provider {
+      const provider = createMockProvider('mock', 'ollama', true, [
+        createMockModel('model-1', 'mock'),
+        {
+          ...createMockModel('embed-1', 'mock'),
+          capabilities: { chat: false, embeddings: true },
+        },
+      ]);
+      provider.embed = vi.fn(async (texts: string[]) =>
+        texts.map((text) => [text.length])
+      );
+      return provider;
+    }
+
+    it('should embed a text with the first embedding model', async () => {
+      const provider = createEmbeddingProvider();
+      const ai = new AI({ providers: [provider] });
+
+      await ai.ready();
+
+      await expect(ai.embed('hello')).resolves.toEqual([5]);
+      expect(provider.embed).toHaveBeenCalledWith(['hello'], {
+        model: 'embed-1',
+        signal: undefined,
+      });
+      // Embedding models are not picked for chat
+      expect(ai.models.active()?.id).toBe('model-1');
+    });
+
+    it('should send texts in batches', async () => {
+      const provider = createEmbeddingProvider();
+      const ai = new AI({ providers: [provider] });
+
+      await ai.ready();
+
+      const vectors = await ai.embed(['a', 'bb', 'ccc', 'dddd', 'eeeee'], {
+        batchSize: 2,
+      });
+
+      expect(vectors).toEqual([[1], [2], [3], [4], [5]]);
+      expect(
+        vi.mocked(provider.embed!).mock.calls.map(([texts]) => texts)
+      ).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+    });
+
+    it('should use the configured embedding model', async () => {
+      const provider = createEmbeddingProvider();
+      const ai = new AI({ providers: [provider], embeddingModel: 'model-1' });
+
+      await ai.ready();
+      await ai.embed(['a']);
+
+      expect(provider.embed).toHaveBeenCalledWith(
+        ['a'],
+        expect.objectContaining({ model: 'model-1' })
+      );
+    });
+
+    it('should throw when no embedding model is available', async () => {
+      const ai = new AI({ providers: [mockProvider] });
+
+      await ai.ready();
+
+      await expect(ai.embed('hello')).rejects.toMatchObject({
+        code: AIErrorCode.MODEL_NOT_FOUND,
+      });
+      await expect(
+        ai.embed('hello', { model: 'model-1' })
+      ).rejects.toMatchObject({ code: AIErrorCode.PROVIDER_NOT_AVAILABLE });
+    });
+  });
+
+  describe('routing', () => {
+    let backupProvider: Provider;
+
+    beforeEach(() => {
+      backupProvider = createMockProvider('backup', 'browser', true, [
+        createMockModel('backup-model', 'backup'),
+      ]);
+      vi.mocked(backupProvider.chat).mockResolvedValue('Backup response');
+    });
+
+    it('should retry transient failures', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        routing: { retryDelay: 1 },
+      });
+
+      await ai.ready();
+
+      vi.mocked(mockProvider.chat)
+        .mockRejectedValueOnce(new AIError(AIErrorCode.NETWORK_ERROR))
+        .mockRejectedValueOnce(new AIError(AIErrorCode.TIMEOUT));
+
+      await expect(ai.chat('Hello')).resolves.toBe('Mock response');
+      expect(mockProvider.chat).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fall back to a configured model on another provider', async () => {
+      const ai = new AI({
+        providers: [mockProvider, backupProvider],
+        routing: {
+          retries: 0,
+          fallbackModels: { 'model-1': ['backup-model'] },
+        },
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.chat).mockRejectedValueOnce(
+        new AIError(AIErrorCode.INFERENCE_FAILED)
+      );
+
+      await expect(ai.chat('Hello')).resolves.toBe('Backup response');
+      expect(backupProvider.chat).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ model: 'backup-model' })
+      );
+      expect(ai.getState().lastRequest).toEqual({
+        provider: 'backup',
+        model: 'backup-model',
+        fallback: true,
+      });
+      // The active model stays the same
+      expect(ai.models.active()?.id).toBe('model-1');
+    });
+
+    it('should only fall back to configured models', async () => {
+      const ai = new AI({
+        providers: [mockProvider, backupProvider],
+        routing: {
+          retries: 0,
+          fallbackModels: { 'other-model': ['backup-model'] },
+        },
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.chat).mockRejectedValueOnce(
+        new AIError(AIErrorCode.NETWORK_ERROR)
+      );
+
+      await expect(ai.chat('Hello')).rejects.toMatchObject({
+        code: AIErrorCode.NETWORK_ERROR,
+      });
+      expect(backupProvider.chat).not.toHaveBeenCalled();
+    });
+
+    it('should not retry or fall back on other errors', async () => {
+      const ai = new AI({ providers: [mockProvider, backupProvider] });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.chat).mockRejectedValueOnce(
+        new AIError(AIErrorCode.ABORTED)
+      );
+
+      await expect(ai.chat('Hello')).rejects.toMatchObject({
+        code: AIErrorCode.ABORTED,
+      });
+      expect(mockProvider.chat).toHaveBeenCalledTimes(1);
+      expect(backupProvider.chat).not.toHaveBeenCalled();
+    });
+
+    it('should skip a provider after repeated failures', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const ai = new AI({
+          providers: [mockProvider, backupProvider],
+          routing: {
+            retries: 0,
+            fallbackModels: { 'model-1': ['backup-model'] },
+            circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 },
+          },
+        });
+
+        await ai.ready();
+        await ai.models.use('model-1');
+
+        vi.mocked(mockProvider.chat).mockRejectedValue(
+          new AIError(AIErrorCode.NETWORK_ERROR)
+        );
+        await ai.chat('One');
+        await ai.chat('Two');
+
+        const circuit = () =>
+          ai.providers.list().find((p) => p.id === 'mock')?.circuit;
+        expect(circuit()).toBe('open');
+
+        await ai.chat('Three');
+        expect(mockProvider.chat).toHaveBeenCalledTimes(2);
+
+        // After the reset timeout, a trial request goes through
+        vi.setSystemTime(Date.now() + 1000);
+        vi.mocked(mockProvider.chat).mockResolvedValue('Mock response');
+        await expect(ai.chat('Four')).resolves.toBe('Mock response');
+        expect(circuit()).toBe('closed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should count a retried request as one failure', async () => {
+      const ai = new AI({
+        providers: [mockProvider],
+        routing: { retryDelay: 1, circuitBreaker: { failureThreshold: 2 } },
+      });
+
+      await ai.ready();
+      const circuit = () =>
+        ai.providers.list().find((p) => p.id === 'mock')?.circuit;
+
+      // Two failed attempts of a request that then succeeds
+      vi.mocked(mockProvider.chat)
+        .mockRejectedValueOnce(new AIError(AIErrorCode.NETWORK_ERROR))
+        .mockRejectedValueOnce(new AIError(AIErrorCode.NETWORK_ERROR));
+      await expect(ai.chat('One')).resolves.toBe('Mock response');
+      expect(circuit()).not.toBe('open');
+
+      // Three failed attempts of a request that gives up
+      vi.mocked(mockProvider.chat).mockRejectedValue(
+        new AIError(AIErrorCode.NETWORK_ERROR)
+      );
+      await expect(ai.chat('Two')).rejects.toMatchObject({
+        code: AIErrorCode.NETWORK_ERROR,
+      });
+      expect(mockProvider.chat).toHaveBeenCalledTimes(6);
+      expect(circuit()).not.toBe('open');
+    });
+
+    it('should fall back when a stream fails to start', async () => {
+      const ai = new AI({
+        providers: [mockProvider, backupProvider],
+        routing: {
+          retries: 0,
+          fallbackModels: { 'model-1': ['backup-model'] },
+        },
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.stream).mockImplementationOnce(
+        // eslint-disable-next-line require-yield
+        async function* () {
+          throw new AIError(AIErrorCode.NETWORK_ERROR);
+        }
+      );
+
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of ai.stream('Hello')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map((chunk) => chunk.provider)).toEqual([
+        'backup',
+        'backup',
+      ]);
+      expect(ai.getState().lastRequest?.provider).toBe('backup');
+    });
+
+    it('should send requests once when routing is off', async () => {
+      const ai = new AI({
+        providers: [mockProvider, backupProvider],
+        routing: false,
+      });
+
+      await ai.ready();
+      await ai.models.use('model-1');
+
+      vi.mocked(mockProvider.chat).mockRejectedValueOnce(
+        new AIError(AIErrorCode.NETWORK_ERROR)
+      );
+
+      await expect(ai.chat('Hello')).rejects.toMatchObject({
+        code: AIErrorCode.NETWORK_ERROR,
+      });
+      expect(mockProvider.chat).toHaveBeenCalledTimes(1);
+      expect(backupProvider.chat).not.toHaveBeenCalled();
+    });
+  });
+
   describe('models', () => {
     describe('list', () => {
       it('should return all models', async () => {
@@ -124,6 +124,7 @@ describe('AIErrorCode', () => {
     expect(AIErrorCode.DOWNLOAD_FAILED).toBe('DOWNLOAD_FAILED');
     expect(AIErrorCode.DOWNLOAD_CANCELLED).toBe('DOWNLOAD_CANCELLED');
     expect(AIErrorCode.INFERENCE_FAILED).toBe('INFERENCE_FAILED');
+    expect(AIErrorCode.INVALID_OUTPUT).toBe('INVALID_OUTPUT');
     expect(AIErrorCode.TIMEOUT).toBe('TIMEOUT');
     expect(AIErrorCode.ABORTED).toBe('ABORTED');
     expect(AIErrorCode.NETWORK_ERROR).toBe('NETWORK_ERROR');
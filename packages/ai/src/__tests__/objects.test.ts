@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseObject,
+  parsePartialJson,
+  validateSchema,
+  withSchemaPrompt,
+} from '../objects';
+import { AIErrorCode } from '../errors';
+
+const schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 2 },
+    priority: { enum: ['low', 'high'] },
+    tags: { type: 'array', items: { type: 'string' } },
+    due: { type: ['string', 'null'] },
+  },
+  required: ['title', 'priority'],
+  additionalProperties: false,
+};
+
+describe('parsePartialJson', () => {
+  it('should close what is still open', () => {
+    expect(parsePartialJson('{"title": "Buy mi')).toEqual({
+      title: 'Buy mi',
+    });
+    expect(parsePartialJson('{"tags": ["a", "b')).toEqual({
+      tags: ['a', 'b'],
+    });
+    expect(parsePartialJson('[{"n": 1}, {"n": 2')).toEqual([
+      { n: 1 },
+      { n: 2 },
+    ]);
+  });
+
+  it('should leave out keys and values that are cut off', () => {
+    expect(parsePartialJson('{"title": "Milk", "prio')).toEqual({
+      title: 'Milk',
+    });
+    expect(parsePartialJson('{"title": "Milk", "done": tr')).toEqual({
+      title: 'Milk',
+    });
+    expect(parsePartialJson('{"count": -')).toEqual({});
+    expect(parsePartialJson('{"text": "a\\u00')).toEqual({ text: 'a' });
+  });
+
+  it('should skip prose and code fences', () => {
+    expect(
+      parsePartialJson('Here it is:\n```json\n{"title": "Milk"}\n```')
+    ).toEqual({ title: 'Milk' });
+    expect(parsePartialJson('```json\n{"title": "Mi')).toEqual({
+      title: 'Mi',
+    });
+  });
+
+  it('should return undefined when there is no JSON', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('Sorry, I cannot do that.')).toBeUndefined();
+  });
+});
+
+describe('validateSchema', () => {
+  it('should accept matching values', () => {
+    expect(
+      validateSchema(schema, {
+        title: 'Milk',
+        priority: 'low',
+        tags: ['shopping'],
+        due: null,
+      })
+    ).toEqual([]);
+  });
+
+  it('should report where values do not match', () => {
+    expect(
+      validateSchema(schema, {
+        title: 'M',
+        tags: ['shopping', 3],
+        notes: 'x',
+      })
+    ).toEqual([
+      { path: 'priority', message: 'is required' },
+      { path: 'title', message: 'must be at least 2 characters' },
+      { path: 'tags[1]', message: 'expected string' },
+      { path: 'notes', message: 'is not allowed' },
+    ]);
+    expect(validateSchema(schema, [])).toEqual([
+      { path: '', message: 'expected object' },
+    ]);
+  });
+
+  it('should check numbers and combined schemas', () => {
+    const count = { type: 'integer', minimum: 0 };
+
+    expect(validateSchema(count, 1.5)).toEqual([
+      { path: '', message: 'expected integer' },
+    ]);
+    expect(validateSchema(count, -1)).toEqual([
+      { path: '', message: 'must be at least 0' },
+    ]);
+    expect(
+      validateSchema({ anyOf: [count, { const: 'none' }] }, 'none')
+    ).toEqual([]);
+    expect(
+      validateSchema({ anyOf: [count, { const: 'none' }] }, 'all')
+    ).toEqual([{ path: '', message: 'does not match any allowed schema' }]);
+  });
+});
+
+describe('parseObject', () => {
+  it('should repair output that is almost JSON', () => {
+    expect(
+      parseObject(schema, '```json\n{"title": "Milk", "priority": "low",}\n```')
+    ).toEqual({ title: 'Milk', priority: 'low' });
+  });
+
+  it('should reject invalid output', () => {
+    expect(() => parseObject(schema, 'No.')).toThrowError(
+      expect.objectContaining({
+        code: AIErrorCode.INVALID_OUTPUT,
+        message: 'Model output is not valid JSON',
+      })
+    );
+    expect(() => parseObject(schema, '{"title": "Milk"}')).toThrow(
+      'does not match the schema (priority: is required)'
+    );
+  });
+});
+
+describe('withSchemaPrompt', () => {
+  it('should add the schema to the system message', () => {
+    const messages = withSchemaPrompt(
+      [
+        { role: 'system', content: 'You plan tasks.' },
+        { role: 'user', content: 'Buy milk' },
+      ],
+      { type: 'object' }
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toBe(
+      'You plan tasks.\n\nRespond only with JSON that matches this JSON Schema:\n{"type":"object"}'
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CircuitBreaker,
+  isProviderFailure,
+  resolveRouting,
+  retryDelay,
+  sleep,
+} from '../routing';
+import { AIError, AIErrorCode } from '../errors';
+
+describe('resolveRouting', () => {
+  it('should fill in defaults', () => {
+    expect(resolveRouting()).toEqual({
+      retries: 2,
+      retryDelay: 500,
+      maxRetryDelay: 8000,
+      fallback: true,
+      fallbackModels: {},
+      failureThreshold: 3,
+      resetTimeout: 30000,
+    });
+  });
+
+  it('should turn everything off for false', () => {
+    expect(resolveRouting(false)).toMatchObject({
+      retries: 0,
+      fallback: false,
+      failureThreshold: Infinity,
+    });
+    expect(resolveRouting({ circuitBreaker: false }).failureThreshold).toBe(
+      Infinity
+    );
+  });
+});
+
+describe('retryDelay', () => {
+  it('should back off exponentially up to the limit', () => {
+    const settings = resolveRouting({ retryDelay: 100, maxRetryDelay: 350 });
+
+    expect(
+      [0, 1, 2, 3].map((attempt) => retryDelay(attempt, settings))
+    ).toEqual([100, 200, 350, 350]);
+  });
+});
+
+describe('isProviderFailure', () => {
+  it('should only match errors from failing providers', () => {
+    expect(isProviderFailure(new AIError(AIErrorCode.NETWORK_ERROR))).toBe(
+      true
+    );
+    expect(isProviderFailure(new AIError(AIErrorCode.INFERENCE_FAILED))).toBe(
+      true
+    );
+    expect(isProviderFailure(new AIError(AIErrorCode.ABORTED))).toBe(false);
+    expect(isProviderFailure(new Error('Bug'))).toBe(false);
+  });
+});
+
+describe('sleep', () => {
+  it('should stop waiting when aborted', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(10000, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ code: AIErrorCode.ABORTED });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after repeated failures and reopen after a failed trial', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const onChange = vi.fn();
+    const breaker = new CircuitBreaker(2, 1000, onChange);
+
+    breaker.failure('ollama');
+    expect(breaker.allow('ollama')).toBe(true);
+    breaker.failure('ollama');
+    expect(breaker.state('ollama')).toBe('open');
+    expect(breaker.allow('ollama')).toBe(false);
+
+    vi.setSystemTime(Date.now() + 1000);
+    expect(breaker.allow('ollama')).toBe(true);
+    expect(breaker.state('ollama')).toBe('half-open');
+    // Only one trial request at a time
+    expect(breaker.allow('ollama')).toBe(false);
+
+    breaker.failure('ollama');
+    expect(breaker.allow('ollama')).toBe(false);
+    expect(onChange.mock.calls.map(([, state]) => state)).toEqual([
+      'open',
+      'half-open',
+      'open',
+    ]);
+  });
+
+  it('should close again after a success', () => {
+    const breaker = new CircuitBreaker(1, 0, vi.fn());
+
+    breaker.failure('ollama');
+    expect(breaker.allow('ollama')).toBe(true);
+    breaker.success('ollama');
+
+    expect(breaker.state('ollama')).toBe('closed');
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseToolArguments,
+  parseToolCalls,
+  toolPrompt,
+  ToolCallStreamParser,
+  withToolPrompt,
+} from '../tools';
+import { AIErrorCode } from '../errors';
+import type { ToolDefinition } from '../types';
+
+const tools: ToolDefinition[] = [
+  {
+    name: 'create_note',
+    description: 'Create a new note',
+    parameters: {
+      type: 'object',
+      properties: { title: { type: 'string' } },
+      required: ['title'],
+    },
+  },
+];
+
+describe('parseToolArguments', () => {
+  it('should accept objects and JSON strings', () => {
+    expect(parseToolArguments('t', { a: 1 })).toEqual({ a: 1 });
+    expect(parseToolArguments('t', '{"a":1}')).toEqual({ a: 1 });
+    expect(parseToolArguments('t', '')).toEqual({});
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseToolArguments('t', '{"a":')).toThrowError(
+      expect.objectContaining({ code: AIErrorCode.INFERENCE_FAILED })
+    );
+    expect(() => parseToolArguments('t', '[1]')).toThrow('not an object');
+  });
+});
+
+describe('toolPrompt', () => {
+  it('should describe tools and the call format', () => {
+    const prompt = toolPrompt(tools);
+
+    expect(prompt).toContain('- create_note: Create a new note');
+    expect(prompt).toContain('"required":["title"]');
+    expect(prompt).toContain('<tool_call>{"name": "create_note"');
+  });
+
+  it('should follow the tool choice', () => {
+    expect(toolPrompt(tools, 'required')).toContain('must call at least one');
+    expect(toolPrompt(tools, { name: 'create_note' })).toContain(
+      'must call the create_note tool'
+    );
+  });
+});
+
+describe('withToolPrompt', () => {
+  it('should add the prompt to the system message', () => {
+    const messages = withToolPrompt(
+      [
+        { role: 'system', content: 'You take notes.' },
+        { role: 'user', content: 'Note: buy milk' },
+      ],
+      tools
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toMatch(/^You take notes\.\n\nYou have access/);
+  });
+
+  it('should write out earlier tool calls and results', () => {
+    const messages = withToolPrompt(
+      [
+        { role: 'user', content: 'Note: buy milk' },
+        {
+          role: 'assistant',
+          content: 'Creating it.',
+          toolCalls: [
+            { id: 'call_1', name: 'create_note', arguments: { title: 'Milk' } },
+          ],
+        },
+        { role: 'tool', content: '{"id":"n1"}', toolCallId: 'call_1' },
+      ],
+      tools
+    );
+
+    expect(messages[0].role).toBe('system');
+    expect(messages[2]).toEqual({
+      role: 'assistant',
+      content:
+        'Creating it.\n<tool_call>{"name":"create_note","arguments":{"title":"Milk"}}</tool_call>',
+    });
+    expect(messages[3]).toEqual({
+      role: 'user',
+      content: '<tool_result id="call_1">{"id":"n1"}</tool_result>',
+    });
+  });
+});
+
+describe('parseToolCalls', () => {
+  it('should take tool calls out of text', () => {
+    const result = parseToolCalls(
+      'Sure.\n<tool_call>{"name": "create_note", "arguments": {"title": "Milk"}}</tool_call>'
+    );
+
+    expect(result.content).toBe('Sure.');
+    expect(result.toolCalls).toEqual([
+      {
+        id: expect.stringMatching(/^call_/),
+        name: 'create_note',
+        arguments: { title: 'Milk' },
+      },
+    ]);
+  });
+
+  it('should accept args and leave malformed blocks in the text', () => {
+    const result = parseToolCalls(
+      '<tool_call>{"name": "a", "args": {"x": 1}}</tool_call><tool_call>oops</tool_call>'
+    );
+
+    expect(result.toolCalls.map((call) => call.arguments)).toEqual([{ x: 1 }]);
+    expect(result.content).toBe('<tool_call>oops</tool_call>');
+  });
+});
+
+describe('ToolCallStreamParser', () => {
+  it('should hold back tool call markup split across chunks', () => {
+    const parser = new ToolCallStreamParser();
+    const text =
+      'Saving. <tool_call>{"name": "create_note", "arguments": {"title": "Milk"}}</tool_call> Done.';
+    let shown = '';
+    // Feed the text three characters at a time
+    for (let i = 0; i < text.length; i += 3) {
+      shown += parser.push(text.slice(i, i + 3));
+      expect(shown).not.toContain('<');
+    }
+    const rest = parser.finish();
+
+    expect(shown + rest.content).toBe('Saving.  Done.');
+    expect(rest.toolCalls).toHaveLength(1);
+    expect(rest.toolCalls[0].name).toBe('create_note');
+  });
+
+  it('should release text that only looked like a tool call', () => {
+    const parser = new ToolCallStreamParser();
+
+    expect(parser.push('a <tool')).toBe('a ');
+    expect(parser.push('box> b')).toBe('<toolbox> b');
+    expect(parser.push('<tool_')).toBe('');
+    expect(parser.finish()).toEqual({ content: '<tool_', toolCalls: [] });
+  });
+});
@@ -6,17 +6,47 @@ import type {
   ProviderStatus,
   Message,
   ChatOptions,
+  ChatResult,
+  ToolChatOptions,
   StreamChunk,
+  JSONSchema,
+  ObjectOptions,
+  ObjectChunk,
+  DeepPartial,
+  EmbedOptions,
   ModelInfo,
   StateListener,
   Unsubscribe,
 } from './types';
 import { AIError, AIErrorCode } from './errors';
+import {
+  parseObject,
+  parsePartialJson,
+  withRetryPrompt,
+  withSchemaPrompt,
+} from './objects';
+import {
+  CircuitBreaker,
+  isProviderFailure,
+  isTransient,
+  resolveRouting,
+  retryDelay,
+  sleep,
+  type RoutingSettings,
+} from './routing';
 import { StateManager } from './state';
 import { createUIHelpers, type UIHelpers } from './ui';
 import { BrowserProvider } from './providers/browser';
 import { OllamaProvider } from './providers/ollama';
 
+/**
+ * A model and the provider serving it, where a request is routed.
+ */
+interface RouteTarget {
+  provider: Provider;
+  model: string;
+}
+
 /**
  * Normalize input to Message array.
  */
@@ -45,6 +75,9 @@ export class AI {
   private initPromise: Promise<void> | null = null;
   private downloadAbortController: AbortController | null = null;
   private debug: boolean;
+  private routing: RoutingSettings;
+  private breaker: CircuitBreaker;
+  private embeddingModel: string | undefined;
   private _ui: UIHelpers;
 
   /**
@@ -281,6 +314,14 @@ export class AI {
 
   constructor(config?: AIConfig) {
     this.debug = config?.debug ?? false;
+    this.embeddingModel = config?.embeddingModel;
+    this.routing = resolveRouting(config?.routing);
+    this.breaker = new CircuitBreaker(
+      this.routing.failureThreshold,
+      this.routing.resetTimeout,
+      (providerId, circuit) =>
+        this.stateManager.updateProviderStatus(providerId, { circuit })
+    );
     this.stateManager = new StateManager();
     this._ui = createUIHelpers(() => this.stateManager.getState());
 
@@ -299,19 +340,33 @@ export class AI {
 
   /**
    * Generate a chat completion.
+   * With `options.tools`, resolves to a `ChatResult` holding the tool calls
+   * the model made.
    */
+  async chat(input: string | Message[], options: ToolChatOptions): Promise<ChatResult>;
+  async chat(input: string | Message[], options?: ChatOptions): Promise<string>;
   async chat(
     input: string | Message[],
     options?: ChatOptions
-  ): Promise<string> {
+  ): Promise<string | ChatResult> {
     await this.ready();
 
     const messages = normalizeInput(input);
-    const { provider, model } = this.getActiveProviderAndModel(options);
-
-    this.log(`Chat with model ${model} via provider ${provider.id}`);
-
-    return provider.chat(messages, { ...options, model });
+    const target = this.getActiveProviderAndModel(options);
+
+    const result = await this.route(
+      target,
+      options?.signal,
+      (provider, candidate) => {
+        this.log(`Chat with model ${candidate} via provider ${provider.id}`);
+        return provider.chat(messages, { ...options, model: candidate });
+      }
+    );
+    if (options?.tools) {
+      // Providers that don't support tools answer in text
+      return typeof result === 'string' ? { content: result, toolCalls: [] } : result;
+    }
+    return typeof result === 'string' ? result : result.content;
   }
 
   /**
@@ -324,11 +379,173 @@ export class AI {
     await this.ready();
 
     const messages = normalizeInput(input);
-    const { provider, model } = this.getActiveProviderAndModel(options);
+    const target = this.getActiveProviderAndModel(options);
+
+    yield* this.routeStream(target, options?.signal, (provider, candidate) => {
+      this.log(`Stream with model ${candidate} via provider ${provider.id}`);
+      return provider.stream(messages, { ...options, model: candidate });
+    });
+  }
+
+  /**
+   * Generate a JSON value matching a schema.
+   * The schema is passed to providers that can constrain their output to it;
+   * the result is then repaired if needed and validated, and the model is
+   * asked again (up to `options.maxRetries` times) when it is invalid.
+   * Rejects with `INVALID_OUTPUT` if no valid value was generated.
+   */
+  async generateObject<T = unknown>(
+    schema: JSONSchema,
+    input: string | Message[],
+    options: ObjectOptions = {}
+  ): Promise<T> {
+    await this.ready();
+
+    const { maxRetries = 2, ...chatOptions } = options;
+    const target = this.getActiveProviderAndModel(options);
+    let messages = withSchemaPrompt(normalizeInput(input), schema);
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await this.route(
+        target,
+        options.signal,
+        (provider, candidate) => {
+          this.log(
+            `Generate object with model ${candidate} via provider ${provider.id}`
+          );
+          return provider.chat(messages, {
+            ...chatOptions,
+            model: candidate,
+            responseFormat: { type: 'json', schema },
+          });
+        }
+      );
+      const output = typeof result === 'string' ? result : result.content;
+
+      try {
+        return parseObject(schema, output) as T;
+      } catch (error) {
+        if (attempt >= maxRetries || !(error instanceof AIError)) throw error;
+        this.log(`Retrying invalid output: ${error.message}`);
+        messages = withRetryPrompt(messages, output, error);
+      }
+    }
+  }
+
+  /**
+   * Generate a JSON value matching a schema, yielding the partial object as
+   * it streams in. The last chunk holds the validated object.
+   * If the output is invalid and the model is asked again, partial objects
+   * start over from the new attempt.
+   */
+  async *streamObject<T = unknown>(
+    schema: JSONSchema,
+    input: string | Message[],
+    options: ObjectOptions = {}
+  ): AsyncGenerator<ObjectChunk<T>> {
+    await this.ready();
+
+    const { maxRetries = 2, ...chatOptions } = options;
+    const target = this.getActiveProviderAndModel(options);
+    let messages = withSchemaPrompt(normalizeInput(input), schema);
 
-    this.log(`Stream with model ${model} via provider ${provider.id}`);
+    for (let attempt = 0; ; attempt++) {
+      let output = '';
+      let last: string | undefined;
 
-    yield* provider.stream(messages, { ...options, model });
+      const chunks = this.routeStream(
+        target,
+        options.signal,
+        (provider, candidate) => {
+          this.log(
+            `Stream object with model ${candidate} via provider ${provider.id}`
+          );
+          return provider.stream(messages, {
+            ...chatOptions,
+            model: candidate,
+            responseFormat: { type: 'json', schema },
+          });
+        }
+      );
+      for await (const chunk of chunks) {
+        output += chunk.content;
+        const partial = parsePartialJson(output);
+        if (partial === undefined) continue;
+
+        // Only yield when something new was parsed
+        const serialized = JSON.stringify(partial);
+        if (serialized === last) continue;
+        last = serialized;
+        yield { done: false, partial: partial as DeepPartial<T> };
+      }
+
+      let object: T;
+      try {
+        object = parseObject(schema, output) as T;
+      } catch (error) {
+        if (attempt >= maxRetries || !(error instanceof AIError)) throw error;
+        this.log(`Retrying invalid output: ${error.message}`);
+        messages = withRetryPrompt(messages, output, error);
+        continue;
+      }
+      yield { done: true, object };
+      return;
+    }
+  }
+
+  /**
+   * Generate embeddings: one vector for a string, or one per string for an
+   * array. Texts are sent to the provider in batches of `options.batchSize`.
+   * Uses `options.model`, the configured `embeddingModel`, or the first
+   * embedding model available.
+   */
+  async embed(input: string, options?: EmbedOptions): Promise<number[]>;
+  async embed(input: string[], options?: EmbedOptions): Promise<number[][]>;
+  async embed(
+    input: string | string[],
+    options: EmbedOptions = {}
+  ): Promise<number[] | number[][]> {
+    await this.ready();
+
+    const { batchSize = 32, signal } = options;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new AIError(
+        AIErrorCode.CONFIGURATION_ERROR,
+        `batchSize must be a positive integer, got ${batchSize}`
+      );
+    }
+
+    const texts = typeof input === 'string' ? [input] : input;
+    const { provider, model } = this.getEmbeddingProviderAndModel(options);
+    const embed = provider.embed?.bind(provider);
+    if (!embed) {
+      throw new AIError(
+        AIErrorCode.PROVIDER_NOT_AVAILABLE,
+        `Provider ${provider.id} does not support embeddings`
+      );
+    }
+
+    this.log(
+      `Embed ${texts.length} texts with model ${model} via provider ${provider.id}`
+    );
+
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      if (signal?.aborted) {
+        throw new AIError(AIErrorCode.ABORTED, 'Request was aborted');
+      }
+      const batch = texts.slice(start, start + batchSize);
+      // Vectors from different models can't be compared, so no fallback
+      const batchVectors = await this.route(
+        { provider, model },
+        signal,
+        () => embed(batch, { model, signal }),
+        false
+      );
+      vectors.push(...batchVectors);
+    }
+
+    return typeof input === 'string' ? vectors[0] : vectors;
   }
 
   /**
@@ -480,8 +697,13 @@ export class AI {
   private autoSelectModel(): void {
     const state = this.stateManager.getState();
 
+    // Embedding models can't chat
+    const chatModels = state.models.filter(
+      (m) => m.capabilities?.chat !== false
+    );
+
     // First, try to find a ready or cached browser model
-    const browserModel = state.models.find(
+    const browserModel = chatModels.find(
       (m) =>
         m.provider === 'browser' &&
         (m.status.state === 'ready' || m.status.state === 'cached')
@@ -492,28 +714,25 @@ export class AI {
       return;
     }
 
-    // Then try any ready Ollama model (Ollama models are always "ready" when listed)
-    const ollamaModel = state.models.find(
-      (m) => m.provider === 'ollama'
+    // Then try any server model (Ollama and OpenAI-compatible models are always "ready" when listed)
+    const serverModel = chatModels.find(
+      (m) => this.providerInstances.get(m.provider)?.type !== 'browser'
     );
-    if (ollamaModel) {
-      this.stateManager.setActiveModel(ollamaModel.id);
-      this.stateManager.setActiveProvider(ollamaModel.provider);
+    if (serverModel) {
+      this.stateManager.setActiveModel(serverModel.id);
+      this.stateManager.setActiveProvider(serverModel.provider);
       return;
     }
 
     // No ready models - don't select anything
-    // User will need to download a browser model or start Ollama
+    // User will need to download a browser model or start a server
     this.log('No ready models available for auto-selection');
   }
 
   /**
    * Get active provider and model for inference.
    */
-  private getActiveProviderAndModel(options?: ChatOptions): {
-    provider: Provider;
-    model: string;
-  } {
+  private getActiveProviderAndModel(options?: ChatOptions): RouteTarget {
     const state = this.stateManager.getState();
 
     // Use model from options or active model
@@ -545,6 +764,156 @@ export class AI {
     return { provider, model: modelId };
   }
 
+  /**
+   * Get the provider and model for embeddings.
+   */
+  private getEmbeddingProviderAndModel(options: EmbedOptions): {
+    provider: Provider;
+    model: string;
+  } {
+    const modelId =
+      options.model ??
+      this.embeddingModel ??
+      this.stateManager
+        .getState()
+        .models.find(
+          (m) =>
+            m.capabilities?.embeddings &&
+            (m.status.state === 'ready' ||
+              m.status.state === 'cached' ||
+              this.providerInstances.get(m.provider)?.type !== 'browser')
+        )?.id;
+
+    if (!modelId) {
+      throw new AIError(
+        AIErrorCode.MODEL_NOT_FOUND,
+        'No embedding model available. Pull one with Ollama (e.g. nomic-embed-text) or download a browser embedding model.'
+      );
+    }
+
+    const provider = this.findProviderForModel(modelId);
+    if (!provider) {
+      throw new AIError(
+        AIErrorCode.MODEL_NOT_FOUND,
+        `Model ${modelId} not found`
+      );
+    }
+
+    return { provider, model: modelId };
+  }
+
+  /**
+   * Send a request to a model's provider, retrying transient failures with
+   * backoff and falling back to models on other providers when it fails.
+   * Providers whose circuit is open are skipped.
+   */
+  private async route<T>(
+    target: RouteTarget,
+    signal: AbortSignal | undefined,
+    run: (provider: Provider, model: string) => Promise<T>,
+    fallback = this.routing.fallback
+  ): Promise<T> {
+    const candidates = fallback
+      ? [target, ...this.fallbackTargets(target.model)]
+      : [target];
+    const failedProviders = new Set<string>();
+    let lastError: unknown;
+
+    for (const { provider, model: candidate } of candidates) {
+      if (failedProviders.has(provider.id)) continue;
+      if (!this.breaker.allow(provider.id)) {
+        lastError ??= new AIError(
+          AIErrorCode.PROVIDER_NOT_AVAILABLE,
+          `Provider ${provider.id} is paused after repeated failures`
+        );
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await run(provider, candidate);
+          this.breaker.success(provider.id);
+          this.stateManager.setLastRequest({
+            provider: provider.id,
+            model: candidate,
+            fallback: candidate !== target.model,
+          });
+          return result;
+        } catch (error) {
+          if (!isProviderFailure(error)) {
+            this.breaker.cancel(provider.id);
+            throw error;
+          }
+          lastError = error;
+
+          // A request counts as one failure, once its retries are used up
+          if (!isTransient(error) || attempt >= this.routing.retries) {
+            this.breaker.failure(provider.id);
+            break;
+          }
+          const delay = retryDelay(attempt, this.routing);
+          this.log(`Retrying provider ${provider.id} in ${delay}ms`);
+          await sleep(delay, signal);
+        }
+      }
+
+      failedProviders.add(provider.id);
+      this.log(`Provider ${provider.id} failed:`, lastError);
+    }
+
+    throw (
+      lastError ??
+      new AIError(
+        AIErrorCode.PROVIDER_NOT_AVAILABLE,
+        `No provider available for model ${target.model}`
+      )
+    );
+  }
+
+  /**
+   * Route a streaming request. Retries and fallback only happen until the
+   * first chunk arrives; after that, errors are thrown to the caller.
+   */
+  private async *routeStream(
+    target: RouteTarget,
+    signal: AbortSignal | undefined,
+    run: (provider: Provider, model: string) => AsyncGenerator<StreamChunk>
+  ): AsyncGenerator<StreamChunk> {
+    let served: Provider | undefined;
+    const { chunks, first } = await this.route(
+      target,
+      signal,
+      async (provider, model) => {
+        const chunks = run(provider, model);
+        const first = await chunks.next();
+        served = provider;
+        return { chunks, first };
+      }
+    );
+
+    try {
+      for (let next = first; !next.done; next = await chunks.next()) {
+        yield next.value;
+      }
+    } catch (error) {
+      if (served && isProviderFailure(error)) this.breaker.failure(served.id);
+      throw error;
+    } finally {
+      await chunks.return(undefined);
+    }
+  }
+
+  /**
+   * Models to fall back to when a model's provider fails, as configured in
+   * `routing.fallbackModels`. Models are never swapped for unrelated ones.
+   */
+  private fallbackTargets(modelId: string): RouteTarget[] {
+    return (this.routing.fallbackModels[modelId] ?? []).flatMap((model) => {
+      const provider = this.findProviderForModel(model);
+      return provider ? [{ provider, model }] : [];
+    });
+  }
+
   /**
    * Find the provider for a given model.
    */
@@ -18,6 +18,8 @@ export enum AIErrorCode {
   DOWNLOAD_CANCELLED = 'DOWNLOAD_CANCELLED',
   /** Inference request failed */
   INFERENCE_FAILED = 'INFERENCE_FAILED',
+  /** Model output wasn't valid JSON or didn't match the schema */
+  INVALID_OUTPUT = 'INVALID_OUTPUT',
   /** Request timed out */
   TIMEOUT = 'TIMEOUT',
   /** Request was aborted */
@@ -49,6 +51,8 @@ const ERROR_MESSAGES: Record<AIErrorCode, string> = {
   [AIErrorCode.DOWNLOAD_CANCELLED]: 'Model download was cancelled.',
   [AIErrorCode.INFERENCE_FAILED]:
     'Inference request failed. The model may have encountered an error.',
+  [AIErrorCode.INVALID_OUTPUT]:
+    'The model output did not match the requested format. Try a larger model or a simpler schema.',
   [AIErrorCode.TIMEOUT]:
     'Request timed out. The server may be overloaded or the model too large.',
   [AIErrorCode.ABORTED]: 'Request was aborted.',
@@ -37,6 +37,7 @@ export const ai = new AI();
 
 export { BrowserProvider } from './providers/browser';
 export { OllamaProvider } from './providers/ollama';
+export { OpenAICompatibleProvider } from './providers/openai-compatible';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Errors
@@ -44,6 +45,12 @@ export { OllamaProvider } from './providers/ollama';
 
 export { AIError, AIErrorCode } from './errors';
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Structured Output
+// ─────────────────────────────────────────────────────────────────────────────
+
+export { parsePartialJson, validateSchema } from './objects';
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -54,14 +61,34 @@ export type {
   ChatOptions,
   StreamChunk,
 
+  // Tool types
+  JSONSchema,
+  ToolDefinition,
+  ToolChoice,
+  ToolCall,
+  ChatResult,
+  ToolChatOptions,
+
+  // Structured output types
+  ResponseFormat,
+  ObjectOptions,
+  ObjectChunk,
+  DeepPartial,
+  SchemaIssue,
+
+  // Embedding types
+  EmbedOptions,
+
   // Model types
   ModelInfo,
   ModelStatus,
+  ModelCapabilities,
 
   // Provider types
   Provider,
   ProviderType,
   ProviderStatus,
+  CircuitState,
   BrowserProviderInterface,
 
   // State types
@@ -71,6 +98,7 @@ export type {
 
   // Configuration types
   AIConfig,
+  RoutingConfig,
   BrowserProviderConfig,
   OllamaProviderConfig,
   OpenAICompatibleProviderConfig,
@@ -0,0 +1,437 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nearstack-dev/ai Structured Output
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { JSONSchema, Message, SchemaIssue } from './types';
+import { AIError, AIErrorCode } from './errors';
+
+/**
+ * Ask for JSON matching the schema in the system message. Providers with
+ * constrained output enforce the schema too, but models answer better when
+ * they are also told what is expected.
+ */
+export function withSchemaPrompt(
+  messages: Message[],
+  schema: JSONSchema
+): Message[] {
+  const prompt = `Respond only with JSON that matches this JSON Schema:\n${JSON.stringify(schema)}`;
+  if (messages[0]?.role === 'system') {
+    return [
+      { ...messages[0], content: `${messages[0].content}\n\n${prompt}` },
+      ...messages.slice(1),
+    ];
+  }
+  return [{ role: 'system', content: prompt }, ...messages];
+}
+
+/**
+ * Continue a conversation after invalid output, asking the model to correct it.
+ */
+export function withRetryPrompt(
+  messages: Message[],
+  output: string,
+  error: AIError
+): Message[] {
+  return [
+    ...messages,
+    { role: 'assistant', content: output },
+    {
+      role: 'user',
+      content: `That answer was invalid: ${error.message}. Respond again with only JSON that matches the schema.`,
+    },
+  ];
+}
+
+/**
+ * Parse model output as JSON and check it against the schema.
+ * Output that isn't quite JSON (wrapped in a code fence, with a trailing
+ * comma, or cut off) is repaired first.
+ */
+export function parseObject(schema: JSONSchema, text: string): unknown {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    value = parsePartialJson(text);
+  }
+  if (value === undefined) {
+    throw new AIError(
+      AIErrorCode.INVALID_OUTPUT,
+      'Model output is not valid JSON'
+    );
+  }
+
+  const issues = validateSchema(schema, value);
+  if (issues.length > 0) {
+    const details = issues
+      .map((issue) =>
+        issue.path ? `${issue.path}: ${issue.message}` : issue.message
+      )
+      .join('; ');
+    throw new AIError(
+      AIErrorCode.INVALID_OUTPUT,
+      `Model output does not match the schema (${details})`
+    );
+  }
+  return value;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Partial JSON
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse JSON that may be incomplete, as it is while streaming: unclosed
+ * strings, arrays and objects are closed, and keys without a value yet are
+ * left out. Prose and code fences around the JSON are skipped.
+ * Returns undefined if no value can be read.
+ */
+export function parsePartialJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)(?:```|$)/.exec(text);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[[{]/);
+  try {
+    return new PartialJsonParser(
+      start === -1 ? body.trim() : body.slice(start)
+    ).parse();
+  } catch {
+    return undefined;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const LITERALS: [string, unknown][] = [
+  ['true', true],
+  ['false', false],
+  ['null', null],
+];
+
+/**
+ * A lenient JSON parser that returns what it has read when the text ends.
+ * Throws a SyntaxError on text that can't become JSON.
+ */
+class PartialJsonParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    return this.value();
+  }
+
+  /** Returns undefined when the text ends before a value can be read */
+  private value(): unknown {
+    this.skipWhitespace();
+    const char = this.text[this.pos];
+    if (char === undefined) return undefined;
+    if (char === '{') return this.object();
+    if (char === '[') return this.array();
+    if (char === '"') return this.string();
+    if (char === '-' || (char >= '0' && char <= '9')) return this.number();
+    return this.literal();
+  }
+
+  private object(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++;
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === undefined) return result;
+      if (char === '}') {
+        this.pos++;
+        return result;
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+      if (char !== '"') {
+        throw new SyntaxError(`Unexpected "${char}" in object`);
+      }
+
+      const key = this.string();
+      this.skipWhitespace();
+      if (this.pos >= this.text.length) return result;
+      if (this.text[this.pos] !== ':') {
+        throw new SyntaxError(`Expected ":" after key "${key}"`);
+      }
+      this.pos++;
+      const value = this.value();
+      if (value !== undefined) result[key] = value;
+    }
+  }
+
+  private array(): unknown[] {
+    const result: unknown[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === undefined) return result;
+      if (char === ']') {
+        this.pos++;
+        return result;
+      }
+      if (char === ',') {
+        this.pos++;
+        continue;
+      }
+      const value = this.value();
+      if (value !== undefined) result.push(value);
+    }
+  }
+
+  private string(): string {
+    let result = '';
+    this.pos++;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === '"') return result;
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+
+      const escape = this.text[this.pos];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        const hex = this.text.slice(this.pos + 1, this.pos + 5);
+        // Drop an escape that was cut off
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          this.pos = this.text.length;
+          break;
+        }
+        result += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 5;
+      } else {
+        result += ESCAPES[escape] ?? escape;
+        this.pos++;
+      }
+    }
+    return result;
+  }
+
+  private number(): number | undefined {
+    const pattern = /-?\d*(?:\.\d*)?(?:[eE][+-]?\d*)?/y;
+    pattern.lastIndex = this.pos;
+    const text = pattern.exec(this.text)?.[0] ?? '';
+    this.pos += text.length;
+
+    const value = Number(text);
+    if (text !== '-' && !Number.isNaN(value)) return value;
+    // A number cut off after its sign or exponent marker
+    if (this.pos >= this.text.length) {
+      const partial = parseFloat(text);
+      return Number.isNaN(partial) ? undefined : partial;
+    }
+    throw new SyntaxError(`Invalid number "${text}"`);
+  }
+
+  private literal(): unknown {
+    for (const [word, value] of LITERALS) {
+      const rest = this.text.slice(this.pos, this.pos + word.length);
+      if (rest === word) {
+        this.pos += word.length;
+        return value;
+      }
+      if (
+        this.pos + rest.length === this.text.length &&
+        word.startsWith(rest)
+      ) {
+        this.pos = this.text.length;
+        return undefined;
+      }
+    }
+    throw new SyntaxError(`Unexpected "${this.text[this.pos]}"`);
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.text[this.pos] ?? '')) this.pos++;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schema Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check a value against a JSON Schema.
+ * Supports the keywords models are usually given: `type`, `enum`, `const`,
+ * `properties`, `required`, `additionalProperties`, `items`, `minItems`,
+ * `maxItems`, `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`,
+ * `anyOf`, `oneOf` and `allOf`. Other keywords are ignored.
+ */
+export function validateSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path = ''
+): SchemaIssue[] {
+  const issue = (message: string): SchemaIssue[] => [{ path, message }];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return issue(`expected ${types.join(' or ')}`);
+    }
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option) => isEqual(option, value))
+  ) {
+    return issue(
+      `expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`
+    );
+  }
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    return issue(`expected ${JSON.stringify(schema.const)}`);
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const options = schema[keyword];
+    if (
+      Array.isArray(options) &&
+      !options.some(
+        (option) =>
+          validateSchema(option as JSONSchema, value, path).length === 0
+      )
+    ) {
+      issues.push({ path, message: 'does not match any allowed schema' });
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const part of schema.allOf) {
+      issues.push(...validateSchema(part as JSONSchema, value, path));
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (
+      typeof schema.minLength === 'number' &&
+      value.length < schema.minLength
+    ) {
+      issues.push({
+        path,
+        message: `must be at least ${schema.minLength} characters`,
+      });
+    }
+    if (
+      typeof schema.maxLength === 'number' &&
+      value.length > schema.maxLength
+    ) {
+      issues.push({
+        path,
+        message: `must be at most ${schema.maxLength} characters`,
+      });
+    }
+    if (
+      typeof schema.pattern === 'string' &&
+      !new RegExp(schema.pattern, 'u').test(value)
+    ) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `must have at least ${schema.minItems} items`,
+      });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `must have at most ${schema.maxItems} items`,
+      });
+    }
+    if (isSchema(schema.items)) {
+      const items = schema.items;
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(items, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const property = properties[key];
+      if (isSchema(property)) {
+        issues.push(...validateSchema(property, item, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not allowed' });
+      } else if (isSchema(schema.additionalProperties)) {
+        issues.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            item,
+            joinPath(path, key)
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+function matchesType(type: unknown, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function isSchema(value: unknown): value is JSONSchema {
+  return isPlainObject(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
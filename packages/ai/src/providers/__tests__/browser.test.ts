@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BrowserProvider } from '../browser';
+import { AIErrorCode } from '../../errors';
+
+const { CreateMLCEngine } = vi.hoisted(() => ({ CreateMLCEngine: vi.fn() }));
+vi.mock('@mlc-ai/web-llm', () => ({ CreateMLCEngine }));
+
+const CHAT_MODEL = 'Qwen2.5-1.5B-Instruct-q4f16_1-MLC';
+const EMBEDDING_MODEL = 'snowflake-arctic-embed-s-q0f32-MLC-b4';
+
+function createEngine() {
+  return {
+    unload: vi.fn(),
+    chat: {
+      completions: {
+        create: vi.fn().mockResolvedValue({
+          choices: [{ message: { content: 'Hi' } }],
+        }),
+      },
+    },
+    embeddings: {
+      create: vi.fn().mockResolvedValue({ data: [{ embedding: [1, 0] }] }),
+    },
+  };
+}
+
+describe('BrowserProvider', () => {
+  let provider: BrowserProvider;
+
+  beforeEach(() => {
+    CreateMLCEngine.mockReset();
+    CreateMLCEngine.mockImplementation(async () => createEngine());
+    provider = new BrowserProvider();
+  });
+
+  describe('embed', () => {
+    it('should keep the chat model loaded', async () => {
+      await provider.downloadModel(EMBEDDING_MODEL);
+      await provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: CHAT_MODEL,
+      });
+      const chatEngine = await CreateMLCEngine.mock.results[1].value;
+
+      await expect(
+        provider.embed(['text'], { model: EMBEDDING_MODEL })
+      ).resolves.toEqual([[1, 0]]);
+      await provider.chat([{ role: 'user', content: 'Again' }], {
+        model: CHAT_MODEL,
+      });
+
+      expect(chatEngine.unload).not.toHaveBeenCalled();
+      expect(chatEngine.chat.completions.create).toHaveBeenCalledTimes(2);
+      // Download, chat model, embedding model
+      expect(CreateMLCEngine).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not download embedding models', async () => {
+      await expect(
+        provider.embed(['text'], { model: EMBEDDING_MODEL })
+      ).rejects.toMatchObject({ code: AIErrorCode.MODEL_NOT_FOUND });
+      expect(CreateMLCEngine).not.toHaveBeenCalled();
+    });
+  });
+});
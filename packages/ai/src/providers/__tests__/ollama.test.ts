@@ -143,9 +143,34 @@ describe('OllamaProvider', () => {
         quantization: 'Q4_0',
         contextLength: 4096,
         status: { state: 'ready' },
+        capabilities: { chat: true, embeddings: false },
       });
     });
 
+    it('should detect embedding models', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            models: [
+              { name: 'nomic-embed-text:latest', size: 274000000 },
+              {
+                name: 'custom:latest',
+                size: 100000000,
+                details: { families: ['bert'] },
+              },
+            ],
+          }),
+      });
+
+      const models = await provider.listModels();
+
+      expect(models.map((m) => m.capabilities)).toEqual([
+        { chat: false, embeddings: true },
+        { chat: false, embeddings: true },
+      ]);
+    });
+
     it('should detect context length from model name', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -243,6 +268,224 @@ describe('OllamaProvider', () => {
         stop: ['END'],
       });
     });
+
+    it('should send the response format', async () => {
+      const schema = {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+      };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model: 'llama3.2:3b',
+            message: { role: 'assistant', content: '{"title":"Milk"}' },
+            done: true,
+          }),
+      });
+
+      await provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'llama3.2:3b',
+        responseFormat: { type: 'json', schema },
+      });
+      await provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'llama3.2:3b',
+        responseFormat: { type: 'json' },
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).format).toEqual(
+        schema
+      );
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).format).toBe('json');
+    });
+  });
+
+  describe('embed', () => {
+    it('should send texts to /api/embed', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model: 'nomic-embed-text',
+            embeddings: [
+              [0.1, 0.2],
+              [0.3, 0.4],
+            ],
+          }),
+      });
+
+      const vectors = await provider.embed(['first', 'second'], {
+        model: 'nomic-embed-text',
+      });
+
+      expect(vectors).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:11434/api/embed',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        model: 'nomic-embed-text',
+        input: ['first', 'second'],
+      });
+    });
+
+    it('should throw error when request fails', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      await expect(
+        provider.embed(['text'], { model: 'missing' })
+      ).rejects.toMatchObject({ code: AIErrorCode.NETWORK_ERROR });
+    });
+  });
+
+  describe('tools', () => {
+    const tools = [
+      {
+        name: 'get_weather',
+        description: 'Get the weather for a city',
+        parameters: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+    ];
+
+    it('should send tools and return tool calls', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model: 'llama3.2:3b',
+            message: {
+              role: 'assistant',
+              content: '',
+              tool_calls: [
+                {
+                  function: {
+                    name: 'get_weather',
+                    arguments: { city: 'Paris' },
+                  },
+                },
+              ],
+            },
+            done: true,
+          }),
+      });
+
+      const result = await provider.chat(
+        [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              {
+                id: 'call_0',
+                name: 'get_weather',
+                arguments: { city: 'Rome' },
+              },
+            ],
+          },
+          { role: 'tool', content: 'Sunny', toolCallId: 'call_0' },
+        ],
+        { model: 'llama3.2:3b', tools }
+      );
+
+      expect(result).toEqual({
+        content: '',
+        toolCalls: [
+          {
+            id: expect.any(String),
+            name: 'get_weather',
+            arguments: { city: 'Paris' },
+          },
+        ],
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'get_weather',
+            description: 'Get the weather for a city',
+            parameters: tools[0].parameters,
+          },
+        },
+      ]);
+      expect(body.messages[1].tool_calls).toEqual([
+        { function: { name: 'get_weather', arguments: { city: 'Rome' } } },
+      ]);
+      expect(body.messages[2]).toEqual({ role: 'tool', content: 'Sunny' });
+    });
+
+    it('should not send tools when the tool choice is none', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model: 'llama3.2:3b',
+            message: { role: 'assistant', content: 'It is sunny.' },
+            done: true,
+          }),
+      });
+
+      const result = await provider.chat(
+        [{ role: 'user', content: 'Weather in Paris?' }],
+        { model: 'llama3.2:3b', tools, toolChoice: 'none' }
+      );
+
+      expect(result).toEqual({ content: 'It is sunny.', toolCalls: [] });
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).tools).toBeUndefined();
+    });
+
+    it('should report streamed tool calls on the last chunk', async () => {
+      const chunks = [
+        '{"model":"llama3.2:3b","message":{"role":"assistant","content":"","tool_calls":[{"function":{"name":"get_weather","arguments":{"city":"Paris"}}}]},"done":false}\n',
+        '{"model":"llama3.2:3b","message":{"role":"assistant","content":""},"done":true}\n',
+      ];
+      let chunkIndex = 0;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        body: {
+          getReader: () => ({
+            read: () =>
+              Promise.resolve(
+                chunkIndex < chunks.length
+                  ? {
+                      done: false,
+                      value: new TextEncoder().encode(chunks[chunkIndex++]),
+                    }
+                  : { done: true, value: undefined }
+              ),
+          }),
+        },
+      });
+
+      const results = [];
+      for await (const chunk of provider.stream(
+        [{ role: 'user', content: 'Weather in Paris?' }],
+        { model: 'llama3.2:3b', tools }
+      )) {
+        results.push(chunk);
+      }
+
+      expect(results[0].toolCalls).toBeUndefined();
+      expect(results[1].toolCalls).toEqual([
+        expect.objectContaining({
+          name: 'get_weather',
+          arguments: { city: 'Paris' },
+        }),
+      ]);
+    });
   });
 
   describe('stream', () => {
@@ -0,0 +1,614 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  vi,
+} from 'vitest';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OpenAICompatibleProvider } from '../openai-compatible';
+import { AIErrorCode } from '../../errors';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | null;
+}
+
+type Handler = (
+  request: RecordedRequest,
+  res: ServerResponse
+) => void | Promise<void>;
+
+// Mock server standing in for llama.cpp server, LM Studio or vLLM
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: RecordedRequest[];
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sse(res: ServerResponse, events: string[]) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const event of events) res.write(`data: ${event}\n\n`);
+  res.end();
+}
+
+function delta(content: string, finishReason: string | null = null) {
+  return JSON.stringify({
+    model: 'qwen2.5-7b',
+    choices: [{ delta: { content }, finish_reason: finishReason }],
+  });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const request: RecordedRequest = {
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : null,
+      };
+      requests.push(request);
+      void handler(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let provider: OpenAICompatibleProvider;
+
+  beforeEach(() => {
+    requests = [];
+    handler = (_, res) => json(res, 404, { error: { message: 'Not found' } });
+    provider = new OpenAICompatibleProvider({ id: 'lmstudio', baseUrl });
+  });
+
+  describe('constructor', () => {
+    it('should use the given id and type', () => {
+      expect(provider.id).toBe('lmstudio');
+      expect(provider.type).toBe('openai-compatible');
+    });
+
+    it('should require an id and a baseUrl', () => {
+      expect(
+        () => new OpenAICompatibleProvider({ id: '', baseUrl })
+      ).toThrowError(
+        expect.objectContaining({ code: AIErrorCode.CONFIGURATION_ERROR })
+      );
+    });
+
+    it('should accept base URLs ending in /v1', async () => {
+      handler = (_, res) => json(res, 200, { object: 'list', data: [] });
+      const withVersion = new OpenAICompatibleProvider({
+        id: 'vllm',
+        baseUrl: `${baseUrl}/v1/`,
+      });
+
+      await withVersion.listModels();
+
+      expect(requests[0].url).toBe('/v1/models');
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should return true when server is reachable', async () => {
+      handler = (_, res) => json(res, 200, { object: 'list', data: [] });
+
+      expect(await provider.isAvailable()).toBe(true);
+    });
+
+    it('should return false when server returns error', async () => {
+      handler = (_, res) => json(res, 500, {});
+
+      expect(await provider.isAvailable()).toBe(false);
+    });
+
+    it('should return false when server is not reachable', async () => {
+      const offline = new OpenAICompatibleProvider({
+        id: 'offline',
+        baseUrl: 'http://127.0.0.1:1',
+      });
+
+      expect(await offline.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('listModels', () => {
+    it('should return list of models', async () => {
+      handler = (_, res) =>
+        json(res, 200, {
+          object: 'list',
+          data: [
+            { id: 'qwen2.5-7b', object: 'model', owned_by: 'organization' },
+            { id: 'llama-3.1-8b', object: 'model', max_model_len: 32768 },
+            {
+              id: 'phi-3-mini.gguf',
+              object: 'model',
+              meta: { n_ctx_train: 131072, size: 2000000000 },
+            },
+          ],
+        });
+
+      const models = await provider.listModels();
+
+      expect(models).toHaveLength(3);
+      expect(models[0]).toEqual({
+        id: 'qwen2.5-7b',
+        name: 'qwen2.5-7b',
+        provider: 'lmstudio',
+        size: 0,
+        contextLength: 4096,
+        status: { state: 'ready' },
+        capabilities: { chat: true, embeddings: false },
+      });
+      expect(models[1].contextLength).toBe(32768);
+      expect(models[2]).toMatchObject({
+        contextLength: 131072,
+        size: 2000000000,
+      });
+    });
+
+    it('should send the API key', async () => {
+      handler = (request, res) =>
+        request.headers.authorization === 'Bearer secret'
+          ? json(res, 200, { object: 'list', data: [] })
+          : json(res, 401, { error: { message: 'Invalid API key' } });
+      const authed = new OpenAICompatibleProvider({
+        id: 'vllm',
+        baseUrl,
+        apiKey: 'secret',
+      });
+
+      await expect(authed.listModels()).resolves.toEqual([]);
+      await expect(provider.listModels()).rejects.toMatchObject({
+        code: AIErrorCode.CONFIGURATION_ERROR,
+        message: expect.stringContaining('Invalid API key'),
+      });
+    });
+  });
+
+  describe('chat', () => {
+    it('should throw error when no model specified', async () => {
+      await expect(
+        provider.chat([{ role: 'user', content: 'Hello' }], {})
+      ).rejects.toMatchObject({
+        code: AIErrorCode.MODEL_NOT_FOUND,
+      });
+    });
+
+    it('should send chat request and return response', async () => {
+      handler = (_, res) =>
+        json(res, 200, {
+          model: 'qwen2.5-7b',
+          choices: [
+            {
+              message: { role: 'assistant', content: 'Hello! How can I help?' },
+              finish_reason: 'stop',
+            },
+          ],
+        });
+
+      const response = await provider.chat(
+        [{ role: 'user', content: 'Hello' }],
+        {
+          model: 'qwen2.5-7b',
+          temperature: 0.8,
+          maxTokens: 100,
+          stopSequences: ['END'],
+        }
+      );
+
+      expect(response).toBe('Hello! How can I help?');
+      expect(requests[0]).toMatchObject({
+        method: 'POST',
+        url: '/v1/chat/completions',
+        body: {
+          model: 'qwen2.5-7b',
+          messages: [{ role: 'user', content: 'Hello' }],
+          stream: false,
+          temperature: 0.8,
+          max_tokens: 100,
+          stop: ['END'],
+        },
+      });
+    });
+
+    it('should send the response format', async () => {
+      const schema = {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+      };
+      handler = (_, res) =>
+        json(res, 200, {
+          choices: [{ message: { role: 'assistant', content: '{}' } }],
+        });
+
+      await provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'qwen2.5-7b',
+        responseFormat: { type: 'json', schema },
+      });
+      await provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'qwen2.5-7b',
+        responseFormat: { type: 'json' },
+      });
+
+      expect(requests[0].body?.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'response', schema },
+      });
+      expect(requests[1].body?.response_format).toEqual({
+        type: 'json_object',
+      });
+    });
+
+    it('should report unknown models', async () => {
+      handler = (_, res) =>
+        json(res, 404, {
+          error: { message: 'The model `missing` does not exist' },
+        });
+
+      await expect(
+        provider.chat([{ role: 'user', content: 'Hello' }], {
+          model: 'missing',
+        })
+      ).rejects.toMatchObject({ code: AIErrorCode.MODEL_NOT_FOUND });
+    });
+
+    it('should time out', async () => {
+      handler = () => {}; // Never responds
+      const slow = new OpenAICompatibleProvider({
+        id: 'slow',
+        baseUrl,
+        timeout: 50,
+      });
+
+      await expect(
+        slow.chat([{ role: 'user', content: 'Hello' }], { model: 'qwen2.5-7b' })
+      ).rejects.toMatchObject({ code: AIErrorCode.TIMEOUT });
+    });
+
+    it('should abort', async () => {
+      handler = () => {}; // Never responds
+      const controller = new AbortController();
+      const response = provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'qwen2.5-7b',
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(response).rejects.toMatchObject({
+        code: AIErrorCode.ABORTED,
+      });
+    });
+
+    it('should stop listening to the signal when done', async () => {
+      handler = (_, res) =>
+        json(res, 200, {
+          model: 'qwen2.5-7b',
+          choices: [{ message: { role: 'assistant', content: 'Hi' } }],
+        });
+      const { signal } = new AbortController();
+      const add = vi.spyOn(signal, 'addEventListener');
+      const remove = vi.spyOn(signal, 'removeEventListener');
+
+      await provider.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'qwen2.5-7b',
+        signal,
+      });
+
+      expect(add).toHaveBeenCalled();
+      expect(remove.mock.calls).toEqual(add.mock.calls);
+    });
+  });
+
+  describe('stream', () => {
+    it('should throw error when no model specified', async () => {
+      const generator = provider.stream(
+        [{ role: 'user', content: 'Hello' }],
+        {}
+      );
+
+      await expect(generator.next()).rejects.toMatchObject({
+        code: AIErrorCode.MODEL_NOT_FOUND,
+      });
+    });
+
+    it('should stream response chunks', async () => {
+      handler = (_, res) =>
+        sse(res, [
+          delta('Hel'),
+          'not json',
+          delta('lo'),
+          delta('!', 'stop'),
+          '[DONE]',
+        ]);
+
+      const results: { content: string; done: boolean }[] = [];
+      for await (const chunk of provider.stream(
+        [{ role: 'user', content: 'Hello' }],
+        { model: 'qwen2.5-7b' }
+      )) {
+        results.push({ content: chunk.content, done: chunk.done });
+      }
+
+      expect(results).toEqual([
+        { content: 'Hel', done: false },
+        { content: 'lo', done: false },
+        { content: '!', done: true },
+      ]);
+      expect(requests[0].body).toMatchObject({ stream: true });
+    });
+
+    it('should finish when the stream ends without a finish reason', async () => {
+      handler = (_, res) => sse(res, [delta('Hi'), '[DONE]']);
+
+      const results: { content: string; done: boolean }[] = [];
+      for await (const chunk of provider.stream(
+        [{ role: 'user', content: 'Hello' }],
+        { model: 'qwen2.5-7b' }
+      )) {
+        results.push({ content: chunk.content, done: chunk.done });
+      }
+
+      expect(results).toEqual([
+        { content: 'Hi', done: false },
+        { content: '', done: true },
+      ]);
+    });
+
+    it('should abort while streaming', async () => {
+      handler = (_, res) => {
+        // Sends one chunk, then hangs
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${delta('Hel')}\n\n`);
+      };
+      const controller = new AbortController();
+      const generator = provider.stream([{ role: 'user', content: 'Hello' }], {
+        model: 'qwen2.5-7b',
+        signal: controller.signal,
+      });
+
+      expect((await generator.next()).value).toMatchObject({ content: 'Hel' });
+      controller.abort();
+      await expect(generator.next()).rejects.toMatchObject({
+        code: AIErrorCode.ABORTED,
+      });
+    });
+
+    it('should close the response when the caller stops early', async () => {
+      let closed!: Promise<void>;
+      handler = (_, res) => {
+        // Sends one chunk, then hangs
+        closed = new Promise((resolve) => res.on('close', resolve));
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${delta('Hel')}\n\n`);
+      };
+      const { signal } = new AbortController();
+      const add = vi.spyOn(signal, 'addEventListener');
+      const remove = vi.spyOn(signal, 'removeEventListener');
+
+      for await (const chunk of provider.stream(
+        [{ role: 'user', content: 'Hello' }],
+        { model: 'qwen2.5-7b', signal }
+      )) {
+        expect(chunk.content).toBe('Hel');
+        break;
+      }
+
+      await closed;
+      expect(remove.mock.calls).toEqual(add.mock.calls);
+    });
+
+    it('should throw error when response is not ok', async () => {
+      handler = (_, res) => json(res, 500, { error: 'Server overloaded' });
+
+      const generator = provider.stream([{ role: 'user', content: 'Hello' }], {
+        model: 'qwen2.5-7b',
+      });
+
+      await expect(generator.next()).rejects.toMatchObject({
+        code: AIErrorCode.INFERENCE_FAILED,
+        message: expect.stringContaining('Server overloaded'),
+      });
+    });
+  });
+
+  describe('embed', () => {
+    it('should send texts to /v1/embeddings and keep their order', async () => {
+      handler = (_, res) =>
+        json(res, 200, {
+          object: 'list',
+          data: [
+            { object: 'embedding', embedding: [0.3, 0.4], index: 1 },
+            { object: 'embedding', embedding: [0.1, 0.2], index: 0 },
+          ],
+        });
+
+      const vectors = await provider.embed(['first', 'second'], {
+        model: 'bge-m3',
+      });
+
+      expect(vectors).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(requests[0]).toMatchObject({
+        method: 'POST',
+        url: '/v1/embeddings',
+        body: { model: 'bge-m3', input: ['first', 'second'] },
+      });
+    });
+
+    it('should report unknown models', async () => {
+      handler = (_, res) =>
+        json(res, 404, { error: { message: 'model "nope" not found' } });
+
+      await expect(
+        provider.embed(['text'], { model: 'nope' })
+      ).rejects.toMatchObject({ code: AIErrorCode.MODEL_NOT_FOUND });
+    });
+  });
+
+  describe('tools', () => {
+    const tools = [
+      {
+        name: 'get_weather',
+        description: 'Get the weather for a city',
+        parameters: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+    ];
+
+    it('should send tools and return tool calls', async () => {
+      handler = (_, res) =>
+        json(res, 200, {
+          model: 'qwen2.5-7b',
+          choices: [
+            {
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                  {
+                    id: 'call_abc',
+                    type: 'function',
+                    function: {
+                      name: 'get_weather',
+                      arguments: '{"city":"Paris"}',
+                    },
+                  },
+                ],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        });
+
+      const result = await provider.chat(
+        [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [
+              {
+                id: 'call_0',
+                name: 'get_weather',
+                arguments: { city: 'Rome' },
+              },
+            ],
+          },
+          { role: 'tool', content: 'Sunny', toolCallId: 'call_0' },
+        ],
+        {
+          model: 'qwen2.5-7b',
+          tools,
+          toolChoice: { name: 'get_weather' },
+        }
+      );
+
+      expect(result).toEqual({
+        content: '',
+        toolCalls: [
+          { id: 'call_abc', name: 'get_weather', arguments: { city: 'Paris' } },
+        ],
+      });
+      expect(requests[0].body).toMatchObject({
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'get_weather',
+              description: 'Get the weather for a city',
+              parameters: tools[0].parameters,
+            },
+          },
+        ],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        messages: [
+          { role: 'user', content: 'Weather in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              {
+                id: 'call_0',
+                type: 'function',
+                function: { name: 'get_weather', arguments: '{"city":"Rome"}' },
+              },
+            ],
+          },
+          { role: 'tool', content: 'Sunny', tool_call_id: 'call_0' },
+        ],
+      });
+    });
+
+    it('should join streamed tool call pieces', async () => {
+      const piece = (
+        call: Record<string, unknown>,
+        finishReason: string | null = null
+      ) =>
+        JSON.stringify({
+          choices: [
+            { delta: { tool_calls: [call] }, finish_reason: finishReason },
+          ],
+        });
+      handler = (_, res) =>
+        sse(res, [
+          piece({
+            index: 0,
+            id: 'call_abc',
+            function: { name: 'get_weather', arguments: '' },
+          }),
+          piece({ index: 0, function: { arguments: '{"city":' } }),
+          piece({ index: 0, function: { arguments: '"Paris"}' } }),
+          JSON.stringify({
+            choices: [{ delta: {}, finish_reason: 'tool_calls' }],
+          }),
+          '[DONE]',
+        ]);
+
+      const results = [];
+      for await (const chunk of provider.stream(
+        [{ role: 'user', content: 'Weather in Paris?' }],
+        { model: 'qwen2.5-7b', tools }
+      )) {
+        results.push(chunk);
+      }
+
+      expect(results.at(-1)).toMatchObject({
+        done: true,
+        toolCalls: [
+          { id: 'call_abc', name: 'get_weather', arguments: { city: 'Paris' } },
+        ],
+      });
+      expect(results.slice(0, -1).every((r) => !r.toolCalls)).toBe(true);
+    });
+  });
+});
@@ -5,9 +5,12 @@ import type {
   ChatOptions,
   StreamChunk,
   ModelInfo,
-  ModelStatus
+  ModelStatus,
+  ModelCapabilities,
+  ChatResult
 } from "../types";
 import { AIError, AIErrorCode } from "../errors";
+import { parseToolCalls, ToolCallStreamParser, usesTools, withToolPrompt } from "../tools";
 
 /**
  * Default configuration for BrowserProvider.
@@ -28,6 +31,7 @@ const CURATED_MODELS: {
   size: number;
   quantization: string;
   contextLength: number;
+  capabilities?: ModelCapabilities;
 }[] = [
   {
     id: "SmolLM2-360M-Instruct-q4f16_1-MLC",
@@ -77,9 +81,28 @@ const CURATED_MODELS: {
     size: 1.5 * 1024 * 1024 * 1024, // 1.5 GB
     quantization: "q4f16",
     contextLength: 8192
+  },
+  // Embedding models (-b4: embeds up to 4 texts at a time, using less memory)
+  {
+    id: "snowflake-arctic-embed-s-q0f32-MLC-b4",
+    name: "Snowflake Arctic Embed S",
+    size: 130 * 1024 * 1024, // 130 MB
+    quantization: "q0f32",
+    contextLength: 512,
+    capabilities: { chat: false, embeddings: true }
+  },
+  {
+    id: "snowflake-arctic-embed-m-q0f32-MLC-b4",
+    name: "Snowflake Arctic Embed M",
+    size: 440 * 1024 * 1024, // 440 MB
+    quantization: "q0f32",
+    contextLength: 512,
+    capabilities: { chat: false, embeddings: true }
   }
 ];
 
+const CHAT_CAPABILITIES: ModelCapabilities = { chat: true, embeddings: false };
+
 // Type for WebLLM engine (we'll use any to avoid direct dependency)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type MLCEngine = any;
@@ -97,6 +120,10 @@ export class BrowserProvider implements BrowserProviderInterface {
   private backend: "webgpu" | "wasm";
   private engine: MLCEngine | null = null;
   private currentModelId: string | null = null;
+  // Embedding models get an engine of their own, so embedding text
+  // doesn't unload the chat model
+  private embeddingEngine: MLCEngine | null = null;
+  private embeddingModelId: string | null = null;
   private modelStatuses = new Map<string, ModelStatus>();
   private downloadAbortController: AbortController | null = null;
 
@@ -123,15 +150,17 @@ export class BrowserProvider implements BrowserProviderInterface {
    * Clean up resources.
    */
   async dispose(): Promise<void> {
-    if (this.engine) {
+    for (const engine of [this.engine, this.embeddingEngine]) {
       try {
-        await this.engine.unload();
+        await engine?.unload();
       } catch {
         // Ignore errors during cleanup
       }
-      this.engine = null;
-      this.currentModelId = null;
     }
+    this.engine = null;
+    this.currentModelId = null;
+    this.embeddingEngine = null;
+    this.embeddingModelId = null;
   }
 
   /**
@@ -171,7 +200,8 @@ export class BrowserProvider implements BrowserProviderInterface {
       size: model.size,
       quantization: model.quantization,
       contextLength: model.contextLength,
-      status: this.modelStatuses.get(model.id) || { state: "available" }
+      status: this.modelStatuses.get(model.id) || { state: "available" },
+      capabilities: model.capabilities ?? CHAT_CAPABILITIES
     }));
   }
 
@@ -236,6 +266,11 @@ export class BrowserProvider implements BrowserProviderInterface {
       this.engine = null;
       this.currentModelId = null;
     }
+    if (this.embeddingModelId === modelId && this.embeddingEngine) {
+      await this.embeddingEngine.unload();
+      this.embeddingEngine = null;
+      this.embeddingModelId = null;
+    }
 
     // Clear from cache using the cache API
     try {
@@ -265,7 +300,7 @@ export class BrowserProvider implements BrowserProviderInterface {
   /**
    * Generate a chat completion (non-streaming).
    */
-  async chat(messages: Message[], options: ChatOptions = {}): Promise<string> {
+  async chat(messages: Message[], options: ChatOptions = {}): Promise<string | ChatResult> {
     const modelId = options.model;
     if (!modelId) {
       throw new AIError(AIErrorCode.MODEL_NOT_FOUND, "No model specified for chat");
@@ -275,17 +310,19 @@ export class BrowserProvider implements BrowserProviderInterface {
 
     try {
       const response = await this.engine.chat.completions.create({
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content
-        })),
+        messages: this.mapMessages(messages, options),
         temperature: options.temperature,
         max_tokens: options.maxTokens,
         stop: options.stopSequences,
+        response_format: this.mapResponseFormat(options),
         stream: false
       });
 
-      return response.choices[0]?.message?.content || "";
+      const content = response.choices[0]?.message?.content || "";
+      if (options.tools) {
+        return usesTools(options) ? parseToolCalls(content) : { content, toolCalls: [] };
+      }
+      return content;
     } catch (error) {
       throw AIError.from(error, AIErrorCode.INFERENCE_FAILED);
     }
@@ -304,25 +341,39 @@ export class BrowserProvider implements BrowserProviderInterface {
 
     try {
       const stream = await this.engine.chat.completions.create({
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content
-        })),
+        messages: this.mapMessages(messages, options),
         temperature: options.temperature,
         max_tokens: options.maxTokens,
         stop: options.stopSequences,
+        response_format: this.mapResponseFormat(options),
         stream: true
       });
 
+      // Tool call markup is kept out of the streamed text
+      const parser = usesTools(options) ? new ToolCallStreamParser() : null;
+
       for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || "";
+        let content = chunk.choices[0]?.delta?.content || "";
         const done = chunk.choices[0]?.finish_reason !== null;
 
+        let toolCalls = {};
+        if (parser) {
+          content = parser.push(content);
+          if (done) {
+            const rest = parser.finish();
+            content += rest.content;
+            toolCalls = { toolCalls: rest.toolCalls };
+          }
+        } else if (done && options.tools) {
+          toolCalls = { toolCalls: [] };
+        }
+
         yield {
           content,
           done,
           model: modelId,
-          provider: this.id
+          provider: this.id,
+          ...toolCalls
         };
 
         // Check for abort signal
@@ -336,6 +387,53 @@ export class BrowserProvider implements BrowserProviderInterface {
     }
   }
 
+  /**
+   * Generate embeddings with a WebLLM embedding model.
+   */
+  async embed(texts: string[], options: { model: string; signal?: AbortSignal }): Promise<number[][]> {
+    const engine = await this.ensureEmbeddingModelLoaded(options.model);
+
+    if (options.signal?.aborted) {
+      throw new AIError(AIErrorCode.ABORTED, "Request was aborted");
+    }
+
+    try {
+      const response = await engine.embeddings.create({
+        input: texts,
+        model: options.model
+      });
+      return response.data.map((item: { embedding: number[] }) => item.embedding);
+    } catch (error) {
+      throw AIError.from(error, AIErrorCode.INFERENCE_FAILED);
+    }
+  }
+
+  /**
+   * Map messages to WebLLM's format. WebLLM models are prompted to call
+   * tools in text, so tools are described in the system message.
+   */
+  private mapMessages(messages: Message[], options: ChatOptions) {
+    const prepared = usesTools(options)
+      ? withToolPrompt(messages, options.tools, options.toolChoice)
+      : messages;
+    return prepared.map((m) => ({
+      role: m.role === "tool" ? ("user" as const) : m.role,
+      content: m.content
+    }));
+  }
+
+  /**
+   * Map the response format to WebLLM's, which takes the schema as a string.
+   */
+  private mapResponseFormat(options: ChatOptions) {
+    if (options.responseFormat?.type !== "json") return undefined;
+    const { schema } = options.responseFormat;
+    return {
+      type: "json_object" as const,
+      ...(schema ? { schema: JSON.stringify(schema) } : {})
+    };
+  }
+
   /**
    * Ensure a model is loaded and ready.
    */
@@ -359,12 +457,50 @@ export class BrowserProvider implements BrowserProviderInterface {
       }
     }
 
+    this.engine = await this.createEngine(modelId);
+    this.currentModelId = modelId;
+  }
+
+  /**
+   * Ensure an embedding model is loaded in the embedding engine. Unlike
+   * chat models, embedding models are never downloaded on first use.
+   */
+  private async ensureEmbeddingModelLoaded(modelId: string): Promise<MLCEngine> {
+    if (this.embeddingModelId === modelId && this.embeddingEngine) {
+      return this.embeddingEngine;
+    }
+
+    const status = this.modelStatuses.get(modelId);
+    if (status?.state !== "cached" && status?.state !== "ready") {
+      throw new AIError(
+        AIErrorCode.MODEL_NOT_FOUND,
+        `Embedding model ${modelId} is not downloaded. Download it first with ai.models.download("${modelId}")`
+      );
+    }
+
+    if (this.embeddingEngine) {
+      await this.embeddingEngine.unload();
+      this.embeddingEngine = null;
+      if (this.embeddingModelId) {
+        this.modelStatuses.set(this.embeddingModelId, { state: "cached" });
+      }
+    }
+
+    this.embeddingEngine = await this.createEngine(modelId);
+    this.embeddingModelId = modelId;
+    return this.embeddingEngine;
+  }
+
+  /**
+   * Create a WebLLM engine running a model, tracking its status.
+   */
+  private async createEngine(modelId: string): Promise<MLCEngine> {
     this.modelStatuses.set(modelId, { state: "loading" });
 
     try {
       const webllm = await this.loadWebLLM();
 
-      this.engine = await webllm.CreateMLCEngine(modelId, {
+      const engine = await webllm.CreateMLCEngine(modelId, {
         initProgressCallback: (report: { progress: number; text: string }) => {
           // Update status during loading
           if (report.progress < 1) {
@@ -375,8 +511,8 @@ export class BrowserProvider implements BrowserProviderInterface {
         }
       });
 
-      this.currentModelId = modelId;
       this.modelStatuses.set(modelId, { state: "ready" });
+      return engine;
     } catch (error) {
       this.modelStatuses.set(modelId, {
         state: "error",
@@ -0,0 +1,27 @@
+import type { ModelCapabilities } from '../types';
+
+/**
+ * Names of common embedding models: nomic-embed-text, mxbai-embed-large,
+ * snowflake-arctic-embed, bge-m3, all-minilm, e5 and gte.
+ */
+const EMBEDDING_MODEL_PATTERN =
+  /embed|bge|minilm|(^|[-_/:])(e5|gte)([-_:.]|$)/i;
+
+/**
+ * Model families that only produce embeddings.
+ */
+const EMBEDDING_FAMILIES = ['bert', 'nomic-bert'];
+
+/**
+ * Guess what a server model can do from its name and families.
+ * Server APIs don't list capabilities, but embedding models are named for it.
+ */
+export function detectCapabilities(
+  name: string,
+  families: string[] = []
+): ModelCapabilities {
+  const embeddings =
+    EMBEDDING_MODEL_PATTERN.test(name) ||
+    families.some((family) => EMBEDDING_FAMILIES.includes(family));
+  return { chat: !embeddings, embeddings };
+}
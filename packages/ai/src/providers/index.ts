@@ -1,2 +1,3 @@
 export { BrowserProvider } from './browser';
 export { OllamaProvider } from './ollama';
+export { OpenAICompatibleProvider } from './openai-compatible';
@@ -5,8 +5,12 @@ import type {
   ChatOptions,
   StreamChunk,
   ModelInfo,
+  ChatResult,
+  ToolCall,
 } from '../types';
 import { AIError, AIErrorCode } from '../errors';
+import { createToolCallId, parseToolArguments, usesTools } from '../tools';
+import { detectCapabilities } from './capabilities';
 
 /**
  * Default configuration for OllamaProvider.
@@ -37,12 +41,25 @@ interface OllamaTagsResponse {
   models: OllamaModel[];
 }
 
+interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+}
+
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown> | string;
+  };
+}
+
 interface OllamaChatResponse {
   model: string;
   created_at: string;
   message: {
     role: string;
     content: string;
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean;
   done_reason?: string;
@@ -120,7 +137,10 @@ export class OllamaProvider implements Provider {
   /**
    * Generate a chat completion (non-streaming).
    */
-  async chat(messages: Message[], options: ChatOptions = {}): Promise<string> {
+  async chat(
+    messages: Message[],
+    options: ChatOptions = {}
+  ): Promise<string | ChatResult> {
     const model = options.model;
     if (!model) {
       throw new AIError(
@@ -135,19 +155,17 @@ export class OllamaProvider implements Provider {
         {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model,
-            messages: messages.map((m) => ({
-              role: m.role,
-              content: m.content,
-            })),
-            stream: false,
-            options: this.mapChatOptions(options),
-          }),
+          body: JSON.stringify(this.chatBody(messages, model, options, false)),
           signal: options.signal,
         }
       );
 
+      if (options.tools) {
+        return {
+          content: response.message.content,
+          toolCalls: this.mapToolCalls(response.message.tool_calls),
+        };
+      }
       return response.message.content;
     } catch (error) {
       if (error instanceof AIError) throw error;
@@ -185,15 +203,7 @@ export class OllamaProvider implements Provider {
       const response = await fetch(`${this.baseUrl}/api/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model,
-          messages: messages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          stream: true,
-          options: this.mapChatOptions(options),
-        }),
+        body: JSON.stringify(this.chatBody(messages, model, options, true)),
         signal: controller.signal,
       });
 
@@ -216,6 +226,19 @@ export class OllamaProvider implements Provider {
       const decoder = new TextDecoder();
       let buffer = '';
 
+      // Tool calls can arrive in any chunk; they are reported on the last one
+      const toolCalls: ToolCall[] = [];
+      const toChunk = (chunk: OllamaChatResponse): StreamChunk => {
+        toolCalls.push(...this.mapToolCalls(chunk.message.tool_calls));
+        return {
+          content: chunk.message.content,
+          done: chunk.done,
+          model,
+          provider: this.id,
+          ...(options.tools && chunk.done ? { toolCalls } : {}),
+        };
+      };
+
       while (true) {
         const { done, value } = await reader.read();
 
@@ -228,33 +251,25 @@ export class OllamaProvider implements Provider {
         for (const line of lines) {
           if (!line.trim()) continue;
 
+          let chunk: OllamaChatResponse;
           try {
-            const chunk = JSON.parse(line) as OllamaChatResponse;
-            yield {
-              content: chunk.message.content,
-              done: chunk.done,
-              model,
-              provider: this.id,
-            };
+            chunk = JSON.parse(line) as OllamaChatResponse;
           } catch {
-            // Skip malformed JSON lines
+            continue; // Skip malformed JSON lines
           }
+          yield toChunk(chunk);
         }
       }
 
       // Process remaining buffer
       if (buffer.trim()) {
+        let chunk: OllamaChatResponse | undefined;
         try {
-          const chunk = JSON.parse(buffer) as OllamaChatResponse;
-          yield {
-            content: chunk.message.content,
-            done: chunk.done,
-            model,
-            provider: this.id,
-          };
+          chunk = JSON.parse(buffer) as OllamaChatResponse;
         } catch {
           // Skip malformed JSON
         }
+        if (chunk) yield toChunk(chunk);
       }
     } catch (error) {
       if (error instanceof AIError) throw error;
@@ -262,6 +277,30 @@ export class OllamaProvider implements Provider {
     }
   }
 
+  /**
+   * Generate embeddings with /api/embed.
+   */
+  async embed(
+    texts: string[],
+    options: { model: string; signal?: AbortSignal }
+  ): Promise<number[][]> {
+    try {
+      const response = await this.fetchWithTimeout<OllamaEmbedResponse>(
+        '/api/embed',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: options.model, input: texts }),
+          signal: options.signal,
+        }
+      );
+      return response.embeddings;
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      throw AIError.from(error, AIErrorCode.INFERENCE_FAILED);
+    }
+  }
+
   /**
    * Fetch with timeout support.
    */
@@ -328,9 +367,68 @@ export class OllamaProvider implements Provider {
       quantization: model.details?.quantization_level,
       contextLength,
       status: { state: 'ready' }, // Ollama models are always ready if listed
+      capabilities: detectCapabilities(model.name, model.details?.families),
+    };
+  }
+
+  /**
+   * Build the /api/chat request body.
+   */
+  private chatBody(
+    messages: Message[],
+    model: string,
+    options: ChatOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    return {
+      model,
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+        ...(m.toolCalls?.length
+          ? {
+              tool_calls: m.toolCalls.map((call) => ({
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      })),
+      stream,
+      options: this.mapChatOptions(options),
+      // Ollama takes 'json' for any JSON, or a schema to constrain output to
+      ...(options.responseFormat?.type === 'json'
+        ? { format: options.responseFormat.schema ?? 'json' }
+        : {}),
+      // Ollama has no tool choice: 'required' and named choices act as 'auto'
+      ...(usesTools(options)
+        ? {
+            tools: options.tools.map((tool) => ({
+              type: 'function',
+              function: {
+                name: tool.name,
+                description: tool.description ?? '',
+                parameters: tool.parameters,
+              },
+            })),
+          }
+        : {}),
     };
   }
 
+  /**
+   * Map Ollama tool calls, which carry no IDs, to ToolCalls.
+   */
+  private mapToolCalls(calls: OllamaToolCall[] = []): ToolCall[] {
+    return calls.map((call) => ({
+      id: createToolCallId(),
+      name: call.function.name,
+      arguments: parseToolArguments(
+        call.function.name,
+        call.function.arguments
+      ),
+    }));
+  }
+
   /**
    * Map ChatOptions to Ollama options format.
    */
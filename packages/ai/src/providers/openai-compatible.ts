@@ -0,0 +1,560 @@
+import type {
+  Provider,
+  OpenAICompatibleProviderConfig,
+  Message,
+  ChatOptions,
+  StreamChunk,
+  ModelInfo,
+  ChatResult,
+  ToolCall,
+} from '../types';
+import { AIError, AIErrorCode } from '../errors';
+import { createToolCallId, parseToolArguments, usesTools } from '../tools';
+import { detectCapabilities } from './capabilities';
+
+/**
+ * Default request timeout in milliseconds.
+ */
+const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * OpenAI API response types.
+ * Servers add fields of their own; only the ones read here are listed.
+ */
+interface OpenAIModel {
+  id: string;
+  object?: string;
+  owned_by?: string;
+  /** vLLM */
+  max_model_len?: number;
+  /** llama.cpp server */
+  meta?: {
+    n_ctx_train?: number;
+    size?: number;
+  };
+}
+
+interface OpenAIModelsResponse {
+  data: OpenAIModel[];
+}
+
+interface OpenAIToolCall {
+  id?: string;
+  type?: 'function';
+  function: {
+    name: string;
+    /** JSON, as a string */
+    arguments: string;
+  };
+}
+
+interface OpenAIChatResponse {
+  model: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+}
+
+interface OpenAIChatChunk {
+  model?: string;
+  choices: Array<{
+    delta: {
+      role?: string;
+      content?: string | null;
+      /** Pieces of tool calls, to be joined by index */
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ embedding: number[]; index: number }>;
+}
+
+interface OpenAIErrorResponse {
+  error?: { message?: string } | string;
+}
+
+/**
+ * OpenAICompatibleProvider implements the Provider interface for servers
+ * speaking the OpenAI REST API, such as llama.cpp server, LM Studio and vLLM.
+ * Uses native fetch API, with Server-Sent Events for streaming.
+ */
+export class OpenAICompatibleProvider implements Provider {
+  readonly id: string;
+  readonly type = 'openai-compatible' as const;
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeout: number;
+  private initialized = false;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    if (!config?.id || !config.baseUrl) {
+      throw new AIError(
+        AIErrorCode.CONFIGURATION_ERROR,
+        'OpenAICompatibleProvider needs an id and a baseUrl'
+      );
+    }
+    this.id = config.id;
+    // Accept both 'http://host:port' and 'http://host:port/v1'
+    this.baseUrl = config.baseUrl.replace(/\/$/, '').replace(/\/v1$/, '');
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Initialize the provider.
+   */
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  /**
+   * Clean up resources.
+   */
+  async dispose(): Promise<void> {
+    this.initialized = false;
+  }
+
+  /**
+   * Check if the server is available.
+   * Attempts to fetch the models list with a short timeout.
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 2000); // 2s timeout for availability check
+
+      const response = await fetch(`${this.baseUrl}/v1/models`, {
+        headers: this.headers(),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List all models the server offers.
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    try {
+      const response = await this.request('/v1/models', { method: 'GET' });
+      const body = (await response.json()) as OpenAIModelsResponse;
+
+      return body.data.map((model) => this.mapOpenAIModel(model));
+    } catch (error) {
+      throw AIError.from(error, AIErrorCode.PROVIDER_NOT_AVAILABLE);
+    }
+  }
+
+  /**
+   * Generate a chat completion (non-streaming).
+   */
+  async chat(
+    messages: Message[],
+    options: ChatOptions = {}
+  ): Promise<string | ChatResult> {
+    const model = options.model;
+    if (!model) {
+      throw new AIError(
+        AIErrorCode.MODEL_NOT_FOUND,
+        'No model specified for chat'
+      );
+    }
+
+    try {
+      const response = await this.request(
+        '/v1/chat/completions',
+        {
+          method: 'POST',
+          body: JSON.stringify(this.chatBody(messages, model, options, false)),
+        },
+        options.signal,
+        AIErrorCode.INFERENCE_FAILED
+      );
+      const body = (await response.json()) as OpenAIChatResponse;
+      const message = body.choices[0]?.message;
+
+      if (options.tools) {
+        return {
+          content: message?.content ?? '',
+          toolCalls: (message?.tool_calls ?? []).map((call) =>
+            this.mapToolCall(call)
+          ),
+        };
+      }
+      return message?.content ?? '';
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      throw AIError.from(error, AIErrorCode.INFERENCE_FAILED);
+    }
+  }
+
+  /**
+   * Generate a streaming chat completion.
+   */
+  async *stream(
+    messages: Message[],
+    options: ChatOptions = {}
+  ): AsyncGenerator<StreamChunk> {
+    const model = options.model;
+    if (!model) {
+      throw new AIError(
+        AIErrorCode.MODEL_NOT_FOUND,
+        'No model specified for streaming'
+      );
+    }
+
+    try {
+      const response = await this.request(
+        '/v1/chat/completions',
+        {
+          method: 'POST',
+          body: JSON.stringify(this.chatBody(messages, model, options, true)),
+        },
+        options.signal,
+        AIErrorCode.INFERENCE_FAILED
+      );
+
+      if (!response.body) {
+        throw new AIError(
+          AIErrorCode.INFERENCE_FAILED,
+          'No response body from server'
+        );
+      }
+
+      // Parse Server-Sent Events: `data: {json}` lines, ending with `data: [DONE]`
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let finished = false;
+      // Whether a chunk with `done: true` has been yielded
+      let completed = false;
+      // Tool calls arrive in pieces; they are reported on the last chunk
+      const partialCalls: OpenAIToolCall[] = [];
+      const toolCalls = () =>
+        options.tools
+          ? { toolCalls: partialCalls.map((call) => this.mapToolCall(call)) }
+          : {};
+
+      // Aborting, or the caller leaving early, stops reading the body
+      const cancel = () => reader.cancel().catch(() => {});
+      options.signal?.addEventListener('abort', cancel);
+      try {
+        while (!finished) {
+          const { done, value } = await reader.read();
+          if (options.signal?.aborted) {
+            throw new AIError(AIErrorCode.ABORTED, 'Request was aborted');
+          }
+
+          if (done) {
+            buffer += decoder.decode();
+          } else {
+            buffer += decoder.decode(value, { stream: true });
+          }
+          const lines = buffer.split('\n');
+          buffer = done ? '' : lines.pop() || ''; // Keep incomplete line in buffer
+
+          for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:')) continue; // Comments, event names, blank lines
+
+            const payload = data.slice('data:'.length).trim();
+            if (payload === '[DONE]') {
+              finished = true;
+              break;
+            }
+
+            let chunk: OpenAIChatChunk;
+            try {
+              chunk = JSON.parse(payload) as OpenAIChatChunk;
+            } catch {
+              continue; // Skip malformed JSON lines
+            }
+            const choice = chunk.choices?.[0];
+            if (!choice) continue;
+
+            for (const piece of choice.delta.tool_calls ?? []) {
+              const call = (partialCalls[piece.index] ??= {
+                function: { name: '', arguments: '' },
+              });
+              if (piece.id) call.id = piece.id;
+              call.function.name += piece.function?.name ?? '';
+              call.function.arguments += piece.function?.arguments ?? '';
+            }
+
+            const last = choice.finish_reason != null;
+            yield {
+              content: choice.delta.content ?? '',
+              done: last,
+              model,
+              provider: this.id,
+              ...(last ? toolCalls() : {}),
+            };
+            if (last) finished = completed = true;
+          }
+
+          if (done) break;
+        }
+
+        if (!completed) {
+          yield {
+            content: '',
+            done: true,
+            model,
+            provider: this.id,
+            ...toolCalls(),
+          };
+        }
+      } finally {
+        options.signal?.removeEventListener('abort', cancel);
+        await cancel();
+      }
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      if (options.signal?.aborted) {
+        throw new AIError(AIErrorCode.ABORTED, 'Request was aborted');
+      }
+      throw AIError.from(error, AIErrorCode.INFERENCE_FAILED);
+    }
+  }
+
+  /**
+   * Generate embeddings with /v1/embeddings.
+   */
+  async embed(
+    texts: string[],
+    options: { model: string; signal?: AbortSignal }
+  ): Promise<number[][]> {
+    try {
+      const response = await this.request(
+        '/v1/embeddings',
+        {
+          method: 'POST',
+          body: JSON.stringify({ model: options.model, input: texts }),
+        },
+        options.signal,
+        AIErrorCode.INFERENCE_FAILED
+      );
+      const body = (await response.json()) as OpenAIEmbeddingResponse;
+      // Embeddings may come back in any order
+      return [...body.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      throw AIError.from(error, AIErrorCode.INFERENCE_FAILED);
+    }
+  }
+
+  /**
+   * Request headers, with the API key if one is configured.
+   */
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Fetch with timeout and abort support.
+   * The timeout covers waiting for the response headers; streamed bodies
+   * can take longer.
+   */
+  private async request(
+    path: string,
+    init: RequestInit,
+    signal?: AbortSignal,
+    failure = AIErrorCode.NETWORK_ERROR
+  ): Promise<Response> {
+    if (signal?.aborted) {
+      throw new AIError(AIErrorCode.ABORTED, 'Request was aborted');
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+
+    // Link external abort signal to our controller
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: this.headers(),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await this.responseError(response, failure);
+      }
+
+      return response;
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      if (timedOut) {
+        throw new AIError(AIErrorCode.TIMEOUT, 'Request timed out');
+      }
+      if (signal?.aborted) {
+        throw new AIError(AIErrorCode.ABORTED, 'Request was aborted');
+      }
+      throw AIError.from(error, AIErrorCode.NETWORK_ERROR);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Turn an error response into an AIError, using the server's message if it sent one.
+   */
+  private async responseError(
+    response: Response,
+    failure: AIErrorCode
+  ): Promise<AIError> {
+    let detail = '';
+    try {
+      const body = (await response.json()) as OpenAIErrorResponse;
+      detail =
+        typeof body.error === 'string'
+          ? body.error
+          : (body.error?.message ?? '');
+    } catch {
+      // No JSON body
+    }
+    const message = `Request failed: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`;
+
+    if (response.status === 401 || response.status === 403) {
+      return new AIError(
+        AIErrorCode.CONFIGURATION_ERROR,
+        `${message}. Check the provider's apiKey.`
+      );
+    }
+    if (response.status === 404 && detail.toLowerCase().includes('model')) {
+      return new AIError(AIErrorCode.MODEL_NOT_FOUND, message);
+    }
+    return new AIError(failure, message);
+  }
+
+  /**
+   * Build the chat completions request body.
+   */
+  private chatBody(
+    messages: Message[],
+    model: string,
+    options: ChatOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model,
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+        ...(m.toolCalls?.length
+          ? {
+              tool_calls: m.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function',
+                function: {
+                  name: call.name,
+                  arguments: JSON.stringify(call.arguments),
+                },
+              })),
+            }
+          : {}),
+        ...(m.toolCallId ? { tool_call_id: m.toolCallId } : {}),
+      })),
+      stream,
+    };
+
+    if (usesTools(options)) {
+      body.tools = options.tools.map((tool) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }));
+      const choice = options.toolChoice;
+      if (choice !== undefined) {
+        body.tool_choice =
+          typeof choice === 'object'
+            ? { type: 'function', function: { name: choice.name } }
+            : choice;
+      }
+    }
+
+    if (options.responseFormat?.type === 'json') {
+      const { schema } = options.responseFormat;
+      body.response_format = schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+        : { type: 'json_object' };
+    }
+
+    if (options.temperature !== undefined) {
+      body.temperature = options.temperature;
+    }
+    if (options.maxTokens !== undefined) {
+      body.max_tokens = options.maxTokens;
+    }
+    if (options.stopSequences !== undefined) {
+      body.stop = options.stopSequences;
+    }
+
+    return body;
+  }
+
+  /**
+   * Map an OpenAI tool call to a ToolCall.
+   */
+  private mapToolCall(call: OpenAIToolCall): ToolCall {
+    return {
+      id: call.id || createToolCallId(),
+      name: call.function.name,
+      arguments: parseToolArguments(
+        call.function.name,
+        call.function.arguments
+      ),
+    };
+  }
+
+  /**
+   * Map an OpenAI model to ModelInfo.
+   * The API doesn't report sizes or context lengths, but some servers do.
+   */
+  private mapOpenAIModel(model: OpenAIModel): ModelInfo {
+    return {
+      id: model.id,
+      name: model.id,
+      provider: this.id,
+      size: model.meta?.size ?? 0,
+      contextLength: model.max_model_len ?? model.meta?.n_ctx_train ?? 4096,
+      status: { state: 'ready' }, // Server models are always ready if listed
+      capabilities: detectCapabilities(model.id),
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nearstack-dev/ai Request Routing
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type { CircuitState, RoutingConfig } from './types';
+import { AIError, AIErrorCode } from './errors';
+
+/**
+ * Routing settings with defaults filled in.
+ */
+export interface RoutingSettings {
+  retries: number;
+  retryDelay: number;
+  maxRetryDelay: number;
+  fallback: boolean;
+  fallbackModels: Record<string, string[]>;
+  failureThreshold: number;
+  resetTimeout: number;
+}
+
+/**
+ * Fill in routing defaults. `false` turns retries, fallback and circuit
+ * breaking off.
+ */
+export function resolveRouting(
+  config?: RoutingConfig | false
+): RoutingSettings {
+  const settings = config === false ? {} : (config ?? {});
+  const breaker = config === false ? false : settings.circuitBreaker;
+  return {
+    retries: config === false ? 0 : (settings.retries ?? 2),
+    retryDelay: settings.retryDelay ?? 500,
+    maxRetryDelay: settings.maxRetryDelay ?? 8000,
+    fallback: config === false ? false : (settings.fallback ?? true),
+    fallbackModels: settings.fallbackModels ?? {},
+    failureThreshold:
+      breaker === false ? Infinity : (breaker?.failureThreshold ?? 3),
+    resetTimeout: breaker === false ? 0 : (breaker?.resetTimeout ?? 30000),
+  };
+}
+
+/**
+ * Errors worth retrying on the same provider.
+ */
+export function isTransient(error: unknown): boolean {
+  return (
+    AIError.isCode(error, AIErrorCode.NETWORK_ERROR) ||
+    AIError.isCode(error, AIErrorCode.TIMEOUT)
+  );
+}
+
+/**
+ * Errors that mean the provider failed, rather than the request being
+ * invalid or cancelled. These count towards the circuit breaker and
+ * trigger fallback to another provider.
+ */
+export function isProviderFailure(error: unknown): boolean {
+  return (
+    isTransient(error) ||
+    AIError.isCode(error, AIErrorCode.PROVIDER_NOT_AVAILABLE) ||
+    AIError.isCode(error, AIErrorCode.INFERENCE_FAILED) ||
+    AIError.isCode(error, AIErrorCode.INITIALIZATION_FAILED)
+  );
+}
+
+/**
+ * Delay before a retry: exponential backoff, capped at `maxRetryDelay`.
+ */
+export function retryDelay(attempt: number, settings: RoutingSettings): number {
+  return Math.min(settings.retryDelay * 2 ** attempt, settings.maxRetryDelay);
+}
+
+/**
+ * Wait before retrying, unless the request is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIError(AIErrorCode.ABORTED, 'Request was aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIError(AIErrorCode.ABORTED, 'Request was aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface Circuit {
+  failures: number;
+  /** When the circuit opened, or null while it is closed */
+  openedAt: number | null;
+  /** Whether a trial request is in flight */
+  trial: boolean;
+}
+
+/**
+ * Tracks failures per provider, and stops sending requests to a provider
+ * that keeps failing. Once `resetTimeout` has passed, one trial request is
+ * let through: if it succeeds the provider is used again, if it fails the
+ * wait starts over.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeout: number,
+    private readonly onChange: (providerId: string, state: CircuitState) => void
+  ) {}
+
+  /**
+   * Get a provider's circuit state.
+   */
+  state(providerId: string): CircuitState {
+    const circuit = this.circuits.get(providerId);
+    if (!circuit || circuit.openedAt === null) return 'closed';
+    return circuit.trial ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent to the provider.
+   * When the reset timeout has passed, this lets a trial request through.
+   */
+  allow(providerId: string): boolean {
+    const circuit = this.circuits.get(providerId);
+    if (!circuit || circuit.openedAt === null) return true;
+    if (circuit.trial) return false;
+    if (Date.now() - circuit.openedAt < this.resetTimeout) return false;
+
+    circuit.trial = true;
+    this.onChange(providerId, 'half-open');
+    return true;
+  }
+
+  /**
+   * Record a request the provider served.
+   */
+  success(providerId: string): void {
+    const circuit = this.circuits.get(providerId);
+    if (!circuit) return;
+    this.circuits.delete(providerId);
+    if (circuit.openedAt !== null) this.onChange(providerId, 'closed');
+  }
+
+  /**
+   * Record a request the provider failed.
+   */
+  failure(providerId: string): void {
+    const circuit = this.circuits.get(providerId) ?? {
+      failures: 0,
+      openedAt: null,
+      trial: false,
+    };
+    circuit.failures++;
+    this.circuits.set(providerId, circuit);
+
+    if (circuit.trial || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      circuit.trial = false;
+      this.onChange(providerId, 'open');
+    }
+  }
+
+  /**
+   * Record a request that ended without showing whether the provider works,
+   * such as one that was aborted. A trial request can then be sent again.
+   */
+  cancel(providerId: string): void {
+    const circuit = this.circuits.get(providerId);
+    if (circuit?.trial) {
+      circuit.trial = false;
+      this.onChange(providerId, 'open');
+    }
+  }
+}
@@ -20,6 +20,7 @@ describe('StateManager', () => {
         activeProvider: null,
         downloading: null,
         error: null,
+        lastRequest: null,
       });
     });
   });
@@ -19,6 +19,7 @@ export function createInitialState(): AIState {
     activeProvider: null,
     downloading: null,
     error: null,
+    lastRequest: null,
   };
 }
 
@@ -187,6 +188,13 @@ export class StateManager {
     this.update({ activeProvider: providerId });
   }
 
+  /**
+   * Set which provider and model served the last request.
+   */
+  setLastRequest(lastRequest: AIState['lastRequest']): void {
+    this.update({ lastRequest });
+  }
+
   /**
    * Notify all listeners of state change.
    * Catches errors to prevent one bad listener from breaking others.
@@ -0,0 +1,235 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// @nearstack-dev/ai Tool Calling
+// ═══════════════════════════════════════════════════════════════════════════
+
+import type {
+  ChatOptions,
+  ChatResult,
+  Message,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from './types';
+import { AIError, AIErrorCode } from './errors';
+
+const OPEN_TAG = '<tool_call>';
+const CLOSE_TAG = '</tool_call>';
+
+/**
+ * Create an ID for a tool call, for providers whose models don't return one.
+ */
+export function createToolCallId(): string {
+  return `call_${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Whether a request should offer tools to the model.
+ */
+export function usesTools(
+  options: ChatOptions
+): options is ChatOptions & { tools: ToolDefinition[] } {
+  return (
+    !!options.tools && options.tools.length > 0 && options.toolChoice !== 'none'
+  );
+}
+
+/**
+ * Parse tool call arguments, which providers return as objects or JSON strings.
+ */
+export function parseToolArguments(
+  name: string,
+  raw: unknown
+): Record<string, unknown> {
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = raw.trim() ? JSON.parse(raw) : {};
+    } catch (error) {
+      throw new AIError(
+        AIErrorCode.INFERENCE_FAILED,
+        `Model returned invalid JSON arguments for tool "${name}"`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new AIError(
+      AIErrorCode.INFERENCE_FAILED,
+      `Model returned arguments for tool "${name}" that are not an object`
+    );
+  }
+  return value as Record<string, unknown>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Prompt-based Fallback
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Describe the tools in a system prompt, for models without native tool calling.
+ */
+export function toolPrompt(
+  tools: ToolDefinition[],
+  choice: ToolChoice = 'auto'
+): string {
+  const list = tools
+    .map(
+      (tool) =>
+        `- ${tool.name}${tool.description ? `: ${tool.description}` : ''}\n  Arguments (JSON Schema): ${JSON.stringify(tool.parameters)}`
+    )
+    .join('\n');
+
+  let rule = 'Call a tool only when it helps answer the user.';
+  if (choice === 'required') {
+    rule = 'You must call at least one tool.';
+  } else if (typeof choice === 'object') {
+    rule = `You must call the ${choice.name} tool.`;
+  }
+
+  return [
+    'You have access to the following tools:',
+    list,
+    `To call a tool, output a ${OPEN_TAG} block containing a JSON object with "name" and "arguments", for example:`,
+    `${OPEN_TAG}{"name": "${tools[0].name}", "arguments": {}}${CLOSE_TAG}`,
+    `${rule} Tool results are sent back to you as <tool_result> blocks.`,
+  ].join('\n\n');
+}
+
+/**
+ * Prepare messages for a model without native tool calling: the tool prompt
+ * is added to the system message, and earlier tool calls and results are
+ * written out in the same text format.
+ */
+export function withToolPrompt(
+  messages: Message[],
+  tools: ToolDefinition[],
+  choice?: ToolChoice
+): Message[] {
+  const prompt = toolPrompt(tools, choice);
+  const converted: Message[] = messages.map((message) => {
+    if (message.role === 'tool') {
+      return {
+        role: 'user',
+        content: `<tool_result id="${message.toolCallId ?? ''}">${message.content}</tool_result>`,
+      };
+    }
+    if (message.toolCalls?.length) {
+      const calls = message.toolCalls.map(
+        (call) =>
+          `${OPEN_TAG}${JSON.stringify({ name: call.name, arguments: call.arguments })}${CLOSE_TAG}`
+      );
+      return {
+        role: message.role,
+        content: [message.content, ...calls].filter(Boolean).join('\n'),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+
+  if (converted[0]?.role === 'system') {
+    return [
+      { role: 'system', content: `${converted[0].content}\n\n${prompt}` },
+      ...converted.slice(1),
+    ];
+  }
+  return [{ role: 'system', content: prompt }, ...converted];
+}
+
+/**
+ * Take tool calls out of text written in the prompt-based format.
+ * Blocks that aren't valid JSON are left in the text.
+ */
+export function parseToolCalls(text: string): ChatResult {
+  const toolCalls: ToolCall[] = [];
+  const content = text.replace(
+    /<tool_call>([\s\S]*?)<\/tool_call>/g,
+    (block, body: string) => {
+      try {
+        const parsed = JSON.parse(body.trim()) as {
+          name?: unknown;
+          arguments?: unknown;
+          args?: unknown;
+        };
+        if (typeof parsed.name !== 'string') return block;
+        toolCalls.push({
+          id: createToolCallId(),
+          name: parsed.name,
+          arguments: parseToolArguments(
+            parsed.name,
+            parsed.arguments ?? parsed.args
+          ),
+        });
+        return '';
+      } catch {
+        return block;
+      }
+    }
+  );
+
+  return { content: content.trim(), toolCalls };
+}
+
+/**
+ * Separates tool calls from streamed text in the prompt-based format.
+ * Text that may be the start of a tool call is held back until it is
+ * known not to be one, so tool call markup never reaches the caller.
+ */
+export class ToolCallStreamParser {
+  private buffer = '';
+  private toolCalls: ToolCall[] = [];
+
+  /**
+   * Add streamed text; returns the text that is safe to show.
+   */
+  push(text: string): string {
+    this.buffer += text;
+    let output = '';
+
+    while (this.buffer) {
+      const open = this.buffer.indexOf(OPEN_TAG);
+      if (open === -1) {
+        // Hold back a trailing partial '<tool_call>'
+        const keep = partialTagLength(this.buffer);
+        output += this.buffer.slice(0, this.buffer.length - keep);
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        break;
+      }
+
+      const close = this.buffer.indexOf(CLOSE_TAG, open);
+      if (close === -1) {
+        output += this.buffer.slice(0, open);
+        this.buffer = this.buffer.slice(open);
+        break;
+      }
+
+      const end = close + CLOSE_TAG.length;
+      const parsed = parseToolCalls(this.buffer.slice(open, end));
+      output += this.buffer.slice(0, open) + parsed.content;
+      this.toolCalls.push(...parsed.toolCalls);
+      this.buffer = this.buffer.slice(end);
+    }
+
+    return output;
+  }
+
+  /**
+   * End of the stream: returns any text held back, and all tool calls found.
+   */
+  finish(): ChatResult {
+    const content = this.buffer;
+    this.buffer = '';
+    return { content, toolCalls: this.toolCalls };
+  }
+}
+
+function partialTagLength(text: string): number {
+  for (
+    let length = Math.min(OPEN_TAG.length - 1, text.length);
+    length > 0;
+    length--
+  ) {
+    if (OPEN_TAG.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
@@ -12,9 +12,66 @@
  */
 export interface Message {
   /** The role of the message author */
-  role: 'system' | 'user' | 'assistant';
-  /** The content of the message */
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** The content of the message (for `tool` messages, the tool's result) */
   content: string;
+  /** Tools the assistant called in this message */
+  toolCalls?: ToolCall[];
+  /** For `tool` messages, the ID of the call this is the result of */
+  toolCallId?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tool Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A JSON Schema object.
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * A tool the model may call.
+ */
+export interface ToolDefinition {
+  /** Name the model calls the tool by (e.g., 'create_note') */
+  name: string;
+  /** What the tool does, to help the model decide when to call it */
+  description?: string;
+  /** JSON Schema for the tool's arguments, usually `{ type: 'object', properties, required }` */
+  parameters: JSONSchema;
+}
+
+/**
+ * Whether and which tools the model should call.
+ * - `'auto'`: the model decides (default)
+ * - `'none'`: the model answers in text
+ * - `'required'`: the model must call a tool
+ * - `{ name }`: the model must call this tool
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * A call the model made to one of the tools it was given.
+ */
+export interface ToolCall {
+  /** Identifies the call, for the `toolCallId` of the result message */
+  id: string;
+  /** Name of the tool */
+  name: string;
+  /** Arguments, parsed from JSON */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * A chat completion that may call tools.
+ * Returned by `chat()` when `options.tools` is set.
+ */
+export interface ChatResult {
+  /** Text the model generated alongside (or instead of) tool calls */
+  content: string;
+  /** Tools the model called, in order; empty if it answered in text */
+  toolCalls: ToolCall[];
 }
 
 /**
@@ -31,8 +88,19 @@ export interface ChatOptions {
   stopSequences?: string[];
   /** AbortController signal for cancellation */
   signal?: AbortSignal;
+  /** Tools the model may call. When set, `chat()` resolves to a `ChatResult` */
+  tools?: ToolDefinition[];
+  /** Whether and which tools the model should call. Defaults to `'auto'` */
+  toolChoice?: ToolChoice;
+  /** Constrain the output, e.g. to JSON matching a schema */
+  responseFormat?: ResponseFormat;
 }
 
+/**
+ * Chat options with tools, for which `chat()` resolves to a `ChatResult`.
+ */
+export type ToolChatOptions = ChatOptions & { tools: ToolDefinition[] };
+
 /**
  * A chunk of streamed response data.
  */
@@ -45,6 +113,81 @@ export interface StreamChunk {
   model: string;
   /** The provider that served this request */
   provider: string;
+  /** Tools the model called, on the final chunk when `options.tools` is set */
+  toolCalls?: ToolCall[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Structured Output Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The format the model should answer in.
+ * - `{ type: 'text' }`: free text (default)
+ * - `{ type: 'json', schema }`: JSON, matching `schema` if given. Providers
+ *   that support constrained output enforce it while generating.
+ */
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json'; schema?: JSONSchema };
+
+/**
+ * Options for `generateObject()` and `streamObject()`.
+ */
+export interface ObjectOptions
+  extends Omit<ChatOptions, 'tools' | 'toolChoice' | 'responseFormat'> {
+  /**
+   * How many times to ask the model again when its output isn't valid JSON
+   * or doesn't match the schema.
+   * @default 2
+   */
+  maxRetries?: number;
+}
+
+/**
+ * A value that may still be missing fields, as seen while it streams in.
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * A chunk from `streamObject()`: the object parsed so far, then the final
+ * object once it has been validated against the schema.
+ */
+export type ObjectChunk<T> =
+  | { done: false; partial: DeepPartial<T> }
+  | { done: true; object: T };
+
+/**
+ * A place where a value doesn't match its JSON Schema.
+ */
+export interface SchemaIssue {
+  /** Where in the value, e.g. `tags[0]` (empty for the value itself) */
+  path: string;
+  /** What is wrong, e.g. `expected string` */
+  message: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Embedding Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Options for embedding requests.
+ */
+export interface EmbedOptions {
+  /** Embedding model to use. Defaults to the first embedding model available */
+  model?: string;
+  /** AbortController signal for cancellation */
+  signal?: AbortSignal;
+  /**
+   * How many texts to send to the provider per request.
+   * @default 32
+   */
+  batchSize?: number;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -69,6 +212,18 @@ export interface ModelInfo {
   contextLength: number;
   /** Current status of this model */
   status: ModelStatus;
+  /** What the model can do. When not set, the model is assumed to chat only */
+  capabilities?: ModelCapabilities;
+}
+
+/**
+ * What a model can be used for.
+ */
+export interface ModelCapabilities {
+  /** Generates chat completions with `chat()` and `stream()` */
+  chat: boolean;
+  /** Generates embeddings with `embed()` */
+  embeddings: boolean;
 }
 
 /**
@@ -108,10 +263,18 @@ export interface Provider {
   isAvailable(): Promise<boolean>;
   /** List all models available from this provider */
   listModels(): Promise<ModelInfo[]>;
-  /** Generate a chat completion (non-streaming) */
-  chat(messages: Message[], options: ChatOptions): Promise<string>;
+  /**
+   * Generate a chat completion (non-streaming).
+   * Resolves to a `ChatResult` when `options.tools` is set.
+   */
+  chat(messages: Message[], options: ChatOptions): Promise<string | ChatResult>;
   /** Generate a streaming chat completion */
   stream(messages: Message[], options: ChatOptions): AsyncGenerator<StreamChunk>;
+  /** Generate one embedding per text, for providers that support embeddings */
+  embed?(
+    texts: string[],
+    options: { model: string; signal?: AbortSignal }
+  ): Promise<number[][]>;
 }
 
 /**
@@ -142,8 +305,18 @@ export interface ProviderStatus {
   activeModel?: string;
   /** Error message (if unavailable) */
   error?: string;
+  /**
+   * Circuit breaker state: `'open'` while the provider is skipped after
+   * repeated failures, `'half-open'` while a trial request is let through
+   */
+  circuit?: CircuitState;
 }
 
+/**
+ * Circuit breaker states for a provider.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
 // ─────────────────────────────────────────────────────────────────────────────
 // State Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -170,6 +343,13 @@ export interface AIState {
   } | null;
   /** Current error (or null if none) */
   error: string | null;
+  /** Which provider and model served the last request (or null if none yet) */
+  lastRequest: {
+    provider: string;
+    model: string;
+    /** Whether a fallback model served it instead of the requested one */
+    fallback: boolean;
+  } | null;
 }
 
 /**
@@ -203,6 +383,12 @@ export interface AIConfig {
    */
   defaultModel?: string;
 
+  /**
+   * Model to use for `embed()`.
+   * If not specified, uses first available embedding model.
+   */
+  embeddingModel?: string;
+
   /**
    * Whether to automatically initialize on creation.
    * @default true
@@ -214,6 +400,56 @@ export interface AIConfig {
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * How requests are retried and routed to other providers when they fail.
+   * Pass `false` to send each request once, to its model only.
+   */
+  routing?: RoutingConfig | false;
+}
+
+/**
+ * Retry, fallback and circuit breaker settings for inference requests.
+ */
+export interface RoutingConfig {
+  /**
+   * Times to retry a request that failed with `NETWORK_ERROR` or `TIMEOUT`.
+   * @default 2
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubling for each retry.
+   * @default 500
+   */
+  retryDelay?: number;
+  /**
+   * Longest delay between retries in milliseconds.
+   * @default 8000
+   */
+  maxRetryDelay?: number;
+  /**
+   * Whether to fall back to the `fallbackModels` of a model whose provider fails.
+   * @default true
+   */
+  fallback?: boolean;
+  /**
+   * Fallback models to try, in order, for each model ID. Models not listed
+   * have no fallback, so requests never go to a model you didn't choose.
+   */
+  fallbackModels?: Record<string, string[]>;
+  /**
+   * Skip a provider after this many failures in a row, until `resetTimeout`
+   * has passed. Pass `false` to never skip providers.
+   * @default { failureThreshold: 3, resetTimeout: 30000 }
+   */
+  circuitBreaker?:
+    | {
+        /** Failures in a row that open the circuit */
+        failureThreshold?: number;
+        /** Milliseconds before a trial request is let through */
+        resetTimeout?: number;
+      }
+    | false;
 }
 
 /**
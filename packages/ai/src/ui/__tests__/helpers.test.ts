@@ -11,6 +11,7 @@ function createMockState(overrides: Partial<AIState> = {}): AIState {
     activeProvider: null,
     downloading: null,
     error: null,
+    lastRequest: null,
     ...overrides,
   };
 }
@@ -1,17 +1,18 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Markdown from 'react-markdown';
-import { useChat } from '@nearstack-dev/react/ai';
-import { useLiveQuery } from '@nearstack-dev/react';
+import { ai, type Message } from '@nearstack-dev/ai';
 import { TodoModel, type Todo } from '../models/Todo';
+import { TODO_TOOLS, runToolCall } from '../lib/toolCalls';
 
-function buildSystemPrompt(todos: Todo[]): string | undefined {
-  if (todos.length === 0) return undefined;
+// Tool results go back to the model, which may call more tools before answering
+const MAX_TOOL_ROUNDS = 5;
 
-  const pending = todos.filter((todo) => !todo.completed).map((todo) => `- ${todo.title}`).join('\n');
-  const complete = todos.filter((todo) => todo.completed).map((todo) => `- ${todo.title}`).join('\n');
+function buildSystemPrompt(todos: Todo[]): string {
+  const pending = todos.filter((todo) => !todo.completed).map((todo) => `- ${todo.title} (ID: ${todo.id})`).join('\n');
+  const complete = todos.filter((todo) => todo.completed).map((todo) => `- ${todo.title} (ID: ${todo.id})`).join('\n');
 
   return [
-    'You are a helpful assistant with local todo context.',
+    'You are a helpful assistant with local todo context. You can add, complete and delete todos with your tools.',
     pending ? `Pending todos:\n${pending}` : '',
     complete ? `Completed todos:\n${complete}` : '',
     'Use this context when it helps answer questions.',
@@ -22,33 +23,78 @@ function buildSystemPrompt(todos: Todo[]): string | undefined {
 
 export function Chat() {
   const [input, setInput] = useState('');
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
-  const { data: todos = [] } = useLiveQuery(() => TodoModel.table().getAll(), [], TodoModel);
-  const systemPrompt = useMemo(() => buildSystemPrompt(todos), [todos]);
-  const { messages, send, isStreaming, error, clear } = useChat(undefined, { systemPrompt });
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  const send = async (content: string) => {
+    let conversation: Message[] = [...messages, { role: 'user', content }];
+    setMessages(conversation);
+    setIsSending(true);
+    setError(null);
+
+    try {
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        // Read the todos each round, so the model sees what its tools changed
+        const todos = await TodoModel.table().getAll();
+        const system: Message = { role: 'system', content: buildSystemPrompt(todos) };
+        const result = await ai.chat([system, ...conversation], { tools: TODO_TOOLS });
+        conversation = [...conversation, { role: 'assistant', content: result.content, toolCalls: result.toolCalls }];
+        setMessages(conversation);
+        if (result.toolCalls.length === 0) break;
+
+        for (const call of result.toolCalls) {
+          const output = await runToolCall(call);
+          conversation = [...conversation, { role: 'tool', content: output, toolCallId: call.id }];
+        }
+        setMessages(conversation);
+      }
+    } catch (chatError) {
+      setError(chatError instanceof Error ? chatError.message : String(chatError));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   return (
     <section className="rounded-xl border border-slate-700 bg-slate-900/60 p-4">
       <div className="mb-3 flex items-center justify-between">
         <h2 className="text-xl font-semibold">AI Chat</h2>
-        <button className="text-sm text-slate-300" onClick={clear}>Clear</button>
+        <button
+          className="text-sm text-slate-300"
+          onClick={() => {
+            setMessages([]);
+            setError(null);
+          }}
+        >
+          Clear
+        </button>
       </div>
       <div className="h-80 space-y-2 overflow-y-auto rounded-md border border-slate-700 bg-slate-950 p-2">
-        {messages.length === 0 ? <p className="text-sm text-slate-400">Ask AI about your todos.</p> : null}
-        {messages.map((message, index) => (
-          <div
-            key={`${message.role}-${index}`}
-            className={`max-w-[90%] rounded-md px-3 py-2 text-sm ${
-              message.role === 'assistant' ? 'bg-slate-800' : 'ml-auto bg-cyan-500 text-slate-950'
-            }`}
-          >
-            {message.role === 'assistant' ? <Markdown>{message.content}</Markdown> : message.content}
-          </div>
-        ))}
+        {messages.length === 0 ? <p className="text-sm text-slate-400">Ask AI about your todos, or to change them.</p> : null}
+        {messages.map((message, index) =>
+          message.role === 'tool' ? null : (
+            <div
+              key={`${message.role}-${index}`}
+              className={`max-w-[90%] rounded-md px-3 py-2 text-sm ${
+                message.role === 'assistant' ? 'bg-slate-800' : 'ml-auto bg-cyan-500 text-slate-950'
+              }`}
+            >
+              {message.role === 'assistant' ? <Markdown>{message.content}</Markdown> : message.content}
+              {message.toolCalls?.map((call) => (
+                <p key={call.id} className="mt-1 font-mono text-xs text-slate-400">
+                  {call.name}({JSON.stringify(call.arguments)})
+                </p>
+              ))}
+            </div>
+          )
+        )}
+        {isSending ? <p className="text-sm text-slate-400">Thinking...</p> : null}
         {error ? <p className="text-sm text-rose-300">{error}</p> : null}
         <div ref={bottomRef} />
       </div>
@@ -57,7 +103,7 @@ export function Chat() {
         onSubmit={async (event) => {
           event.preventDefault();
           const value = input.trim();
-          if (!value) return;
+          if (!value || isSending) return;
           setInput('');
           await send(value);
         }}
@@ -68,7 +114,7 @@ export function Chat() {
           onChange={(event) => setInput(event.target.value)}
           placeholder="Ask about your todos..."
         />
-        <button className="rounded-md bg-cyan-500 px-4 py-2 font-medium text-slate-950" disabled={isStreaming}>
+        <button className="rounded-md bg-cyan-500 px-4 py-2 font-medium text-slate-950" disabled={isSending}>
           Send
         </button>
       </form>
@@ -0,0 +1,101 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  adapterConformanceTests,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  defineModel,
+  transaction,
+  type StorageAdapter,
+} from '../index';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+describe.each([
+  ['indexeddb', createIndexedDBAdapter],
+  ['memory', createMemoryAdapter],
+])('%s adapter conformance', (_name, createAdapter) => {
+  for (const test of adapterConformanceTests(createAdapter)) {
+    it(test.name, test.run);
+  }
+});
+
+let modelCount = 0;
+
+describe('defineModel adapters', () => {
+  it('stores models in the given adapter and database', async () => {
+    const adapter = createMemoryAdapter();
+    const notes = defineModel<Note>(`notes-${modelCount++}`, {
+      adapter,
+      dbName: 'scratch',
+    });
+    const note = await notes.table().insert({ text: 'hello' });
+
+    const tx = await adapter.transaction('scratch', [notes.name], 'readonly');
+    expect(await tx.get(notes.name, note.id)).toEqual(note);
+    await tx.commit();
+  });
+
+  it('keeps each adapter instance separate', async () => {
+    const name = `notes-${modelCount++}`;
+    const first = defineModel<Note>(name, { adapter: createMemoryAdapter() });
+    const second = defineModel<Note>(name, { adapter: createMemoryAdapter() });
+
+    await first.table().insert({ text: 'only here' });
+    expect(await second.table().getAll()).toEqual([]);
+  });
+
+  it('runs transactions through the shared adapter', async () => {
+    const adapter = createMemoryAdapter();
+    const notes = defineModel<Note>(`notes-${modelCount++}`, { adapter });
+    const drafts = defineModel<Note>(`drafts-${modelCount++}`, { adapter });
+    const draft = await drafts.table().insert({ text: 'publish me' });
+
+    await transaction([notes, drafts], 'readwrite', async (tx) => {
+      await tx.table(notes).insert({ text: draft.text });
+      await tx.table(drafts).delete(draft.id);
+    });
+
+    expect(await notes.table().getAll()).toMatchObject([
+      { text: 'publish me' },
+    ]);
+    expect(await drafts.table().getAll()).toEqual([]);
+  });
+
+  it('refuses transactions across adapters', async () => {
+    const notes = defineModel<Note>(`notes-${modelCount++}`, {
+      adapter: createMemoryAdapter(),
+    });
+    const drafts = defineModel<Note>(`drafts-${modelCount++}`);
+
+    await expect(
+      transaction([notes, drafts], 'readwrite', () => {})
+    ).rejects.toThrow(/same storage adapter/);
+  });
+
+  it('falls back to memory when an adapter cannot open', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken: StorageAdapter = {
+      ...createMemoryAdapter(),
+      name: 'broken',
+      shared: true,
+      defineStore: () => {},
+      open: () => Promise.reject(new Error('not here')),
+      transaction: () => Promise.reject(new Error('not here')),
+    };
+    const notes = defineModel<Note>(`notes-${modelCount++}`, {
+      adapter: broken,
+    });
+
+    const note = await notes.table().insert({ text: 'kept in memory' });
+    expect(await notes.table().get(note.id)).toEqual(note);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('"broken" unavailable'),
+      expect.any(Error)
+    );
+    vi.restoreAllMocks();
+  });
+});
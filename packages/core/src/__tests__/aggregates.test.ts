@@ -0,0 +1,152 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  defineModel,
+  type StorageAdapter,
+} from '../index';
+
+interface Order {
+  id: string;
+  customer: string;
+  total: number;
+  placedAt: Date;
+  note?: string;
+}
+
+let databaseCount = 0;
+
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+  ['indexeddb', createIndexedDBAdapter],
+];
+
+describe.each(adapters)('aggregates (%s)', (_, createAdapter) => {
+  async function setup() {
+    const orders = defineModel<Order>('orders', {
+      adapter: createAdapter(),
+      dbName: `aggregates-${databaseCount++}`,
+      indexes: ['customer', 'placedAt'],
+      softDelete: true,
+    });
+    const table = orders.table();
+    const seeded = [
+      { customer: 'ada', total: 30, placedAt: new Date('2024-03-01') },
+      { customer: 'bob', total: 10, placedAt: new Date('2024-01-01') },
+      { customer: 'ada', total: 25, placedAt: new Date('2024-02-01') },
+      { customer: 'cy', total: 5, placedAt: new Date('2024-04-01') },
+    ];
+    const results = await table.bulkPut(
+      seeded.map((order, i) => ({ ...order, id: `order-${i}` }))
+    );
+    expect(results.every((result) => result.ok)).toBe(true);
+    // Trashed records are left out of every aggregate
+    await table.delete('order-3');
+    return table;
+  }
+
+  it('counts, sums and finds extremes', async () => {
+    const table = await setup();
+    expect(await table.count()).toBe(3);
+    expect(await table.where('customer').equals('ada').count()).toBe(2);
+    expect(await table.sum('total')).toBe(65);
+    expect(await table.where('customer').equals('ada').sum('total')).toBe(55);
+    expect(await table.min('total')).toBe(10);
+    expect(await table.max('total')).toBe(30);
+    expect(await table.max('placedAt')).toEqual(new Date('2024-03-01'));
+    expect(await table.min('note')).toBeUndefined();
+    expect(await table.trash().count()).toBe(1);
+  });
+
+  it('groups records by a field', async () => {
+    const table = await setup();
+    expect(await table.groupBy('customer').count()).toEqual(
+      new Map([
+        ['ada', 2],
+        ['bob', 1],
+      ])
+    );
+    expect(await table.groupBy<string>('customer').sum('total')).toEqual(
+      new Map([
+        ['ada', 55],
+        ['bob', 10],
+      ])
+    );
+    expect(await table.groupBy('customer').max('placedAt')).toEqual(
+      new Map([
+        ['ada', new Date('2024-03-01')],
+        ['bob', new Date('2024-01-01')],
+      ])
+    );
+  });
+
+  it('orders records by a field', async () => {
+    const table = await setup();
+    const byDate = await table.orderBy('placedAt', 'desc').toArray();
+    expect(byDate.map((order) => order.id)).toEqual([
+      'order-0',
+      'order-2',
+      'order-1',
+    ]);
+    const byTotal = await table.orderBy('total').limit(2).toArray();
+    expect(byTotal.map((order) => order.total)).toEqual([10, 25]);
+  });
+
+  it('paginates with cursors', async () => {
+    const table = await setup();
+    const first = await table.paginate({ limit: 2 });
+    expect(first.items.map((order) => order.id)).toEqual([
+      'order-0',
+      'order-1',
+    ]);
+    // Inserting before the cursor doesn't shift the next page
+    await table.bulkPut([
+      {
+        id: 'order-00',
+        customer: 'dee',
+        total: 1,
+        placedAt: new Date('2024-05-01'),
+      },
+    ]);
+    const second = await table.paginate({ after: first.next, limit: 2 });
+    expect(second.items.map((order) => order.id)).toEqual(['order-2']);
+    expect(second.next).toBeNull();
+
+    const pages: string[][] = [];
+    let after: string | null = null;
+    do {
+      const page = await table
+        .orderBy('placedAt', 'desc')
+        .paginate({ after, limit: 1 });
+      pages.push(page.items.map((order) => order.customer));
+      after = page.next;
+    } while (after);
+    expect(pages).toEqual([['dee'], ['ada'], ['ada'], ['bob']]);
+
+    // Records with the same key are paged by id
+    await table.bulkPut([
+      { id: 'order-4', customer: 'eve', total: 30, placedAt: new Date() },
+    ]);
+    const ids: string[] = [];
+    after = null;
+    do {
+      const page = await table
+        .orderBy('total', 'desc')
+        .paginate({ after, limit: 1 });
+      ids.push(...page.items.map((order) => order.id));
+      after = page.next;
+    } while (after);
+    expect(ids).toEqual([
+      'order-4',
+      'order-0',
+      'order-2',
+      'order-1',
+      'order-00',
+    ]);
+
+    const ada = table.where('customer').equals('ada').orderBy('total');
+    const [low] = (await ada.paginate({ limit: 1 })).items;
+    expect(low.total).toBe(25);
+  });
+});
@@ -0,0 +1,206 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  createHistory,
+  createVault,
+  defineModel,
+  type Attachment,
+  type ModelOptions,
+  type StorageAdapter,
+} from '../index';
+
+interface Note {
+  id: string;
+  title: string;
+  cover?: Attachment;
+  files: Attachment[];
+}
+
+let databaseCount = 0;
+
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>) {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return chunks;
+    chunks.push(value);
+  }
+}
+
+// Deep equality is slow on large arrays, and jsdom's are from another realm
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Larger than one chunk, so it is split
+const photo = Uint8Array.from({ length: 600 * 1024 }, (_, i) => i % 251);
+
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+  ['indexeddb', createIndexedDBAdapter],
+];
+
+describe.each(adapters)('attachments (%s)', (_, createAdapter) => {
+  function setup(options: ModelOptions<Note> = {}) {
+    return defineModel<Note>('notes', {
+      adapter: createAdapter(),
+      dbName: `attachments-${databaseCount++}`,
+      attachments: ['cover', 'files'],
+      ...options,
+    });
+  }
+
+  it('stores blobs and reads them back whole or streamed', async () => {
+    const notes = setup();
+    const file = new File([photo], 'photo.png', { type: 'image/png' });
+    const cover = await notes.attachments.put(file);
+    expect(cover).toEqual({
+      id: expect.any(String),
+      name: 'photo.png',
+      type: 'image/png',
+      size: photo.byteLength,
+    });
+
+    const blob = await notes.attachments.get(cover);
+    expect(blob?.type).toBe('image/png');
+    expect(sameBytes(await readBlob(blob!), photo)).toBe(true);
+
+    const chunks = await readStream(notes.attachments.stream(cover.id));
+    expect(chunks).toHaveLength(3);
+    expect(
+      sameBytes(await readBlob(new Blob(chunks as BlobPart[])), photo)
+    ).toBe(true);
+
+    await notes.attachments.put(new Blob(['hello']), { name: 'hello.txt' });
+    expect(await notes.attachments.usage()).toEqual({
+      count: 2,
+      bytes: photo.byteLength + 5,
+    });
+  });
+
+  it('deletes attachments their records no longer point at', async () => {
+    const notes = setup();
+    const table = notes.table();
+    const [cover, a, b] = await Promise.all([
+      notes.attachments.put(new Blob(['cover'])),
+      notes.attachments.put(new Blob(['a'])),
+      notes.attachments.put(new Blob(['b'])),
+    ]);
+    const note = await table.insert({ title: 'Trip', cover, files: [a, b] });
+
+    await table.update(note.id, { files: [b] });
+    expect(await notes.attachments.get(a)).toBeUndefined();
+    expect(await notes.attachments.get(b)).toBeDefined();
+
+    await table.delete(note.id);
+    expect(await notes.attachments.usage()).toEqual({ count: 0, bytes: 0 });
+  });
+
+  it('keeps attachments of trashed records until they are purged', async () => {
+    const notes = setup({ softDelete: true });
+    const table = notes.table();
+    const cover = await notes.attachments.put(new Blob(['cover']));
+    const note = await table.insert({ title: 'Trip', cover, files: [] });
+
+    await table.delete(note.id);
+    expect(await notes.attachments.collectGarbage()).toBe(0);
+    expect(await notes.attachments.get(cover)).toBeDefined();
+    await table.purge(note.id);
+    expect(await notes.attachments.get(cover)).toBeUndefined();
+  });
+
+  it('drops deleted attachments from records brought back by undo', async () => {
+    const notes = setup();
+    const history = createHistory([notes]);
+    const [cover, a] = await Promise.all([
+      notes.attachments.put(new Blob(['cover'])),
+      notes.attachments.put(new Blob(['a'])),
+    ]);
+    const note = await history.batch(() =>
+      notes.table().insert({ title: 'Trip', cover, files: [a] })
+    );
+    await notes.table().update(note.id, { files: [] });
+    await notes.table().delete(note.id);
+
+    await history.undo();
+    expect(await notes.table().get(note.id)).toEqual({
+      ...note,
+      cover: null,
+      files: [],
+    });
+    await history.undo();
+    expect(await notes.table().get(note.id)).toEqual({
+      ...note,
+      cover: null,
+      files: [],
+    });
+    history.dispose();
+  });
+
+  it('collects attachments no record points at', async () => {
+    const notes = setup();
+    const kept = await notes.attachments.put(new Blob(['kept']));
+    const orphan = await notes.attachments.put(new Blob(['orphan']));
+    await notes.table().insert({ title: 'Note', files: [kept] });
+
+    expect(await notes.attachments.collectGarbage()).toBe(1);
+    expect(await notes.attachments.get(orphan)).toBeUndefined();
+    expect(await notes.attachments.get(kept)).toBeDefined();
+    await expect(readStream(notes.attachments.stream(orphan))).rejects.toThrow(
+      'not found'
+    );
+  });
+});
+
+describe('attachments', () => {
+  it('need attachment fields', async () => {
+    const notes = defineModel<Note>('plain-notes', {
+      adapter: createMemoryAdapter(),
+    });
+    await expect(notes.attachments.usage()).rejects.toThrow(
+      'has no attachment fields'
+    );
+  });
+
+  it('are encrypted with the model', async () => {
+    const dbName = `attachments-${databaseCount++}`;
+    const vault = createVault({ dbName, iterations: 1000 });
+    const notes = defineModel<Note>('notes', {
+      dbName,
+      encryption: vault,
+      attachments: ['files'],
+    });
+    expect(() =>
+      defineModel<Note>('drafts', { dbName, attachments: ['files'] })
+    ).toThrow('must all use the same vault');
+
+    await vault.unlock('correct horse');
+    const secret = await notes.attachments.put(new Blob(['secret']));
+    const adapter = createIndexedDBAdapter();
+    await adapter.open(dbName);
+    const tx = await adapter.transaction(
+      dbName,
+      ['__nearstack_attachment_chunks'],
+      'readonly'
+    );
+    const [raw] = await tx.getAll('__nearstack_attachment_chunks');
+    await tx.commit();
+    expect(raw).not.toHaveProperty('data');
+    const blob = await notes.attachments.get(secret);
+    expect(
+      sameBytes(await readBlob(blob!), new TextEncoder().encode('secret'))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createMemoryAdapter,
+  defineModel,
+  defineSchema,
+  exportDatabase,
+  importDatabase,
+  SchemaVersionError,
+  v,
+} from '../index';
+
+interface Note {
+  id: string;
+  title: string;
+  createdAt: Date;
+}
+
+interface Tag {
+  id: string;
+  label: string;
+}
+
+let databaseCount = 0;
+
+function setup(dbName = `backup-${databaseCount++}`) {
+  const adapter = createMemoryAdapter();
+  const notes = defineModel<Note>('notes', {
+    adapter,
+    dbName,
+    schema: v.object({ title: v.string(), createdAt: v.date() }),
+  });
+  const tags = defineModel<Tag>('tags', { adapter, dbName });
+  return { dbName, notes, tags };
+}
+
+async function readText(stream: ReadableStream<string>): Promise<string> {
+  return new Response(stream.pipeThrough(new TextEncoderStream())).text();
+}
+
+const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+describe('exportDatabase / importDatabase', () => {
+  it('round-trips every model through JSON', async () => {
+    const source = setup();
+    await source.notes.table().bulkPut([
+      { id: 'n1', title: 'First', createdAt },
+      { id: 'n2', title: 'Second', createdAt },
+    ]);
+    await source.tags.table().insert({ label: 'work' });
+
+    const text = await readText(exportDatabase({ dbName: source.dbName }));
+    const parsed = JSON.parse(text);
+    expect(parsed).toMatchObject({
+      format: 'nearstack',
+      formatVersion: 1,
+      database: source.dbName,
+      schemaVersion: 0,
+    });
+    expect(parsed.models.notes[0].createdAt).toEqual({
+      $date: createdAt.toISOString(),
+    });
+
+    const target = setup();
+    const report = await importDatabase(text, { dbName: target.dbName });
+    expect(report).toMatchObject({ inserted: 3, updated: 0, errors: [] });
+    expect(await target.notes.table().getAll()).toEqual(
+      await source.notes.table().getAll()
+    );
+    expect((await target.notes.table().get('n1'))?.createdAt).toBeInstanceOf(
+      Date
+    );
+    expect(await target.tags.table().getAll()).toHaveLength(1);
+  });
+
+  it('streams NDJSON in pages and reads it back in chunks', async () => {
+    const source = setup();
+    await source.tags
+      .table()
+      .bulkInsert(Array.from({ length: 5 }, (_, i) => ({ label: `tag-${i}` })));
+
+    const text = await readText(
+      exportDatabase({
+        dbName: source.dbName,
+        format: 'ndjson',
+        models: ['tags'],
+        batchSize: 2,
+      })
+    );
+    const lines = text.trim().split('\n');
+    expect(lines).toHaveLength(6);
+    expect(JSON.parse(lines[1])).toMatchObject({ model: 'tags' });
+
+    // Byte chunks that split lines (and characters) anywhere
+    const bytes = new TextEncoder().encode(text);
+    async function* chunks() {
+      for (let i = 0; i < bytes.length; i += 7) yield bytes.slice(i, i + 7);
+    }
+    const target = setup();
+    const report = await importDatabase(chunks(), {
+      dbName: target.dbName,
+      batchSize: 2,
+    });
+    expect(report.inserted).toBe(5);
+    expect(await target.tags.table().getAll()).toEqual(
+      await source.tags.table().getAll()
+    );
+  });
+
+  it('reports conflicts when merging', async () => {
+    const { dbName, tags } = setup();
+    await tags.table().bulkPut([
+      { id: 'a', label: 'same' },
+      { id: 'b', label: 'local' },
+    ]);
+    const backup = JSON.stringify({
+      format: 'nearstack',
+      formatVersion: 1,
+      database: dbName,
+      schemaVersion: 0,
+      exportedAt: new Date().toISOString(),
+      models: {
+        tags: [
+          { label: 'same', id: 'a' },
+          { id: 'b', label: 'remote' },
+          { id: 'c', label: 'new' },
+        ],
+      },
+    });
+
+    const kept = await importDatabase(backup);
+    expect(kept).toMatchObject({ inserted: 1, updated: 0, unchanged: 1 });
+    expect(kept.conflicts).toEqual([
+      {
+        model: 'tags',
+        id: 'b',
+        existing: { id: 'b', label: 'local' },
+        incoming: { id: 'b', label: 'remote' },
+        resolution: 'kept',
+      },
+    ]);
+    expect((await tags.table().get('b'))?.label).toBe('local');
+
+    const overwritten = await importDatabase(backup, {
+      onConflict: 'overwrite',
+    });
+    expect(overwritten).toMatchObject({ updated: 1, unchanged: 2 });
+    expect(overwritten.conflicts[0].resolution).toBe('overwritten');
+    expect((await tags.table().get('b'))?.label).toBe('remote');
+  });
+
+  it('replaces the stored data', async () => {
+    const source = setup();
+    await source.tags.table().insert({ label: 'exported' });
+    const text = await readText(exportDatabase({ dbName: source.dbName }));
+
+    const target = setup();
+    await target.tags.table().insert({ label: 'local only' });
+    await target.notes.table().insert({ title: 'local note', createdAt });
+    await importDatabase(text, { dbName: target.dbName, mode: 'replace' });
+
+    expect((await target.tags.table().getAll()).map((t) => t.label)).toEqual([
+      'exported',
+    ]);
+    expect(await target.notes.table().getAll()).toEqual([]);
+  });
+
+  it('reports invalid records and unknown models', async () => {
+    const { dbName, notes } = setup();
+    const report = await importDatabase(
+      JSON.stringify({
+        format: 'nearstack',
+        formatVersion: 1,
+        database: dbName,
+        schemaVersion: 0,
+        exportedAt: new Date().toISOString(),
+        models: {
+          notes: [{ id: 'n1', title: 42 }, { title: 'no id' }],
+          archived: [{ id: 'x' }],
+        },
+      })
+    );
+
+    expect(report.inserted).toBe(0);
+    expect(report.errors.map((issue) => issue.error.name)).toEqual([
+      'Error',
+      'ValidationError',
+    ]);
+    expect(report.errors[1].id).toBe('n1');
+    expect(report.skippedModels).toEqual(['archived']);
+    expect(await notes.table().getAll()).toEqual([]);
+  });
+
+  it('migrates older exports and refuses newer ones', async () => {
+    const dbName = `backup-${databaseCount++}`;
+    defineSchema({
+      name: dbName,
+      migrations: [
+        {
+          version: 1,
+          upgrade: (context) =>
+            context.updateAll<{ id: string; name?: string; label?: string }>(
+              'tags',
+              ({ id, name }) => ({ id, label: name })
+            ),
+        },
+      ],
+    });
+    const { tags } = setup(dbName);
+    const header = {
+      format: 'nearstack',
+      formatVersion: 1,
+      database: dbName,
+      exportedAt: new Date().toISOString(),
+    };
+
+    await importDatabase(
+      [
+        JSON.stringify({ ...header, schemaVersion: 0 }),
+        JSON.stringify({ model: 'tags', record: { id: 't', name: 'old' } }),
+      ].join('\n')
+    );
+    expect(await tags.table().get('t')).toEqual({ id: 't', label: 'old' });
+
+    await expect(
+      importDatabase(JSON.stringify({ ...header, schemaVersion: 2 }))
+    ).rejects.toBeInstanceOf(SchemaVersionError);
+    await expect(importDatabase('{"hello":"world"}')).rejects.toThrow(
+      'Not a nearstack database export'
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryAdapter,
+  defineModel,
+  transaction,
+  v,
+  type ChangeEvent,
+  type ModelOptions,
+} from '../index';
+
+interface Product {
+  id: string;
+  sku: string;
+  price: number;
+}
+
+let modelCount = 0;
+
+function setup(options: ModelOptions<Product> = {}) {
+  const model = defineModel<Product>(`bulk-products-${modelCount++}`, {
+    indexes: [{ keyPath: 'sku', unique: true }],
+    ...options,
+  });
+  const batches: ChangeEvent<Product>[][] = [];
+  const unsubscribe = model.subscribe((events) => batches.push(events));
+  return { model, table: model.table(), batches, unsubscribe };
+}
+
+describe('bulk operations', () => {
+  it('inserts many records with one notification', async () => {
+    const { table, batches, unsubscribe } = setup();
+    const results = await table.bulkInsert(
+      Array.from({ length: 50 }, (_, i) => ({ sku: `P-${i}`, price: i }))
+    );
+
+    expect(results).toHaveLength(50);
+    expect(results.every((result) => result.ok)).toBe(true);
+    expect(await table.getAll()).toHaveLength(50);
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toHaveLength(50);
+    expect(batches[0].every((event) => event.type === 'insert')).toBe(true);
+    unsubscribe();
+  });
+
+  it('reports failed items and writes the rest', async () => {
+    const { table, batches, unsubscribe } = setup();
+    await table.insert({ sku: 'A', price: 1 });
+    batches.length = 0;
+
+    const results = await table.bulkInsert([
+      { sku: 'B', price: 2 },
+      { sku: 'A', price: 3 },
+      { sku: 'C', price: 4 },
+    ]);
+
+    expect(results.map((result) => result.ok)).toEqual([true, false, true]);
+    const failed = results[1];
+    expect(!failed.ok && failed.error.name).toBe('ConstraintError');
+    expect((await table.getAll()).map((p) => p.sku).sort()).toEqual([
+      'A',
+      'B',
+      'C',
+    ]);
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toHaveLength(2);
+    unsubscribe();
+  });
+
+  it('reports records failing validation', async () => {
+    const { table, unsubscribe } = setup({
+      schema: v.object({ sku: v.string(), price: v.number() }),
+    });
+    const results = await table.bulkInsert([
+      { sku: 'A', price: 1 },
+      { sku: 'B', price: 'free' as unknown as number },
+    ]);
+
+    expect(results[0].ok).toBe(true);
+    expect(!results[1].ok && results[1].error.name).toBe('ValidationError');
+    expect(await table.getAll()).toHaveLength(1);
+    unsubscribe();
+  });
+
+  it('puts, updates and deletes in bulk', async () => {
+    const { table, batches, unsubscribe } = setup();
+    const [a, b] = (
+      await table.bulkInsert([
+        { sku: 'A', price: 1 },
+        { sku: 'B', price: 2 },
+      ])
+    ).map((result) => (result.ok ? result.value : undefined)) as Product[];
+
+    const put = await table.bulkPut([
+      { ...a, price: 10 },
+      { id: 'c', sku: 'C', price: 3 },
+    ]);
+    expect(put.every((result) => result.ok)).toBe(true);
+    expect(batches[1].map((event) => event.type)).toEqual(['update', 'insert']);
+
+    const updated = await table.bulkUpdate([
+      { id: b.id, changes: { price: 20 } },
+      { id: 'missing', changes: { price: 0 } },
+    ]);
+    expect(updated).toEqual([
+      { ok: true, value: { ...b, price: 20 } },
+      { ok: true, value: undefined },
+    ]);
+    expect(batches[2]).toHaveLength(1);
+
+    const deleted = await table.bulkDelete([a.id, 'missing']);
+    expect(deleted.every((result) => result.ok)).toBe(true);
+    expect(batches[3].map((event) => event.id)).toEqual([a.id]);
+    expect((await table.getAll()).map((p) => p.sku).sort()).toEqual(['B', 'C']);
+    unsubscribe();
+  });
+
+  it('clears a model', async () => {
+    const { table, batches, unsubscribe } = setup({
+      adapter: createMemoryAdapter(),
+    });
+    await table.bulkInsert([
+      { sku: 'A', price: 1 },
+      { sku: 'B', price: 2 },
+    ]);
+    await table.clear();
+
+    expect(await table.getAll()).toEqual([]);
+    expect(batches[1].map((event) => event.type)).toEqual(['delete', 'delete']);
+
+    // Nothing to clear, nothing to announce
+    await table.clear();
+    expect(batches).toHaveLength(2);
+    unsubscribe();
+  });
+
+  it('joins an enclosing transaction', async () => {
+    const { model, batches, unsubscribe } = setup();
+    const callback = vi.fn();
+    const stop = model.subscribe(callback);
+
+    await expect(
+      transaction([model], 'readwrite', async (tx) => {
+        await tx.table(model).bulkInsert([
+          { sku: 'A', price: 1 },
+          { sku: 'B', price: 2 },
+        ]);
+        throw new Error('changed my mind');
+      })
+    ).rejects.toThrow('changed my mind');
+    expect(await model.table().getAll()).toEqual([]);
+    expect(callback).not.toHaveBeenCalled();
+
+    await transaction([model], 'readwrite', async (tx) => {
+      await tx.table(model).bulkInsert([{ sku: 'A', price: 1 }]);
+      await tx.table(model).insert({ sku: 'B', price: 2 });
+    });
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toHaveLength(2);
+    stop();
+    unsubscribe();
+  });
+});
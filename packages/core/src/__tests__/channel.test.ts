@@ -0,0 +1,180 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+type Core = typeof import('../index');
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+// A fresh copy of core stands in for another browser tab
+async function openTab(): Promise<Core> {
+  vi.resetModules();
+  return import('../index');
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('cross-tab change propagation', () => {
+  it('notifies subscribers in other tabs over BroadcastChannel', async () => {
+    const tabA = await openTab();
+    const notesA = tabA.defineModel<Note>('notes-broadcast');
+    const tabB = await openTab();
+    const notesB = tabB.defineModel<Note>('notes-broadcast');
+
+    const listenerA = vi.fn();
+    const listenerB = vi.fn();
+    notesA.subscribe(listenerA);
+    const unsubscribeB = notesB.subscribe(listenerB);
+
+    const note = await notesA.table().insert({ text: 'hello' });
+
+    await vi.waitFor(() => expect(listenerB).toHaveBeenCalledTimes(1));
+    expect(await notesB.table().get(note.id)).toEqual(note);
+    expect(listenerA).toHaveBeenCalledTimes(1);
+
+    unsubscribeB();
+    await notesA.table().delete(note.id);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(listenerB).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to storage events without BroadcastChannel', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+    const tabA = await openTab();
+    const notesA = tabA.defineModel<Note>('notes-storage');
+    const tabB = await openTab();
+    const notesB = tabB.defineModel<Note>('notes-storage');
+
+    const listenerA = vi.fn();
+    const listenerB = vi.fn();
+    notesA.subscribe(listenerA);
+    notesB.subscribe(listenerB);
+
+    await notesA.table().insert({ text: 'hello' });
+    const [key, value] = setItem.mock.calls[0];
+    expect(key).toBe('nearstack:nearstack');
+
+    // Browsers deliver this event to every other tab
+    window.dispatchEvent(new StorageEvent('storage', { key, newValue: value }));
+
+    expect(listenerB).toHaveBeenCalledTimes(1);
+    expect(listenerA).toHaveBeenCalledTimes(1);
+    setItem.mockRestore();
+  });
+});
+
+// Minimal exclusive-only Web Locks implementation shared by all "tabs"
+function createFakeLocks() {
+  const queues = new Map<string, Array<() => void>>();
+  const held = new Set<string>();
+
+  const next = (name: string) => {
+    const grant = queues.get(name)?.shift();
+    if (grant) grant();
+    else held.delete(name);
+  };
+
+  return {
+    request(
+      name: string,
+      options: { signal?: AbortSignal },
+      callback: () => unknown
+    ): Promise<unknown> {
+      return new Promise((resolve, reject) => {
+        const grant = () => {
+          held.add(name);
+          Promise.resolve(callback()).then((result) => {
+            next(name);
+            resolve(result);
+          });
+        };
+        if (!held.has(name)) {
+          grant();
+          return;
+        }
+        const queue = queues.get(name) ?? [];
+        queue.push(grant);
+        queues.set(name, queue);
+        options.signal?.addEventListener('abort', () => {
+          queue.splice(queue.indexOf(grant), 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    },
+  };
+}
+
+describe('electLeader', () => {
+  it('hands leadership to the next tab when the leader resigns', async () => {
+    Object.defineProperty(navigator, 'locks', {
+      value: createFakeLocks(),
+      configurable: true,
+    });
+    try {
+      const tabA = await openTab();
+      const tabB = await openTab();
+      const tabC = await openTab();
+
+      const leaderA = tabA.electLeader('sync');
+      const leaderB = tabB.electLeader('sync');
+      const leaderC = tabC.electLeader('sync');
+      await leaderA.whenLeader();
+      expect(leaderB.isLeader).toBe(false);
+
+      const onChange = vi.fn();
+      leaderB.onChange(onChange);
+
+      // A tab that gives up while waiting never becomes leader
+      leaderC.resign();
+      leaderA.resign();
+      await leaderB.whenLeader();
+
+      expect(leaderA.isLeader).toBe(false);
+      expect(onChange).toHaveBeenCalledWith(true);
+      expect(leaderC.isLeader).toBe(false);
+    } finally {
+      delete (navigator as { locks?: unknown }).locks;
+    }
+  });
+
+  it('elects one tab by heartbeat without Web Locks', async () => {
+    const tabs = [await openTab(), await openTab(), await openTab()];
+    const elections = tabs.map((tab) =>
+      tab.electLeader('indexing', { heartbeatInterval: 20 })
+    );
+    try {
+      await Promise.race(elections.map((election) => election.whenLeader()));
+      // Give any competing claims time to settle
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const leaders = elections.filter((election) => election.isLeader);
+      expect(leaders).toHaveLength(1);
+
+      const [leader] = leaders;
+      const others = elections.filter((election) => election !== leader);
+      leader.resign();
+      await Promise.race(others.map((election) => election.whenLeader()));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(leader.isLeader).toBe(false);
+      expect(others.filter((election) => election.isLeader)).toHaveLength(1);
+    } finally {
+      elections.forEach((election) => election.resign());
+    }
+  });
+
+  it('leads alone without any cross-tab channel', async () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    vi.stubGlobal('localStorage', undefined);
+    const core = await openTab();
+    const election = core.electLeader('indexing');
+    expect(election.isLeader).toBe(true);
+    await expect(election.whenLeader()).resolves.toBeUndefined();
+    election.resign();
+  });
+});
@@ -0,0 +1,199 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createIndexedDBAdapter,
+  createVault,
+  defineModel,
+  LockedError,
+  PassphraseError,
+  transaction,
+  type StoredRecord,
+} from '../index';
+
+interface Note {
+  id: string;
+  folder: string;
+  title: string;
+  body: string;
+  editedAt: Date;
+}
+
+interface Folder {
+  id: string;
+  name: string;
+}
+
+let databaseCount = 0;
+
+function setup() {
+  const dbName = `encrypted-${databaseCount++}`;
+  const vault = createVault({ dbName, iterations: 1000 });
+  const notes = defineModel<Note>('notes', {
+    dbName,
+    encryption: vault,
+    indexes: ['folder'],
+  });
+  const folders = defineModel<Folder>('folders', { dbName });
+  return { dbName, vault, notes, folders };
+}
+
+async function readRaw(dbName: string, id: string) {
+  const adapter = createIndexedDBAdapter();
+  await adapter.open(dbName);
+  const tx = await adapter.transaction(dbName, ['notes'], 'readonly');
+  const record = await tx.get<StoredRecord & Record<string, unknown>>(
+    'notes',
+    id
+  );
+  await tx.commit();
+  return record!;
+}
+
+const editedAt = new Date('2024-05-01T10:00:00.000Z');
+
+describe('encrypted models', () => {
+  it('stores records encrypted, keeping the id and indexes readable', async () => {
+    const { dbName, vault, notes } = setup();
+    await vault.unlock('correct horse');
+    const note = await notes
+      .table()
+      .insert({ folder: 'work', title: 'Plan', body: 'secret', editedAt });
+
+    const raw = await readRaw(dbName, note.id);
+    expect(raw).toMatchObject({ id: note.id, folder: 'work' });
+    expect(raw.title).toBeUndefined();
+    expect(raw.body).toBeUndefined();
+    expect(JSON.stringify(raw)).not.toContain('secret');
+
+    expect(await notes.table().get(note.id)).toEqual(note);
+    expect((await notes.table().get(note.id))?.editedAt).toBeInstanceOf(Date);
+  });
+
+  it('queries, updates and runs transactions on encrypted records', async () => {
+    const { vault, notes, folders } = setup();
+    await vault.unlock('correct horse');
+    const table = notes.table();
+    await table.bulkInsert([
+      { folder: 'work', title: 'B', body: '', editedAt },
+      { folder: 'work', title: 'A', body: '', editedAt },
+      { folder: 'home', title: 'C', body: '', editedAt },
+    ]);
+
+    const work = await table
+      .where('folder')
+      .equals('work')
+      .sortBy('title')
+      .toArray();
+    expect(work.map((note) => note.title)).toEqual(['A', 'B']);
+    expect(await table.find((note) => note.title === 'C')).toHaveLength(1);
+
+    const updated = await table.update(work[0].id, { body: 'edited' });
+    expect(updated?.body).toBe('edited');
+    expect((await table.get(work[0].id))?.body).toBe('edited');
+
+    await transaction([notes, folders], 'readwrite', async (tx) => {
+      const folder = await tx.table(folders).insert({ name: 'archive' });
+      const note = await tx.table(notes).get(work[1].id);
+      await tx.table(notes).update(note!.id, { folder: folder.name });
+    });
+    expect(
+      (await table.where('folder').equals('archive').toArray()).map(
+        (note) => note.title
+      )
+    ).toEqual(['B']);
+  });
+
+  it('refuses access while locked', async () => {
+    const { vault, notes } = setup();
+    const listener = vi.fn();
+    vault.subscribe(listener);
+
+    await expect(notes.table().getAll()).resolves.toEqual([]);
+    await expect(
+      notes.table().insert({ folder: 'x', title: '', body: '', editedAt })
+    ).rejects.toBeInstanceOf(LockedError);
+
+    await vault.unlock('correct horse');
+    const note = await notes
+      .table()
+      .insert({ folder: 'x', title: 'T', body: '', editedAt });
+    vault.lock();
+    expect(vault.locked).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(2);
+    await expect(notes.table().get(note.id)).rejects.toBeInstanceOf(
+      LockedError
+    );
+
+    await expect(vault.unlock('wrong')).rejects.toBeInstanceOf(PassphraseError);
+    expect(vault.locked).toBe(true);
+    await vault.unlock('correct horse');
+    expect((await notes.table().get(note.id))?.title).toBe('T');
+  });
+
+  it('unlocks after a reload with the same passphrase', async () => {
+    const { dbName, vault, notes } = setup();
+    await vault.unlock('correct horse');
+    const note = await notes
+      .table()
+      .insert({ folder: 'x', title: 'kept', body: '', editedAt });
+
+    vi.resetModules();
+    const core = await import('../index');
+    const reloadedVault = core.createVault({ dbName, iterations: 1000 });
+    const reloaded = core.defineModel<Note>('notes', {
+      dbName,
+      encryption: reloadedVault,
+      indexes: ['folder'],
+    });
+    await expect(reloadedVault.unlock('other')).rejects.toThrow(
+      'Incorrect passphrase'
+    );
+    await reloadedVault.unlock('correct horse');
+    expect((await reloaded.table().get(note.id))?.title).toBe('kept');
+  });
+
+  it('changes the passphrase without re-encrypting records', async () => {
+    const { dbName, vault, notes } = setup();
+    await vault.unlock('old');
+    const note = await notes
+      .table()
+      .insert({ folder: 'x', title: 'T', body: '', editedAt });
+    const before = await readRaw(dbName, note.id);
+
+    await vault.changePassphrase('old', 'new');
+    expect(await readRaw(dbName, note.id)).toEqual(before);
+
+    vault.lock();
+    await expect(vault.unlock('old')).rejects.toBeInstanceOf(PassphraseError);
+    await vault.unlock('new');
+    expect((await notes.table().get(note.id))?.title).toBe('T');
+    await expect(vault.changePassphrase('old', 'newer')).rejects.toBeInstanceOf(
+      PassphraseError
+    );
+  });
+
+  it('rotates the data key', async () => {
+    const { dbName, vault, notes } = setup();
+    await vault.unlock('correct horse');
+    const results = await notes.table().bulkInsert([
+      { folder: 'x', title: 'A', body: '', editedAt },
+      { folder: 'x', title: 'B', body: '', editedAt },
+    ]);
+    const ids = results.map((result) => (result.ok ? result.value.id : ''));
+    const keyOf = async (id: string) =>
+      ((await readRaw(dbName, id)).$encrypted as { key: string }).key;
+    const oldKey = await keyOf(ids[0]);
+
+    await vault.rotateKey();
+    const newKey = await keyOf(ids[0]);
+    expect(newKey).not.toBe(oldKey);
+    expect(await keyOf(ids[1])).toBe(newKey);
+    expect((await notes.table().getAll()).map((note) => note.title)).toEqual(
+      expect.arrayContaining(['A', 'B'])
+    );
+
+    vault.lock();
+    await vault.unlock('correct horse');
+    expect(await notes.table().getAll()).toHaveLength(2);
+  });
+});
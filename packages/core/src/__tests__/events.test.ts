@@ -0,0 +1,138 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+
+type Core = typeof import('../index');
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+async function loadCore(): Promise<Core> {
+  vi.resetModules();
+  return import('../index');
+}
+
+let modelCount = 0;
+
+describe('change events', () => {
+  it('describes each write', async () => {
+    const core = await loadCore();
+    const notes = core.defineModel<Note>(`events-${modelCount++}`);
+    const listener = vi.fn();
+    notes.subscribe(listener);
+
+    const note = await notes.table().insert({ text: 'draft' });
+    const updated = await notes.table().update(note.id, { text: 'final' });
+    await notes.table().delete(note.id);
+    await notes.table().delete(note.id);
+
+    expect(listener.mock.calls.map(([events]) => events)).toEqual([
+      [
+        {
+          type: 'insert',
+          id: note.id,
+          before: undefined,
+          after: note,
+          source: 'local',
+        },
+      ],
+      [
+        {
+          type: 'update',
+          id: note.id,
+          before: note,
+          after: updated,
+          source: 'local',
+        },
+      ],
+      [
+        {
+          type: 'delete',
+          id: note.id,
+          before: updated,
+          after: undefined,
+          source: 'local',
+        },
+      ],
+    ]);
+  });
+
+  it('delivers a transaction as one batch after commit', async () => {
+    const core = await loadCore();
+    const notes = core.defineModel<Note>(`events-${modelCount++}`);
+    const listener = vi.fn();
+    notes.subscribe(listener);
+
+    await core.transaction([notes], 'readwrite', async (tx) => {
+      const a = await tx.table(notes).insert({ text: 'a' });
+      await tx.table(notes).insert({ text: 'b' });
+      await tx.table(notes).update(a.id, { text: 'a2' });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(
+      listener.mock.calls[0][0].map((e: { type: string }) => e.type)
+    ).toEqual(['insert', 'insert', 'update']);
+  });
+
+  it('marks events from other tabs as remote', async () => {
+    const tabA = await loadCore();
+    const notesA = tabA.defineModel<Note>('events-remote');
+    const tabB = await loadCore();
+    const notesB = tabB.defineModel<Note>('events-remote');
+    const listener = vi.fn();
+    notesB.subscribe(listener);
+
+    const note = await notesA.table().insert({ text: 'hello' });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+    expect(listener.mock.calls[0][0]).toEqual([
+      {
+        type: 'insert',
+        id: note.id,
+        before: undefined,
+        after: note,
+        source: 'remote',
+      },
+    ]);
+  });
+});
+
+describe('applyChanges', () => {
+  it('patches a list in place', async () => {
+    const { applyChanges } = await loadCore();
+    const items: Note[] = [
+      { id: '1', text: 'b' },
+      { id: '2', text: 'c' },
+    ];
+
+    const result = applyChanges(
+      items,
+      [
+        {
+          type: 'insert',
+          id: '3',
+          after: { id: '3', text: 'a' },
+          source: 'local',
+        },
+        {
+          type: 'update',
+          id: '2',
+          before: items[1],
+          after: { id: '2', text: 'x' },
+          source: 'local',
+        },
+        { type: 'delete', id: '1', before: items[0], source: 'remote' },
+      ],
+      {
+        filter: (note) => note.text !== 'x',
+        sort: (a, b) => a.text.localeCompare(b.text),
+      }
+    );
+
+    expect(result).toEqual([{ id: '3', text: 'a' }]);
+    expect(items).toHaveLength(2);
+  });
+});
@@ -0,0 +1,208 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createHistory,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  defineModel,
+  transaction,
+} from '../index';
+
+interface Shape {
+  id: string;
+  kind: string;
+  x: number;
+}
+
+interface Layer {
+  id: string;
+  name: string;
+}
+
+const HISTORY = '__nearstack_history';
+
+let databaseCount = 0;
+
+function setup(adapter = createMemoryAdapter()) {
+  const dbName = `history-${databaseCount++}`;
+  const shapes = defineModel<Shape>('shapes', { adapter, dbName });
+  const layers = defineModel<Layer>('layers', { adapter, dbName });
+  return { dbName, shapes, layers };
+}
+
+describe('createHistory', () => {
+  it('undoes and redoes inserts, updates and deletes', async () => {
+    const { shapes } = setup();
+    const history = createHistory([shapes]);
+    const table = shapes.table();
+    expect(history.canUndo).toBe(false);
+
+    const shape = await table.insert({ kind: 'circle', x: 0 });
+    await table.update(shape.id, { x: 10 });
+    await table.delete(shape.id);
+    expect(history.undoStack).toHaveLength(3);
+
+    expect(await history.undo()).toBe(true);
+    expect(await table.get(shape.id)).toEqual({ ...shape, x: 10 });
+    expect(await history.undo()).toBe(true);
+    expect(await table.get(shape.id)).toEqual(shape);
+    expect(await history.undo()).toBe(true);
+    expect(await table.get(shape.id)).toBeUndefined();
+    expect(history.canUndo).toBe(false);
+    expect(await history.undo()).toBe(false);
+
+    expect(await history.redo()).toBe(true);
+    expect(await history.redo()).toBe(true);
+    expect(await table.get(shape.id)).toEqual({ ...shape, x: 10 });
+    expect(history.canRedo).toBe(true);
+
+    // A new write discards what could be redone
+    await table.insert({ kind: 'square', x: 1 });
+    expect(history.canRedo).toBe(false);
+    expect(history.undoStack).toHaveLength(3);
+  });
+
+  it('groups transactions and batches into single entries', async () => {
+    const { shapes, layers } = setup();
+    const history = createHistory([shapes, layers]);
+
+    await transaction([shapes, layers], 'readwrite', async (tx) => {
+      const layer = await tx.table(layers).insert({ name: 'Background' });
+      await tx.table(shapes).insert({ kind: layer.name, x: 0 });
+    });
+    await history.batch(async () => {
+      await shapes.table().insert({ kind: 'a', x: 1 });
+      await shapes.table().insert({ kind: 'b', x: 2 });
+    });
+    expect(history.undoStack.map((entry) => entry.changes.length)).toEqual([
+      2, 2,
+    ]);
+
+    await history.undo();
+    expect(await shapes.table().getAll()).toHaveLength(1);
+    await history.undo();
+    expect(await shapes.table().getAll()).toEqual([]);
+    expect(await layers.table().getAll()).toEqual([]);
+
+    await history.redo();
+    expect(await layers.table().getAll()).toHaveLength(1);
+    expect(await shapes.table().getAll()).toHaveLength(1);
+  });
+
+  it('records other writes made while undoing', async () => {
+    const { shapes, layers } = setup();
+    const history = createHistory([shapes, layers]);
+    await shapes.table().insert({ kind: 'dot', x: 0 });
+
+    const [, layer] = await Promise.all([
+      history.undo(),
+      layers.table().insert({ name: 'Foreground' }),
+    ]);
+
+    expect(history.undoStack).toEqual([
+      {
+        changes: [
+          {
+            model: 'layers',
+            type: 'insert',
+            id: layer.id,
+            before: undefined,
+            after: layer,
+          },
+        ],
+      },
+    ]);
+    expect(await shapes.table().getAll()).toEqual([]);
+  });
+
+  it('writes records back without hooks, validation or a new TTL', async () => {
+    const dbName = `history-${databaseCount++}`;
+    const beforeInsert = vi.fn((shape: Shape) => shape);
+    const middleware = vi.fn((_, next: () => Promise<void>) => next());
+    let strict = false;
+    const shapes = defineModel<Shape>('shapes', {
+      adapter: createMemoryAdapter(),
+      dbName,
+      ttl: 60_000,
+      beforeInsert,
+      middleware: [middleware],
+      schema: {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value: unknown) =>
+            strict
+              ? { issues: [{ message: 'Shapes are read-only now' }] }
+              : { value: value as Shape },
+        },
+      },
+    });
+    const history = createHistory([shapes]);
+    const shape = await shapes.table().insert({ kind: 'dot', x: 0 });
+    await shapes.table().delete(shape.id);
+    beforeInsert.mockClear();
+    middleware.mockClear();
+    strict = true;
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 30_000);
+
+    await history.undo();
+    vi.useRealTimers();
+
+    // Still expiring when it first would have
+    expect(await shapes.table().get(shape.id)).toEqual(shape);
+    expect(beforeInsert).not.toHaveBeenCalled();
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('keeps a bounded stack and notifies subscribers', async () => {
+    const { shapes } = setup();
+    const history = createHistory([shapes], { limit: 2 });
+    const listener = vi.fn();
+    history.subscribe(listener);
+
+    for (let x = 0; x < 4; x++) await shapes.table().insert({ kind: 'dot', x });
+    expect(history.undoStack).toHaveLength(2);
+    expect(listener).toHaveBeenCalledTimes(4);
+
+    history.clear();
+    expect(history.canUndo).toBe(false);
+
+    history.dispose();
+    await shapes.table().insert({ kind: 'dot', x: 9 });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('persists the stacks across reloads', async () => {
+    const dbName = `history-${databaseCount++}`;
+    const shapes = defineModel<Shape>('shapes', { dbName });
+    const history = createHistory([shapes], { persist: 'editor' });
+    const shape = await shapes.table().insert({ kind: 'star', x: 0 });
+    await shapes.table().update(shape.id, { x: 5 });
+    await history.undo();
+
+    await vi.waitFor(async () => {
+      const adapter = createIndexedDBAdapter();
+      const tx = await adapter.transaction(dbName, [HISTORY], 'readonly');
+      const saved = await tx.get<{ id: string; redo: unknown[] }>(
+        HISTORY,
+        'editor'
+      );
+      await tx.commit();
+      expect(saved?.redo).toHaveLength(1);
+    });
+
+    vi.resetModules();
+    const core = await import('../index');
+    const reloadedShapes = core.defineModel<Shape>('shapes', { dbName });
+    const reloaded = core.createHistory([reloadedShapes], {
+      persist: 'editor',
+    });
+    expect(await reloaded.redo()).toBe(true);
+    expect(await reloadedShapes.table().get(shape.id)).toEqual({
+      ...shape,
+      x: 5,
+    });
+    expect(reloaded.undoStack).toHaveLength(2);
+  });
+});
@@ -0,0 +1,166 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  defineModel,
+  transaction,
+  v,
+  type Middleware,
+  type ModelOptions,
+  type StorageAdapter,
+} from '../index';
+
+interface Doc {
+  id: string;
+  title: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+let modelCount = 0;
+
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+  ['indexeddb', createIndexedDBAdapter],
+];
+
+describe.each(adapters)('hooks and middleware (%s)', (_, createAdapter) => {
+  function setup(options: ModelOptions<Doc>) {
+    return defineModel<Doc>(`hooked-docs-${modelCount++}`, {
+      adapter: createAdapter(),
+      dbName: `hooks-${modelCount}`,
+      ...options,
+    });
+  }
+
+  it('lets before-hooks fill in fields, even asynchronously', async () => {
+    let now = 1;
+    const docs = setup({
+      schema: v.object({
+        title: v.string(),
+        createdAt: v.number(),
+        updatedAt: v.number(),
+      }),
+      beforeInsert: (doc) => ({ ...doc, createdAt: now, updatedAt: now }),
+      async beforeUpdate(doc) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        doc.updatedAt = now;
+      },
+    });
+    const table = docs.table();
+
+    const doc = await table.insert({ title: 'Draft' });
+    expect(doc).toMatchObject({ createdAt: 1, updatedAt: 1 });
+    now = 2;
+    expect(await table.update(doc.id, { title: 'Final' })).toMatchObject({
+      title: 'Final',
+      createdAt: 1,
+      updatedAt: 2,
+    });
+    expect(await table.get(doc.id)).toMatchObject({ updatedAt: 2 });
+  });
+
+  it('rejects writes vetoed by a hook or middleware', async () => {
+    const readOnly: Middleware<Doc> = (operation, next) => {
+      if (operation.previous?.title === 'locked') {
+        throw new Error(`"${operation.id}" is locked`);
+      }
+      return next();
+    };
+    const docs = setup({
+      middleware: [readOnly],
+      beforeDelete(doc) {
+        if (doc.title === 'keep') throw new Error('Cannot delete');
+      },
+    });
+    const table = docs.table();
+    const kept = await table.insert({ title: 'keep' });
+    const locked = await table.insert({ title: 'locked' });
+
+    await expect(table.delete(kept.id)).rejects.toThrow('Cannot delete');
+    await expect(table.update(locked.id, { title: 'x' })).rejects.toThrow(
+      'is locked'
+    );
+    const results = await table.bulkDelete([kept.id, locked.id]);
+    expect(results.map((result) => result.ok)).toEqual([false, false]);
+    expect(await table.getAll()).toHaveLength(2);
+  });
+
+  it('runs middleware in order around the stored write', async () => {
+    const calls: string[] = [];
+    const trace =
+      (label: string): Middleware<Doc> =>
+      async (operation, next) => {
+        calls.push(`${label}:${operation.type}`);
+        await next();
+        calls.push(`${label}:stored ${operation.record?.title}`);
+      };
+    const upperCase: Middleware<Doc> = (operation, next) => {
+      if (operation.record) {
+        operation.record = {
+          ...operation.record,
+          title: operation.record.title.toUpperCase(),
+        };
+      }
+      return next();
+    };
+    const skipDrafts: Middleware<Doc> = async (operation, next) => {
+      if (operation.record?.title !== 'DRAFT') await next();
+    };
+    const docs = setup({ middleware: [trace('outer'), upperCase, skipDrafts] });
+
+    await docs.table().bulkInsert([{ title: 'hello' }, { title: 'draft' }]);
+    expect(calls).toEqual([
+      'outer:insert',
+      'outer:stored HELLO',
+      'outer:insert',
+      'outer:stored DRAFT',
+    ]);
+    expect((await docs.table().getAll()).map((doc) => doc.title)).toEqual([
+      'HELLO',
+    ]);
+  });
+
+  it('runs after-hooks once the write commits', async () => {
+    const audit: string[] = [];
+    const docs = setup({
+      afterInsert: (doc) => void audit.push(`insert ${doc.title}`),
+      afterUpdate: (doc, previous) =>
+        void audit.push(`update ${previous.title} -> ${doc.title}`),
+      afterDelete: (doc) => void audit.push(`delete ${doc.title}`),
+    });
+    const table = docs.table();
+
+    const doc = await table.insert({ title: 'a' });
+    await table.update(doc.id, { title: 'b' });
+    await expect(
+      transaction([docs], 'readwrite', async (tx) => {
+        await tx.table(docs).delete(doc.id);
+        expect(audit).toHaveLength(2);
+        throw new Error('rolled back');
+      })
+    ).rejects.toThrow('rolled back');
+    await table.clear();
+    expect(audit).toEqual(['insert a', 'update a -> b', 'delete b']);
+  });
+});
+
+describe('after-hooks', () => {
+  it('log their errors without failing the write', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const docs = defineModel<Doc>(`hooked-docs-${modelCount++}`, {
+      adapter: createMemoryAdapter(),
+      afterInsert() {
+        throw new Error('audit log unavailable');
+      },
+    });
+
+    await expect(docs.table().insert({ title: 'x' })).resolves.toBeDefined();
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('afterInsert hook'),
+      expect.any(Error)
+    );
+    error.mockRestore();
+  });
+});
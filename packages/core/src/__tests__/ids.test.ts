@@ -0,0 +1,154 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  compositeKey,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  defineModel,
+  randomUUID,
+  ulid,
+  uuidv7,
+  type ModelOptions,
+  type StorageAdapter,
+} from '../index';
+
+interface Ticket {
+  id: number;
+  title: string;
+}
+
+interface Country {
+  id: string;
+  name: string;
+}
+
+interface Entry {
+  id: string;
+  list: string;
+  position: number;
+  text: string;
+}
+
+let databaseCount = 0;
+
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+  ['indexeddb', createIndexedDBAdapter],
+];
+
+describe('id generators', () => {
+  it('make ids that sort in creation order', () => {
+    const uuids = Array.from({ length: 50 }, uuidv7);
+    expect([...uuids].sort()).toEqual(uuids);
+    expect(uuids[0]).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+
+    const ulids = Array.from({ length: 50 }, ulid);
+    expect([...ulids].sort()).toEqual(ulids);
+    expect(ulids[0]).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    expect(new Set(ulids).size).toBe(50);
+  });
+
+  it('make random UUIDs without crypto.randomUUID', () => {
+    const original = crypto.randomUUID;
+    Object.defineProperty(crypto, 'randomUUID', {
+      value: undefined,
+      configurable: true,
+    });
+    try {
+      expect(randomUUID()).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+    } finally {
+      Object.defineProperty(crypto, 'randomUUID', {
+        value: original,
+        configurable: true,
+      });
+    }
+  });
+});
+
+describe.each(adapters)('id strategies (%s)', (_, createAdapter) => {
+  function setup<T extends { id: string | number }>(
+    name: string,
+    options: ModelOptions<T>
+  ) {
+    return defineModel<T>(name, {
+      adapter: createAdapter(),
+      dbName: `ids-${databaseCount++}`,
+      ...options,
+    });
+  }
+
+  it('counts up numeric ids', async () => {
+    const tickets = setup<Ticket>('tickets', { id: 'autoincrement' }).table();
+    const first = await tickets.insert({ title: 'First' });
+    const second = await tickets.insert({ title: 'Second' });
+    expect([first.id, second.id]).toEqual([1, 2]);
+
+    // Ids are not reused, and ones given by hand move the count on
+    await tickets.delete(2);
+    await tickets.bulkPut([{ id: 10, title: 'Imported' }]);
+    expect((await tickets.insert({ title: 'Third' })).id).toBe(11);
+    expect((await tickets.get(1))?.title).toBe('First');
+    expect((await tickets.getAll()).map((t) => t.id)).toEqual([1, 10, 11]);
+  });
+
+  it('gives concurrent inserts ids of their own', async () => {
+    const tickets = setup<Ticket>('tickets', { id: 'autoincrement' }).table();
+    const inserted = await Promise.all([
+      tickets.insert({ title: 'First' }),
+      tickets.insert({ title: 'Second' }),
+      tickets.insert({ title: 'Third' }),
+    ]);
+
+    expect(inserted.map((t) => t.id).sort()).toEqual([1, 2, 3]);
+    expect(await tickets.count()).toBe(3);
+  });
+
+  it('uses the ids records are inserted with', async () => {
+    const countries = setup<Country>('countries', { id: 'natural' }).table();
+    await countries.insert({ id: 'fr', name: 'France' });
+    expect((await countries.get('fr'))?.name).toBe('France');
+    await expect(countries.insert({ name: 'Nowhere' })).rejects.toThrow(
+      'uses natural keys'
+    );
+    await expect(countries.insert({ id: 'fr', name: 'Again' })).rejects.toThrow(
+      'already has a record with id "fr"'
+    );
+  });
+
+  it('builds ids from key fields', async () => {
+    const entries = setup<Entry>('entries', {
+      id: { composite: ['list', 'position'] },
+    }).table();
+    const entry = await entries.insert({
+      list: 'groceries',
+      position: 1,
+      text: 'Milk',
+    });
+    expect(entry.id).toBe(compositeKey('groceries', 1));
+    expect((await entries.get(compositeKey('groceries', 1)))?.text).toBe(
+      'Milk'
+    );
+
+    await entries.update(entry.id, { text: 'Oat milk' });
+    await expect(entries.update(entry.id, { position: 2 })).rejects.toThrow(
+      'does not match its key fields'
+    );
+    await expect(
+      entries.insert({ list: 'groceries', text: 'Eggs' } as Entry)
+    ).rejects.toThrow('need a value in key field "position"');
+    expect((await entries.get(entry.id))?.text).toBe('Oat milk');
+  });
+
+  it('makes time-sortable ids', async () => {
+    const notes = setup<Country>('notes', { id: 'ulid' }).table();
+    const created: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      created.push((await notes.insert({ name: `note ${i}` })).id);
+    }
+    expect((await notes.getAll()).map((note) => note.id)).toEqual(created);
+  });
+});
@@ -0,0 +1,212 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryAdapter,
+  defineModel,
+  type ChangeEvent,
+  type ModelOptions,
+  type StorageAdapter,
+} from '../index';
+import { createSQLiteAdapter, stubOPFS } from './sqlite';
+
+interface Todo {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+interface CachedReply {
+  id: string;
+  prompt: string;
+  reply: string;
+}
+
+let modelCount = 0;
+
+// Dates must survive the adapter's storage, which for SQLite is JSON
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+  ['sqlite', createSQLiteAdapter],
+];
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe.each(adapters)('soft delete (%s)', (_, createAdapter) => {
+  stubOPFS();
+
+  function setup(options: ModelOptions<Todo> = {}) {
+    const todos = defineModel<Todo>(`lifecycle-todos-${modelCount++}`, {
+      adapter: createAdapter(),
+      softDelete: true,
+      ...options,
+    });
+    const batches: ChangeEvent<Todo>[][] = [];
+    todos.subscribe((events) => batches.push(events));
+    return { todos, table: todos.table(), batches };
+  }
+
+  it('hides deleted records but keeps their tombstones', async () => {
+    const { todos, table, batches } = setup();
+    const [a, b] = await Promise.all([
+      table.insert({ title: 'a', done: false }),
+      table.insert({ title: 'b', done: false }),
+    ]);
+
+    await table.delete(a.id);
+    expect(await table.get(a.id)).toBeUndefined();
+    expect(await table.getAll()).toEqual([b]);
+    expect(
+      await table.where('id').anyOf([a.id, b.id]).limit(1).toArray()
+    ).toEqual([b]);
+    expect(await table.update(a.id, { done: true })).toBeUndefined();
+    expect(batches.at(-1)).toEqual([
+      { type: 'delete', id: a.id, before: a, source: 'local' },
+    ]);
+
+    const tombstone = await todos.store.get(a.id);
+    expect(tombstone).toMatchObject(a);
+    expect((tombstone as { deletedAt?: unknown }).deletedAt).toBeInstanceOf(
+      Date
+    );
+    expect(await table.trash().getAll()).toEqual([tombstone]);
+    expect(await table.withDeleted().getAll()).toHaveLength(2);
+  });
+
+  it('restores and purges records', async () => {
+    const { todos, table, batches } = setup();
+    const todo = await table.insert({ title: 'oops', done: false });
+    await table.delete(todo.id);
+
+    expect(await table.restore(todo.id)).toEqual(todo);
+    expect(await table.get(todo.id)).toEqual(todo);
+    expect(batches.at(-1)).toEqual([
+      { type: 'insert', id: todo.id, after: todo, source: 'local' },
+    ]);
+
+    await table.delete(todo.id);
+    const events = batches.length;
+    await table.purge(todo.id);
+    expect(await todos.store.get(todo.id)).toBeUndefined();
+    // The record was already gone for readers
+    expect(batches).toHaveLength(events);
+    expect(await table.restore(todo.id)).toBeUndefined();
+  });
+
+  it('empties the trash, optionally by age', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { table } = setup();
+    const results = await table.bulkInsert([
+      { title: 'old', done: true },
+      { title: 'new', done: true },
+      { title: 'kept', done: false },
+    ]);
+    const [old, recent] = results.map((result) =>
+      result.ok ? result.value : undefined
+    );
+
+    vi.setSystemTime(new Date('2024-01-01'));
+    await table.delete(old!.id);
+    vi.setSystemTime(new Date('2024-02-01'));
+    await table.delete(recent!.id);
+
+    await table.emptyTrash(new Date('2024-01-15'));
+    expect((await table.trash().getAll()).map((todo) => todo.title)).toEqual([
+      'new',
+    ]);
+    await table.emptyTrash();
+    expect(await table.trash().getAll()).toEqual([]);
+    expect(await table.withDeleted().getAll()).toHaveLength(1);
+  });
+
+  it('points at the trashed record holding a unique value', async () => {
+    const { table } = setup({
+      indexes: [{ keyPath: 'title', unique: true }],
+    });
+    const todo = await table.insert({ title: 'Milk', done: false });
+    await table.delete(todo.id);
+
+    const error = await table
+      .insert({ title: 'Milk', done: false })
+      .catch((error: Error) => error);
+    expect(error).toMatchObject({ name: 'ConstraintError' });
+    expect((error as Error).message).toContain(
+      `trashed record "${todo.id}". Restore it with restore(), or delete it for good with purge()`
+    );
+
+    await table.purge(todo.id);
+    await expect(
+      table.insert({ title: 'Milk', done: false })
+    ).resolves.toMatchObject({ title: 'Milk' });
+  });
+
+  it('requires soft delete for the trash', async () => {
+    const { table } = setup({ softDelete: false });
+    const todo = await table.insert({ title: 'gone', done: false });
+    await table.delete(todo.id);
+    expect(await table.withDeleted().get(todo.id)).toBeUndefined();
+    expect(() => table.trash()).toThrow('does not use soft delete');
+  });
+});
+
+describe.each(adapters)('TTL expiry (%s)', (_, createAdapter) => {
+  stubOPFS();
+
+  it('hides expired records and sweeps them periodically', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const replies = defineModel<CachedReply>(`replies-${modelCount++}`, {
+      adapter: createAdapter(),
+      ttl: 1000,
+      sweepInterval: 10,
+    });
+    const deleted = vi.fn();
+    replies.subscribe((events) => {
+      if (events.some((event) => event.type === 'delete')) deleted();
+    });
+    const reply = await replies
+      .table()
+      .insert({ prompt: 'hi', reply: 'hello' });
+    expect(
+      (reply as CachedReply & { expiresAt: Date }).expiresAt.getTime()
+    ).toBe(Date.now() + 1000);
+    expect(replies.indexes.map((index) => index.name)).toContain('expiresAt');
+
+    vi.setSystemTime(Date.now() + 2000);
+    expect(await replies.table().get(reply.id)).toBeUndefined();
+    expect(await replies.table().getAll()).toEqual([]);
+
+    await vi.waitFor(async () =>
+      expect(await replies.store.get(reply.id)).toBeUndefined()
+    );
+    expect(deleted).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('TTL expiry', () => {
+  it('sweeps expired records when the database opens', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const dbName = `ttl-${modelCount++}`;
+    const replies = defineModel<CachedReply>('replies', { dbName, ttl: 1000 });
+    const reply = await replies.table().insert({ prompt: 'a', reply: 'b' });
+    const fresh = await replies.table().insert({ prompt: 'c', reply: 'd' });
+    // Each write restarts the clock
+
+    vi.setSystemTime(Date.now() + 600);
+    await replies.table().update(fresh.id, { reply: 'f' });
+    vi.setSystemTime(Date.now() + 600);
+    expect(await replies.store.get(reply.id)).toBeDefined();
+
+    vi.resetModules();
+    const core = await import('../index');
+    const reloaded = core.defineModel<CachedReply>('replies', {
+      dbName,
+      ttl: 1000,
+    });
+    await vi.waitFor(async () =>
+      expect(await reloaded.store.getAll()).toEqual([
+        expect.objectContaining({ id: fresh.id, reply: 'f' }),
+      ])
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { adapterConformanceTests, defineModel } from '../index';
+import { createOPFSSQLiteAdapter } from '../adapters/opfs-sqlite';
+import { createIndexStatement, selectForPlan } from '../adapters/sqlite';
+import type { QueryPlan } from '../query';
+import { InProcessWorker, createSQLiteAdapter, stubOPFS } from './sqlite';
+
+function plan(overrides: Partial<QueryPlan<unknown>>): QueryPlan<unknown> {
+  return {
+    index: null,
+    ranges: null,
+    reverse: false,
+    unique: false,
+    filters: [],
+    sortBy: null,
+    offset: 0,
+    limit: null,
+    ...overrides,
+  };
+}
+
+describe('SQLite statements', () => {
+  it('maps declared indexes to expression indexes', () => {
+    expect(
+      createIndexStatement('todos', {
+        name: 'listId+createdAt',
+        keyPath: ['listId', 'createdAt'],
+        unique: true,
+      })
+    ).toBe(
+      `CREATE UNIQUE INDEX "todos__listId+createdAt" ON "todos" (json_extract(data, '$."listId"'), json_extract(data, '$."createdAt"'))`
+    );
+    expect(
+      createIndexStatement('todos', {
+        name: 'tags',
+        keyPath: 'tags',
+        multiEntry: true,
+      })
+    ).toBeNull();
+  });
+
+  it('pushes ranges SQLite orders like IndexedDB into the query', () => {
+    const status = { name: 'status', keyPath: 'status' };
+    expect(
+      selectForPlan(
+        'todos',
+        status,
+        plan({
+          index: 'status',
+          ranges: [
+            { lower: 'done', upper: 'done' },
+            { lower: 3, lowerOpen: true },
+          ],
+        })
+      )
+    ).toEqual({
+      sql: `SELECT data FROM "todos" WHERE (json_extract(data, '$."status"') >= ? AND json_extract(data, '$."status"') <= ?) OR (json_extract(data, '$."status"') > ?)`,
+      params: ['done', 'done', 3],
+    });
+  });
+
+  it('leaves bounds it cannot compare exactly to the caller', () => {
+    const title = { name: 'title', keyPath: 'title' };
+    // startsWith('ab') has an upper bound of 'ab\uffff'
+    expect(
+      selectForPlan(
+        'todos',
+        title,
+        plan({ index: 'title', ranges: [{ lower: 'ab', upper: 'ab\uffff' }] })
+      )
+    ).toEqual({
+      sql: `SELECT data FROM "todos" WHERE (json_extract(data, '$."title"') >= ?)`,
+      params: ['ab'],
+    });
+    expect(
+      selectForPlan(
+        'todos',
+        title,
+        plan({ index: 'title', ranges: [{ lower: new Date(0) }] })
+      ).sql
+    ).toBe('SELECT data FROM "todos"');
+  });
+});
+
+describe('OPFS SQLite adapter without OPFS', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // jsdom has neither workers nor OPFS, so every database falls back
+  for (const test of adapterConformanceTests(() => createOPFSSQLiteAdapter())) {
+    it(`falls back to IndexedDB: ${test.name}`, test.run);
+  }
+
+  it('reports the fallback and keeps models working', async () => {
+    const adapter = createOPFSSQLiteAdapter();
+    const notes = defineModel<{ id: string; text: string }>('opfs-notes', {
+      adapter,
+      dbName: 'opfs-fallback',
+    });
+
+    const note = await notes.table().insert({ text: 'hello' });
+    expect(await notes.table().get(note.id)).toEqual(note);
+    expect(adapter.usesSQLite('opfs-fallback')).toBe(false);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('falling back to indexeddb'),
+      expect.any(Error)
+    );
+    await expect(adapter.sql('opfs-fallback', 'SELECT 1')).rejects.toThrow(
+      /not SQLite/
+    );
+  });
+});
+
+describe('OPFS SQLite adapter', () => {
+  stubOPFS();
+
+  for (const test of adapterConformanceTests(() => createSQLiteAdapter())) {
+    it(test.name, test.run);
+  }
+
+  it('runs models and raw SQL through the worker', async () => {
+    const worker = new InProcessWorker();
+    const adapter = createSQLiteAdapter(worker);
+    const todos = defineModel<{ id: string; title: string; done: boolean }>(
+      'todos',
+      { adapter, dbName: 'opfs-worker', indexes: ['title'] }
+    );
+
+    const todo = await todos.table().insert({ title: 'milk', done: false });
+    await todos.table().insert({ title: 'eggs', done: true });
+
+    expect(adapter.usesSQLite('opfs-worker')).toBe(true);
+    expect(await todos.table().get(todo.id)).toEqual(todo);
+    expect(await todos.table().where('title').equals('milk').toArray()).toEqual(
+      [todo]
+    );
+    expect(
+      await adapter.sql(
+        'opfs-worker',
+        `SELECT json_extract(data, '$.title') AS title FROM todos ORDER BY title`
+      )
+    ).toEqual([{ title: 'eggs' }, { title: 'milk' }]);
+    expect(worker.requests[0]).toEqual({
+      id: 0,
+      type: 'open',
+      dbName: 'opfs-worker',
+    });
+    expect(worker.requests.map((request) => request.id)).toEqual(
+      worker.requests.map((_, index) => index)
+    );
+  });
+
+  it('rolls back an aborted transaction in SQLite', async () => {
+    const worker = new InProcessWorker();
+    const adapter = createSQLiteAdapter(worker);
+    adapter.defineStore('opfs-abort', 'notes', []);
+
+    const tx = await adapter.transaction('opfs-abort', ['notes'], 'readwrite');
+    await tx.put('notes', { id: 'a' });
+    tx.abort();
+
+    expect(await adapter.sql('opfs-abort', 'SELECT id FROM notes')).toEqual([]);
+    const statements = worker.requests.flatMap((request) =>
+      request.type === 'exec' ? [request.sql] : []
+    );
+    expect(statements.slice(-3)).toEqual([
+      expect.stringMatching(/^INSERT INTO "notes"/),
+      'ROLLBACK',
+      'SELECT id FROM notes',
+    ]);
+  });
+
+  it("rejects requests with the worker's SQL errors", async () => {
+    const adapter = createSQLiteAdapter();
+    adapter.defineStore('opfs-errors', 'notes', []);
+
+    await expect(
+      adapter.sql('opfs-errors', 'SELECT * FROM missing')
+    ).rejects.toThrow(/no such table: missing/);
+    // The connection keeps working afterwards
+    expect(await adapter.sql('opfs-errors', 'SELECT 1 AS one')).toEqual([
+      { one: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { defineModel } from '../index';
+import { compareKeys } from '../keys';
+
+interface Task {
+  id: string;
+  title: string;
+  status: string;
+  priority: number;
+  createdAt: number;
+  tags: string[];
+  email?: string;
+}
+
+function useInMemoryWindow() {
+  const previousWindow = globalThis.window;
+  Object.defineProperty(globalThis, 'window', {
+    value: undefined,
+    configurable: true,
+    writable: true,
+  });
+  return () => {
+    Object.defineProperty(globalThis, 'window', {
+      value: previousWindow,
+      configurable: true,
+      writable: true,
+    });
+  };
+}
+
+const seed: Array<Omit<Task, 'id'>> = [
+  {
+    title: 'a',
+    status: 'open',
+    priority: 2,
+    createdAt: 30,
+    tags: ['home', 'urgent'],
+  },
+  { title: 'b', status: 'done', priority: 1, createdAt: 10, tags: ['work'] },
+  {
+    title: 'c',
+    status: 'open',
+    priority: 3,
+    createdAt: 20,
+    tags: ['work', 'urgent'],
+  },
+  { title: 'd', status: 'open', priority: 1, createdAt: 40, tags: [] },
+  { title: 'e', status: 'blocked', priority: 2, createdAt: 50, tags: ['home'] },
+];
+
+let modelCount = 0;
+
+async function setupModel() {
+  const model = defineModel<Task>(`tasks-query-${modelCount++}`, {
+    indexes: [
+      'status',
+      'priority',
+      'createdAt',
+      ['status', 'createdAt'],
+      { keyPath: 'tags', multiEntry: true },
+      { keyPath: 'email', unique: true },
+    ],
+  });
+  for (const task of seed) {
+    await model.table().insert(task);
+  }
+  return model;
+}
+
+const titles = (tasks: Task[]) => tasks.map((task) => task.title);
+
+describe.each([
+  ['indexeddb', () => () => {}],
+  ['in-memory', useInMemoryWindow],
+])('indexed queries (%s)', (_backend, prepare) => {
+  async function withModel(
+    run: (model: Awaited<ReturnType<typeof setupModel>>) => Promise<void>
+  ) {
+    const restore = prepare();
+    try {
+      await run(await setupModel());
+    } finally {
+      restore();
+    }
+  }
+
+  it('matches on equality and sorts by a compound index', () =>
+    withModel(async (model) => {
+      const open = await model
+        .table()
+        .where('status')
+        .equals('open')
+        .sortBy('createdAt')
+        .limit(2)
+        .toArray();
+      expect(titles(open)).toEqual(['c', 'a']);
+      expect(
+        model.table().where('status').equals('open').sortBy('createdAt').plan()
+          .index
+      ).toBe('status+createdAt');
+    }));
+
+  it('supports range operators in key order', () =>
+    withModel(async (model) => {
+      const table = model.table();
+      expect(
+        titles(await table.where('createdAt').above(30).toArray())
+      ).toEqual(['d', 'e']);
+      expect(
+        titles(await table.where('createdAt').belowOrEqual(20).toArray())
+      ).toEqual(['b', 'c']);
+      expect(
+        titles(await table.where('createdAt').between(20, 40).toArray())
+      ).toEqual(['c', 'a']);
+      expect(
+        titles(await table.where('createdAt').between(40, 20).toArray())
+      ).toEqual([]);
+      expect(
+        titles(
+          await table
+            .where('createdAt')
+            .aboveOrEqual(10)
+            .reverse()
+            .limit(2)
+            .toArray()
+        )
+      ).toEqual(['e', 'd']);
+    }));
+
+  it('supports anyOf, offset and post-scan filters', () =>
+    withModel(async (model) => {
+      const rows = await model
+        .table()
+        .where('status')
+        .anyOf(['open', 'blocked'])
+        .filter((task) => task.priority > 1)
+        .sortBy('priority')
+        .offset(1)
+        .toArray();
+      expect(titles(rows)).toEqual(['a', 'c']);
+    }));
+
+  it('queries multi-entry indexes without duplicates', () =>
+    withModel(async (model) => {
+      const rows = await model
+        .table()
+        .where('tags')
+        .anyOf(['urgent', 'home'])
+        .sortBy('createdAt')
+        .toArray();
+      expect(titles(rows)).toEqual(['c', 'a', 'e']);
+      expect(
+        titles(await model.table().where('tags').startsWith('wo').toArray())
+      ).toEqual(expect.arrayContaining(['b', 'c']));
+    }));
+
+  it('queries compound indexes and the primary key', async () => {
+    await withModel(async (model) => {
+      const table = model.table();
+      const [first] = await table
+        .where(['status', 'createdAt'])
+        .between(['open', 25], ['open', 100])
+        .toArray();
+      expect(first.title).toBe('a');
+
+      const all = await table.getAll();
+      const byId = await table.where('id').equals(all[0].id).first();
+      expect(byId?.id).toBe(all[0].id);
+    });
+  });
+
+  it('enforces unique indexes', () =>
+    withModel(async (model) => {
+      await model.table().insert({ ...seed[0], email: 'a@example.com' });
+      await expect(
+        model.table().insert({ ...seed[1], email: 'a@example.com' })
+      ).rejects.toMatchObject({ name: 'ConstraintError' });
+    }));
+
+  it('rejects undeclared indexes and invalid keys', () =>
+    withModel(async (model) => {
+      expect(() => model.table().where('title')).toThrow(/no index on "title"/);
+      expect(() =>
+        model
+          .table()
+          .where('status')
+          .equals(true as never)
+      ).toThrow(/not a valid index key/);
+    }));
+});
+
+describe('compareKeys', () => {
+  it('orders keys like indexedDB.cmp', () => {
+    const keys: IDBValidKey[] = [
+      ['a'],
+      'b',
+      new Date(5),
+      2,
+      'a',
+      [1, 2],
+      1,
+      [1],
+    ];
+    expect([...keys].sort(compareKeys)).toEqual([
+      1,
+      2,
+      new Date(5),
+      'a',
+      'b',
+      [1],
+      [1, 2],
+      ['a'],
+    ]);
+    for (const a of keys) {
+      for (const b of keys) {
+        expect(compareKeys(a, b)).toBe(indexedDB.cmp(a, b));
+      }
+    }
+  });
+});
@@ -0,0 +1,225 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  belongsTo,
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  defineModel,
+  hasMany,
+  manyToMany,
+  RelationError,
+  transaction,
+  type DeleteRule,
+  type Model,
+  type StorageAdapter,
+} from '../index';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+interface Project {
+  id: string;
+  name: string;
+  ownerId: string;
+}
+
+interface Todo {
+  id: string;
+  title: string;
+  projectId?: string;
+  tagIds: string[];
+}
+
+interface Tag {
+  id: string;
+  label: string;
+}
+
+let databaseCount = 0;
+
+function setup(
+  adapter: StorageAdapter = createMemoryAdapter(),
+  onDelete?: DeleteRule
+) {
+  const dbName = `relations-${databaseCount++}`;
+  const users = defineModel<User>('users', { adapter, dbName });
+  const projects: Model<Project> = defineModel<Project>('projects', {
+    adapter,
+    dbName,
+    relations: {
+      owner: belongsTo(users, 'ownerId'),
+      todos: hasMany(() => todos, 'projectId', { onDelete }),
+    },
+  });
+  const tags: Model<Tag> = defineModel<Tag>('tags', {
+    adapter,
+    dbName,
+    relations: {
+      todos: hasMany(() => todos, 'tagIds', { onDelete: 'nullify' }),
+    },
+  });
+  const todos: Model<Todo> = defineModel<Todo>('todos', {
+    adapter,
+    dbName,
+    indexes: ['projectId', { keyPath: 'tagIds', multiEntry: true }],
+    relations: {
+      project: belongsTo(projects, 'projectId'),
+      tags: manyToMany(tags, 'tagIds'),
+    },
+  });
+  return { users, projects, todos, tags };
+}
+
+async function seed({
+  users,
+  projects,
+  todos,
+  tags,
+}: ReturnType<typeof setup>) {
+  const ada = await users.table().insert({ name: 'Ada' });
+  const home = await projects.table().insert({ name: 'Home', ownerId: ada.id });
+  const work = await projects.table().insert({ name: 'Work', ownerId: ada.id });
+  const urgent = await tags.table().insert({ label: 'urgent' });
+  const later = await tags.table().insert({ label: 'later' });
+  const dishes = await todos.table().insert({
+    title: 'Dishes',
+    projectId: home.id,
+    tagIds: [urgent.id, later.id],
+  });
+  const report = await todos.table().insert({
+    title: 'Report',
+    projectId: work.id,
+    tagIds: [urgent.id],
+  });
+  return { ada, home, work, urgent, later, dishes, report };
+}
+
+describe('include()', () => {
+  it('loads belongsTo, hasMany and many-to-many relations', async () => {
+    const models = setup();
+    const { home, urgent, later, dishes } = await seed(models);
+
+    const todo = await models.todos
+      .table()
+      .include<{ project: Project; tags: Tag[] }>('project', 'tags')
+      .get(dishes.id);
+    expect(todo?.project).toEqual(home);
+    expect(todo?.tags).toEqual([urgent, later]);
+
+    const [withTodos] = await models.projects
+      .table()
+      .include<{ todos: Todo[] }>('todos')
+      .where('id')
+      .equals(home.id)
+      .toArray();
+    expect(withTodos.todos).toEqual([dishes]);
+
+    const tagged = await models.tags
+      .table()
+      .include<{ todos: Todo[] }>('todos')
+      .get(urgent.id);
+    expect(tagged?.todos.map((t) => t.title).sort()).toEqual([
+      'Dishes',
+      'Report',
+    ]);
+  });
+
+  it('follows dotted paths and filters on loaded relations', async () => {
+    const models = setup();
+    const { ada } = await seed(models);
+
+    const table = models.todos
+      .table()
+      .include<{ project: Project & { owner: User } }>('project.owner');
+    const all = await table.getAll();
+    expect(all.map((todo) => todo.project.owner)).toEqual([ada, ada]);
+
+    const atWork = await table
+      .where('projectId')
+      .aboveOrEqual('')
+      .filter((todo) => todo.project.name === 'Work')
+      .toArray();
+    expect(atWork.map((todo) => todo.title)).toEqual(['Report']);
+
+    expect(() => models.todos.table().include('owner')).toThrow(
+      'Model "todos" has no relation "owner"'
+    );
+  });
+
+  it('reads related records inside a transaction', async () => {
+    const models = setup(createIndexedDBAdapter());
+    const { dishes } = await seed(models);
+
+    const loaded = await transaction(
+      [models.todos, models.projects, models.tags],
+      'readonly',
+      (tx) =>
+        tx
+          .table(models.todos)
+          .include<{ project: Project }>('project')
+          .get(dishes.id)
+    );
+    expect(loaded?.project.name).toBe('Home');
+  });
+});
+
+describe.each([
+  ['memory', createMemoryAdapter],
+  ['indexeddb', createIndexedDBAdapter],
+])('delete rules (%s)', (_, createAdapter) => {
+  it('cascades deletes to related records', async () => {
+    const models = setup(createAdapter(), 'cascade');
+    const { home, dishes, report } = await seed(models);
+    const listener = vi.fn();
+    models.todos.subscribe(listener);
+
+    await models.projects.table().delete(home.id);
+    expect(await models.todos.table().get(dishes.id)).toBeUndefined();
+    expect(await models.todos.table().get(report.id)).toBeDefined();
+    expect(listener).toHaveBeenCalledWith([
+      expect.objectContaining({ type: 'delete', id: dishes.id }),
+    ]);
+  });
+
+  it('refuses to delete records that are still referenced', async () => {
+    const models = setup(createAdapter(), 'restrict');
+    const { home, work, dishes } = await seed(models);
+
+    await expect(models.projects.table().delete(home.id)).rejects.toThrow(
+      RelationError
+    );
+    expect(await models.projects.table().get(home.id)).toEqual(home);
+
+    await models.todos.table().delete(dishes.id);
+    const results = await models.projects
+      .table()
+      .bulkDelete([home.id, work.id]);
+    expect(results.map((result) => result.ok)).toEqual([true, false]);
+  });
+
+  it('nullifies foreign keys, including arrays of ids', async () => {
+    const models = setup(createAdapter(), 'nullify');
+    const { home, urgent, later, dishes } = await seed(models);
+
+    await models.projects.table().delete(home.id);
+    await models.tags.table().delete(urgent.id);
+    expect(await models.todos.table().get(dishes.id)).toEqual({
+      ...dishes,
+      projectId: undefined,
+      tagIds: [later.id],
+    });
+  });
+
+  it('brings related models into transactions that delete', async () => {
+    const models = setup(createAdapter(), 'cascade');
+    const { home, work } = await seed(models);
+
+    await transaction([models.projects], 'readwrite', async (tx) => {
+      await tx.table(models.projects).delete(home.id);
+      await tx.table(models.projects).delete(work.id);
+    });
+    expect(await models.todos.table().getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Core = typeof import('../index');
+
+interface LegacyTodo {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+interface Todo {
+  id: string;
+  title: string;
+  status: 'open' | 'done';
+}
+
+function deleteDatabase(name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Simulate data written by a build of the app that predates defineSchema()
+function seedLegacyDatabase(records: LegacyTodo[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('nearstack', 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore('todo', { keyPath: 'id' });
+      for (const record of records) store.put(record);
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Each test loads a fresh copy of core, like a new page load
+async function loadCore(): Promise<Core> {
+  vi.resetModules();
+  return import('../index');
+}
+
+const migrations = [
+  {
+    version: 1,
+    upgrade: (ctx: import('../index').MigrationContext) =>
+      ctx.renameStore('todo', 'todos'),
+  },
+  {
+    version: 2,
+    upgrade: (ctx: import('../index').MigrationContext) =>
+      ctx.updateAll<LegacyTodo, Todo>('todos', (record) => {
+        if (record.title === 'drop me') return null;
+        const { completed, ...rest } = record;
+        return { ...rest, status: completed ? 'done' : 'open' } as Todo;
+      }),
+  },
+];
+
+describe('schema migrations', () => {
+  beforeEach(() => deleteDatabase('nearstack'));
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs pending migrations inside the upgrade', async () => {
+    await seedLegacyDatabase([
+      { id: '1', title: 'ship', completed: true },
+      { id: '2', title: 'test', completed: false },
+      { id: '3', title: 'drop me', completed: false },
+    ]);
+
+    const core = await loadCore();
+    core.defineSchema({ migrations });
+    const model = core.defineModel<Todo>('todos', { indexes: ['status'] });
+
+    const open = await model.table().where('status').equals('open').toArray();
+    expect(open).toEqual([{ id: '2', title: 'test', status: 'open' }]);
+    expect(await model.table().getAll()).toHaveLength(2);
+  });
+
+  it('starts fresh databases at the declared version without migrating', async () => {
+    const core = await loadCore();
+    const upgrade = vi.fn();
+    core.defineSchema({ migrations: [{ version: 3, upgrade }] });
+    const model = core.defineModel<Todo>('todos');
+
+    await model.table().insert({ title: 'new', status: 'open' });
+    expect(upgrade).not.toHaveBeenCalled();
+
+    // Reloading with the same schema is a no-op
+    const reloaded = await loadCore();
+    reloaded.defineSchema({ migrations: [{ version: 3, upgrade }] });
+    expect(
+      await reloaded.defineModel<Todo>('todos').table().getAll()
+    ).toHaveLength(1);
+    expect(upgrade).not.toHaveBeenCalled();
+  });
+
+  it('rejects downgrades with a clear error', async () => {
+    await seedLegacyDatabase([]);
+    const core = await loadCore();
+    core.defineSchema({ migrations });
+    await core.defineModel<Todo>('todos').table().getAll();
+
+    const older = await loadCore();
+    older.defineSchema({ migrations: migrations.slice(0, 1) });
+    const model = older.defineModel<Todo>('todos');
+    const error = await model
+      .table()
+      .getAll()
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(older.SchemaVersionError);
+    expect(error.message).toMatch(
+      /schema version 2.*only knows up to version 1/
+    );
+  });
+
+  it('rolls back a failed migration', async () => {
+    await seedLegacyDatabase([{ id: '1', title: 'keep', completed: false }]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const core = await loadCore();
+    core.defineSchema({
+      migrations: [
+        migrations[0],
+        {
+          version: 2,
+          upgrade: () => {
+            throw new Error('boom');
+          },
+        },
+      ],
+    });
+    const error = await core
+      .defineModel<Todo>('todos')
+      .table()
+      .getAll()
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(core.MigrationError);
+    expect(error.version).toBe(2);
+
+    // The rename from version 1 was rolled back with the rest of the upgrade
+    const fixed = await loadCore();
+    fixed.defineSchema({ migrations: migrations.slice(0, 1) });
+    expect(
+      await fixed.defineModel<LegacyTodo>('todos').table().getAll()
+    ).toEqual([{ id: '1', title: 'keep', completed: false }]);
+  });
+});
+
+describe('migrateInMemory', () => {
+  it('applies migrations to a snapshot', async () => {
+    const core = await loadCore();
+    const schema = core.defineSchema({
+      name: 'snapshot-test',
+      migrations: [
+        ...migrations,
+        {
+          version: 3,
+          upgrade: (ctx) => {
+            ctx.createIndex('todos', 'status');
+            ctx.deleteStore('scratch');
+          },
+        },
+      ],
+    });
+    const input = {
+      version: 0,
+      stores: {
+        todo: [{ id: '1', title: 'ship', completed: true }],
+        scratch: [],
+      },
+    };
+
+    const result = await core.migrateInMemory(schema, input);
+
+    expect(result.version).toBe(3);
+    expect(result.stores).toEqual({
+      todos: [{ id: '1', title: 'ship', status: 'done' }],
+    });
+    expect(result.indexes?.todos).toEqual([
+      { name: 'status', keyPath: 'status' },
+    ]);
+    expect(input.stores.todo[0]).toHaveProperty('completed', true);
+  });
+
+  it('rejects snapshots newer than the schema', async () => {
+    const core = await loadCore();
+    const schema = core.defineSchema({ name: 'snapshot-test', migrations });
+    await expect(
+      core.migrateInMemory(schema, { version: 5, stores: {} })
+    ).rejects.toBeInstanceOf(core.SchemaVersionError);
+  });
+});
@@ -0,0 +1,207 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  createIndexedDBAdapter,
+  createMemoryAdapter,
+  createVault,
+  defineModel,
+  type ModelOptions,
+  type StorageAdapter,
+  type Table,
+} from '../index';
+
+interface Note {
+  id: string;
+  title: string;
+  body: string;
+  tags?: string[];
+}
+
+let databaseCount = 0;
+
+const adapters: [string, () => StorageAdapter][] = [
+  ['memory', createMemoryAdapter],
+  ['indexeddb', createIndexedDBAdapter],
+];
+
+describe.each(adapters)('search (%s)', (_, createAdapter) => {
+  function setup(options: ModelOptions<Note> = {}) {
+    return defineModel<Note>('notes', {
+      adapter: createAdapter(),
+      dbName: `search-${databaseCount++}`,
+      search: ['title', 'body', 'tags'],
+      ...options,
+    });
+  }
+
+  async function seed(table: Table<Note>) {
+    await table.bulkPut([
+      {
+        id: 'a',
+        title: 'Sourdough starter',
+        body: 'Feed the starter with flour and water every day.',
+      },
+      {
+        id: 'b',
+        title: 'Bread',
+        body: 'Sourdough bread needs a lively starter, flour, water and salt. Sourdough takes time.',
+      },
+      {
+        id: 'c',
+        title: 'Garden',
+        body: 'Water the tomatoes.',
+        tags: ['Crème brûlée'],
+      },
+    ]);
+  }
+
+  it('ranks records by relevance', async () => {
+    const table = setup().table();
+    await seed(table);
+
+    const results = await table.search('sourdough');
+    // More occurrences count for more
+    expect(results.map((result) => result.record.id)).toEqual(['b', 'a']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+
+    // Rare words weigh more than common ones
+    const [best] = await table.search('water salt');
+    expect(best.record.id).toBe('b');
+
+    expect(await table.search('')).toEqual([]);
+    expect(await table.search('pizza')).toEqual([]);
+    expect(await table.search('water', { limit: 2 })).toHaveLength(2);
+  });
+
+  it('reports where fields matched', async () => {
+    const table = setup().table();
+    await seed(table);
+
+    const [result] = await table.search('STARTER', { fields: ['title'] });
+    expect(result.record.id).toBe('a');
+    expect(result.highlights).toEqual({ title: [[10, 17]] });
+
+    // Case and accents are ignored
+    const [dessert] = await table.search('creme brulee');
+    expect(dessert.record.id).toBe('c');
+    expect(dessert.highlights).toEqual({
+      tags: [
+        [0, 5],
+        [6, 12],
+      ],
+    });
+  });
+
+  it('matches the last word as a prefix', async () => {
+    const table = setup().table();
+    await seed(table);
+    expect(await table.search('tomat')).toEqual([]);
+    const [result] = await table.search('water tomat', { prefix: true });
+    expect(result.record.id).toBe('c');
+    expect(result.highlights.body).toEqual([
+      [0, 5],
+      [10, 18],
+    ]);
+  });
+
+  it('keeps the index up to date with writes', async () => {
+    const table = setup({ softDelete: true }).table();
+    await seed(table);
+
+    await table.update('c', { body: 'Sourdough pizza dough' });
+    expect((await table.search('pizza')).map((r) => r.record.id)).toEqual([
+      'c',
+    ]);
+    expect(await table.search('tomatoes')).toEqual([]);
+
+    await table.delete('a');
+    const ids = async (query: string) =>
+      (await table.search(query)).map((result) => result.record.id);
+    expect(await ids('sourdough')).toEqual(['c', 'b']);
+    expect((await table.trash().search('sourdough'))[0].record.id).toBe('a');
+
+    await table.purge('a');
+    await table.bulkDelete(['b']);
+    expect(await ids('sourdough')).toEqual(['c']);
+    expect(
+      await table.search('sourdough', {
+        filter: (note) => note.title === 'Bread',
+      })
+    ).toEqual([]);
+  });
+
+  it('indexes records written before their fields were searchable', async () => {
+    const adapter = createAdapter();
+    const dbName = `search-${databaseCount++}`;
+    const plain = defineModel<Note>('notes', { adapter, dbName });
+    await seed(plain.table());
+
+    const notes = defineModel<Note>('notes', {
+      adapter,
+      dbName,
+      search: ['title'],
+    });
+    const [result] = await notes.table().search('garden');
+    expect(result.record.id).toBe('c');
+    expect(await notes.table().search('tomatoes')).toEqual([]);
+  });
+});
+
+describe('search', () => {
+  it('keeps the index in the database', async () => {
+    const dbName = `search-${databaseCount++}`;
+    const notes = defineModel<Note>('notes', {
+      dbName,
+      search: ['title', 'body'],
+    });
+    const note = await notes
+      .table()
+      .insert({ title: 'Groceries', body: 'Eggs and milk' });
+
+    // As after a reload: a new adapter reading the same database
+    const adapter = createIndexedDBAdapter();
+    const reloaded = defineModel<Note>('notes', {
+      adapter,
+      dbName,
+      search: ['title', 'body'],
+    });
+    await reloaded.table().get(note.id);
+    const tx = await adapter.transaction(
+      dbName,
+      ['__nearstack_search'],
+      'readonly'
+    );
+    const entries = await tx.getAll<{ id: string }>('__nearstack_search');
+    await tx.commit();
+    expect(entries.map((entry) => entry.id)).toContain(
+      `p\u0000notes\u0000body\u0000milk\u0000"${note.id}"`
+    );
+    const [result] = await reloaded.table().search('milk');
+    expect(result.record.title).toBe('Groceries');
+  });
+
+  it('needs declared search fields', async () => {
+    const notes = defineModel<Note>('plain-notes', {
+      adapter: createMemoryAdapter(),
+    });
+    await expect(notes.table().search('x')).rejects.toThrow(
+      'has no search fields'
+    );
+    const searchable = defineModel<Note>('notes', {
+      adapter: createMemoryAdapter(),
+      search: ['title'],
+    });
+    await expect(
+      searchable.table().search('x', { fields: ['body'] })
+    ).rejects.toThrow('is not searchable');
+
+    const dbName = `search-${databaseCount++}`;
+    expect(() =>
+      defineModel<Note>('secrets', {
+        dbName,
+        encryption: createVault({ dbName }),
+        search: ['title'],
+      })
+    ).toThrow('cannot be both encrypted and searchable');
+  });
+});
@@ -0,0 +1,97 @@
+// Runs the OPFS SQLite adapter in tests, against in-memory SQLite
+// databases served in-process instead of by a worker on OPFS.
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, vi } from 'vitest';
+import sqlite3InitModule, { type Database } from '@sqlite.org/sqlite-wasm';
+import type { StorageAdapter } from '../index';
+import {
+  createOPFSSQLiteAdapter,
+  type WorkerRequest,
+  type WorkerResponse,
+} from '../adapters/opfs-sqlite';
+import { createRequestHandler } from '../adapters/sqlite-handler';
+
+let sqlite: ReturnType<typeof sqlite3InitModule> | undefined;
+
+function loadSQLite() {
+  // Node can't fetch the WASM file, so hand it over directly
+  sqlite ??= sqlite3InitModule({
+    wasmBinary: readFileSync(
+      resolve(
+        __dirname,
+        '../../node_modules/@sqlite.org/sqlite-wasm/sqlite-wasm/jswasm/sqlite3.wasm'
+      )
+    ),
+    print: () => {},
+    printErr: () => {},
+  });
+  return sqlite;
+}
+
+// Serves the worker protocol in-process from in-memory SQLite databases,
+// so the adapter runs its real requests without a worker or OPFS
+export class InProcessWorker {
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: WorkerRequest[] = [];
+  private queue = Promise.resolve();
+  private handle: (request: WorkerRequest) => Promise<WorkerResponse>;
+
+  constructor(databases = new Map<string, Database>()) {
+    this.handle = createRequestHandler(async (dbName) => {
+      const sqlite3 = await loadSQLite();
+      let db = databases.get(dbName);
+      if (!db) {
+        db = new sqlite3.oo1.DB(':memory:');
+        databases.set(dbName, db);
+      }
+      return db;
+    });
+  }
+
+  postMessage(request: WorkerRequest): void {
+    this.requests.push(request);
+    this.queue = this.queue
+      .then(() => this.handle(request))
+      .then((data) => this.onmessage?.({ data } as MessageEvent));
+  }
+
+  terminate(): void {}
+}
+
+// Fails databases that would otherwise quietly fall back to IndexedDB
+const noFallback: StorageAdapter = {
+  name: 'none',
+  shared: false,
+  defineStore: () => {},
+  open: () => Promise.reject(new Error('SQLite was not used')),
+  transaction: () => Promise.reject(new Error('SQLite was not used')),
+};
+
+export function createSQLiteAdapter(worker = new InProcessWorker()) {
+  return createOPFSSQLiteAdapter({
+    worker: () => worker as unknown as Worker,
+    fallback: noFallback,
+  });
+}
+
+/** Make OPFS look available to the adapter in the calling suite's tests */
+export function stubOPFS(): void {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', InProcessWorker);
+    Object.defineProperty(navigator, 'storage', {
+      value: { getDirectory: async () => ({}) },
+      configurable: true,
+    });
+    // SQLite warns that OPFS is missing, which is expected here
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    delete (navigator as { storage?: unknown }).storage;
+  });
+}
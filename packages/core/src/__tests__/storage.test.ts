@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryAdapter,
+  createStorageMonitor,
+  defineModel,
+  type Attachment,
+} from '../index';
+
+interface Photo {
+  id: string;
+  caption: string;
+  image?: Attachment;
+}
+
+let databaseCount = 0;
+
+function fakeStorage(usage: number, quota: number) {
+  const storage = {
+    estimate: vi.fn(async () => ({ usage, quota })),
+    persisted: vi.fn(async () => false),
+    persist: vi.fn(async () => true),
+  };
+  Object.defineProperty(navigator, 'storage', {
+    value: storage,
+    configurable: true,
+  });
+  return storage;
+}
+
+function fakeCaches(files: Record<string, Record<string, string>>) {
+  vi.stubGlobal('caches', {
+    keys: async () => Object.keys(files),
+    open: async (name: string) => ({
+      keys: async () => Object.keys(files[name]),
+      match: async (url: string) => new Response(files[name][url]),
+    }),
+  });
+}
+
+afterEach(() => {
+  delete (navigator as { storage?: unknown }).storage;
+  vi.unstubAllGlobals();
+});
+
+describe('createStorageMonitor()', () => {
+  it('breaks usage down by model and AI model cache', async () => {
+    fakeStorage(500, 1000);
+    fakeCaches({
+      'webllm/model': { 'weights-1.bin': 'abcd', 'weights-2.bin': 'ef' },
+      'app-shell': { 'index.html': '<html>' },
+    });
+    const dbName = `storage-${databaseCount++}`;
+    const photos = defineModel<Photo>('photos', {
+      adapter: createMemoryAdapter(),
+      dbName,
+      attachments: ['image'],
+    });
+    const image = await photos.attachments.put(new Blob(['12345678']));
+    await photos.table().insert({ caption: 'hi', image });
+
+    const state = await createStorageMonitor({ dbNames: [dbName] }).refresh();
+    expect(state).toMatchObject({
+      supported: true,
+      usage: 500,
+      quota: 1000,
+      persisted: false,
+      warning: null,
+      checking: false,
+      error: null,
+    });
+    expect(state.models).toEqual([
+      {
+        dbName,
+        model: 'photos',
+        records: 1,
+        bytes: expect.any(Number),
+        attachments: 8,
+      },
+    ]);
+    expect(state.models[0].bytes).toBeGreaterThan(0);
+    expect(state.caches).toEqual([
+      { name: 'webllm/model', entries: 2, bytes: 6 },
+    ]);
+  });
+
+  it('warns as usage nears the quota', async () => {
+    const monitor = createStorageMonitor({ dbNames: [] });
+    fakeStorage(850, 1000);
+    expect((await monitor.refresh()).warning).toMatchObject({
+      level: 'warning',
+      ratio: 0.85,
+    });
+    fakeStorage(990, 1000);
+    expect((await monitor.refresh()).warning).toEqual({
+      level: 'critical',
+      ratio: 0.99,
+      message: 'Storage is 99% full; new data may fail to save',
+    });
+    fakeStorage(100, 1000);
+    expect((await monitor.refresh()).warning).toBeNull();
+  });
+
+  it('checks periodically while subscribed', async () => {
+    vi.useFakeTimers();
+    const storage = fakeStorage(1, 10);
+    const monitor = createStorageMonitor({ dbNames: [], interval: 1000 });
+    const listener = vi.fn();
+
+    const unsubscribe = monitor.subscribe(listener);
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(storage.estimate).toHaveBeenCalledTimes(3);
+    expect(listener).toHaveBeenCalled();
+
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(storage.estimate).toHaveBeenCalledTimes(3);
+    vi.useRealTimers();
+  });
+
+  it('requests persistent storage', async () => {
+    const monitor = createStorageMonitor({ dbNames: [] });
+    expect(monitor.getState().supported).toBe(false);
+    expect(await monitor.persist()).toBe(false);
+
+    const storage = fakeStorage(1, 10);
+    expect(await monitor.persist()).toBe(true);
+    expect(storage.persist).toHaveBeenCalled();
+    expect(monitor.getState().persisted).toBe(true);
+  });
+});
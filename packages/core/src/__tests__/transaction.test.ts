@@ -0,0 +1,147 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { defineModel, transaction } from '../index';
+
+interface Order {
+  id: string;
+  sku: string;
+  quantity: number;
+}
+
+interface Item {
+  id: string;
+  sku: string;
+  stock: number;
+}
+
+function useInMemoryWindow() {
+  const previousWindow = globalThis.window;
+  Object.defineProperty(globalThis, 'window', {
+    value: undefined,
+    configurable: true,
+    writable: true,
+  });
+  return () => {
+    Object.defineProperty(globalThis, 'window', {
+      value: previousWindow,
+      configurable: true,
+      writable: true,
+    });
+  };
+}
+
+let modelCount = 0;
+
+async function setupModels() {
+  const suffix = modelCount++;
+  const orders = defineModel<Order>(`tx-orders-${suffix}`);
+  const inventory = defineModel<Item>(`tx-inventory-${suffix}`, {
+    indexes: [{ keyPath: 'sku', unique: true }],
+  });
+  const item = await inventory.table().insert({ sku: 'widget', stock: 3 });
+  return { orders, inventory, item };
+}
+
+function placeOrder(
+  models: Awaited<ReturnType<typeof setupModels>>,
+  quantity: number
+) {
+  const { orders, inventory, item } = models;
+  return transaction([orders, inventory], 'readwrite', async (tx) => {
+    const order = await tx.table(orders).insert({ sku: item.sku, quantity });
+    const current = await tx.table(inventory).get(item.id);
+    if (!current || current.stock < quantity) {
+      throw new Error('Out of stock');
+    }
+    await tx
+      .table(inventory)
+      .update(item.id, { stock: current.stock - quantity });
+    return order;
+  });
+}
+
+describe.each([
+  ['indexeddb', () => () => {}],
+  ['in-memory', useInMemoryWindow],
+])('transaction() (%s)', (_backend, prepare) => {
+  async function withModels(
+    run: (models: Awaited<ReturnType<typeof setupModels>>) => Promise<void>
+  ) {
+    const restore = prepare();
+    try {
+      await run(await setupModels());
+    } finally {
+      restore();
+    }
+  }
+
+  it('commits writes across models and notifies once per model', () =>
+    withModels(async (models) => {
+      const orderListener = vi.fn();
+      const inventoryListener = vi.fn();
+      models.orders.subscribe(orderListener);
+      models.inventory.subscribe(inventoryListener);
+
+      const order = await placeOrder(models, 2);
+
+      expect(await models.orders.table().get(order.id)).toEqual(order);
+      expect((await models.inventory.table().get(models.item.id))?.stock).toBe(
+        1
+      );
+      expect(orderListener).toHaveBeenCalledTimes(1);
+      expect(inventoryListener).toHaveBeenCalledTimes(1);
+    }));
+
+  it('rolls everything back when the callback throws', () =>
+    withModels(async (models) => {
+      const listener = vi.fn();
+      models.orders.subscribe(listener);
+
+      await expect(placeOrder(models, 5)).rejects.toThrow('Out of stock');
+
+      expect(await models.orders.table().getAll()).toEqual([]);
+      expect((await models.inventory.table().get(models.item.id))?.stock).toBe(
+        3
+      );
+      expect(listener).not.toHaveBeenCalled();
+    }));
+
+  it('rolls back earlier writes when a later write fails', () =>
+    withModels(async ({ orders, inventory }) => {
+      await expect(
+        transaction([orders, inventory], 'readwrite', async (tx) => {
+          await tx.table(orders).insert({ sku: 'widget', quantity: 1 });
+          await tx.table(inventory).insert({ sku: 'widget', stock: 1 });
+        })
+      ).rejects.toMatchObject({ name: 'ConstraintError' });
+
+      expect(await orders.table().getAll()).toEqual([]);
+      expect(await inventory.table().getAll()).toHaveLength(1);
+    }));
+
+  it('reads see the transaction’s own writes', () =>
+    withModels(async ({ orders }) => {
+      const count = await transaction([orders], 'readwrite', async (tx) => {
+        await tx.table(orders).insert({ sku: 'a', quantity: 1 });
+        await tx.table(orders).insert({ sku: 'b', quantity: 1 });
+        return (await tx.table(orders).getAll()).length;
+      });
+      expect(count).toBe(2);
+    }));
+
+  it('rejects writes in readonly transactions', () =>
+    withModels(async ({ orders }) => {
+      await expect(
+        transaction([orders], 'readonly', (tx) =>
+          tx.table(orders).insert({ sku: 'a', quantity: 1 })
+        )
+      ).rejects.toMatchObject({ name: 'ReadOnlyError' });
+    }));
+
+  it('rejects models outside the transaction scope', () =>
+    withModels(async ({ orders, inventory }) => {
+      await expect(
+        transaction([orders], 'readonly', (tx) => tx.table(inventory).getAll())
+      ).rejects.toThrow(/not part of this transaction/);
+    }));
+});
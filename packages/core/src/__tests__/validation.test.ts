@@ -0,0 +1,196 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import {
+  defineModel,
+  transaction,
+  v,
+  ValidationError,
+  type StandardSchemaV1,
+} from '../index';
+
+interface Todo {
+  id: string;
+  title: string;
+  done: boolean;
+  tags: string[];
+}
+
+const todoSchema = v.object({
+  title: v.string({ min: 1 }),
+  done: v.boolean().default(false),
+  tags: v.array(v.string()).default(() => []),
+});
+
+function useInMemoryWindow() {
+  const previousWindow = globalThis.window;
+  Object.defineProperty(globalThis, 'window', {
+    value: undefined,
+    configurable: true,
+    writable: true,
+  });
+  return () => {
+    Object.defineProperty(globalThis, 'window', {
+      value: previousWindow,
+      configurable: true,
+      writable: true,
+    });
+  };
+}
+
+let modelCount = 0;
+
+function errorOf(promise: Promise<unknown>): Promise<ValidationError> {
+  return promise.then(
+    () => {
+      throw new Error('Expected a ValidationError');
+    },
+    (error) => {
+      expect(error).toBeInstanceOf(ValidationError);
+      return error;
+    }
+  );
+}
+
+describe.each([
+  ['indexeddb', () => () => {}],
+  ['in-memory', useInMemoryWindow],
+])('schema validation (%s)', (_backend, prepare) => {
+  async function withModel(
+    run: (model: ReturnType<typeof defineModel<Todo>>) => Promise<void>
+  ) {
+    const restore = prepare();
+    try {
+      await run(
+        defineModel<Todo>(`todos-validation-${modelCount++}`, {
+          schema: todoSchema,
+        })
+      );
+    } finally {
+      restore();
+    }
+  }
+
+  it('applies defaults on insert', () =>
+    withModel(async (model) => {
+      const todo = await model
+        .table()
+        .insert({ title: 'write tests' } as Omit<Todo, 'id'>);
+      expect(todo).toEqual({
+        id: todo.id,
+        title: 'write tests',
+        done: false,
+        tags: [],
+      });
+      expect(await model.table().get(todo.id)).toEqual(todo);
+    }));
+
+  it('rejects invalid inserts with field paths', () =>
+    withModel(async (model) => {
+      const error = await errorOf(
+        model.table().insert({
+          title: '',
+          done: 'no',
+          tags: ['ok', 3],
+        } as unknown as Omit<Todo, 'id'>)
+      );
+
+      expect(error.issues).toEqual([
+        { path: ['title'], message: 'Expected at least 1 characters' },
+        { path: ['done'], message: 'Expected a boolean' },
+        { path: ['tags', 1], message: 'Expected a string' },
+      ]);
+      expect(error.message).toContain('tags.1: Expected a string');
+      expect(await model.table().getAll()).toEqual([]);
+    }));
+
+  it('validates the merged record on update and set', () =>
+    withModel(async (model) => {
+      const todo = await model
+        .table()
+        .insert({ title: 'a' } as Omit<Todo, 'id'>);
+
+      const error = await errorOf(
+        model.table().update(todo.id, { done: 1 as unknown as boolean })
+      );
+      expect(error.issues[0].path).toEqual(['done']);
+
+      await errorOf(
+        model.store.set(todo.id, { id: todo.id } as unknown as Todo)
+      );
+      expect(await model.table().get(todo.id)).toEqual(todo);
+    }));
+
+  it('rolls back a transaction on invalid writes', () =>
+    withModel(async (model) => {
+      await errorOf(
+        transaction([model], 'readwrite', async (tx) => {
+          await tx.table(model).insert({ title: 'ok' } as Omit<Todo, 'id'>);
+          await tx
+            .table(model)
+            .insert({ title: 5 } as unknown as Omit<Todo, 'id'>);
+        })
+      );
+      expect(await model.table().getAll()).toEqual([]);
+    }));
+});
+
+describe('Standard Schema support', () => {
+  // Hand-rolled stand-in for a library such as Zod or Valibot
+  const standard: StandardSchemaV1<unknown, { title: string }> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const title = (value as { title?: unknown }).title;
+        return typeof title === 'string'
+          ? { value: { title: title.trim() } }
+          : { issues: [{ message: 'Required', path: [{ key: 'title' }] }] };
+      },
+    },
+  };
+
+  it('validates with any Standard Schema and keeps the id', async () => {
+    const model = defineModel<{ id: string; title: string }>(
+      `standard-${modelCount++}`,
+      { schema: standard }
+    );
+
+    const note = await model.table().insert({ title: '  padded ' });
+    expect(note).toEqual({ id: note.id, title: 'padded' });
+
+    const error = await errorOf(model.table().insert({} as { title: string }));
+    expect(error.issues).toEqual([{ path: ['title'], message: 'Required' }]);
+  });
+
+  it('checks incoming data with model.validate()', () => {
+    const model = defineModel<{ id: string; title: string }>(
+      `standard-${modelCount++}`,
+      { schema: standard }
+    );
+
+    expect(model.validate({ id: 'x', title: ' a ' })).toEqual({
+      id: 'x',
+      title: 'a',
+    });
+    expect(() => model.validate({ id: 'x' })).toThrow(ValidationError);
+  });
+
+  it('refuses asynchronous schemas', async () => {
+    const model = defineModel<{ id: string; title: string }>(
+      `standard-${modelCount++}`,
+      {
+        schema: {
+          '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: async (value) => ({ value: value as { title: string } }),
+          },
+        },
+      }
+    );
+
+    await expect(model.table().insert({ title: 'a' })).rejects.toThrow(
+      /validates asynchronously/
+    );
+  });
+});
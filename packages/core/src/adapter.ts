@@ -0,0 +1,106 @@
+// Storage adapter contract: the boundary between models and the backend
+// that persists their records.
+//
+// Models handle ids, validation, change events and the Table API; an
+// adapter only stores records, keyed by their `id` (a string or a
+// number), in named stores that are grouped into databases.
+
+import type { IndexDefinition, RecordId, TransactionMode } from './types.js';
+import type { QueryPlan } from './query.js';
+
+/** A record as adapters see it */
+export interface StoredRecord {
+  id: RecordId;
+}
+
+export interface StorageAdapter {
+  /** Short identifier, used in warnings and errors */
+  readonly name: string;
+  /**
+   * Whether other tabs see this adapter's data. Writes through shared
+   * adapters are announced to subscribers in other tabs.
+   */
+  readonly shared: boolean;
+
+  /**
+   * Declare a store and its indexes. defineModel() calls this for each
+   * model, at import time, before any transaction on the database.
+   * Declaring a store again replaces its index definitions.
+   */
+  defineStore(
+    dbName: string,
+    storeName: string,
+    indexes: IndexDefinition[]
+  ): void;
+
+  /**
+   * Open the database, creating or upgrading stores to match what has been
+   * declared. Rejects if the adapter cannot run in this environment, in
+   * which case models fall back to in-memory storage.
+   */
+  open(dbName: string): Promise<void>;
+
+  /**
+   * Start a transaction over one or more stores of an opened database.
+   * Transactions are isolated from each other's uncommitted writes and
+   * apply all of their writes, or none.
+   */
+  transaction(
+    dbName: string,
+    storeNames: string[],
+    mode: TransactionMode
+  ): Promise<AdapterTransaction>;
+}
+
+/**
+ * Operations within one adapter transaction. Every method rejects once the
+ * transaction has been committed or aborted.
+ */
+export interface AdapterTransaction {
+  get<T extends StoredRecord>(
+    storeName: string,
+    id: RecordId
+  ): Promise<T | undefined>;
+  getAll<T extends StoredRecord>(storeName: string): Promise<T[]>;
+  /**
+   * Run a query plan. `plan.index` names one of the store's declared
+   * indexes, or is `null` for the primary key. `scanRecords()` implements
+   * plans over any iterable of records.
+   */
+  query<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>
+  ): Promise<T[]>;
+  /**
+   * Run a query plan, handing each result to `visit` rather than
+   * collecting them, so counts and sums don't hold every record.
+   * Optional: without it, models run `query()` and visit its results.
+   */
+  scan?<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>,
+    visit: (record: T) => void
+  ): Promise<void>;
+  /**
+   * Insert or replace a record. Rejects with a `ConstraintError`
+   * DOMException if it violates a unique index, and a `ReadOnlyError` in
+   * read-only transactions. A failed put leaves the transaction usable.
+   */
+  put<T extends StoredRecord>(storeName: string, record: T): Promise<void>;
+  /** Delete a record; deleting a missing id is not an error */
+  delete(storeName: string, id: RecordId): Promise<void>;
+
+  /**
+   * Keep the transaction open until `work` settles, for backends that
+   * commit a transaction once nothing is pending on it (IndexedDB).
+   * Wraps async work that isn't part of the transaction, such as
+   * WebCrypto calls, between its operations. Optional: adapters whose
+   * transactions stay open until commit() can omit it.
+   */
+  keepAlive?<R>(work: Promise<R>): Promise<R>;
+
+  /** Finish the transaction, resolving once its writes are committed */
+  commit(): Promise<void>;
+  /** Discard the transaction's writes. Safe to call after it has ended */
+  abort(): void;
+}
@@ -0,0 +1,325 @@
+// Conformance tests for storage adapters. Framework-agnostic: each test is
+// an async function that throws on failure, so any runner can host them.
+//
+//   for (const test of adapterConformanceTests(createMyAdapter)) {
+//     it(test.name, test.run);
+//   }
+
+import type { StorageAdapter, StoredRecord } from '../adapter.js';
+import type { QueryPlan } from '../query.js';
+import type { IndexDefinition } from '../types.js';
+
+export interface ConformanceTest {
+  name: string;
+  run(): Promise<void>;
+}
+
+interface Item extends StoredRecord {
+  sku: string;
+  status: string;
+  rank: number;
+  tags: string[];
+}
+
+const INDEXES: IndexDefinition[] = [
+  { name: 'sku', keyPath: 'sku', unique: true },
+  { name: 'status', keyPath: 'status' },
+  { name: 'rank', keyPath: 'rank' },
+  { name: 'tags', keyPath: 'tags', multiEntry: true },
+  { name: 'status+rank', keyPath: ['status', 'rank'] },
+];
+
+const ITEMS: Item[] = [
+  { id: 'a', sku: 'A-1', status: 'open', rank: 3, tags: ['red'] },
+  { id: 'b', sku: 'B-1', status: 'done', rank: 1, tags: ['red', 'blue'] },
+  { id: 'c', sku: 'C-1', status: 'open', rank: 2, tags: [] },
+  { id: 'd', sku: 'D-1', status: 'open', rank: 5, tags: ['blue'] },
+];
+
+function plan(overrides: Partial<QueryPlan<Item>>): QueryPlan<Item> {
+  return {
+    index: null,
+    ranges: null,
+    reverse: false,
+    unique: false,
+    filters: [],
+    sortBy: null,
+    offset: 0,
+    limit: null,
+    ...overrides,
+  };
+}
+
+function assertEqual(
+  actual: unknown,
+  expected: unknown,
+  message: string
+): void {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) throw new Error(`${message}: expected ${e}, got ${a}`);
+}
+
+async function assertRejects(
+  promise: Promise<unknown>,
+  errorName: string,
+  message: string
+): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    assertEqual((error as Error).name, errorName, message);
+    return;
+  }
+  throw new Error(`${message}: expected a ${errorName}`);
+}
+
+const ids = (records: StoredRecord[]) => records.map((record) => record.id);
+
+let databaseCount = 0;
+
+/**
+ * Build the conformance tests for an adapter. `createAdapter` is called
+ * once per test; each test uses a database of its own.
+ */
+export function adapterConformanceTests(
+  createAdapter: () => StorageAdapter | Promise<StorageAdapter>
+): ConformanceTest[] {
+  async function setup(seed = true) {
+    const adapter = await createAdapter();
+    const dbName = `nearstack-conformance-${databaseCount++}`;
+    adapter.defineStore(dbName, 'items', INDEXES);
+    adapter.defineStore(dbName, 'logs', []);
+    await adapter.open(dbName);
+
+    if (seed) {
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      for (const item of ITEMS) await tx.put('items', item);
+      await tx.commit();
+    }
+    const read = async (store = 'items') => {
+      const tx = await adapter.transaction(dbName, [store], 'readonly');
+      const records = await tx.getAll(store);
+      await tx.commit();
+      return records;
+    };
+    return { adapter, dbName, read };
+  }
+
+  const test = (name: string, run: () => Promise<void>): ConformanceTest => ({
+    name,
+    run,
+  });
+
+  return [
+    test('stores, reads and deletes records', async () => {
+      const { adapter, dbName, read } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      assertEqual(await tx.get('items', 'a'), ITEMS[0], 'get');
+      assertEqual(await tx.get('items', 'missing'), undefined, 'get missing');
+      await tx.put('items', { ...ITEMS[0], rank: 9 });
+      await tx.delete('items', 'b');
+      await tx.delete('items', 'missing');
+      await tx.commit();
+
+      const records = await read();
+      assertEqual(ids(records), ['a', 'c', 'd'], 'getAll order');
+      assertEqual((records[0] as Item).rank, 9, 'replaced record');
+    }),
+
+    test('stores records by value', async () => {
+      const { adapter, dbName } = await setup(false);
+      const record = { ...ITEMS[0], tags: ['red'] };
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      await tx.put('items', record);
+      record.tags.push('mutated');
+      const stored = await tx.get<Item>('items', 'a');
+      stored!.tags.push('mutated');
+      assertEqual((await tx.get<Item>('items', 'a'))!.tags, ['red'], 'copy');
+      await tx.commit();
+    }),
+
+    test('sees its own writes before commit', async () => {
+      const { adapter, dbName, read } = await setup(false);
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      await tx.put('items', ITEMS[0]);
+      assertEqual(ids(await tx.getAll('items')), ['a'], 'read own write');
+      await tx.commit();
+      assertEqual(ids(await read()), ['a'], 'committed');
+    }),
+
+    test('discards every write on abort', async () => {
+      const { adapter, dbName, read } = await setup();
+      const tx = await adapter.transaction(
+        dbName,
+        ['items', 'logs'],
+        'readwrite'
+      );
+      await tx.put('logs', { id: 'log-1' });
+      await tx.delete('items', 'a');
+      tx.abort();
+      tx.abort();
+
+      assertEqual(ids(await read()), ['a', 'b', 'c', 'd'], 'items unchanged');
+      assertEqual(await read('logs'), [], 'logs unchanged');
+    }),
+
+    test('commits writes across stores together', async () => {
+      const { adapter, dbName, read } = await setup();
+      const tx = await adapter.transaction(
+        dbName,
+        ['items', 'logs'],
+        'readwrite'
+      );
+      await tx.put('logs', { id: 'log-1' });
+      await tx.delete('items', 'a');
+      await tx.commit();
+
+      assertEqual(ids(await read()), ['b', 'c', 'd'], 'items');
+      assertEqual(ids(await read('logs')), ['log-1'], 'logs');
+    }),
+
+    test('rejects writes in read-only transactions', async () => {
+      const { adapter, dbName } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readonly');
+      await assertRejects(tx.put('items', ITEMS[0]), 'ReadOnlyError', 'put');
+      tx.abort();
+    }),
+
+    test('enforces unique indexes', async () => {
+      const { adapter, dbName, read } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      await assertRejects(
+        tx.put('items', { ...ITEMS[1], id: 'e' }),
+        'ConstraintError',
+        'duplicate sku'
+      );
+      tx.abort();
+      assertEqual(ids(await read()), ['a', 'b', 'c', 'd'], 'nothing written');
+    }),
+
+    test('keeps going after a failed write', async () => {
+      const { adapter, dbName, read } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      await assertRejects(
+        tx.put('items', { ...ITEMS[1], id: 'e' }),
+        'ConstraintError',
+        'duplicate sku'
+      );
+      await tx.put('items', { ...ITEMS[1], id: 'e', sku: 'E-1' });
+      await tx.commit();
+      assertEqual(ids(await read()), ['a', 'b', 'c', 'd', 'e'], 'committed');
+    }),
+
+    test('stays open across keepAlive() work', async () => {
+      const { adapter, dbName, read } = await setup(false);
+      const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+      await tx.put('items', ITEMS[0]);
+      const slow = new Promise((resolve) => setTimeout(resolve, 20));
+      await (tx.keepAlive ? tx.keepAlive(slow) : slow);
+      await tx.put('items', ITEMS[1]);
+      await tx.commit();
+      assertEqual(ids(await read()), ['a', 'b'], 'both writes committed');
+    }),
+
+    test('runs concurrent writers one after the other', async () => {
+      const { adapter, dbName, read } = await setup();
+      // Each reads the record, waits, then writes it back with a new tag
+      const addTag = async (tag: string) => {
+        const tx = await adapter.transaction(dbName, ['items'], 'readwrite');
+        const item = (await tx.get<Item>('items', 'a'))!;
+        const slow = new Promise((resolve) => setTimeout(resolve, 10));
+        await (tx.keepAlive ? tx.keepAlive(slow) : slow);
+        await tx.put('items', { ...item, tags: [...item.tags, tag] });
+        await tx.commit();
+      };
+      await Promise.all([addTag('x'), addTag('y')]);
+      const [item] = (await read()) as Item[];
+      assertEqual(item.tags, ['red', 'x', 'y'], 'both writes kept');
+    }),
+
+    test('runs query plans', async () => {
+      const { adapter, dbName } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readonly');
+      const query = async (overrides: Partial<QueryPlan<Item>>) =>
+        ids(await tx.query('items', plan(overrides)));
+
+      assertEqual(
+        await query({
+          index: 'status',
+          ranges: [{ lower: 'open', upper: 'open' }],
+        }),
+        ['a', 'c', 'd'],
+        'equality'
+      );
+      assertEqual(
+        await query({
+          index: 'rank',
+          ranges: [{ lower: 2, upperOpen: true, upper: 5 }],
+        }),
+        ['c', 'a'],
+        'range'
+      );
+      assertEqual(
+        await query({ index: 'rank', reverse: true, offset: 1, limit: 2 }),
+        ['a', 'c'],
+        'reverse with offset and limit'
+      );
+      assertEqual(
+        await query({
+          index: 'tags',
+          ranges: [
+            { lower: 'blue', upper: 'blue' },
+            { lower: 'red', upper: 'red' },
+          ],
+          unique: true,
+        }),
+        ['b', 'd', 'a'],
+        'multi-entry'
+      );
+      assertEqual(
+        await query({
+          index: 'status+rank',
+          ranges: [{ lower: ['open'], upper: ['open', []] }],
+          filters: [(item) => item.rank > 2],
+        }),
+        ['a', 'd'],
+        'compound with filter'
+      );
+      assertEqual(
+        await query({ sortBy: 'rank' }),
+        ['b', 'c', 'a', 'd'],
+        'sortBy'
+      );
+      await tx.commit();
+    }),
+
+    test('scans query plans like it runs them', async () => {
+      const { adapter, dbName } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readonly');
+      // scan() is optional
+      if (tx.scan) {
+        for (const overrides of [
+          { index: 'rank', reverse: true, offset: 1, limit: 2 },
+          { filters: [(item: Item) => item.rank > 1], sortBy: 'rank' },
+        ]) {
+          const visited: Item[] = [];
+          await tx.scan('items', plan(overrides), (item) => visited.push(item));
+          assertEqual(
+            ids(visited),
+            ids(await tx.query('items', plan(overrides))),
+            'same results'
+          );
+        }
+      }
+      await tx.commit();
+    }),
+
+    test('keeps data across transactions', async () => {
+      const { adapter, dbName } = await setup();
+      const tx = await adapter.transaction(dbName, ['items'], 'readonly');
+      assertEqual(await tx.get('items', 'd'), ITEMS[3], 'persisted');
+      await tx.commit();
+    }),
+  ];
+}
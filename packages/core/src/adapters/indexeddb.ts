@@ -0,0 +1,417 @@
+// IndexedDB storage adapter — the default backend for defineModel().
+
+import type {
+  AdapterTransaction,
+  StorageAdapter,
+  StoredRecord,
+} from '../adapter.js';
+import type { IndexDefinition, RecordId, TransactionMode } from '../types.js';
+import { toIDBKeyRange } from '../keys.js';
+import { ResultCollector, type QueryPlan } from '../query.js';
+import {
+  assertNotDowngrade,
+  getSchema,
+  IDBMigrationContext,
+  readSchemaVersion,
+  runMigrations,
+  writeSchemaVersion,
+} from '../schema.js';
+
+// ─── Shared DB connection manager ──────────────────────────────────
+// Tracks all registered stores (and their indexes) per database and
+// shares a single connection, upgrading the schema when new stores or
+// index changes are discovered. All defineModel() calls must happen at
+// module import time (before any store operations) so that every store
+// is registered before the shared connection is opened.
+//
+// IndexedDB is global to the page, so this state is shared by every
+// adapter instance.
+
+const _dbStores = new Map<string, Map<string, IndexDefinition[]>>();
+const _dbConnections = new Map<string, Promise<IDBDatabase>>();
+
+function registerStore(
+  dbName: string,
+  storeName: string,
+  indexes: IndexDefinition[]
+): void {
+  let stores = _dbStores.get(dbName);
+  if (!stores) {
+    stores = new Map();
+    _dbStores.set(dbName, stores);
+  }
+  stores.set(storeName, indexes);
+  // Invalidate cached connection so the next access checks for missing stores
+  _dbConnections.delete(dbName);
+}
+
+function getDatabase(dbName: string): Promise<IDBDatabase> {
+  const cached = _dbConnections.get(dbName);
+  if (cached) return cached;
+
+  const promise = openOrUpgrade(dbName);
+  _dbConnections.set(dbName, promise);
+  promise.then(
+    (db) => {
+      // Step aside when a newer schema (another model, or another tab)
+      // needs to upgrade; the next access reopens the connection.
+      db.onversionchange = () => {
+        db.close();
+        if (_dbConnections.get(dbName) === promise)
+          _dbConnections.delete(dbName);
+      };
+    },
+    () => {
+      if (_dbConnections.get(dbName) === promise) _dbConnections.delete(dbName);
+    }
+  );
+  return promise;
+}
+
+function sameIndex(existing: IDBIndex, wanted: IndexDefinition): boolean {
+  const keyPath = existing.keyPath;
+  const keyPathMatches = Array.isArray(wanted.keyPath)
+    ? Array.isArray(keyPath) &&
+      keyPath.length === wanted.keyPath.length &&
+      keyPath.every((path, i) => path === wanted.keyPath[i])
+    : keyPath === wanted.keyPath;
+  return (
+    keyPathMatches &&
+    existing.unique === (wanted.unique ?? false) &&
+    existing.multiEntry === (wanted.multiEntry ?? false)
+  );
+}
+
+function storeMatchesSchema(
+  store: IDBObjectStore,
+  indexes: IndexDefinition[]
+): boolean {
+  if (store.indexNames.length !== indexes.length) return false;
+  return indexes.every(
+    (index) =>
+      store.indexNames.contains(index.name) &&
+      sameIndex(store.index(index.name), index)
+  );
+}
+
+function needsUpgrade(
+  db: IDBDatabase,
+  neededStores: Map<string, IndexDefinition[]>
+): boolean {
+  const names = [...neededStores.keys()];
+  if (names.some((name) => !db.objectStoreNames.contains(name))) return true;
+  if (names.length === 0) return false;
+
+  const transaction = db.transaction(names, 'readonly');
+  return names.some(
+    (name) =>
+      !storeMatchesSchema(
+        transaction.objectStore(name),
+        neededStores.get(name) ?? []
+      )
+  );
+}
+
+function applySchema(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  neededStores: Map<string, IndexDefinition[]>
+): void {
+  for (const [name, indexes] of neededStores) {
+    const store = db.objectStoreNames.contains(name)
+      ? transaction.objectStore(name)
+      : db.createObjectStore(name, { keyPath: 'id' });
+
+    // Declared indexes are the source of truth: drop stale or changed
+    // ones, then create whatever is missing.
+    for (const indexName of Array.from(store.indexNames)) {
+      const wanted = indexes.find((index) => index.name === indexName);
+      if (!wanted || !sameIndex(store.index(indexName), wanted)) {
+        store.deleteIndex(indexName);
+      }
+    }
+    for (const index of indexes) {
+      if (!store.indexNames.contains(index.name)) {
+        store.createIndex(index.name, index.keyPath, {
+          unique: index.unique ?? false,
+          multiEntry: index.multiEntry ?? false,
+        });
+      }
+    }
+  }
+}
+
+function openOrUpgrade(dbName: string): Promise<IDBDatabase> {
+  const neededStores =
+    _dbStores.get(dbName) ?? new Map<string, IndexDefinition[]>();
+  const schema = getSchema(dbName);
+  const declaredVersion = schema?.version ?? 0;
+
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    // Open without an explicit version to discover the current state
+    const probeReq = indexedDB.open(dbName);
+
+    probeReq.onerror = () => reject(probeReq.error);
+
+    probeReq.onsuccess = () => {
+      const db = probeReq.result;
+
+      readSchemaVersion(db)
+        .then((storedVersion) => {
+          assertNotDowngrade(dbName, storedVersion, declaredVersion);
+
+          if (
+            storedVersion === declaredVersion &&
+            !needsUpgrade(db, neededStores)
+          ) {
+            resolve(db);
+            return;
+          }
+
+          // Upgrade needed — bump version, run pending migrations, then
+          // reconcile stores and indexes
+          const newVersion = db.version + 1;
+          db.close();
+
+          let migrationError: unknown;
+          const upgradeReq = indexedDB.open(dbName, newVersion);
+          upgradeReq.onerror = () => reject(migrationError ?? upgradeReq.error);
+          upgradeReq.onsuccess = () => resolve(upgradeReq.result);
+          upgradeReq.onupgradeneeded = () => {
+            const udb = upgradeReq.result;
+            const transaction = upgradeReq.transaction!;
+
+            readSchemaVersion(udb, transaction)
+              .then((fromVersion) =>
+                schema
+                  ? runMigrations(
+                      schema,
+                      fromVersion,
+                      (from, to) =>
+                        new IDBMigrationContext(udb, transaction, from, to)
+                    )
+                  : undefined
+              )
+              .then(() => {
+                applySchema(udb, transaction, neededStores);
+                if (schema)
+                  writeSchemaVersion(udb, transaction, declaredVersion);
+              })
+              .catch((error) => {
+                migrationError = error;
+                transaction.abort();
+              });
+          };
+        })
+        .catch((error) => {
+          db.close();
+          reject(error);
+        });
+    };
+
+    // DB doesn't exist yet — create fresh with all registered stores.
+    // There is no data to migrate, so it starts at the declared version.
+    probeReq.onupgradeneeded = () => {
+      applySchema(probeReq.result, probeReq.transaction!, neededStores);
+      if (schema)
+        writeSchemaVersion(
+          probeReq.result,
+          probeReq.transaction!,
+          declaredVersion
+        );
+    };
+  });
+}
+
+function requestToPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Operations bound to one IndexedDB transaction.
+ */
+class IDBAdapterTransaction implements AdapterTransaction {
+  private committed: Promise<void>;
+
+  constructor(private transaction: IDBTransaction) {
+    this.committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () =>
+        reject(
+          transaction.error ??
+            new DOMException('Transaction was aborted', 'AbortError')
+        );
+    });
+    // Observed by commit(); avoid an unhandled rejection after abort()
+    this.committed.catch(() => {});
+  }
+
+  private store(storeName: string): IDBObjectStore {
+    return this.transaction.objectStore(storeName);
+  }
+
+  async get<T extends StoredRecord>(
+    storeName: string,
+    id: RecordId
+  ): Promise<T | undefined> {
+    return requestToPromise<T | undefined>(this.store(storeName).get(id));
+  }
+
+  async getAll<T extends StoredRecord>(storeName: string): Promise<T[]> {
+    return requestToPromise<T[]>(this.store(storeName).getAll());
+  }
+
+  async put<T extends StoredRecord>(
+    storeName: string,
+    record: T
+  ): Promise<void> {
+    const request = this.store(storeName).put(record);
+    // A failed write rejects without aborting the whole transaction, as
+    // with the other adapters; the caller decides whether to go on
+    request.addEventListener('error', (event) => event.preventDefault());
+    await requestToPromise(request);
+  }
+
+  async delete(storeName: string, id: RecordId): Promise<void> {
+    await requestToPromise(this.store(storeName).delete(id));
+  }
+
+  // Issues cheap requests until `work` settles, then resumes from one
+  // of their callbacks, where the transaction still accepts requests
+  keepAlive<R>(work: Promise<R>): Promise<R> {
+    const store = this.store(this.transaction.objectStoreNames[0]);
+    return new Promise<R>((resolve, reject) => {
+      let settled: (() => void) | undefined;
+      work.then(
+        (value) => {
+          settled = () => resolve(value);
+        },
+        (error) => {
+          settled = () => reject(error);
+        }
+      );
+      const spin = () => {
+        if (settled) return settled();
+        const request = store.count();
+        request.onsuccess = spin;
+        request.onerror = () => reject(request.error);
+      };
+      spin();
+    });
+  }
+
+  query<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>
+  ): Promise<T[]> {
+    return this.walk(storeName, plan, new ResultCollector(plan));
+  }
+
+  async scan<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>,
+    visit: (record: T) => void
+  ): Promise<void> {
+    await this.walk(storeName, plan, new ResultCollector(plan, visit));
+  }
+
+  private walk<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>,
+    collector: ResultCollector<T>
+  ): Promise<T[]> {
+    const store = this.store(storeName);
+    const source = plan.index === null ? store : store.index(plan.index);
+    const ranges = plan.ranges ?? [{}];
+    const ordered = plan.reverse ? [...ranges].reverse() : ranges;
+
+    return new Promise((resolve, reject) => {
+      // Walk each range with its own cursor, all inside one transaction
+      const scan = (rangeIndex: number) => {
+        if (rangeIndex >= ordered.length || collector.done) {
+          resolve(collector.finish());
+          return;
+        }
+
+        const request = source.openCursor(
+          toIDBKeyRange(ordered[rangeIndex]),
+          plan.reverse ? 'prev' : 'next'
+        );
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            scan(rangeIndex + 1);
+          } else if (collector.push(cursor.value)) {
+            cursor.continue();
+          } else {
+            resolve(collector.finish());
+          }
+        };
+      };
+      scan(0);
+    });
+  }
+
+  commit(): Promise<void> {
+    // Commits on its own once no requests are pending; commit() just
+    // skips the wait where the browser supports it
+    try {
+      this.transaction.commit?.();
+    } catch {
+      // Already finishing
+    }
+    return this.committed;
+  }
+
+  abort(): void {
+    try {
+      this.transaction.abort();
+    } catch {
+      // Already committed or aborted
+    }
+  }
+}
+
+class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'indexeddb';
+  readonly shared = true;
+
+  defineStore(
+    dbName: string,
+    storeName: string,
+    indexes: IndexDefinition[]
+  ): void {
+    registerStore(dbName, storeName, indexes);
+  }
+
+  async open(dbName: string): Promise<void> {
+    if (typeof window === 'undefined' || !window.indexedDB) {
+      throw new Error('IndexedDB not available');
+    }
+    await getDatabase(dbName);
+  }
+
+  // Every call gets a fresh connection lookup; the connection is replaced
+  // whenever the schema upgrades.
+  async transaction(
+    dbName: string,
+    storeNames: string[],
+    mode: TransactionMode
+  ): Promise<AdapterTransaction> {
+    const db = await getDatabase(dbName);
+    return new IDBAdapterTransaction(db.transaction(storeNames, mode));
+  }
+}
+
+/**
+ * Create an adapter storing models in IndexedDB. Stores are created and
+ * indexes reconciled on first access, and `defineSchema()` migrations run
+ * during the upgrade.
+ */
+export function createIndexedDBAdapter(): StorageAdapter {
+  return new IndexedDBAdapter();
+}
@@ -0,0 +1,229 @@
+// In-memory storage adapter. Data lives only as long as the page; it backs
+// models when IndexedDB is unavailable, and suits tests and SSR.
+
+import type {
+  AdapterTransaction,
+  StorageAdapter,
+  StoredRecord,
+} from '../adapter.js';
+import type { IndexDefinition, RecordId, TransactionMode } from '../types.js';
+import { compareKeys, extractIndexKeys } from '../keys.js';
+import { scanRecords, type QueryPlan } from '../query.js';
+
+interface MemoryStore {
+  records: Map<RecordId, StoredRecord>;
+  indexes: IndexDefinition[];
+}
+
+class MemoryAdapterTransaction implements AdapterTransaction {
+  // Copy-on-write views of the stores this transaction wrote to
+  private working = new Map<string, Map<RecordId, StoredRecord>>();
+  private finished = false;
+
+  constructor(
+    private stores: Map<string, MemoryStore>,
+    private storeNames: string[],
+    private mode: TransactionMode,
+    private release: () => void = () => {}
+  ) {}
+
+  private store(storeName: string): MemoryStore {
+    if (this.finished) {
+      throw new DOMException(
+        'The transaction has finished',
+        'TransactionInactiveError'
+      );
+    }
+    const store = this.stores.get(storeName);
+    if (!store || !this.storeNames.includes(storeName)) {
+      throw new DOMException(
+        `Object store "${storeName}" is not part of this transaction`,
+        'NotFoundError'
+      );
+    }
+    return store;
+  }
+
+  private records(storeName: string): Map<RecordId, StoredRecord> {
+    const store = this.store(storeName);
+    return this.working.get(storeName) ?? store.records;
+  }
+
+  // Writes land on a copy of the store, applied by commit()
+  private writable(storeName: string): Map<RecordId, StoredRecord> {
+    const store = this.store(storeName);
+    if (this.mode === 'readonly') {
+      throw new DOMException('The transaction is read-only', 'ReadOnlyError');
+    }
+    let copy = this.working.get(storeName);
+    if (!copy) {
+      copy = new Map(store.records);
+      this.working.set(storeName, copy);
+    }
+    return copy;
+  }
+
+  async get<T extends StoredRecord>(
+    storeName: string,
+    id: RecordId
+  ): Promise<T | undefined> {
+    const record = this.records(storeName).get(id);
+    return record === undefined ? undefined : (structuredClone(record) as T);
+  }
+
+  async getAll<T extends StoredRecord>(storeName: string): Promise<T[]> {
+    return [...this.records(storeName).values()]
+      .sort((a, b) => compareKeys(a.id, b.id))
+      .map((record) => structuredClone(record) as T);
+  }
+
+  async query<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>
+  ): Promise<T[]> {
+    const { indexes } = this.store(storeName);
+    const records = [...this.records(storeName).values()].map(
+      (record) => structuredClone(record) as T
+    );
+    return scanRecords(records, plan, indexes);
+  }
+
+  async scan<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>,
+    visit: (record: T) => void
+  ): Promise<void> {
+    const { indexes } = this.store(storeName);
+    const records = [...this.records(storeName).values()] as T[];
+    // Only the visited records are copied
+    scanRecords(records, plan, indexes, (record) =>
+      visit(structuredClone(record))
+    );
+  }
+
+  async put<T extends StoredRecord>(
+    storeName: string,
+    record: T
+  ): Promise<void> {
+    const records = this.writable(storeName);
+    const copy = structuredClone(record);
+    this.assertUnique(records, this.store(storeName).indexes, copy);
+    records.set(copy.id, copy);
+  }
+
+  // Mirrors the ConstraintError IndexedDB raises for unique indexes
+  private assertUnique(
+    records: Map<RecordId, StoredRecord>,
+    indexes: IndexDefinition[],
+    record: StoredRecord
+  ): void {
+    for (const index of indexes) {
+      if (!index.unique) continue;
+      const keys = extractIndexKeys(record, index);
+      for (const [otherId, other] of records) {
+        if (otherId === record.id) continue;
+        const otherKeys = extractIndexKeys(other, index);
+        if (
+          keys.some((key) =>
+            otherKeys.some((otherKey) => compareKeys(key, otherKey) === 0)
+          )
+        ) {
+          throw new DOMException(
+            `Unique index "${index.name}" already contains this key`,
+            'ConstraintError'
+          );
+        }
+      }
+    }
+  }
+
+  async delete(storeName: string, id: RecordId): Promise<void> {
+    this.writable(storeName).delete(id);
+  }
+
+  async commit(): Promise<void> {
+    if (this.finished) {
+      throw new DOMException(
+        'The transaction has finished',
+        'InvalidStateError'
+      );
+    }
+    this.finished = true;
+    // No other readwrite transaction ran meanwhile, so the copies are
+    // the stores' new contents
+    for (const [storeName, records] of this.working) {
+      this.stores.get(storeName)!.records = records;
+    }
+    this.release();
+  }
+
+  abort(): void {
+    if (!this.finished) this.release();
+    this.finished = true;
+    this.working.clear();
+  }
+}
+
+class MemoryAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  readonly shared = false;
+  private databases = new Map<string, Map<string, MemoryStore>>();
+  private queues = new Map<string, Promise<void>>();
+
+  private database(dbName: string): Map<string, MemoryStore> {
+    let stores = this.databases.get(dbName);
+    if (!stores) {
+      stores = new Map();
+      this.databases.set(dbName, stores);
+    }
+    return stores;
+  }
+
+  defineStore(
+    dbName: string,
+    storeName: string,
+    indexes: IndexDefinition[]
+  ): void {
+    const stores = this.database(dbName);
+    const store = stores.get(storeName);
+    if (store) {
+      store.indexes = indexes;
+    } else {
+      stores.set(storeName, { records: new Map(), indexes });
+    }
+  }
+
+  async open(): Promise<void> {}
+
+  // Readwrite transactions run one at a time, as each one writes back
+  // copies of the stores it changed
+  private async lock(dbName: string): Promise<() => void> {
+    const previous = this.queues.get(dbName) ?? Promise.resolve();
+    let release!: () => void;
+    this.queues.set(dbName, new Promise((resolve) => (release = resolve)));
+    await previous;
+    return release;
+  }
+
+  async transaction(
+    dbName: string,
+    storeNames: string[],
+    mode: TransactionMode
+  ): Promise<AdapterTransaction> {
+    const release = mode === 'readwrite' ? await this.lock(dbName) : undefined;
+    return new MemoryAdapterTransaction(
+      this.database(dbName),
+      storeNames,
+      mode,
+      release
+    );
+  }
+}
+
+/**
+ * Create an adapter keeping models in memory. Each adapter holds its own
+ * data, which is lost on reload and not shared between tabs.
+ */
+export function createMemoryAdapter(): StorageAdapter {
+  return new MemoryAdapter();
+}
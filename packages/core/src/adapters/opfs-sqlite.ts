@@ -0,0 +1,669 @@
+// OPFS SQLite storage adapter. Records live in a SQLite database file in
+// the Origin Private File System, driven by a WASM build of SQLite in a
+// worker. Databases fall back to another adapter (IndexedDB by default)
+// where OPFS is unavailable.
+//
+// Requires the optional `@sqlite.org/sqlite-wasm` package, and a cross-
+// origin isolated page (COOP/COEP headers) for OPFS access.
+
+import type {
+  AdapterTransaction,
+  StorageAdapter,
+  StoredRecord,
+} from '../adapter.js';
+import type {
+  IndexDefinition,
+  IndexInput,
+  RecordId,
+  TransactionMode,
+} from '../types.js';
+import { MigrationError, SchemaVersionError } from '../errors.js';
+import {
+  normalizeIndexes,
+  resolveIndex,
+  scanRecords,
+  type QueryPlan,
+} from '../query.js';
+import {
+  assertNotDowngrade,
+  getSchema,
+  META_STORE,
+  runMigrations,
+  type MigrationContext,
+} from '../schema.js';
+import { extractIndexKeys } from '../keys.js';
+import { jsonReplacer, jsonReviver } from '../json.js';
+import { createIndexedDBAdapter } from './indexeddb.js';
+import {
+  createIndexStatement,
+  createTableStatement,
+  indexName,
+  jsonPath,
+  quoteIdentifier,
+  selectForPlan,
+  type SQLValue,
+} from './sqlite.js';
+
+// ─── Worker protocol ───────────────────────────────────────────────
+
+export type WorkerRequest =
+  | { id: number; type: 'open'; dbName: string }
+  | {
+      id: number;
+      type: 'exec';
+      dbName: string;
+      sql: string;
+      params: SQLValue[];
+    };
+
+export type WorkerResponse =
+  | { id: number; rows: Record<string, unknown>[] }
+  | { id: number; error: { name: string; message: string } };
+
+type Row = Record<string, unknown>;
+type DistributiveOmit<T, K extends keyof T> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+class SQLiteWorker {
+  private nextId = 0;
+  private pending = new Map<
+    number,
+    { resolve: (rows: Row[]) => void; reject: (error: Error) => void }
+  >();
+
+  constructor(private worker: Worker) {
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      this.pending.delete(response.id);
+      if ('error' in response) {
+        request.reject(toError(response.error));
+      } else {
+        request.resolve(response.rows);
+      }
+    };
+    worker.onerror = (event) => {
+      const error = new Error(`SQLite worker failed: ${event.message}`);
+      for (const request of this.pending.values()) request.reject(error);
+      this.pending.clear();
+    };
+  }
+
+  request(message: DistributiveOmit<WorkerRequest, 'id'>): Promise<Row[]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...message, id });
+    });
+  }
+}
+
+// Match the DOMException names IndexedDB uses for the same failures.
+// sqlite-wasm reports constraint violations as "sqlite3 result code 2067:
+// UNIQUE constraint failed: ...".
+function toError({ name, message }: { name: string; message: string }): Error {
+  if (/SQLITE_CONSTRAINT|constraint failed/.test(message)) {
+    return new DOMException(message, 'ConstraintError');
+  }
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Dates and byte arrays are tagged, so they come back as they were stored
+function serialize(record: unknown): string {
+  return JSON.stringify(record, jsonReplacer);
+}
+
+function parse<T>(row: Row): T {
+  return JSON.parse(row.data as string, jsonReviver) as T;
+}
+
+type Execute = (sql: string, params?: SQLValue[]) => Promise<Row[]>;
+
+// ─── Transactions ──────────────────────────────────────────────────
+
+class SQLiteAdapterTransaction implements AdapterTransaction {
+  private finished = false;
+
+  constructor(
+    private execute: Execute,
+    private stores: Map<string, IndexDefinition[]>,
+    private storeNames: string[],
+    private mode: TransactionMode,
+    private release: () => void
+  ) {}
+
+  private table(storeName: string, write = false): string {
+    if (this.finished) {
+      throw new DOMException(
+        'The transaction has finished',
+        'TransactionInactiveError'
+      );
+    }
+    if (!this.storeNames.includes(storeName)) {
+      throw new DOMException(
+        `Object store "${storeName}" is not part of this transaction`,
+        'NotFoundError'
+      );
+    }
+    if (write && this.mode === 'readonly') {
+      throw new DOMException('The transaction is read-only', 'ReadOnlyError');
+    }
+    return quoteIdentifier(storeName);
+  }
+
+  async get<T extends StoredRecord>(
+    storeName: string,
+    id: RecordId
+  ): Promise<T | undefined> {
+    const [row] = await this.execute(
+      `SELECT data FROM ${this.table(storeName)} WHERE id = ?`,
+      [id]
+    );
+    return row ? parse<T>(row) : undefined;
+  }
+
+  async getAll<T extends StoredRecord>(storeName: string): Promise<T[]> {
+    const rows = await this.execute(
+      `SELECT data FROM ${this.table(storeName)} ORDER BY id`
+    );
+    return rows.map((row) => parse<T>(row));
+  }
+
+  async query<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>
+  ): Promise<T[]> {
+    this.table(storeName);
+    const indexes = this.stores.get(storeName) ?? [];
+    const index =
+      plan.index === null ? null : (resolveIndex(indexes, plan.index) ?? null);
+    const { sql, params } = selectForPlan(
+      storeName,
+      index,
+      plan as QueryPlan<unknown>
+    );
+    const rows = await this.execute(sql, params);
+    return scanRecords(
+      rows.map((row) => parse<T>(row)),
+      plan,
+      indexes
+    );
+  }
+
+  async put<T extends StoredRecord>(
+    storeName: string,
+    record: T
+  ): Promise<void> {
+    const table = this.table(storeName, true);
+    await this.assertUniqueEntries(storeName, record);
+    await this.execute(
+      `INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+      [record.id, serialize(record)]
+    );
+  }
+
+  // SQLite enforces unique indexes itself, except multi-entry ones
+  private async assertUniqueEntries(
+    storeName: string,
+    record: StoredRecord
+  ): Promise<void> {
+    for (const index of this.stores.get(storeName) ?? []) {
+      if (!index.unique || !index.multiEntry) continue;
+      const keys = extractIndexKeys(record, index).filter(
+        (key): key is string | number =>
+          typeof key === 'string' || typeof key === 'number'
+      );
+      if (keys.length === 0) continue;
+      const rows = await this.execute(
+        `SELECT 1 FROM ${quoteIdentifier(storeName)}, json_each(${quoteIdentifier(
+          storeName
+        )}.data, '${jsonPath(index.keyPath as string)}') AS entry WHERE id != ? AND entry.value IN (${keys
+          .map(() => '?')
+          .join(', ')}) LIMIT 1`,
+        [record.id, ...keys]
+      );
+      if (rows.length > 0) {
+        throw new DOMException(
+          `Unique index "${index.name}" already contains this key`,
+          'ConstraintError'
+        );
+      }
+    }
+  }
+
+  async delete(storeName: string, id: RecordId): Promise<void> {
+    await this.execute(
+      `DELETE FROM ${this.table(storeName, true)} WHERE id = ?`,
+      [id]
+    );
+  }
+
+  async commit(): Promise<void> {
+    if (this.finished) {
+      throw new DOMException(
+        'The transaction has finished',
+        'InvalidStateError'
+      );
+    }
+    this.finished = true;
+    try {
+      await this.execute('COMMIT');
+    } catch (error) {
+      await this.execute('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      this.release();
+    }
+  }
+
+  abort(): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.execute('ROLLBACK')
+      .catch(() => {})
+      .finally(this.release);
+  }
+}
+
+// ─── Migrations ────────────────────────────────────────────────────
+
+/**
+ * Migration context over SQL. Structural changes are synchronous in the
+ * MigrationContext API, so statements are queued and run in order; the
+ * first failure is reported by flush().
+ */
+class SQLiteMigrationContext implements MigrationContext {
+  constructor(
+    private state: {
+      tables: Set<string>;
+      chain: Promise<unknown>;
+      failure?: MigrationError;
+    },
+    private execute: Execute,
+    readonly fromVersion: number,
+    readonly toVersion: number
+  ) {}
+
+  private run(sql: string, params?: SQLValue[]): Promise<Row[]> {
+    const result = this.state.chain.then(() =>
+      this.state.failure ? [] : this.execute(sql, params)
+    );
+    this.state.chain = result.catch((error) => {
+      this.state.failure ??=
+        error instanceof MigrationError
+          ? error
+          : new MigrationError(this.toVersion, error);
+    });
+    return result;
+  }
+
+  storeNames(): string[] {
+    return [...this.state.tables];
+  }
+
+  createStore(name: string): void {
+    this.state.tables.add(name);
+    void this.run(createTableStatement(name).replace(' IF NOT EXISTS', ''));
+  }
+
+  deleteStore(name: string): void {
+    this.state.tables.delete(name);
+    void this.run(`DROP TABLE ${quoteIdentifier(name)}`);
+  }
+
+  renameStore(from: string, to: string): void {
+    this.state.tables.delete(from);
+    this.state.tables.add(to);
+    void this.run(
+      `ALTER TABLE ${quoteIdentifier(from)} RENAME TO ${quoteIdentifier(to)}`
+    );
+  }
+
+  createIndex(store: string, input: IndexInput): void {
+    const [index] = normalizeIndexes([input]);
+    const statement = createIndexStatement(store, index);
+    if (statement) void this.run(statement);
+  }
+
+  deleteIndex(store: string, name: string): void {
+    void this.run(
+      `DROP INDEX IF EXISTS ${quoteIdentifier(
+        indexName(store, { name, keyPath: name })
+      )}`
+    );
+  }
+
+  async getAll<T = unknown>(store: string): Promise<T[]> {
+    const rows = await this.run(
+      `SELECT data FROM ${quoteIdentifier(store)} ORDER BY id`
+    );
+    return rows.map((row) => parse<T>(row));
+  }
+
+  async put(store: string, record: unknown): Promise<void> {
+    await this.run(
+      `INSERT INTO ${quoteIdentifier(store)} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+      [(record as StoredRecord).id, serialize(record)]
+    );
+  }
+
+  async delete(store: string, id: RecordId): Promise<void> {
+    await this.run(`DELETE FROM ${quoteIdentifier(store)} WHERE id = ?`, [id]);
+  }
+
+  async updateAll<T = unknown, U = T>(
+    store: string,
+    transform: (record: T) => U | null | void
+  ): Promise<void> {
+    const rows = await this.run(
+      `SELECT id, data FROM ${quoteIdentifier(store)} ORDER BY id`
+    );
+    for (const row of rows) {
+      const record = parse<T>(row);
+      const next = transform(record);
+      await this.delete(store, row.id as RecordId);
+      if (next !== null) await this.put(store, next ?? record);
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.state.chain;
+    if (this.state.failure) throw this.state.failure;
+  }
+}
+
+// ─── Adapter ───────────────────────────────────────────────────────
+
+export interface OPFSSQLiteAdapterOptions {
+  /**
+   * Create the worker running SQLite. The default loads the bundled
+   * `sqlite-worker.js` module; override it if your bundler needs help.
+   */
+  worker?: () => Worker;
+  /** Used for databases where OPFS is unavailable. Defaults to IndexedDB */
+  fallback?: StorageAdapter;
+}
+
+export interface OPFSSQLiteAdapter extends StorageAdapter {
+  /**
+   * Run SQL against a database — for instance joins across models. Each
+   * model is a table named after it, with `id` and a JSON `data` column:
+   *
+   * ```ts
+   * adapter.sql('nearstack', `SELECT json_extract(data, '$.title') AS title
+   *   FROM todos WHERE json_extract(data, '$.done') = 0`);
+   * ```
+   *
+   * Rejects for databases running on the fallback adapter.
+   */
+  sql<R = Record<string, unknown>>(
+    dbName: string,
+    statement: string,
+    params?: SQLValue[]
+  ): Promise<R[]>;
+  /** Whether a database is stored in SQLite, once it has been opened */
+  usesSQLite(dbName: string): boolean | undefined;
+}
+
+interface DatabaseState {
+  stores: Map<string, IndexDefinition[]>;
+  opening?: Promise<void>;
+  /** Set when the database runs on the fallback adapter */
+  fallback?: boolean;
+  /** Stores declared since the schema was last reconciled */
+  stale: boolean;
+  /** Tail of the transaction queue */
+  queue: Promise<void>;
+}
+
+function opfsAvailable(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof navigator !== 'undefined' &&
+    typeof navigator.storage?.getDirectory === 'function'
+  );
+}
+
+class SQLiteAdapter implements OPFSSQLiteAdapter {
+  readonly name = 'opfs-sqlite';
+  // OPFS is shared by every tab of the origin
+  readonly shared = true;
+  private databases = new Map<string, DatabaseState>();
+  private worker?: SQLiteWorker;
+  private fallback: StorageAdapter;
+
+  constructor(private options: OPFSSQLiteAdapterOptions = {}) {
+    this.fallback = options.fallback ?? createIndexedDBAdapter();
+  }
+
+  private database(dbName: string): DatabaseState {
+    let state = this.databases.get(dbName);
+    if (!state) {
+      state = { stores: new Map(), stale: true, queue: Promise.resolve() };
+      this.databases.set(dbName, state);
+    }
+    return state;
+  }
+
+  private execute(dbName: string): Execute {
+    return (sql, params = []) =>
+      this.worker!.request({ type: 'exec', dbName, sql, params });
+  }
+
+  // Transactions share one connection, so they run one at a time
+  private async lock(state: DatabaseState): Promise<() => void> {
+    const previous = state.queue;
+    let release!: () => void;
+    state.queue = new Promise((resolve) => (release = resolve));
+    await previous;
+    return release;
+  }
+
+  defineStore(
+    dbName: string,
+    storeName: string,
+    indexes: IndexDefinition[]
+  ): void {
+    const state = this.database(dbName);
+    state.stores.set(storeName, indexes);
+    state.stale = true;
+    if (state.fallback) this.fallback.defineStore(dbName, storeName, indexes);
+  }
+
+  open(dbName: string): Promise<void> {
+    const state = this.database(dbName);
+    state.opening ??= this.connect(dbName, state).catch((error) => {
+      state.opening = undefined;
+      throw error;
+    });
+    return state.opening;
+  }
+
+  usesSQLite(dbName: string): boolean | undefined {
+    const state = this.databases.get(dbName);
+    return state?.fallback === undefined ? undefined : !state.fallback;
+  }
+
+  private async connect(dbName: string, state: DatabaseState): Promise<void> {
+    try {
+      if (!opfsAvailable()) {
+        throw new Error('OPFS is not available in this environment');
+      }
+      this.worker ??= new SQLiteWorker(
+        this.options.worker?.() ??
+          new Worker(new URL('./sqlite-worker.js', import.meta.url), {
+            type: 'module',
+          })
+      );
+      await this.worker.request({ type: 'open', dbName });
+    } catch (error) {
+      console.warn(
+        `SQLite on OPFS unavailable for "${dbName}", falling back to ${this.fallback.name}:`,
+        error
+      );
+      for (const [storeName, indexes] of state.stores) {
+        this.fallback.defineStore(dbName, storeName, indexes);
+      }
+      await this.fallback.open(dbName);
+      state.fallback = true;
+      return;
+    }
+
+    await this.reconcile(dbName, state);
+    state.fallback = false;
+  }
+
+  /**
+   * Run pending migrations and bring tables and indexes in line with the
+   * declared stores, all in one exclusive transaction.
+   */
+  private async reconcile(dbName: string, state: DatabaseState): Promise<void> {
+    const release = await this.lock(state);
+    const execute = this.execute(dbName);
+    state.stale = false;
+    try {
+      await execute('BEGIN IMMEDIATE');
+      await execute(
+        `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(META_STORE)} (key TEXT PRIMARY KEY NOT NULL, value)`
+      );
+      const tables = new Set(
+        (
+          await execute(
+            "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != ?",
+            [META_STORE]
+          )
+        ).map((row) => row.name as string)
+      );
+      const [versionRow] = await execute(
+        `SELECT value FROM ${quoteIdentifier(META_STORE)} WHERE key = 'schemaVersion'`
+      );
+      const storedVersion =
+        typeof versionRow?.value === 'number' ? versionRow.value : 0;
+
+      const schema = getSchema(dbName);
+      const declaredVersion = schema?.version ?? 0;
+      assertNotDowngrade(dbName, storedVersion, declaredVersion);
+
+      // A brand new database has nothing to migrate
+      if (schema && tables.size > 0 && storedVersion < declaredVersion) {
+        const migration = {
+          tables,
+          chain: Promise.resolve() as Promise<unknown>,
+        };
+        let context: SQLiteMigrationContext | undefined;
+        await runMigrations(schema, storedVersion, (from, to) => {
+          context = new SQLiteMigrationContext(migration, execute, from, to);
+          return context;
+        });
+        await context?.flush();
+      }
+
+      for (const [storeName, indexes] of state.stores) {
+        await execute(createTableStatement(storeName));
+        const existing = await execute(
+          "SELECT name, sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL",
+          [storeName]
+        );
+        const wanted = indexes
+          .map((index) => createIndexStatement(storeName, index))
+          .filter((sql): sql is string => sql !== null);
+        // Declared indexes are the source of truth
+        for (const row of existing) {
+          if (!wanted.includes(row.sql as string)) {
+            await execute(`DROP INDEX ${quoteIdentifier(row.name as string)}`);
+          }
+        }
+        for (const sql of wanted) {
+          if (!existing.some((row) => row.sql === sql)) await execute(sql);
+        }
+      }
+
+      if (schema) {
+        await execute(
+          `INSERT INTO ${quoteIdentifier(META_STORE)} (key, value) VALUES ('schemaVersion', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+          [declaredVersion]
+        );
+      }
+      await execute('COMMIT');
+    } catch (error) {
+      state.stale = true;
+      await execute('ROLLBACK').catch(() => {});
+      if (
+        error instanceof SchemaVersionError ||
+        error instanceof MigrationError
+      ) {
+        throw error;
+      }
+      throw new Error(
+        `Could not prepare SQLite database "${dbName}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      release();
+    }
+  }
+
+  async transaction(
+    dbName: string,
+    storeNames: string[],
+    mode: TransactionMode
+  ): Promise<AdapterTransaction> {
+    await this.open(dbName);
+    const state = this.database(dbName);
+    if (state.fallback) {
+      return this.fallback.transaction(dbName, storeNames, mode);
+    }
+    if (state.stale) await this.reconcile(dbName, state);
+
+    const release = await this.lock(state);
+    const execute = this.execute(dbName);
+    try {
+      await execute(mode === 'readwrite' ? 'BEGIN IMMEDIATE' : 'BEGIN');
+    } catch (error) {
+      release();
+      throw error;
+    }
+    return new SQLiteAdapterTransaction(
+      execute,
+      state.stores,
+      storeNames,
+      mode,
+      release
+    );
+  }
+
+  async sql<R = Record<string, unknown>>(
+    dbName: string,
+    statement: string,
+    params: SQLValue[] = []
+  ): Promise<R[]> {
+    await this.open(dbName);
+    const state = this.database(dbName);
+    if (state.fallback) {
+      throw new Error(
+        `Database "${dbName}" is stored with ${this.fallback.name}, not SQLite`
+      );
+    }
+    const release = await this.lock(state);
+    try {
+      return (await this.execute(dbName)(statement, params)) as R[];
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Create an adapter storing models in SQLite on the Origin Private File
+ * System. Each model becomes a table with a JSON `data` column and an
+ * expression index per declared index, so records must be JSON-safe (dates and byte arrays are tagged, as in exports).
+ * Databases where OPFS can't be used run on `options.fallback`.
+ */
+export function createOPFSSQLiteAdapter(
+  options: OPFSSQLiteAdapterOptions = {}
+): OPFSSQLiteAdapter {
+  return new SQLiteAdapter(options);
+}
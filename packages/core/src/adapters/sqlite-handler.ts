@@ -0,0 +1,38 @@
+// Request handling for the SQLite worker, apart from the worker's global
+// wiring so the same protocol can also be served in-process.
+
+import type { Database } from '@sqlite.org/sqlite-wasm';
+import type { WorkerRequest, WorkerResponse } from './opfs-sqlite.js';
+
+/**
+ * Answer worker requests against the databases `open` returns. Failures
+ * become error responses; the caller must run requests one at a time, in
+ * arrival order, as transactions rely on it.
+ */
+export function createRequestHandler(
+  open: (dbName: string) => Promise<Database>
+): (request: WorkerRequest) => Promise<WorkerResponse> {
+  return async (request) => {
+    try {
+      const db = await open(request.dbName);
+      const rows =
+        request.type === 'exec'
+          ? db.exec({
+              sql: request.sql,
+              bind: request.params,
+              returnValue: 'resultRows',
+              rowMode: 'object',
+            })
+          : [];
+      return { id: request.id, rows };
+    } catch (error) {
+      return {
+        id: request.id,
+        error: {
+          name: error instanceof Error ? error.name : 'Error',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  };
+}
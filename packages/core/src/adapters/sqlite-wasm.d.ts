@@ -0,0 +1,29 @@
+// The parts of @sqlite.org/sqlite-wasm used by the SQLite worker; the
+// package does not ship type declarations.
+
+declare module '@sqlite.org/sqlite-wasm' {
+  export interface ExecOptions {
+    sql: string;
+    bind?: Array<string | number | null>;
+    returnValue: 'resultRows';
+    rowMode: 'object';
+  }
+
+  export interface Database {
+    exec(options: ExecOptions): Record<string, unknown>[];
+    close(): void;
+  }
+
+  export interface Sqlite3 {
+    version: { libVersion: string };
+    oo1: {
+      DB: new (filename: string, flags?: string) => Database;
+      /** Present only when the OPFS VFS could be installed */
+      OpfsDb?: new (filename: string, flags?: string) => Database;
+    };
+  }
+
+  export default function sqlite3InitModule(
+    options?: Record<string, unknown>
+  ): Promise<Sqlite3>;
+}
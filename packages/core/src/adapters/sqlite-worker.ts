@@ -0,0 +1,44 @@
+// Worker hosting SQLite (WASM) on the Origin Private File System for the
+// OPFS SQLite adapter. It only opens database files and runs SQL; the
+// adapter on the main thread does everything else.
+
+import sqlite3InitModule, {
+  type Database,
+  type Sqlite3,
+} from '@sqlite.org/sqlite-wasm';
+import type { WorkerRequest } from './opfs-sqlite.js';
+import { createRequestHandler } from './sqlite-handler.js';
+
+let sqlite: Promise<Sqlite3> | undefined;
+const databases = new Map<string, Database>();
+
+async function open(dbName: string): Promise<Database> {
+  sqlite ??= sqlite3InitModule();
+  const sqlite3 = await sqlite;
+  if (!sqlite3.oo1.OpfsDb) {
+    throw new Error(
+      'SQLite could not use OPFS here (it needs a cross-origin isolated page)'
+    );
+  }
+
+  let db = databases.get(dbName);
+  if (!db) {
+    db = new sqlite3.oo1.OpfsDb(
+      `nearstack-${encodeURIComponent(dbName)}.sqlite3`,
+      'c'
+    );
+    databases.set(dbName, db);
+  }
+  return db;
+}
+
+const handle = createRequestHandler(open);
+
+// Requests run strictly in arrival order, as transactions rely on it
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  queue = queue
+    .then(() => handle(event.data))
+    .then((response) => self.postMessage(response));
+};
@@ -0,0 +1,135 @@
+// SQL generation for the OPFS SQLite adapter. Each model is a table of
+// `(id, data)` rows with the record as JSON in `data`; declared indexes
+// become expression indexes over `json_extract(data, ...)`.
+
+import type { IndexDefinition } from '../types.js';
+import { PRIMARY_KEY_PATH, type QueryPlan } from '../query.js';
+import type { KeyRangeSpec } from '../keys.js';
+
+export type SQLValue = string | number | null;
+
+export interface Statement {
+  sql: string;
+  params: SQLValue[];
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** SQLite JSON path for a dotted key path, e.g. `$."address"."city"` */
+export function jsonPath(keyPath: string): string {
+  return (
+    '$' +
+    keyPath
+      .split('.')
+      .map((segment) => {
+        if (segment.includes('"')) {
+          throw new Error(`Key path segment ${segment} cannot contain '"'`);
+        }
+        return `."${segment}"`;
+      })
+      .join('')
+  );
+}
+
+/** SQL expression for a key path's value in a row */
+export function keyExpression(keyPath: string): string {
+  return keyPath === PRIMARY_KEY_PATH
+    ? 'id'
+    : `json_extract(data, ${quoteString(jsonPath(keyPath))})`;
+}
+
+// `id` has no type, so numeric ids stay numbers and sort before strings,
+// as in IndexedDB
+export function createTableStatement(storeName: string): string {
+  return `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(storeName)} (id PRIMARY KEY NOT NULL, data TEXT NOT NULL)`;
+}
+
+export function indexName(storeName: string, index: IndexDefinition): string {
+  return `${storeName}__${index.name}`;
+}
+
+/**
+ * The CREATE INDEX statement for a declared index, or `null` for
+ * multi-entry indexes, which are matched with `json_each` instead.
+ * The text matches what SQLite records in `sqlite_master`, so it doubles
+ * as the index's fingerprint when reconciling the schema.
+ */
+export function createIndexStatement(
+  storeName: string,
+  index: IndexDefinition
+): string | null {
+  if (index.multiEntry) return null;
+  const keyPaths = Array.isArray(index.keyPath)
+    ? index.keyPath
+    : [index.keyPath];
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(
+    indexName(storeName, index)
+  )} ON ${quoteIdentifier(storeName)} (${keyPaths
+    .map(keyExpression)
+    .join(', ')})`;
+}
+
+// A bound can be pushed into SQL when SQLite orders it the way IndexedDB
+// does: finite numbers, and strings whose code units all sort the same
+// in UTF-16 (IndexedDB) and code point (SQLite) order.
+function isPushable(value: IDBValidKey | undefined): value is string | number {
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value !== 'string') return false;
+  for (let i = 0; i < value.length; i++) {
+    if (value.charCodeAt(i) >= 0xd800) return false;
+  }
+  return true;
+}
+
+function rangeCondition(
+  expression: string,
+  range: KeyRangeSpec,
+  params: SQLValue[]
+): string | null {
+  const parts: string[] = [];
+  if (isPushable(range.lower)) {
+    parts.push(`${expression} ${range.lowerOpen ? '>' : '>='} ?`);
+    params.push(range.lower);
+  }
+  if (isPushable(range.upper)) {
+    parts.push(`${expression} ${range.upperOpen ? '<' : '<='} ?`);
+    params.push(range.upper);
+  }
+  return parts.length > 0 ? parts.join(' AND ') : null;
+}
+
+/**
+ * SELECT the rows a plan could match. The result is a superset — ranges
+ * SQLite can't compare exactly are left out — so the caller still runs
+ * the full plan over the returned records.
+ */
+export function selectForPlan(
+  storeName: string,
+  index: IndexDefinition | null,
+  plan: QueryPlan<unknown>
+): Statement {
+  const select = `SELECT data FROM ${quoteIdentifier(storeName)}`;
+  const keyPath = index ? index.keyPath : PRIMARY_KEY_PATH;
+  if (!plan.ranges || index?.multiEntry || Array.isArray(keyPath)) {
+    return { sql: select, params: [] };
+  }
+
+  const params: SQLValue[] = [];
+  const conditions: string[] = [];
+  for (const range of plan.ranges) {
+    const condition = rangeCondition(keyExpression(keyPath), range, params);
+    // One unbounded range matches everything
+    if (!condition) return { sql: select, params: [] };
+    conditions.push(`(${condition})`);
+  }
+  if (conditions.length === 0) {
+    return { sql: `${select} WHERE 0`, params: [] };
+  }
+  return { sql: `${select} WHERE ${conditions.join(' OR ')}`, params };
+}
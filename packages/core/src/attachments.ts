@@ -0,0 +1,312 @@
+// Blob and file attachments. Their data lives apart from the records, in
+// two stores of the model's database: one entry per attachment, and its
+// bytes split into chunks so reads can stream. Records point at
+// attachments through the fields named in defineModel(name, { attachments }).
+
+import type { Store } from './index.js';
+import { randomUUID } from './ids.js';
+import type { RecordId, TransactionMode } from './types.js';
+
+/** Store holding one entry per attachment, kept out of every model API */
+export const ATTACHMENTS_STORE = '__nearstack_attachments';
+/** Store holding attachment data, in chunks of `CHUNK_SIZE` bytes */
+export const CHUNKS_STORE = '__nearstack_attachment_chunks';
+
+const CHUNK_SIZE = 256 * 1024;
+
+/** What a record keeps in an attachment field */
+export interface Attachment {
+  id: string;
+  /** File name, taken from a `File` or given to `put()` */
+  name?: string;
+  /** MIME type, empty if unknown */
+  type: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/** An attachment's entry in the attachments store */
+export interface AttachmentRecord extends Attachment {
+  /** Model the attachment belongs to */
+  model: string;
+  chunks: number;
+  createdAt: Date;
+}
+
+export interface ChunkRecord {
+  id: string;
+  data: Uint8Array;
+}
+
+export interface AttachmentUsage {
+  /** Number of stored attachments */
+  count: number;
+  /** Their total size in bytes */
+  bytes: number;
+}
+
+/**
+ * A model's attachments, as `model.attachments`. Store a blob with
+ * `put()` and keep the returned `Attachment` in one of the model's
+ * attachment fields; deleting the record, or replacing the field's value,
+ * deletes the attachment too.
+ */
+export interface Attachments {
+  /** Fields declared in `defineModel(name, { attachments })` */
+  readonly fields: string[];
+  put(data: Blob, options?: { name?: string }): Promise<Attachment>;
+  /** The attachment's data, or undefined if there is none */
+  get(attachment: Attachment | string): Promise<Blob | undefined>;
+  /** The attachment's data read a chunk at a time */
+  stream(attachment: Attachment | string): ReadableStream<Uint8Array>;
+  delete(attachment: Attachment | string): Promise<void>;
+  /** How many attachments the model has and how many bytes they take */
+  usage(): Promise<AttachmentUsage>;
+  /**
+   * Delete attachments no record points at, such as ones stored for a
+   * record that was never saved. Resolves to how many were deleted.
+   */
+  collectGarbage(): Promise<number>;
+}
+
+/** The stores an attachment operation uses, inside one transaction */
+export interface AttachmentScope {
+  attachments: Store<AttachmentRecord>;
+  chunks: Store<ChunkRecord>;
+  /** The model's own records */
+  records: Store<{ id: RecordId }>;
+}
+
+export type RunAttachments = <R>(
+  mode: TransactionMode,
+  work: (scope: AttachmentScope) => Promise<R>
+) => Promise<R>;
+
+function idOf(attachment: Attachment | string): string {
+  return typeof attachment === 'string' ? attachment : attachment.id;
+}
+
+function chunkId(id: string, index: number): string {
+  return `${id}:${index}`;
+}
+
+function referencedId(item: unknown): string | undefined {
+  const id =
+    item !== null && typeof item === 'object'
+      ? (item as Partial<Attachment>).id
+      : item;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Ids of the attachments `record` points at. A field holds an
+ * `Attachment` or its id, or an array of either.
+ */
+export function attachmentIds(
+  record: object | undefined,
+  fields: string[]
+): string[] {
+  if (!record) return [];
+  return fields.flatMap((field) => {
+    const value = (record as Record<string, unknown>)[field];
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .map(referencedId)
+      .filter((id): id is string => id !== undefined);
+  });
+}
+
+/**
+ * `record` without its references to attachments of `model` that are
+ * gone, for writing back an old copy of it. A field left pointing at
+ * nothing is set to null.
+ */
+export async function dropMissingAttachments<T extends object>(
+  attachments: Pick<Store<AttachmentRecord>, 'get'>,
+  model: string,
+  record: T,
+  fields: string[]
+): Promise<T> {
+  const missing = new Set<string>();
+  for (const id of attachmentIds(record, fields)) {
+    const entry = await attachments.get(id);
+    if (entry?.model !== model) missing.add(id);
+  }
+  if (missing.size === 0) return record;
+  const kept = (item: unknown) => {
+    const id = referencedId(item);
+    return id === undefined || !missing.has(id);
+  };
+  const copy = { ...record } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = copy[field];
+    if (Array.isArray(value)) copy[field] = value.filter(kept);
+    else if (!kept(value)) copy[field] = null;
+  }
+  return copy as T;
+}
+
+/** Delete an attachment of `model` and its data; missing ids are ignored */
+export async function deleteAttachment(
+  scope: Pick<AttachmentScope, 'attachments' | 'chunks'>,
+  model: string,
+  id: string
+): Promise<void> {
+  const entry = await scope.attachments.get(id);
+  if (!entry || entry.model !== model) return;
+  for (let index = 0; index < entry.chunks; index++) {
+    await scope.chunks.delete(chunkId(id, index));
+  }
+  await scope.attachments.delete(id);
+}
+
+// Blob.arrayBuffer() is missing from older browsers and jsdom
+async function readBytes(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+export class ModelAttachments implements Attachments {
+  constructor(
+    private model: string,
+    readonly fields: string[],
+    private run?: RunAttachments
+  ) {}
+
+  private runner(): RunAttachments {
+    if (!this.run) {
+      throw new Error(
+        `Model "${this.model}" has no attachment fields. Declare them with defineModel(name, { attachments: ['field'] }).`
+      );
+    }
+    return this.run;
+  }
+
+  private async entry(
+    scope: AttachmentScope,
+    id: string
+  ): Promise<AttachmentRecord | undefined> {
+    const entry = await scope.attachments.get(id);
+    return entry?.model === this.model ? entry : undefined;
+  }
+
+  async put(data: Blob, options: { name?: string } = {}): Promise<Attachment> {
+    const run = this.runner();
+    // Read before the transaction starts, which would not wait for it
+    const bytes = await readBytes(data);
+    const name = options.name ?? (data as Partial<File>).name;
+    const attachment: Attachment = {
+      id: randomUUID(),
+      ...(name !== undefined && { name }),
+      type: data.type,
+      size: bytes.byteLength,
+    };
+    const chunks = Math.ceil(bytes.byteLength / CHUNK_SIZE);
+    await run('readwrite', async (scope) => {
+      for (let index = 0; index < chunks; index++) {
+        const id = chunkId(attachment.id, index);
+        const start = index * CHUNK_SIZE;
+        await scope.chunks.set(id, {
+          id,
+          data: bytes.slice(start, start + CHUNK_SIZE),
+        });
+      }
+      await scope.attachments.set(attachment.id, {
+        ...attachment,
+        model: this.model,
+        chunks,
+        createdAt: new Date(),
+      });
+    });
+    return attachment;
+  }
+
+  async get(attachment: Attachment | string): Promise<Blob | undefined> {
+    const id = idOf(attachment);
+    return this.runner()('readonly', async (scope) => {
+      const entry = await this.entry(scope, id);
+      if (!entry) return undefined;
+      const parts: Uint8Array[] = [];
+      for (let index = 0; index < entry.chunks; index++) {
+        const chunk = await scope.chunks.get(chunkId(id, index));
+        if (chunk) parts.push(chunk.data);
+      }
+      return new Blob(parts as BlobPart[], { type: entry.type });
+    });
+  }
+
+  stream(attachment: Attachment | string): ReadableStream<Uint8Array> {
+    const run = this.runner();
+    const id = idOf(attachment);
+    let entry: AttachmentRecord | undefined;
+    let index = 0;
+    // Each chunk is read in a transaction of its own, when asked for
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        entry ??= await run('readonly', (scope) => this.entry(scope, id));
+        if (!entry) {
+          controller.error(
+            new Error(`Attachment "${id}" of model "${this.model}" not found`)
+          );
+          return;
+        }
+        if (index === entry.chunks) {
+          controller.close();
+          return;
+        }
+        const chunk = await run('readonly', (scope) =>
+          scope.chunks.get(chunkId(id, index++))
+        );
+        if (!chunk) {
+          controller.error(
+            new Error(`Attachment "${id}" was deleted while being read`)
+          );
+          return;
+        }
+        controller.enqueue(chunk.data);
+      },
+    });
+  }
+
+  async delete(attachment: Attachment | string): Promise<void> {
+    await this.runner()('readwrite', (scope) =>
+      deleteAttachment(scope, this.model, idOf(attachment))
+    );
+  }
+
+  async usage(): Promise<AttachmentUsage> {
+    return this.runner()('readonly', async (scope) => {
+      const entries = (await scope.attachments.getAll()).filter(
+        (entry) => entry.model === this.model
+      );
+      return {
+        count: entries.length,
+        bytes: entries.reduce((total, entry) => total + entry.size, 0),
+      };
+    });
+  }
+
+  async collectGarbage(): Promise<number> {
+    return this.runner()('readwrite', async (scope) => {
+      // Trashed records count: restoring them brings their attachments back
+      const records = await scope.records.getAll();
+      const referenced = new Set(
+        records.flatMap((record) => attachmentIds(record, this.fields))
+      );
+      let deleted = 0;
+      for (const entry of await scope.attachments.getAll()) {
+        if (entry.model !== this.model || referenced.has(entry.id)) continue;
+        await deleteAttachment(scope, this.model, entry.id);
+        deleted++;
+      }
+      return deleted;
+    });
+  }
+}
@@ -0,0 +1,521 @@
+// Export and import of a whole database, as JSON or NDJSON, for backups
+// and moving data between devices.
+
+import type { Model } from './index.js';
+import type { StoredRecord } from './adapter.js';
+import type { QueryPlan } from './query.js';
+import type { RecordId } from './types.js';
+import { jsonReplacer, jsonReviver } from './json.js';
+import { compareKeys } from './keys.js';
+import { getModels } from './registry.js';
+import {
+  assertNotDowngrade,
+  getSchema,
+  migrateInMemory,
+  type DatabaseSnapshot,
+} from './schema.js';
+
+const FORMAT = 'nearstack';
+const FORMAT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'ndjson';
+
+/**
+ * Describes an export. In JSON exports these fields sit next to `models`;
+ * in NDJSON it is the first line, followed by one
+ * `{ "model": ..., "record": ... }` line per record.
+ */
+export interface ExportHeader {
+  format: typeof FORMAT;
+  formatVersion: number;
+  database: string;
+  /** Schema version the records are at (see `defineSchema()`) */
+  schemaVersion: number;
+  exportedAt: string;
+}
+
+export interface ExportOptions {
+  /** Database to export. Defaults to `'nearstack'` */
+  dbName?: string;
+  /** Defaults to `'json'`; use `'ndjson'` for large databases */
+  format?: ExportFormat;
+  /** Names of the models to export. Defaults to every defined model */
+  models?: string[];
+  /** Records read from storage at a time. Defaults to 500 */
+  batchSize?: number;
+}
+
+export type ImportSource =
+  | string
+  | Blob
+  | ReadableStream<string | Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+export interface ImportOptions {
+  /** Database to import into. Defaults to the one named in the export */
+  dbName?: string;
+  /**
+   * `'merge'` (the default) adds the exported records to what is stored;
+   * `'replace'` first clears every imported model.
+   */
+  mode?: 'merge' | 'replace';
+  /**
+   * When merging, what to do with a record whose id is already stored
+   * with different contents. Defaults to `'keep'`. Either way the
+   * conflict is listed in the report.
+   */
+  onConflict?: 'keep' | 'overwrite';
+  /** Names of the models to import. Defaults to every defined model */
+  models?: string[];
+  /** Records written per transaction. Defaults to 500 */
+  batchSize?: number;
+}
+
+export interface ImportConflict {
+  model: string;
+  id: RecordId;
+  existing: unknown;
+  incoming: unknown;
+  resolution: 'kept' | 'overwritten';
+}
+
+export interface ImportIssue {
+  model: string;
+  id?: RecordId;
+  error: Error;
+}
+
+export interface ImportReport {
+  inserted: number;
+  updated: number;
+  /** Records already stored exactly as exported */
+  unchanged: number;
+  conflicts: ImportConflict[];
+  /** Records that could not be written, e.g. failing validation */
+  errors: ImportIssue[];
+  /** Models in the export that aren't defined (or weren't selected) */
+  skippedModels: string[];
+}
+
+// Serialized with sorted keys, to compare records regardless of key order
+function canonical(value: unknown): string {
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key, value: unknown) {
+      const encoded = jsonReplacer.call(this, key, value);
+      if (
+        encoded === null ||
+        typeof encoded !== 'object' ||
+        Array.isArray(encoded)
+      ) {
+        return encoded;
+      }
+      const object = encoded as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.keys(object)
+          .sort()
+          .map((name) => [name, object[name]])
+      );
+    }
+  );
+}
+
+function selectModels(dbName: string, names?: string[]): Model[] {
+  const models = getModels(dbName);
+  if (!names) return models;
+  return names.map((name) => {
+    const model = models.find((candidate) => candidate.name === name);
+    if (!model) {
+      throw new Error(
+        `No model named "${name}" is defined on database "${dbName}"`
+      );
+    }
+    return model;
+  });
+}
+
+function primaryKeyPlan(
+  ranges: QueryPlan<StoredRecord>['ranges'],
+  limit: number | null
+): QueryPlan<StoredRecord> {
+  return {
+    index: null,
+    ranges,
+    reverse: false,
+    unique: false,
+    filters: [],
+    sortBy: null,
+    offset: 0,
+    limit,
+  };
+}
+
+// Pages through a model by id, so large stores are never held in memory
+async function* readPages(
+  model: Model,
+  batchSize: number
+): AsyncGenerator<StoredRecord[]> {
+  let after: RecordId | undefined;
+  for (;;) {
+    const page: StoredRecord[] = await model.store.query(
+      primaryKeyPlan(
+        after === undefined ? null : [{ lower: after, lowerOpen: true }],
+        batchSize
+      )
+    );
+    if (page.length > 0) yield page;
+    if (page.length < batchSize) return;
+    after = page[page.length - 1].id;
+  }
+}
+
+async function* exportChunks(
+  header: ExportHeader,
+  models: Model[],
+  format: ExportFormat,
+  batchSize: number
+): AsyncGenerator<string> {
+  if (format === 'ndjson') {
+    yield JSON.stringify(header) + '\n';
+    for (const model of models) {
+      for await (const page of readPages(model, batchSize)) {
+        yield page
+          .map(
+            (record) =>
+              JSON.stringify({ model: model.name, record }, jsonReplacer) + '\n'
+          )
+          .join('');
+      }
+    }
+    return;
+  }
+
+  yield JSON.stringify(header).slice(0, -1) + ',"models":{';
+  for (const [i, model] of models.entries()) {
+    yield `${i > 0 ? ',' : ''}${JSON.stringify(model.name)}:[`;
+    let first = true;
+    for await (const page of readPages(model, batchSize)) {
+      yield (first ? '' : ',') +
+        page.map((record) => JSON.stringify(record, jsonReplacer)).join(',');
+      first = false;
+    }
+    yield ']';
+  }
+  yield '}}';
+}
+
+/**
+ * Serialize the records of every model defined on a database, with its
+ * schema version. The export is produced as it is read, one page of
+ * records at a time:
+ *
+ *   const bytes = exportDatabase().pipeThrough(new TextEncoderStream());
+ *   const text = await new Response(bytes).text();
+ *
+ * Pages are read in separate transactions, so writes made while an
+ * export runs may or may not be included.
+ */
+export function exportDatabase(
+  options: ExportOptions = {}
+): ReadableStream<string> {
+  const dbName = options.dbName ?? 'nearstack';
+  const models = selectModels(dbName, options.models);
+  const header: ExportHeader = {
+    format: FORMAT,
+    formatVersion: FORMAT_VERSION,
+    database: dbName,
+    schemaVersion: getSchema(dbName)?.version ?? 0,
+    exportedAt: new Date().toISOString(),
+  };
+  const chunks = exportChunks(
+    header,
+    models,
+    options.format ?? 'json',
+    options.batchSize ?? 500
+  );
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+async function* iterate<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* lines(source: ImportSource): AsyncGenerator<string> {
+  let chunks: AsyncIterable<string | Uint8Array> | Iterable<string>;
+  if (typeof source === 'string') {
+    chunks = [source];
+  } else if (source instanceof Blob) {
+    chunks = iterate(source.stream());
+  } else if ('getReader' in source) {
+    chunks = iterate(source);
+  } else {
+    chunks = source;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of chunks) {
+    buffer +=
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+interface Entry {
+  model: string;
+  record: unknown;
+}
+
+interface ParsedExport {
+  header: ExportHeader;
+  entries: AsyncIterable<Entry> | Iterable<Entry>;
+}
+
+function readHeader(value: unknown): ExportHeader {
+  const header = value as Partial<ExportHeader> | null;
+  if (header?.format !== FORMAT || typeof header.schemaVersion !== 'number') {
+    throw new Error('Not a nearstack database export');
+  }
+  if (
+    typeof header.formatVersion !== 'number' ||
+    header.formatVersion > FORMAT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported export format version ${header.formatVersion}`
+    );
+  }
+  return header as ExportHeader;
+}
+
+function parseEntry(line: string): Entry {
+  const entry = JSON.parse(line, jsonReviver) as Partial<Entry> | null;
+  if (typeof entry?.model !== 'string') {
+    throw new Error(`Invalid export line: ${line.slice(0, 80)}`);
+  }
+  return entry as Entry;
+}
+
+// NDJSON starts with a header line; anything else is read as one JSON
+// document
+async function parseExport(source: ImportSource): Promise<ParsedExport> {
+  const input = lines(source);
+  // Read by hand: breaking out of a for-await loop would close `input`
+  let first = '';
+  while (!first.trim()) {
+    const { done, value } = await input.next();
+    if (done) break;
+    first = value;
+  }
+
+  let firstValue: unknown;
+  try {
+    firstValue = JSON.parse(first, jsonReviver);
+  } catch {
+    // Not a complete value on its own line: a multi-line JSON document
+  }
+  if (
+    firstValue !== null &&
+    typeof firstValue === 'object' &&
+    !('models' in firstValue)
+  ) {
+    return {
+      header: readHeader(firstValue),
+      entries: (async function* () {
+        for await (const line of input) {
+          if (line.trim()) yield parseEntry(line);
+        }
+      })(),
+    };
+  }
+
+  let document = firstValue;
+  if (document === undefined) {
+    let text = first;
+    for await (const line of input) text += '\n' + line;
+    document = JSON.parse(text, jsonReviver);
+  }
+  const header = readHeader(document);
+  const stores =
+    (document as { models?: Record<string, unknown[]> }).models ?? {};
+  return {
+    header,
+    entries: Object.entries(stores).flatMap(([model, records]) =>
+      records.map((record) => ({ model, record }))
+    ),
+  };
+}
+
+async function writeBatch(
+  model: Model,
+  records: unknown[],
+  options: Required<Pick<ImportOptions, 'mode' | 'onConflict'>>,
+  report: ImportReport
+): Promise<void> {
+  const incoming: StoredRecord[] = [];
+  for (const record of records) {
+    const id = (record as Partial<StoredRecord> | null)?.id;
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      report.errors.push({
+        model: model.name,
+        error: new Error('Record has no string or number "id"'),
+      });
+      continue;
+    }
+    incoming.push(record as StoredRecord);
+  }
+
+  const existing = new Map<RecordId, unknown>();
+  if (options.mode === 'merge' && incoming.length > 0) {
+    const ids = [...new Set(incoming.map((record) => record.id))].sort(
+      compareKeys
+    );
+    const stored: StoredRecord[] = await model.store.query(
+      primaryKeyPlan(
+        ids.map((id) => ({ lower: id, upper: id })),
+        null
+      )
+    );
+    for (const record of stored) existing.set(record.id, record);
+  }
+
+  const writes: StoredRecord[] = [];
+  for (const record of incoming) {
+    const current = existing.get(record.id);
+    if (current !== undefined) {
+      if (canonical(current) === canonical(record)) {
+        report.unchanged++;
+        continue;
+      }
+      const overwrite = options.onConflict === 'overwrite';
+      report.conflicts.push({
+        model: model.name,
+        id: record.id,
+        existing: current,
+        incoming: record,
+        resolution: overwrite ? 'overwritten' : 'kept',
+      });
+      if (!overwrite) continue;
+    }
+    writes.push(record);
+  }
+
+  // Writing through the model validates each record against its schema
+  const results = await model.store.bulkPut(writes);
+  results.forEach((result, i) => {
+    const { id } = writes[i];
+    if (!result.ok)
+      report.errors.push({ model: model.name, id, error: result.error });
+    else if (existing.has(id)) report.updated++;
+    else report.inserted++;
+  });
+}
+
+/**
+ * Load an export produced by `exportDatabase()`. Exports from an older
+ * schema version are migrated first; newer ones are refused with a
+ * `SchemaVersionError`. Records are validated against their model's
+ * schema, and anything that could not be imported is listed in the
+ * report rather than thrown.
+ *
+ * Records are written in batches, each in a transaction of its own, so
+ * an import that fails midway leaves the batches before it in place.
+ */
+export async function importDatabase(
+  source: ImportSource,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const parsed = await parseExport(source);
+  const dbName = options.dbName ?? parsed.header.database;
+  const declaredVersion = getSchema(dbName)?.version ?? 0;
+  assertNotDowngrade(dbName, parsed.header.schemaVersion, declaredVersion);
+
+  let entries = parsed.entries;
+  if (parsed.header.schemaVersion < declaredVersion) {
+    // Migrations work on whole stores, so older exports are read in full
+    const snapshot: DatabaseSnapshot = {
+      version: parsed.header.schemaVersion,
+      stores: Object.fromEntries(
+        getModels(dbName).map((model) => [model.name, []])
+      ),
+    };
+    for await (const { model, record } of entries) {
+      (snapshot.stores[model] ??= []).push(record);
+    }
+    const migrated = await migrateInMemory(getSchema(dbName)!, snapshot);
+    entries = Object.entries(migrated.stores).flatMap(([model, records]) =>
+      records.map((record) => ({ model, record }))
+    );
+  }
+
+  const models = new Map(
+    selectModels(dbName, options.models).map((model) => [model.name, model])
+  );
+  const settings = {
+    mode: options.mode ?? 'merge',
+    onConflict: options.onConflict ?? 'keep',
+  } as const;
+  const batchSize = options.batchSize ?? 500;
+  const report: ImportReport = {
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    conflicts: [],
+    errors: [],
+    skippedModels: [],
+  };
+
+  if (settings.mode === 'replace') {
+    for (const model of models.values()) await model.store.clear();
+  }
+
+  const pending = new Map<string, unknown[]>();
+  for await (const { model: name, record } of entries) {
+    const model = models.get(name);
+    if (!model) {
+      if (!report.skippedModels.includes(name)) report.skippedModels.push(name);
+      continue;
+    }
+    const batch = pending.get(name) ?? [];
+    batch.push(record);
+    pending.set(name, batch);
+    if (batch.length >= batchSize) {
+      pending.delete(name);
+      await writeBatch(model, batch, settings, report);
+    }
+  }
+  for (const [name, batch] of pending) {
+    await writeBatch(models.get(name)!, batch, settings, report);
+  }
+  return report;
+}
@@ -0,0 +1,36 @@
+// Helpers for consumers of change events
+
+import type { ChangeEvent, RecordId } from './types.js';
+
+export interface ApplyChangesOptions<T> {
+  /** Only keep records matching the query the list came from */
+  filter?: (item: T) => boolean;
+  /** Re-sort the patched list */
+  sort?: (a: T, b: T) => number;
+}
+
+/**
+ * Patch a previously loaded list of records with change events instead of
+ * re-running the query. Updated records keep their position, inserted
+ * ones are appended (before sorting) and deleted ones are removed.
+ */
+export function applyChanges<T extends { id: RecordId }>(
+  items: T[],
+  events: ChangeEvent<T>[],
+  options: ApplyChangesOptions<T> = {}
+): T[] {
+  const result = [...items];
+
+  for (const event of events) {
+    const position = result.findIndex((item) => item.id === event.id);
+    if (position !== -1) result.splice(position, 1);
+
+    const { after } = event;
+    if (after !== undefined && (!options.filter || options.filter(after))) {
+      result.splice(position !== -1 ? position : result.length, 0, after);
+    }
+  }
+
+  if (options.sort) result.sort(options.sort);
+  return result;
+}
@@ -0,0 +1,359 @@
+// Cross-tab change propagation and leader election.
+//
+// Writes are announced on a BroadcastChannel per database (falling back
+// to localStorage `storage` events where BroadcastChannel is missing), so
+// subscribers in other tabs hear about them too.
+
+import type { ChangeEvent, Unsubscribe } from './types.js';
+
+/** Identifies this tab so it can ignore its own announcements */
+const tabId =
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+
+interface ChangeMessage {
+  origin: string;
+  store: string;
+  events: ChangeEvent[];
+}
+
+type RemoteListener = (message: ChangeMessage) => void;
+
+interface ChangeChannel {
+  post(message: ChangeMessage): void;
+  close(): void;
+  listeners: Map<string, Set<RemoteListener>>;
+}
+
+const _channels = new Map<string, ChangeChannel>();
+
+function channelName(dbName: string): string {
+  return `nearstack:${dbName}`;
+}
+
+function isChangeMessage(value: unknown): value is ChangeMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ChangeMessage).origin === 'string' &&
+    typeof (value as ChangeMessage).store === 'string' &&
+    Array.isArray((value as ChangeMessage).events)
+  );
+}
+
+interface Transport {
+  post(message: object): void;
+  close(): void;
+}
+
+/**
+ * Open a cross-tab message transport: a BroadcastChannel, or localStorage
+ * `storage` events where BroadcastChannel is missing. Returns null where
+ * neither exists.
+ */
+function openTransport(
+  name: string,
+  deliver: (message: unknown) => void
+): Transport | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent) => deliver(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  if (typeof window !== 'undefined' && window.localStorage) {
+    // `storage` events only fire in *other* tabs, which is exactly what we
+    // want. The key is removed straight away; only the write matters.
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== name || !event.newValue) return;
+      try {
+        deliver(JSON.parse(event.newValue));
+      } catch {
+        // Not one of ours
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return {
+      post: (message) => {
+        try {
+          window.localStorage.setItem(
+            name,
+            JSON.stringify({ ...message, nonce: Math.random() })
+          );
+          window.localStorage.removeItem(name);
+        } catch {
+          // Storage may be full or disabled; cross-tab messages are best effort
+        }
+      },
+      close: () => window.removeEventListener('storage', onStorage),
+    };
+  }
+
+  return null;
+}
+
+function openChannel(dbName: string): ChangeChannel {
+  const listeners = new Map<string, Set<RemoteListener>>();
+  const transport = openTransport(channelName(dbName), (message) => {
+    if (!isChangeMessage(message) || message.origin === tabId) return;
+    for (const listener of listeners.get(message.store) ?? []) {
+      listener(message);
+    }
+  });
+
+  return {
+    listeners,
+    post: (message) => transport?.post(message),
+    close: () => transport?.close(),
+  };
+}
+
+function getChannel(dbName: string): ChangeChannel {
+  let channel = _channels.get(dbName);
+  if (!channel) {
+    channel = openChannel(dbName);
+    _channels.set(dbName, channel);
+  }
+  return channel;
+}
+
+/**
+ * Announce a committed write to other tabs.
+ */
+export function publishChange(
+  dbName: string,
+  storeName: string,
+  events: ChangeEvent<unknown>[]
+): void {
+  getChannel(dbName).post({ origin: tabId, store: storeName, events });
+}
+
+/**
+ * Listen for writes to a store made in other tabs. Events arrive with
+ * `source: 'remote'`.
+ */
+export function onRemoteChange<T>(
+  dbName: string,
+  storeName: string,
+  listener: (events: ChangeEvent<T>[]) => void
+): Unsubscribe {
+  const channel = getChannel(dbName);
+  let listeners = channel.listeners.get(storeName);
+  if (!listeners) {
+    listeners = new Set();
+    channel.listeners.set(storeName, listeners);
+  }
+  const wrapped: RemoteListener = (message) =>
+    listener(
+      message.events.map(
+        (event) => ({ ...event, source: 'remote' }) as ChangeEvent<T>
+      )
+    );
+  listeners.add(wrapped);
+
+  return () => {
+    listeners!.delete(wrapped);
+    if (listeners!.size === 0) channel.listeners.delete(storeName);
+    if (channel.listeners.size === 0 && _channels.get(dbName) === channel) {
+      channel.close();
+      _channels.delete(dbName);
+    }
+  };
+}
+
+// ─── Leader election ───────────────────────────────────────────────
+
+export interface LeaderElection {
+  /** Whether this tab currently holds leadership */
+  readonly isLeader: boolean;
+  /** Resolves once this tab becomes the leader */
+  whenLeader(): Promise<void>;
+  /** Called whenever leadership is gained or lost */
+  onChange(listener: (isLeader: boolean) => void): Unsubscribe;
+  /** Give up leadership (or stop waiting for it) */
+  resign(): void;
+}
+
+export interface LeaderElectionOptions {
+  /**
+   * How often candidates announce themselves, in milliseconds, where Web
+   * Locks are unavailable. A tab that stays silent for three intervals is
+   * taken to be closed. Defaults to 1000.
+   */
+  heartbeatInterval?: number;
+}
+
+/**
+ * Elect a single tab to run background work such as sync or indexing.
+ *
+ * Uses the Web Locks API: the leader holds an exclusive lock named after
+ * `name` until it resigns or the tab closes, at which point the next
+ * waiting tab takes over. Where Web Locks are unavailable, tabs elect a
+ * leader by sending heartbeats over the same cross-tab channel as change
+ * events (see `heartbeatElection`).
+ */
+export function electLeader(
+  name: string,
+  options: LeaderElectionOptions = {}
+): LeaderElection {
+  let isLeader = false;
+  let resigned = false;
+  let release: (() => void) | null = null;
+  const listeners = new Set<(isLeader: boolean) => void>();
+  const waiters: Array<() => void> = [];
+
+  const setLeader = (value: boolean) => {
+    if (isLeader === value) return;
+    isLeader = value;
+    if (value) waiters.splice(0).forEach((resolve) => resolve());
+    for (const listener of listeners) listener(value);
+  };
+
+  const abort =
+    typeof AbortController !== 'undefined' ? new AbortController() : null;
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+
+  if (locks) {
+    locks
+      .request(`nearstack-leader:${name}`, { signal: abort?.signal }, () => {
+        if (resigned) return undefined;
+        setLeader(true);
+        // Hold the lock until resign()
+        return new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      })
+      .catch(() => {
+        // Aborted while waiting
+      });
+  } else {
+    release = heartbeatElection(
+      name,
+      options.heartbeatInterval ?? 1000,
+      setLeader
+    );
+  }
+
+  return {
+    get isLeader() {
+      return isLeader;
+    },
+    whenLeader() {
+      if (isLeader) return Promise.resolve();
+      return new Promise<void>((resolve) => waiters.push(resolve));
+    },
+    onChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    resign() {
+      if (resigned) return;
+      resigned = true;
+      if (release) {
+        release();
+        release = null;
+      } else {
+        abort?.abort();
+      }
+      setLeader(false);
+    },
+  };
+}
+
+interface LeaderMessage {
+  type: 'heartbeat' | 'resign';
+  candidate: string;
+  leader: boolean;
+}
+
+function isLeaderMessage(value: unknown): value is LeaderMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ((value as LeaderMessage).type === 'heartbeat' ||
+      (value as LeaderMessage).type === 'resign') &&
+    typeof (value as LeaderMessage).candidate === 'string'
+  );
+}
+
+/**
+ * Leader election without Web Locks. Every candidate broadcasts a heartbeat
+ * saying whether it leads. A newcomer listens for one interval before
+ * deciding, so an existing leader keeps its place. When nobody leads, or
+ * several tabs claim to (say a throttled background tab wakes up), the
+ * candidate with the lowest id wins. Candidates that resign say so, and
+ * ones that go quiet for three intervals are dropped. Returns a function
+ * that stops taking part.
+ */
+function heartbeatElection(
+  name: string,
+  interval: number,
+  setLeader: (value: boolean) => void
+): () => void {
+  const candidate = `${tabId}:${Math.random().toString(36).slice(2)}`;
+  /** Other candidates, and when each was last heard from */
+  const peers = new Map<string, { leader: boolean; seen: number }>();
+  let leader = false;
+  let settled = false;
+
+  const decide = () => {
+    const now = Date.now();
+    for (const [id, peer] of peers) {
+      if (now - peer.seen > interval * 3) peers.delete(id);
+    }
+    if (!settled) return;
+
+    const claims = [...peers]
+      .filter(([, peer]) => peer.leader)
+      .map(([id]) => id);
+    if (leader) claims.push(candidate);
+    const contenders =
+      claims.length > 0 ? claims : [candidate, ...peers.keys()];
+    leader = contenders.sort()[0] === candidate;
+    setLeader(leader);
+  };
+
+  const transport = openTransport(`nearstack-leader:${name}`, (message) => {
+    if (!isLeaderMessage(message) || message.candidate === candidate) return;
+    if (message.type === 'resign') {
+      peers.delete(message.candidate);
+    } else {
+      const isNew = !peers.has(message.candidate);
+      peers.set(message.candidate, {
+        leader: message.leader,
+        seen: Date.now(),
+      });
+      // Answer newcomers straight away so they can decide
+      if (isNew) beat();
+    }
+    decide();
+  });
+
+  // Nobody else can hear us, so this tab leads alone
+  if (!transport) {
+    setLeader(true);
+    return () => {};
+  }
+
+  const beat = () => transport.post({ type: 'heartbeat', candidate, leader });
+  const timer = setInterval(() => {
+    beat();
+    decide();
+  }, interval);
+  const settle = setTimeout(() => {
+    settled = true;
+    decide();
+  }, interval);
+  beat();
+
+  return () => {
+    clearInterval(timer);
+    clearTimeout(settle);
+    transport.post({ type: 'resign', candidate, leader: false });
+    transport.close();
+  };
+}
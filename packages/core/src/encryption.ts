@@ -0,0 +1,503 @@
+// At-rest encryption for models. Records are encrypted with AES-GCM under
+// a random data key; data keys are stored encrypted with a key derived
+// from the user's passphrase (PBKDF2), so changing the passphrase only
+// re-encrypts the keys, not every record.
+
+import type {
+  AdapterTransaction,
+  StorageAdapter,
+  StoredRecord,
+} from './adapter.js';
+import type {
+  IndexDefinition,
+  RecordId,
+  StateListener,
+  Unsubscribe,
+} from './types.js';
+import { LockedError, PassphraseError } from './errors.js';
+import { getValueAtPath } from './keys.js';
+import { fromBase64, jsonReplacer, jsonReviver, toBase64 } from './json.js';
+import { scanRecords, type QueryPlan } from './query.js';
+
+/**
+ * Holds the keys for a database's encrypted models. Encrypted models
+ * can only be read or written while the vault is unlocked.
+ */
+export interface Vault {
+  readonly dbName: string;
+  readonly locked: boolean;
+  /**
+   * Unlock with the user's passphrase, rejecting with a `PassphraseError`
+   * if it is wrong. The first unlock of a database sets its passphrase.
+   */
+  unlock(passphrase: string): Promise<void>;
+  /** Forget the keys; encrypted models throw a `LockedError` until unlocked */
+  lock(): void;
+  /** Replace the passphrase. The vault is unlocked afterwards */
+  changePassphrase(current: string, next: string): Promise<void>;
+  /**
+   * Re-encrypt every record of the vault's models under a new data key,
+   * then discard the old ones. Records stay readable if it is
+   * interrupted; running it again finishes the job.
+   */
+  rotateKey(): Promise<void>;
+  /** Called whenever the vault locks or unlocks */
+  subscribe(listener: StateListener): Unsubscribe;
+}
+
+export interface VaultOptions {
+  /** Database whose models the vault encrypts. Defaults to `'nearstack'` */
+  dbName?: string;
+  /**
+   * Adapter holding the vault's keys — the one its models use. Defaults
+   * to IndexedDB.
+   */
+  adapter?: StorageAdapter;
+  /** PBKDF2 iterations for new passphrases. Defaults to 600,000 */
+  iterations?: number;
+}
+
+/** Store holding a database's keyring, kept out of every model API */
+export const KEYRING_STORE = '__nearstack_keyring';
+const KEYRING_ID = 'keyring';
+const DEFAULT_ITERATIONS = 600_000;
+
+interface Sealed {
+  iv: string;
+  data: string;
+}
+
+export interface KeyringRecord extends StoredRecord {
+  salt: string;
+  iterations: number;
+  /** Id of the data key new records are encrypted with */
+  current: string;
+  /** Data keys, encrypted with the passphrase key */
+  keys: Record<string, Sealed>;
+}
+
+/** How an encrypted record is stored: its id and index fields stay readable */
+interface EncryptedRecord extends StoredRecord {
+  $encrypted: Sealed & { key: string };
+}
+
+/** The keyring's storage; a model store in practice */
+export interface KeyringStore {
+  get(id: string): Promise<KeyringRecord | undefined>;
+  set(id: string, value: KeyringRecord): Promise<void>;
+}
+
+/** A model store whose records a vault encrypts */
+export interface EncryptedStore {
+  readonly storeName: string;
+  init(): Promise<StorageAdapter>;
+  view(transaction: AdapterTransaction): AdapterTransaction;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function seal(
+  key: CryptoKey,
+  plaintext: BufferSource,
+  additionalData?: BufferSource
+): Promise<Sealed> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData },
+    key,
+    plaintext
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function open(
+  key: CryptoKey,
+  sealed: Sealed,
+  additionalData?: BufferSource
+): Promise<Uint8Array<ArrayBuffer>> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData },
+    key,
+    fromBase64(sealed.data)
+  );
+  return new Uint8Array(data);
+}
+
+async function derivePassphraseKey(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function importDataKey(raw: BufferSource): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/** Copy the fields indexes read, so they stay queryable */
+function indexedFields(
+  record: StoredRecord,
+  indexes: IndexDefinition[]
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const index of indexes) {
+    const paths = Array.isArray(index.keyPath)
+      ? index.keyPath
+      : [index.keyPath];
+    for (const path of paths) {
+      const value = getValueAtPath(record, path);
+      if (value === undefined) continue;
+      const segments = path.split('.');
+      let target = fields;
+      for (const segment of segments.slice(0, -1)) {
+        target[segment] ??= {};
+        target = target[segment] as Record<string, unknown>;
+      }
+      target[segments[segments.length - 1]] = value;
+    }
+  }
+  return fields;
+}
+
+function isEncrypted(record: StoredRecord): record is EncryptedRecord {
+  return '$encrypted' in record;
+}
+
+export class KeyVault implements Vault {
+  private passphraseKey?: CryptoKey;
+  private keys = new Map<string, CryptoKey>();
+  private current?: string;
+  private stores: EncryptedStore[] = [];
+  private listeners = new Set<StateListener>();
+
+  constructor(
+    readonly dbName: string,
+    private keyring: KeyringStore,
+    private iterations = DEFAULT_ITERATIONS
+  ) {}
+
+  get locked(): boolean {
+    return this.current === undefined;
+  }
+
+  /** Called by defineModel() for each model using the vault */
+  register(store: EncryptedStore): void {
+    this.stores.push(store);
+  }
+
+  subscribe(listener: StateListener): Unsubscribe {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener();
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const keyring = await this.keyring.get(KEYRING_ID);
+    if (keyring) {
+      await this.load(
+        keyring,
+        await this.passphraseKeyFor(passphrase, keyring)
+      );
+    } else {
+      await this.create(passphrase);
+    }
+    this.notify();
+  }
+
+  lock(): void {
+    const wasLocked = this.locked;
+    this.passphraseKey = undefined;
+    this.keys.clear();
+    this.current = undefined;
+    if (!wasLocked) this.notify();
+  }
+
+  async changePassphrase(current: string, next: string): Promise<void> {
+    const keyring = await this.keyring.get(KEYRING_ID);
+    if (!keyring) return this.unlock(next);
+
+    const oldKey = await this.passphraseKeyFor(current, keyring);
+    const salt = randomBytes(16);
+    const newKey = await derivePassphraseKey(next, salt, this.iterations);
+    const keys: Record<string, Sealed> = {};
+    for (const [id, sealed] of Object.entries(keyring.keys)) {
+      keys[id] = await seal(newKey, await open(oldKey, sealed));
+    }
+    const updated: KeyringRecord = {
+      ...keyring,
+      salt: toBase64(salt),
+      iterations: this.iterations,
+      keys,
+    };
+    await this.keyring.set(KEYRING_ID, updated);
+    await this.load(updated, newKey);
+    this.notify();
+  }
+
+  async rotateKey(): Promise<void> {
+    const passphraseKey = this.passphraseKey;
+    if (!passphraseKey) throw new LockedError(this.dbName);
+
+    const keyring = (await this.keyring.get(KEYRING_ID))!;
+    const id = crypto.randomUUID();
+    const raw = randomBytes(32);
+    const withNewKey: KeyringRecord = {
+      ...keyring,
+      current: id,
+      keys: { ...keyring.keys, [id]: await seal(passphraseKey, raw) },
+    };
+    // Saved before any record uses the key, so none become unreadable
+    await this.keyring.set(KEYRING_ID, withNewKey);
+    await this.load(withNewKey, passphraseKey);
+
+    for (const store of this.stores) {
+      const adapter = await store.init();
+      const transaction = store.view(
+        await adapter.transaction(this.dbName, [store.storeName], 'readwrite')
+      );
+      try {
+        // Reading decrypts with the old key, writing encrypts with the new
+        for (const record of await transaction.getAll(store.storeName)) {
+          await transaction.put(store.storeName, record);
+        }
+      } catch (error) {
+        transaction.abort();
+        throw error;
+      }
+      await transaction.commit();
+    }
+
+    const rotated: KeyringRecord = {
+      ...withNewKey,
+      keys: { [id]: withNewKey.keys[id] },
+    };
+    await this.keyring.set(KEYRING_ID, rotated);
+    await this.load(rotated, passphraseKey);
+  }
+
+  private async create(passphrase: string): Promise<void> {
+    const salt = randomBytes(16);
+    const passphraseKey = await derivePassphraseKey(
+      passphrase,
+      salt,
+      this.iterations
+    );
+    const id = crypto.randomUUID();
+    const keyring: KeyringRecord = {
+      id: KEYRING_ID,
+      salt: toBase64(salt),
+      iterations: this.iterations,
+      current: id,
+      keys: { [id]: await seal(passphraseKey, randomBytes(32)) },
+    };
+    await this.keyring.set(KEYRING_ID, keyring);
+    await this.load(keyring, passphraseKey);
+  }
+
+  private async passphraseKeyFor(
+    passphrase: string,
+    keyring: KeyringRecord
+  ): Promise<CryptoKey> {
+    const key = await derivePassphraseKey(
+      passphrase,
+      fromBase64(keyring.salt),
+      keyring.iterations
+    );
+    try {
+      // Opening the current data key proves the passphrase right
+      await open(key, keyring.keys[keyring.current]);
+    } catch {
+      throw new PassphraseError(this.dbName);
+    }
+    return key;
+  }
+
+  private async load(
+    keyring: KeyringRecord,
+    passphraseKey: CryptoKey
+  ): Promise<void> {
+    const keys = new Map<string, CryptoKey>();
+    for (const [id, sealed] of Object.entries(keyring.keys)) {
+      keys.set(id, await importDataKey(await open(passphraseKey, sealed)));
+    }
+    this.passphraseKey = passphraseKey;
+    this.keys = keys;
+    this.current = keyring.current;
+  }
+
+  // A record may use a key added since unlocking (a rotation in another
+  // tab); reload the keyring before giving up on it
+  private async dataKey(id: string): Promise<CryptoKey> {
+    if (!this.passphraseKey) throw new LockedError(this.dbName);
+    if (!this.keys.has(id)) {
+      const keyring = await this.keyring.get(KEYRING_ID);
+      if (keyring?.keys[id]) {
+        try {
+          await this.load(keyring, this.passphraseKey);
+        } catch {
+          // The passphrase was changed elsewhere
+          this.lock();
+          throw new LockedError(this.dbName);
+        }
+      }
+    }
+    const key = this.keys.get(id);
+    if (!key)
+      throw new Error(
+        `Data key "${id}" of database "${this.dbName}" is missing`
+      );
+    return key;
+  }
+
+  async encrypt(
+    record: StoredRecord,
+    indexes: IndexDefinition[]
+  ): Promise<EncryptedRecord> {
+    const keyId = this.current;
+    if (keyId === undefined) throw new LockedError(this.dbName);
+    const payload = encoder.encode(JSON.stringify(record, jsonReplacer));
+    // The id is bound to the ciphertext, so records can't be swapped
+    const sealed = await seal(
+      await this.dataKey(keyId),
+      payload,
+      encoder.encode(String(record.id))
+    );
+    return {
+      ...indexedFields(record, indexes),
+      id: record.id,
+      $encrypted: { key: keyId, ...sealed },
+    };
+  }
+
+  /** Decrypt a stored record. Records written before encryption pass through */
+  async decrypt<T extends StoredRecord>(record: T): Promise<T> {
+    if (!isEncrypted(record)) return record;
+    const key = await this.dataKey(record.$encrypted.key);
+    let payload: Uint8Array<ArrayBuffer>;
+    try {
+      payload = await open(
+        key,
+        record.$encrypted,
+        encoder.encode(String(record.id))
+      );
+    } catch {
+      throw new Error(`Record "${record.id}" could not be decrypted`);
+    }
+    return JSON.parse(decoder.decode(payload), jsonReviver) as T;
+  }
+
+  /** A view of `transaction` that encrypts and decrypts one store's records */
+  wrap(
+    transaction: AdapterTransaction,
+    storeName: string,
+    indexes: IndexDefinition[]
+  ): AdapterTransaction {
+    return new EncryptedTransaction(this, transaction, storeName, indexes);
+  }
+}
+
+class EncryptedTransaction implements AdapterTransaction {
+  constructor(
+    private vault: KeyVault,
+    private transaction: AdapterTransaction,
+    private storeName: string,
+    private indexes: IndexDefinition[]
+  ) {}
+
+  // Crypto runs between the transaction's requests, so hold it open
+  private hold<R>(work: Promise<R>): Promise<R> {
+    return this.transaction.keepAlive ? this.transaction.keepAlive(work) : work;
+  }
+
+  private decryptAll<T extends StoredRecord>(records: T[]): Promise<T[]> {
+    return this.hold(
+      Promise.all(records.map((record) => this.vault.decrypt(record)))
+    );
+  }
+
+  async get<T extends StoredRecord>(
+    storeName: string,
+    id: RecordId
+  ): Promise<T | undefined> {
+    const record = await this.transaction.get<T>(storeName, id);
+    if (storeName !== this.storeName || record === undefined) return record;
+    return this.hold(this.vault.decrypt(record));
+  }
+
+  async getAll<T extends StoredRecord>(storeName: string): Promise<T[]> {
+    const records = await this.transaction.getAll<T>(storeName);
+    return storeName === this.storeName ? this.decryptAll(records) : records;
+  }
+
+  async query<T extends StoredRecord>(
+    storeName: string,
+    plan: QueryPlan<T>
+  ): Promise<T[]> {
+    if (storeName !== this.storeName)
+      return this.transaction.query(storeName, plan);
+    // Only the index ranges can run on stored records; the rest of the
+    // plan needs the decrypted fields
+    const candidates = await this.transaction.query<T>(storeName, {
+      ...plan,
+      unique: true,
+      filters: [],
+      sortBy: null,
+      offset: 0,
+      limit: null,
+    });
+    return scanRecords(await this.decryptAll(candidates), plan, this.indexes);
+  }
+
+  async put<T extends StoredRecord>(
+    storeName: string,
+    record: T
+  ): Promise<void> {
+    if (storeName !== this.storeName)
+      return this.transaction.put(storeName, record);
+    await this.transaction.put(
+      storeName,
+      await this.hold(this.vault.encrypt(record, this.indexes))
+    );
+  }
+
+  delete(storeName: string, id: RecordId): Promise<void> {
+    return this.transaction.delete(storeName, id);
+  }
+
+  keepAlive<R>(work: Promise<R>): Promise<R> {
+    return this.hold(work);
+  }
+
+  commit(): Promise<void> {
+    return this.transaction.commit();
+  }
+
+  abort(): void {
+    this.transaction.abort();
+  }
+}
@@ -0,0 +1,94 @@
+// Errors raised by the core runtime
+
+import type { RecordId } from './types.js';
+import type { ValidationIssue } from './validation.js';
+
+/**
+ * Thrown when the stored database schema is newer than the version the
+ * app declares with `defineSchema()` — usually an older build of the app
+ * opening data written by a newer one.
+ */
+export class SchemaVersionError extends Error {
+  constructor(
+    readonly dbName: string,
+    readonly storedVersion: number,
+    readonly declaredVersion: number
+  ) {
+    super(
+      `Database "${dbName}" is at schema version ${storedVersion}, but this app only knows up to version ${declaredVersion}. Downgrading is not supported.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/**
+ * Thrown when a migration's upgrade function fails. The upgrade is rolled
+ * back, leaving the database at its previous version.
+ */
+export class MigrationError extends Error {
+  constructor(
+    readonly version: number,
+    readonly cause: unknown
+  ) {
+    super(
+      `Migration to schema version ${version} failed: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Thrown when a record does not match its model's schema. Each issue
+ * names the offending field by its path, e.g. `['tags', 1]`.
+ */
+export class ValidationError extends Error {
+  constructor(
+    readonly model: string,
+    readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid "${model}" record: ${issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when an encrypted model is read or written while its database's
+ * vault is locked. Call `vault.unlock(passphrase)` first.
+ */
+export class LockedError extends Error {
+  constructor(readonly dbName: string) {
+    super(
+      `Database "${dbName}" is locked. Unlock its vault with vault.unlock(passphrase) before using encrypted models.`
+    );
+    this.name = 'LockedError';
+  }
+}
+
+/** Thrown when a vault is given the wrong passphrase */
+export class PassphraseError extends Error {
+  constructor(readonly dbName: string) {
+    super(`Incorrect passphrase for database "${dbName}"`);
+    this.name = 'PassphraseError';
+  }
+}
+
+/**
+ * Thrown when deleting a record that related records still point at
+ * through a relation with `onDelete: 'restrict'`.
+ */
+export class RelationError extends Error {
+  constructor(
+    readonly model: string,
+    readonly id: RecordId,
+    readonly relation: string
+  ) {
+    super(
+      `Cannot delete "${model}" record "${id}": it still has related records in "${relation}"`
+    );
+    this.name = 'RelationError';
+  }
+}
@@ -0,0 +1,286 @@
+// Undo/redo for model writes. A history listens to its models' change
+// events and keeps each write as a group of changes it can reverse.
+
+import type { Model } from './index.js';
+import type {
+  ChangeEvent,
+  ChangeType,
+  RecordId,
+  StateListener,
+  Unsubscribe,
+} from './types.js';
+
+/** One record-level change, as recorded by a history */
+export interface HistoryChange {
+  model: string;
+  type: ChangeType;
+  id: RecordId;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** What one undo() reverses: a write, a transaction or a batch() */
+export interface HistoryEntry {
+  changes: HistoryChange[];
+}
+
+export interface HistoryOptions {
+  /** Entries kept on the undo stack; the oldest are dropped. Defaults to 100 */
+  limit?: number;
+  /**
+   * Save the stacks in the models' database under this key, so they
+   * survive reloads. Each history needs a key of its own.
+   */
+  persist?: string;
+}
+
+export interface History {
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /** Recorded entries, oldest first */
+  readonly undoStack: readonly HistoryEntry[];
+  readonly redoStack: readonly HistoryEntry[];
+  /** Reverse the latest entry. Resolves to false if there was none */
+  undo(): Promise<boolean>;
+  /** Reapply the latest undone entry. Resolves to false if there was none */
+  redo(): Promise<boolean>;
+  /** Record every write made during `callback` as a single entry */
+  batch<R>(callback: () => Promise<R> | R): Promise<R>;
+  clear(): void;
+  /** Called whenever the stacks change */
+  subscribe(listener: StateListener): Unsubscribe;
+  /** Stop recording */
+  dispose(): void;
+}
+
+/** The persisted stacks of one history */
+export interface HistoryRecord {
+  id: string;
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/** Where a persisted history lives; a model store in practice */
+export interface HistoryStore {
+  get(id: string): Promise<HistoryRecord | undefined>;
+  set(id: string, value: HistoryRecord): Promise<void>;
+}
+
+/** Store holding persisted histories, kept out of every model API */
+export const HISTORY_STORE = '__nearstack_history';
+
+/** A record as undo or redo writes it back; `undefined` deletes it */
+export interface Snapshot {
+  model: Model;
+  id: RecordId;
+  record: unknown;
+}
+
+/**
+ * Write snapshots back in one transaction, as they were stored. `own` is
+ * given the change events the write will deliver, before they are.
+ */
+export type WriteSnapshots = (
+  snapshots: Snapshot[],
+  own: (events: ChangeEvent[]) => void
+) => Promise<void>;
+
+export class ModelHistory implements History {
+  private undone: HistoryEntry[] = [];
+  private done: HistoryEntry[] = [];
+  private models = new Map<string, Model>();
+  private stops: Unsubscribe[] = [];
+  private listeners = new Set<StateListener>();
+  // Changes delivered in the same tick, e.g. by one transaction()
+  private pending?: HistoryChange[];
+  private batched?: HistoryChange[];
+  private batchDepth = 0;
+  // Events of this history's own undo and redo writes
+  private replayed = new WeakSet<ChangeEvent>();
+  private loading?: Promise<void>;
+  private loaded = false;
+  private saving = Promise.resolve();
+  private limit: number;
+  private key?: string;
+
+  constructor(
+    models: Model[],
+    private write: WriteSnapshots,
+    options: HistoryOptions = {},
+    private store?: HistoryStore
+  ) {
+    this.limit = options.limit ?? 100;
+    for (const model of models) {
+      this.models.set(model.name, model);
+      this.stops.push(model.subscribe((events) => this.record(model, events)));
+    }
+    this.key = options.persist;
+    // Failures (say, a locked vault) are retried by the next undo or redo
+    this.ensureLoaded().catch(() => {});
+  }
+
+  get canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  get undoStack(): readonly HistoryEntry[] {
+    return this.done;
+  }
+
+  get redoStack(): readonly HistoryEntry[] {
+    return this.undone;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    this.loading ??= this.load().catch((error) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.key || !this.store) return;
+    const saved = await this.store.get(this.key);
+    this.loaded = true;
+    if (saved) {
+      // Writes recorded while loading come after the saved ones
+      this.done = [...saved.undo, ...this.done].slice(-this.limit);
+      if (this.undone.length === 0) this.undone = saved.redo;
+    }
+    this.changed();
+  }
+
+  private changed(): void {
+    for (const listener of this.listeners) listener();
+    // Saving before the saved stacks are loaded would overwrite them
+    if (this.key && this.store && this.loaded) {
+      const record: HistoryRecord = {
+        id: this.key,
+        undo: this.done,
+        redo: this.undone,
+      };
+      const store = this.store;
+      this.saving = this.saving
+        .then(() => store.set(record.id, record))
+        .catch((error) => console.warn('Could not save history:', error));
+    }
+  }
+
+  private record(model: Model, events: ChangeEvent[]): void {
+    const changes = events
+      .filter((event) => event.source === 'local' && !this.replayed.has(event))
+      .map(
+        (event): HistoryChange => ({
+          model: model.name,
+          type: event.type,
+          id: event.id,
+          before: event.before,
+          after: event.after,
+        })
+      );
+    if (changes.length === 0) return;
+
+    if (this.batched) {
+      this.batched.push(...changes);
+      return;
+    }
+    if (!this.pending) {
+      this.pending = [];
+      queueMicrotask(() => {
+        const group = this.pending!;
+        this.pending = undefined;
+        this.push({ changes: group });
+      });
+    }
+    this.pending.push(...changes);
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.done = [...this.done, entry].slice(-this.limit);
+    this.undone = [];
+    this.changed();
+  }
+
+  // Writes the entry's records as they were before (undo) or after (redo).
+  // Other writes made meanwhile are still recorded.
+  private async replay(
+    entry: HistoryEntry,
+    direction: 'undo' | 'redo'
+  ): Promise<void> {
+    const changes =
+      direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+    const snapshots = changes.map(
+      (change): Snapshot => ({
+        model: this.modelFor(change.model),
+        id: change.id,
+        record: direction === 'undo' ? change.before : change.after,
+      })
+    );
+    await this.write(snapshots, (events) => {
+      for (const event of events) this.replayed.add(event);
+    });
+  }
+
+  private modelFor(name: string): Model {
+    const model = this.models.get(name);
+    if (!model) throw new Error(`Model "${name}" is not part of this history`);
+    return model;
+  }
+
+  async undo(): Promise<boolean> {
+    await this.ensureLoaded();
+    const entry = this.done[this.done.length - 1];
+    if (!entry) return false;
+    await this.replay(entry, 'undo');
+    this.done = this.done.slice(0, -1);
+    this.undone = [...this.undone, entry];
+    this.changed();
+    return true;
+  }
+
+  async redo(): Promise<boolean> {
+    await this.ensureLoaded();
+    const entry = this.undone[this.undone.length - 1];
+    if (!entry) return false;
+    await this.replay(entry, 'redo');
+    this.undone = this.undone.slice(0, -1);
+    this.done = [...this.done, entry].slice(-this.limit);
+    this.changed();
+    return true;
+  }
+
+  async batch<R>(callback: () => Promise<R> | R): Promise<R> {
+    this.batchDepth++;
+    this.batched ??= [];
+    try {
+      return await callback();
+    } finally {
+      if (--this.batchDepth === 0) {
+        const changes = this.batched!;
+        this.batched = undefined;
+        if (changes.length > 0) this.push({ changes });
+      }
+    }
+  }
+
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+    this.changed();
+  }
+
+  subscribe(listener: StateListener): Unsubscribe {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  dispose(): void {
+    for (const stop of this.stops) stop();
+    this.stops = [];
+  }
+}
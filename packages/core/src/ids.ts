@@ -0,0 +1,202 @@
+// Record ids. Models pick how ids of new records are made with
+// defineModel(name, { id }): random or time-sortable strings, numbers from
+// a sequence kept in the database, ids given by the caller, or ids built
+// from some of the record's fields.
+
+import type { Store } from './index.js';
+import { getValueAtPath } from './keys.js';
+import type { IdStrategy, RecordId } from './types.js';
+
+/** Store holding the last number given out by each `autoincrement` model */
+export const SEQUENCES_STORE = '__nearstack_sequences';
+
+export interface SequenceRecord {
+  /** The model's name */
+  id: string;
+  value: number;
+}
+
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(bytes);
+  }
+  // Not cryptographically strong, but unique enough for ids
+  for (let i = 0; i < length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  return bytes;
+}
+
+function formatUUID(bytes: Uint8Array): string {
+  const digits = Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `${digits.slice(0, 8)}-${digits.slice(8, 12)}-${digits.slice(12, 16)}-${digits.slice(16, 20)}-${digits.slice(20)}`;
+}
+
+/**
+ * A random (version 4) UUID. Uses `crypto.randomUUID()` where available;
+ * older webviews and insecure contexts lack it.
+ */
+export function randomUUID(): string {
+  if (
+    typeof crypto !== 'undefined' &&
+    typeof crypto.randomUUID === 'function'
+  ) {
+    return crypto.randomUUID();
+  }
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUUID(bytes);
+}
+
+// Ids made in the same millisecond count up from the previous one, so
+// they still sort in creation order
+let lastTime = -1;
+let lastRandom: Uint8Array = new Uint8Array(10);
+
+function timeAndRandom(): [number, Uint8Array] {
+  const now = Date.now();
+  if (now <= lastTime) {
+    const next = lastRandom.slice();
+    for (let i = next.length - 1; i >= 0; i--) {
+      next[i] = (next[i] + 1) & 0xff;
+      if (next[i] !== 0) break;
+    }
+    lastRandom = next;
+    return [lastTime, next];
+  }
+  lastTime = now;
+  lastRandom = randomBytes(10);
+  // Leave room to count up within the millisecond
+  lastRandom[0] &= 0x7f;
+  return [now, lastRandom];
+}
+
+/**
+ * A version 7 UUID: a millisecond timestamp followed by random bits, so
+ * ids sort in the order they were made.
+ */
+export function uuidv7(): string {
+  const [time, random] = timeAndRandom();
+  const bytes = new Uint8Array(16);
+  for (let i = 5, rest = time; i >= 0; i--, rest = Math.floor(rest / 256)) {
+    bytes[i] = rest % 256;
+  }
+  bytes.set(random, 6);
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUUID(bytes);
+}
+
+/**
+ * A ULID: 26 characters of Crockford base32 holding a millisecond
+ * timestamp and 80 random bits, which sort in the order they were made.
+ */
+export function ulid(): string {
+  const [time, random] = timeAndRandom();
+  let id = '';
+  for (let i = 0, rest = time; i < 10; i++, rest = Math.floor(rest / 32)) {
+    id = CROCKFORD[rest % 32] + id;
+  }
+  // 80 bits, five at a time
+  let bits = 0;
+  let buffered = 0;
+  for (const byte of random) {
+    bits = (bits << 8) | byte;
+    buffered += 8;
+    while (buffered >= 5) {
+      buffered -= 5;
+      id += CROCKFORD[(bits >> buffered) & 31];
+    }
+  }
+  return id;
+}
+
+/**
+ * The id of a record of a model with a composite key, from the values of
+ * its key fields in order: `table.get(compositeKey(listId, position))`.
+ */
+export function compositeKey(...parts: unknown[]): string {
+  return JSON.stringify(parts);
+}
+
+function isRecordId(value: unknown): value is RecordId {
+  return (
+    (typeof value === 'string' && value !== '') ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+/** The id a record of a composite-key model must have, from its key fields */
+export function keyOf(model: string, fields: string[], record: object): string {
+  return compositeKey(
+    ...fields.map((field) => {
+      const value = getValueAtPath(record, field);
+      if (value === undefined || value === null) {
+        throw new Error(
+          `Records of model "${model}" need a value in key field "${field}"`
+        );
+      }
+      return value;
+    })
+  );
+}
+
+/**
+ * The id for a record about to be inserted. Ids given with the record are
+ * kept, except for composite keys, which always come from the record.
+ * `sequences` is only used by `autoincrement` models.
+ */
+export async function assignId(
+  model: string,
+  strategy: IdStrategy,
+  record: { id?: unknown },
+  sequences: () => Store<SequenceRecord>
+): Promise<RecordId> {
+  if (typeof strategy === 'object') {
+    return keyOf(model, strategy.composite, record);
+  }
+  const given = record.id;
+  if (given !== undefined && given !== null) {
+    if (!isRecordId(given)) {
+      throw new Error(
+        `Record ids of model "${model}" must be non-empty strings or finite numbers`
+      );
+    }
+    return given;
+  }
+  switch (strategy) {
+    case 'natural':
+      throw new Error(
+        `Model "${model}" uses natural keys, so records must be inserted with an id`
+      );
+    case 'uuidv7':
+      return uuidv7();
+    case 'ulid':
+      return ulid();
+    case 'autoincrement':
+      return ((await sequences().get(model))?.value ?? 0) + 1;
+    default:
+      return randomUUID();
+  }
+}
+
+/**
+ * Record that `id` is taken, so later `autoincrement` ids come after it.
+ * Called for every write, as records can also arrive with ids of their
+ * own, from `set()` or an import.
+ */
+export async function advanceSequence(
+  model: string,
+  id: RecordId,
+  sequences: Store<SequenceRecord>
+): Promise<void> {
+  if (typeof id !== 'number') return;
+  const sequence = await sequences.get(model);
+  if (id > (sequence?.value ?? 0)) {
+    await sequences.set(model, { id: model, value: id });
+  }
+}
@@ -1,330 +1,1725 @@
 // IndexedDB runtime, defineModel(), base Store interface
 
-import type { BaseProvider, Message, StateListener, Unsubscribe } from './types.js';
+import type {
+  BaseProvider,
+  BulkResult,
+  BulkUpdate,
+  ChangeEvent,
+  ChangeListener,
+  IdOf,
+  IdStrategy,
+  IndexDefinition,
+  Message,
+  ModelOptions,
+  NewRecord,
+  RecordId,
+  TransactionMode,
+  Unsubscribe,
+  WriteOperation,
+} from './types.js';
+import { onRemoteChange, publishChange } from './channel.js';
+import { MigrationError, SchemaVersionError } from './errors.js';
+import {
+  normalizeIndexes,
+  resolveIndex,
+  scanRecords,
+  tableQuery,
+  WhereClause,
+  type Grouping,
+  type Page,
+  type PageOptions,
+  type Query,
+  type QueryPlan,
+  type QuerySource,
+  type SortDirection,
+} from './query.js';
+import { extractIndexKeys, getValueAtPath } from './keys.js';
+import type { AdapterTransaction, StorageAdapter } from './adapter.js';
+import { createIndexedDBAdapter } from './adapters/indexeddb.js';
+import { createMemoryAdapter } from './adapters/memory.js';
+import { validateRecord } from './validation.js';
+import { getSchema } from './schema.js';
+import { registerModel } from './registry.js';
+import {
+  HISTORY_STORE,
+  ModelHistory,
+  type History,
+  type HistoryOptions,
+  type HistoryRecord,
+  type WriteSnapshots,
+} from './history.js';
+import {
+  KEYRING_STORE,
+  KeyVault,
+  type KeyringRecord,
+  type Vault,
+  type VaultOptions,
+} from './encryption.js';
+import {
+  createPipeline,
+  directWrite,
+  runAfterHooks,
+  type WritePipeline,
+} from './middleware.js';
+import {
+  assertRelation,
+  loadRelations,
+  prepareDelete,
+  relatedModel,
+  type Relation,
+} from './relations.js';
+import {
+  DELETED_AT,
+  EXPIRES_AT,
+  isTrashed,
+  isVisible,
+  type Lifecycle,
+  type Visibility,
+} from './lifecycle.js';
+import {
+  ATTACHMENTS_STORE,
+  CHUNKS_STORE,
+  ModelAttachments,
+  attachmentIds,
+  deleteAttachment,
+  dropMissingAttachments,
+  type AttachmentRecord,
+  type Attachments,
+  type ChunkRecord,
+} from './attachments.js';
+import {
+  SEARCH_STORE,
+  searchRecords,
+  updateSearchIndex,
+  type SearchEntry,
+  type SearchOptions,
+  type SearchResult,
+  type SearchTarget,
+} from './search.js';
+import {
+  SEQUENCES_STORE,
+  advanceSequence,
+  assignId,
+  keyOf,
+  type SequenceRecord,
+} from './ids.js';
+import type { StandardSchemaV1 } from './validation.js';
 
-export type { Message, BaseProvider, StateListener, Unsubscribe } from './types.js';
+export type {
+  Message,
+  BaseProvider,
+  StateListener,
+  Unsubscribe,
+  BulkResult,
+  BulkUpdate,
+  ChangeType,
+  ChangeEvent,
+  ChangeListener,
+  IdOf,
+  IdStrategy,
+  IndexDefinition,
+  IndexInput,
+  ModelOptions,
+  Middleware,
+  NewRecord,
+  RecordId,
+  TransactionMode,
+  WriteOperation,
+} from './types.js';
+export { Grouping, Query, WhereClause } from './query.js';
+export { scanRecords } from './query.js';
+export type {
+  Page,
+  PageOptions,
+  QueryPlan,
+  QuerySource,
+  SortDirection,
+} from './query.js';
+export type {
+  StorageAdapter,
+  AdapterTransaction,
+  StoredRecord,
+} from './adapter.js';
+export { createIndexedDBAdapter } from './adapters/indexeddb.js';
+export { createMemoryAdapter } from './adapters/memory.js';
+export { adapterConformanceTests } from './adapters/conformance.js';
+export type { ConformanceTest } from './adapters/conformance.js';
+export type { KeyRangeSpec } from './keys.js';
+export { defineSchema, getSchema, migrateInMemory } from './schema.js';
+export type {
+  DatabaseSnapshot,
+  Migration,
+  MigrationContext,
+  Schema,
+  SchemaOptions,
+} from './schema.js';
+export {
+  LockedError,
+  MigrationError,
+  PassphraseError,
+  RelationError,
+  SchemaVersionError,
+  ValidationError,
+} from './errors.js';
+export { belongsTo, hasMany, manyToMany, relatedModels } from './relations.js';
+export type {
+  DeleteRule,
+  ModelReference,
+  Relation,
+  RelationKind,
+} from './relations.js';
+export type { Vault, VaultOptions } from './encryption.js';
+export type {
+  History,
+  HistoryChange,
+  HistoryEntry,
+  HistoryOptions,
+} from './history.js';
+export type {
+  Attachment,
+  Attachments,
+  AttachmentUsage,
+} from './attachments.js';
+export type { SearchOptions, SearchResult } from './search.js';
+export { compositeKey, randomUUID, ulid, uuidv7 } from './ids.js';
+export { v, Validator } from './validation.js';
+export type {
+  Infer,
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  ValidationIssue,
+} from './validation.js';
+export { exportDatabase, importDatabase } from './backup.js';
+export type {
+  ExportFormat,
+  ExportHeader,
+  ExportOptions,
+  ImportConflict,
+  ImportIssue,
+  ImportOptions,
+  ImportReport,
+  ImportSource,
+} from './backup.js';
+export { createStorageMonitor } from './storage.js';
+export type {
+  CacheUsage,
+  ModelStorage,
+  StorageMonitor,
+  StorageMonitorOptions,
+  StorageState,
+  StorageWarning,
+} from './storage.js';
+export { electLeader } from './channel.js';
+export { applyChanges } from './changes.js';
+export type { ApplyChangesOptions } from './changes.js';
+export type { LeaderElection, LeaderElectionOptions } from './channel.js';
 
 export interface Store<T = any> {
-  get(id: string): Promise<T | undefined>;
-  set(id: string, value: T): Promise<void>;
-  delete(id: string): Promise<void>;
+  get(id: IdOf<T>): Promise<T | undefined>;
+  set(id: IdOf<T>, value: T): Promise<void>;
+  delete(id: IdOf<T>): Promise<void>;
   getAll(): Promise<T[]>;
-  insert(value: Omit<T, 'id'>): Promise<T>;
-  update(id: string, value: Partial<T>): Promise<T | undefined>;
+  insert(value: NewRecord<T>): Promise<T>;
+  update(id: IdOf<T>, value: Partial<T>): Promise<T | undefined>;
+  query(plan: QueryPlan<T>): Promise<T[]>;
+  scan(plan: QueryPlan<T>, visit: (record: T) => void): Promise<void>;
+  search(query: string, options?: SearchOptions<T>): Promise<SearchResult<T>[]>;
+  bulkInsert(values: NewRecord<T>[]): Promise<BulkResult<T>[]>;
+  bulkPut(values: T[]): Promise<BulkResult<T>[]>;
+  bulkUpdate(updates: BulkUpdate<T>[]): Promise<BulkResult<T | undefined>[]>;
+  bulkDelete(ids: IdOf<T>[]): Promise<BulkResult<void>[]>;
+  clear(): Promise<void>;
+  restore(id: IdOf<T>): Promise<T | undefined>;
+  purge(id: IdOf<T>): Promise<void>;
+  emptyTrash(before?: Date): Promise<void>;
 }
 
 export interface Table<T = any> {
-  insert(value: Omit<T, 'id'>): Promise<T>;
-  update(id: string, value: Partial<T>): Promise<T | undefined>;
-  delete(id: string): Promise<void>;
-  get(id: string): Promise<T | undefined>;
+  insert(value: NewRecord<T>): Promise<T>;
+  update(id: IdOf<T>, value: Partial<T>): Promise<T | undefined>;
+  delete(id: IdOf<T>): Promise<void>;
+  /**
+   * Insert many records in one transaction, with a single change
+   * notification. Resolves to a result per value, in input order.
+   */
+  bulkInsert(values: NewRecord<T>[]): Promise<BulkResult<T>[]>;
+  /** Insert or replace many records by id, in one transaction */
+  bulkPut(values: T[]): Promise<BulkResult<T>[]>;
+  /** Update many records in one transaction; missing ids yield `undefined` */
+  bulkUpdate(updates: BulkUpdate<T>[]): Promise<BulkResult<T | undefined>[]>;
+  /** Delete many records in one transaction */
+  bulkDelete(ids: IdOf<T>[]): Promise<BulkResult<void>[]>;
+  /** Delete every record of the model */
+  clear(): Promise<void>;
+  /**
+   * Take a soft-deleted record out of the trash. Resolves to the record,
+   * or `undefined` if there is no such record.
+   */
+  restore(id: IdOf<T>): Promise<T | undefined>;
+  /** Delete a record for good, bypassing the trash */
+  purge(id: IdOf<T>): Promise<void>;
+  /** Purge soft-deleted records, or only those deleted before `before` */
+  emptyTrash(before?: Date): Promise<void>;
+  /** Read soft-deleted records only */
+  trash(): TableView<T>;
+  /** Read live and soft-deleted records alike */
+  withDeleted(): TableView<T>;
+  get(id: IdOf<T>): Promise<T | undefined>;
   getAll(): Promise<T[]>;
   find(predicate: (item: T) => boolean): Promise<T[]>;
+  where(index: string | string[]): WhereClause<T>;
+  /** Number of records; `where()` queries have `count()` too */
+  count(): Promise<number>;
+  /**
+   * All records ordered by a field, walking its index when it has one.
+   * Records without a value in the field are left out.
+   */
+  orderBy(field: string, direction?: SortDirection): Query<T>;
+  /** A page of records in id order; see `Query.paginate()` */
+  paginate(options: PageOptions): Promise<Page<T>>;
+  /** Total of a numeric field over all records */
+  sum(field: string): Promise<number>;
+  /** Lowest value of a field, read from its index when it has one */
+  min<V = unknown>(field: string): Promise<V | undefined>;
+  /** Highest value of a field, read from its index when it has one */
+  max<V = unknown>(field: string): Promise<V | undefined>;
+  /** Aggregate records by the value of a field */
+  groupBy<K = unknown>(field: string): Grouping<T, K>;
+  /**
+   * Records whose search fields contain words of `query`, ranked by
+   * relevance (BM25), with where each field matched
+   */
+  search(query: string, options?: SearchOptions<T>): Promise<SearchResult<T>[]>;
+  /**
+   * Read with related records attached under each relation's name, e.g.
+   * `include('project', 'tags')`. Dotted paths (`'project.owner'`) reach
+   * further. Type the loaded fields with the type parameter.
+   */
+  include<R extends object = Record<string, unknown>>(
+    ...relations: string[]
+  ): TableView<T & R>;
 }
 
+/** The reading side of a table, returned by `include()`, `trash()` and `withDeleted()` */
+export type TableView<T> = Pick<
+  Table<T>,
+  | 'get'
+  | 'getAll'
+  | 'find'
+  | 'where'
+  | 'include'
+  | 'count'
+  | 'orderBy'
+  | 'paginate'
+  | 'sum'
+  | 'min'
+  | 'max'
+  | 'groupBy'
+  | 'search'
+>;
+
 export interface Model<T = any> {
   name: string;
+  indexes: IndexDefinition[];
+  schema?: StandardSchemaV1<unknown, NewRecord<T>>;
   store: Store<T>;
+  /**
+   * Check a record against the model's schema and apply its defaults,
+   * throwing a `ValidationError` if it does not match. Writes do this
+   * automatically; use it for data arriving from elsewhere (imports,
+   * sync) before trusting it. Without a schema it returns the input.
+   */
+  validate(value: unknown): T;
+  /** Relations declared in `defineModel(name, { relations })` */
+  relations: Record<string, Relation>;
+  /** Blobs referenced from the fields named in `defineModel(name, { attachments })` */
+  attachments: Attachments;
   table(): Table<T>;
-  subscribe(callback: StateListener): Unsubscribe;
+  subscribe(callback: ChangeListener<T>): Unsubscribe;
 }
 
-// ─── Shared DB connection manager ──────────────────────────────────
-// Tracks all registered store names per database and shares a single
-// connection, upgrading the schema when new stores are discovered.
-// All defineModel() calls must happen at module import time (before
-// any store operations) so that every store is registered before the
-// shared connection is opened.
+/**
+ * Handle passed to a transaction() callback. Tables obtained from it read
+ * and write inside the shared transaction.
+ */
+export interface Transaction {
+  readonly mode: TransactionMode;
+  table<T>(model: Model<T>): Table<T>;
+}
 
-const _dbStoreNames = new Map<string, Set<string>>();
-const _dbConnections = new Map<string, Promise<IDBDatabase>>();
+function changeEvent<T>(
+  id: RecordId,
+  before: T | undefined,
+  after: T | undefined
+): ChangeEvent<T> {
+  const type =
+    after === undefined ? 'delete' : before === undefined ? 'insert' : 'update';
+  return { type, id, before, after, source: 'local' };
+}
 
-function registerStoreName(dbName: string, storeName: string): void {
-  let stores = _dbStoreNames.get(dbName);
-  if (!stores) {
-    stores = new Set();
-    _dbStoreNames.set(dbName, stores);
+// Adapter errors are DOMExceptions, which don't extend Error everywhere
+function toError(error: unknown): Error {
+  if (error instanceof Error) return error;
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'name' in error &&
+    'message' in error
+  ) {
+    return error as Error;
   }
-  stores.add(storeName);
-  // Invalidate cached connection so the next access checks for missing stores
-  _dbConnections.delete(dbName);
+  return new Error(String(error));
 }
 
-function getDatabase(dbName: string): Promise<IDBDatabase> {
-  const cached = _dbConnections.get(dbName);
-  if (cached) return cached;
+/** Turns a record about to be written into what gets stored (validation) */
+type Prepare<T> = (record: T) => T;
 
-  const promise = openOrUpgrade(dbName);
-  _dbConnections.set(dbName, promise);
-  return promise;
-}
+const unchanged = <T>(record: T): T => record;
 
-function openOrUpgrade(dbName: string): Promise<IDBDatabase> {
-  const neededStores = _dbStoreNames.get(dbName) ?? new Set<string>();
+/**
+ * Store operations for one model inside an adapter transaction. Used for
+ * every ModelStore call (with a transaction of its own) and for all models
+ * taking part in a transaction().
+ */
+class TransactionStore<T extends { id: RecordId }> implements Store<T> {
+  private storeName: string;
 
-  return new Promise<IDBDatabase>((resolve, reject) => {
-    // Open without an explicit version to discover the current state
-    const probeReq = indexedDB.open(dbName);
+  constructor(
+    private transaction: AdapterTransaction,
+    private model: ModelStore<T>,
+    private notifyChange: ChangeListener<T>,
+    private scope: TransactionScope
+  ) {
+    this.storeName = model.storeName;
+  }
 
-    probeReq.onerror = () => reject(probeReq.error);
+  private hold<R>(work: Promise<R>): Promise<R> {
+    return this.transaction.keepAlive ? this.transaction.keepAlive(work) : work;
+  }
 
-    probeReq.onsuccess = () => {
-      const db = probeReq.result;
-      const missing = [...neededStores].filter(
-        (s) => !db.objectStoreNames.contains(s)
-      );
+  // A store for the same model that reports its changes to `listener`
+  private collecting(listener: ChangeListener<T>): TransactionStore<T> {
+    return new TransactionStore(
+      this.transaction,
+      this.model,
+      listener,
+      this.scope
+    );
+  }
 
-      if (missing.length === 0) {
-        resolve(db);
-        return;
-      }
+  private trashed(record: T): boolean {
+    return isTrashed(record, this.model.lifecycle);
+  }
 
-      // Upgrade needed — bump version and create missing stores
-      const newVersion = db.version + 1;
-      db.close();
-
-      const upgradeReq = indexedDB.open(dbName, newVersion);
-      upgradeReq.onerror = () => reject(upgradeReq.error);
-      upgradeReq.onsuccess = () => resolve(upgradeReq.result);
-      upgradeReq.onupgradeneeded = (event) => {
-        const udb = (event.target as IDBOpenDBRequest).result;
-        for (const store of neededStores) {
-          if (!udb.objectStoreNames.contains(store)) {
-            udb.createObjectStore(store, { keyPath: 'id' });
-          }
-        }
-      };
+  // Changes are reported as readers see them: tombstones count as deleted,
+  // so trashing a record reads as a delete and restoring it as an insert
+  private report(
+    id: RecordId,
+    before: T | undefined,
+    after: T | undefined
+  ): void {
+    const from = before && !this.trashed(before) ? before : undefined;
+    const to = after && !this.trashed(after) ? after : undefined;
+    if (from || to) this.notifyChange([changeEvent(id, from, to)]);
+  }
+
+  // Attachments a write stops pointing at are deleted along with it.
+  // Tombstones keep theirs until they are purged.
+  private async release(
+    before: T | undefined,
+    after: T | undefined
+  ): Promise<void> {
+    const attachments = this.model.attachments;
+    if (!attachments || !before) return;
+    const kept = new Set(attachmentIds(after, attachments.fields));
+    const scope = {
+      attachments: this.scope.store(attachments.attachments),
+      chunks: this.scope.store(attachments.chunks),
     };
+    for (const id of attachmentIds(before, attachments.fields)) {
+      if (!kept.has(id)) await deleteAttachment(scope, this.storeName, id);
+    }
+  }
 
-    // DB doesn't exist yet — create fresh with all registered stores
-    probeReq.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      for (const store of neededStores) {
-        if (!db.objectStoreNames.contains(store)) {
-          db.createObjectStore(store, { keyPath: 'id' });
+  private searchTarget(fields: string[]): SearchTarget {
+    return {
+      model: this.storeName,
+      fields,
+      version: getSchema(this.model.dbName)?.version ?? 0,
+    };
+  }
+
+  // Composite keys must match the record's key fields, and numeric ids
+  // keep the model's sequence ahead of them
+  private async claim(id: RecordId, record: T): Promise<void> {
+    const { strategy, sequences } = this.model.ids;
+    if (
+      typeof strategy === 'object' &&
+      keyOf(this.storeName, strategy.composite, record) !== id
+    ) {
+      throw new Error(
+        `Record ${JSON.stringify(id)} of model "${this.storeName}" does not match its key fields ${strategy.composite.join(', ')}. Key fields can't be changed; delete the record and insert a new one.`
+      );
+    }
+    if (sequences)
+      await advanceSequence(this.storeName, id, this.scope.store(sequences));
+  }
+
+  // Tombstones keep their unique index values, so reusing one fails.
+  // Say which trashed record is in the way instead of a bare constraint.
+  private async store(record: T): Promise<void> {
+    try {
+      await this.transaction.put(this.storeName, record);
+    } catch (error) {
+      throw (await this.trashedConflict(record)) ?? error;
+    }
+  }
+
+  private async trashedConflict(record: T): Promise<Error | undefined> {
+    if (!this.model.lifecycle.softDelete) return undefined;
+    for (const index of this.model.indexes) {
+      if (!index.unique) continue;
+      for (const key of extractIndexKeys(record, index)) {
+        const [holder] = await this.query({
+          index: index.name,
+          ranges: [{ lower: key, upper: key }],
+          reverse: false,
+          unique: false,
+          filters: [],
+          sortBy: null,
+          offset: 0,
+          limit: 1,
+        });
+        if (holder && holder.id !== record.id && this.trashed(holder)) {
+          return new DOMException(
+            `Unique index "${index.name}" of model "${this.storeName}" already holds this value for trashed record ${JSON.stringify(holder.id)}. Restore it with restore(), or delete it for good with purge(), first.`,
+            'ConstraintError'
+          );
         }
       }
-    };
-  });
-}
+    }
+    return undefined;
+  }
 
-class IndexedDBStore<T extends { id: string }> implements Store<T> {
-  private db: IDBDatabase | null = null;
-  private fallbackStore?: InMemoryStore<T>;
-  private isInitialized = false;
+  // Keeps the model's search index in step with its records
+  private async index(id: RecordId, record: T | undefined): Promise<void> {
+    const search = this.model.searchIndex;
+    if (!search) return;
+    await updateSearchIndex(
+      { index: this.scope.store(search.index), records: this },
+      this.searchTarget(search.fields),
+      id,
+      record
+    );
+  }
 
-  constructor(
-    private dbName: string,
-    private storeName: string,
-    private notifyChange: () => void
-  ) {
-    registerStoreName(dbName, storeName);
+  // Every write goes through the model's middleware and hooks, which may
+  // have replaced the record by the time it is stored. Deletes of
+  // soft-deleting models leave a tombstone unless `purge` is set.
+  private async write(
+    operation: WriteOperation<T>,
+    purge = false
+  ): Promise<T | undefined> {
+    const { id, previous } = operation;
+    const { softDelete, ttl } = this.model.lifecycle;
+    await this.model.pipeline(
+      operation,
+      async () => {
+        if (operation.type === 'delete') {
+          const cascade = await prepareDelete(
+            this.storeName,
+            this.model.relations,
+            previous!,
+            (model) => this.scope.table(model)
+          );
+          if (softDelete && !purge) {
+            const tombstone = { ...previous!, [DELETED_AT]: new Date() };
+            await this.transaction.put(this.storeName, tombstone);
+            this.report(id, previous, tombstone);
+          } else {
+            await this.transaction.delete(this.storeName, id);
+            await this.release(previous!, undefined);
+            await this.index(id, undefined);
+            this.report(id, previous, undefined);
+          }
+          await cascade();
+          return;
+        }
+        let record = this.model.prepare({ ...operation.record!, id });
+        if (ttl !== undefined)
+          record = { ...record, [EXPIRES_AT]: new Date(Date.now() + ttl) };
+        await this.claim(id, record);
+        await this.store(record);
+        await this.release(previous, record);
+        await this.index(id, record);
+        operation.record = record;
+        this.report(id, previous, record);
+      },
+      (work) => this.hold(work)
+    );
+    return operation.record;
   }
 
-  private async init(): Promise<void> {
-    if (this.isInitialized) return;
+  // `before` is what the record looked like, if it existed
+  private async put(id: RecordId, value: T, before: T | undefined): Promise<T> {
+    const type = before === undefined ? 'insert' : 'update';
+    return (await this.write({
+      type,
+      model: this.storeName,
+      id,
+      record: value,
+      previous: before,
+    }))!;
+  }
 
-    try {
-      if (typeof window === 'undefined' || !window.indexedDB) {
-        throw new Error('IndexedDB not available');
-      }
+  private async remove(record: T, purge = false): Promise<void> {
+    await this.write(
+      {
+        type: 'delete',
+        model: this.storeName,
+        id: record.id,
+        previous: record,
+      },
+      purge
+    );
+  }
 
-      this.db = await getDatabase(this.dbName);
-      this.isInitialized = true;
-    } catch (error) {
-      console.warn('IndexedDB unavailable, falling back to in-memory storage:', error);
-      this.fallbackStore = new InMemoryStore<T>(this.notifyChange);
-      this.isInitialized = true;
+  /**
+   * Write a record back as a history recorded it, for undo and redo. It
+   * went through the model's middleware, hooks, validation and TTL when it
+   * was first written, so none of that runs again. Delete rules still
+   * apply, and soft-deleting models get a tombstone. Attachments deleted
+   * since are dropped from the record rather than left dangling.
+   */
+  async writeSnapshot(id: RecordId, snapshot: T | undefined): Promise<void> {
+    const before = await this.get(id);
+    if (snapshot === undefined) {
+      if (before === undefined || this.trashed(before)) return;
+      const cascade = await prepareDelete(
+        this.storeName,
+        this.model.relations,
+        before,
+        (model) => this.scope.table(model)
+      );
+      if (this.model.lifecycle.softDelete) {
+        const tombstone = { ...before, [DELETED_AT]: new Date() };
+        await this.transaction.put(this.storeName, tombstone);
+        this.report(id, before, tombstone);
+      } else {
+        await this.transaction.delete(this.storeName, id);
+        await this.release(before, undefined);
+        await this.index(id, undefined);
+        this.report(id, before, undefined);
+      }
+      await cascade();
+      return;
     }
+    const attachments = this.model.attachments;
+    const record = attachments
+      ? await dropMissingAttachments(
+          this.scope.store(attachments.attachments),
+          this.storeName,
+          snapshot,
+          attachments.fields
+        )
+      : snapshot;
+    await this.claim(id, record);
+    await this.store(record);
+    await this.release(before, record);
+    await this.index(id, record);
+    this.report(id, before, record);
+  }
+
+  async get(id: RecordId): Promise<T | undefined> {
+    return this.transaction.get<T>(this.storeName, id);
   }
 
-  private async getObjectStore(mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> {
-    await this.init();
-    if (!this.db) throw new Error('Database not initialized');
-    const transaction = this.db.transaction([this.storeName], mode);
-    return transaction.objectStore(this.storeName);
+  async set(id: RecordId, value: T): Promise<void> {
+    await this.put(id, value, await this.get(id));
   }
 
-  async get(id: string): Promise<T | undefined> {
-    await this.init();
+  async delete(id: RecordId): Promise<void> {
+    const before = await this.get(id);
+    if (before !== undefined && !this.trashed(before))
+      await this.remove(before);
+  }
 
-    if (this.fallbackStore) {
-      return this.fallbackStore.get(id);
+  async getAll(): Promise<T[]> {
+    return this.transaction.getAll<T>(this.storeName);
+  }
+
+  async insert(value: NewRecord<T>): Promise<T> {
+    const { strategy, sequences } = this.model.ids;
+    const id = await assignId(this.storeName, strategy, value, () =>
+      this.scope.store(sequences!)
+    );
+    if ((await this.get(id)) !== undefined) {
+      throw new Error(
+        `Model "${this.storeName}" already has a record with id ${JSON.stringify(id)}`
+      );
     }
+    return this.put(id, { ...value, id } as T, undefined);
+  }
 
-    const store = await this.getObjectStore('readonly');
-    return new Promise((resolve, reject) => {
-      const request = store.get(id);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
+  async update(id: RecordId, value: Partial<T>): Promise<T | undefined> {
+    const existing = await this.get(id);
+    if (!existing || this.trashed(existing)) return undefined;
+    return this.put(id, { ...existing, ...value }, existing);
+  }
+
+  async restore(id: RecordId): Promise<T | undefined> {
+    const record = await this.get(id);
+    if (!record || !this.trashed(record)) return record;
+    const restored: Record<string, unknown> = { ...record };
+    delete restored[DELETED_AT];
+    return this.write({
+      type: 'update',
+      model: this.storeName,
+      id,
+      record: restored as T,
+      previous: record,
     });
   }
 
-  async set(id: string, value: T): Promise<void> {
-    await this.init();
+  async purge(id: RecordId): Promise<void> {
+    const record = await this.get(id);
+    if (record !== undefined) await this.remove(record, true);
+  }
 
-    if (this.fallbackStore) {
-      await this.fallbackStore.set(id, value);
-      return;
-    }
+  // Purges records as one batch of changes
+  private async purgeAll(records: T[]): Promise<void> {
+    const events: ChangeEvent<T>[] = [];
+    const store = this.collecting((batch) => events.push(...batch));
+    for (const record of records) await store.remove(record, true);
+    if (events.length > 0) this.notifyChange(events);
+  }
+
+  async emptyTrash(before?: Date): Promise<void> {
+    const cutoff = before?.getTime() ?? Infinity;
+    const trashed = (await this.getAll()).filter(
+      (record) =>
+        this.trashed(record) &&
+        ((record as Record<string, unknown>)[DELETED_AT] as Date).getTime() <
+          cutoff
+    );
+    await this.purgeAll(trashed);
+  }
 
-    const store = await this.getObjectStore('readwrite');
-    await new Promise<void>((resolve, reject) => {
-      const request = store.put(value);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+  /** Purge records whose `expiresAt` is past `now` */
+  async purgeExpired(now: Date): Promise<void> {
+    const index = resolveIndex(this.model.indexes, EXPIRES_AT)!;
+    const expired = await this.query({
+      index: index.name,
+      ranges: [{ upper: now }],
+      reverse: false,
+      unique: false,
+      filters: [],
+      sortBy: null,
+      offset: 0,
+      limit: null,
     });
+    await this.purgeAll(expired);
+  }
 
-    this.notifyChange();
+  query(plan: QueryPlan<T>): Promise<T[]> {
+    return this.transaction.query(this.storeName, plan);
   }
 
-  async delete(id: string): Promise<void> {
-    await this.init();
+  async scan(plan: QueryPlan<T>, visit: (record: T) => void): Promise<void> {
+    if (this.transaction.scan)
+      return this.transaction.scan(this.storeName, plan, visit);
+    (await this.query(plan)).forEach((record) => visit(record));
+  }
 
-    if (this.fallbackStore) {
-      await this.fallbackStore.delete(id);
-      return;
+  async search(
+    query: string,
+    options?: SearchOptions<T>
+  ): Promise<SearchResult<T>[]> {
+    const search = this.model.searchIndex;
+    if (!search) {
+      throw new Error(
+        `Model "${this.storeName}" has no search fields. Declare them with defineModel(name, { search: ['field'] }).`
+      );
     }
+    return searchRecords(
+      { index: this.scope.store(search.index), records: this },
+      this.searchTarget(search.fields),
+      query,
+      options
+    );
+  }
 
-    const store = await this.getObjectStore('readwrite');
-    await new Promise<void>((resolve, reject) => {
-      const request = store.delete(id);
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-    });
+  // Runs each item on its own, so one failure doesn't stop the rest, and
+  // reports the items' changes together
+  private async bulk<I, R>(
+    items: I[],
+    operation: (store: TransactionStore<T>, item: I) => Promise<R>
+  ): Promise<BulkResult<R>[]> {
+    const events: ChangeEvent<T>[] = [];
+    const store = this.collecting((batch) => events.push(...batch));
+    const results: BulkResult<R>[] = [];
+    for (const item of items) {
+      try {
+        results.push({ ok: true, value: await operation(store, item) });
+      } catch (error) {
+        results.push({ ok: false, error: toError(error) });
+      }
+    }
+    if (events.length > 0) this.notifyChange(events);
+    return results;
+  }
 
-    this.notifyChange();
+  bulkInsert(values: NewRecord<T>[]): Promise<BulkResult<T>[]> {
+    return this.bulk(values, (store, value) => store.insert(value));
   }
 
-  async getAll(): Promise<T[]> {
-    await this.init();
+  bulkPut(values: T[]): Promise<BulkResult<T>[]> {
+    return this.bulk(values, async (store, value) =>
+      store.put(value.id, value, await store.get(value.id))
+    );
+  }
 
-    if (this.fallbackStore) {
-      return this.fallbackStore.getAll();
-    }
+  bulkUpdate(updates: BulkUpdate<T>[]): Promise<BulkResult<T | undefined>[]> {
+    return this.bulk(updates, (store, { id, changes }) =>
+      store.update(id, changes)
+    );
+  }
 
-    const store = await this.getObjectStore('readonly');
-    return new Promise((resolve, reject) => {
-      const request = store.getAll();
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
-    });
+  bulkDelete(ids: RecordId[]): Promise<BulkResult<void>[]> {
+    return this.bulk(ids, (store, id) => store.delete(id));
   }
 
-  async insert(value: Omit<T, 'id'>): Promise<T> {
-    await this.init();
+  async clear(): Promise<void> {
+    const events: ChangeEvent<T>[] = [];
+    const store = this.collecting((batch) => events.push(...batch));
+    for (const record of await this.getAll()) {
+      if (!this.trashed(record)) await store.remove(record);
+    }
+    if (events.length > 0) this.notifyChange(events);
+  }
+}
+
+type AnyModelStore = ModelStore<{ id: RecordId }>;
+
+/**
+ * The models' stores inside one adapter transaction. Changes are held
+ * back per model and delivered as one batch each after commit.
+ */
+class TransactionScope {
+  private stores = new Map<AnyModelStore, unknown>();
+  private changed = new Map<AnyModelStore, ChangeEvent<{ id: RecordId }>[]>();
+
+  constructor(
+    private transaction: AdapterTransaction,
+    private members: AnyModelStore[]
+  ) {}
 
-    if (this.fallbackStore) {
-      return this.fallbackStore.insert(value);
+  store<T extends { id: RecordId }>(model: ModelStore<T>): TransactionStore<T> {
+    const key = model as unknown as AnyModelStore;
+    let store = this.stores.get(key) as TransactionStore<T> | undefined;
+    if (!store) {
+      store = new TransactionStore(
+        model.view(this.transaction),
+        model,
+        (events) =>
+          this.changed.set(key, [...(this.changed.get(key) ?? []), ...events]),
+        this
+      );
+      this.stores.set(key, store);
     }
+    return store;
+  }
 
-    const id = crypto.randomUUID();
-    const item = { ...value, id } as T;
-    await this.set(id, item);
-    return item;
+  table<T extends { id: RecordId }>(model: Model<T>): Table<T> {
+    const store = storeOf(model) as unknown as ModelStore<T>;
+    if (!this.members.includes(store as unknown as AnyModelStore)) {
+      throw new Error(`Model "${model.name}" is not part of this transaction`);
+    }
+    return new TableImpl(model, this.store(store), (related) =>
+      this.table(related)
+    );
   }
 
-  async update(id: string, value: Partial<T>): Promise<T | undefined> {
-    await this.init();
+  /** Every change made so far, as subscribers will receive it */
+  events(): ChangeEvent[] {
+    return [...this.changed.values()].flat();
+  }
 
-    if (this.fallbackStore) {
-      return this.fallbackStore.update(id, value);
+  notify(): void {
+    for (const [model, events] of this.changed) model.notifyChange(events);
+  }
+}
+
+// Writes can reach the stores of models their delete rules point at, and
+// the attachment stores, so those join the transaction too
+function withDependents(stores: AnyModelStore[]): AnyModelStore[] {
+  const all = new Set(stores);
+  for (const store of all) {
+    if (store.attachments) {
+      all.add(store.attachments.attachments as unknown as AnyModelStore);
+      all.add(store.attachments.chunks as unknown as AnyModelStore);
+    }
+    if (store.searchIndex)
+      all.add(store.searchIndex.index as unknown as AnyModelStore);
+    if (store.ids.sequences)
+      all.add(store.ids.sequences as unknown as AnyModelStore);
+    for (const [name, relation] of Object.entries(store.relations)) {
+      if (relation.kind !== 'hasMany' || !relation.onDelete) continue;
+      const dependent = storeOf(relatedModel(relation));
+      if (dependent.dbName !== store.dbName) {
+        throw new Error(
+          `Relation "${name}" of model "${store.storeName}" must point to a model in the same database`
+        );
+      }
+      all.add(dependent);
     }
+  }
+  return [...all];
+}
 
-    const existing = await this.get(id);
-    if (!existing) return undefined;
-    const updated = { ...existing, ...value };
-    await this.set(id, updated);
-    return updated;
+/**
+ * Run `operation` in one adapter transaction over `stores` (plus, for
+ * writes, the stores their delete rules reach). Aborts if it throws;
+ * otherwise commits and then notifies each model's subscribers.
+ */
+async function runScoped<R>(
+  stores: AnyModelStore[],
+  mode: TransactionMode,
+  operation: (scope: TransactionScope) => Promise<R> | R
+): Promise<R> {
+  if (mode === 'readwrite') stores = withDependents(stores);
+  // Searches read the search index, so it joins reads as well
+  const searchIndexes = stores.flatMap((store) =>
+    store.searchIndex
+      ? [store.searchIndex.index as unknown as AnyModelStore]
+      : []
+  );
+  stores = [...new Set([...stores, ...searchIndexes])];
+  if (new Set(stores.map((store) => store.dbName)).size > 1) {
+    throw new Error('All models in a transaction must share the same database');
+  }
+  const adapters = await Promise.all(stores.map((store) => store.init()));
+  if (new Set(adapters).size > 1) {
+    throw new Error(
+      'All models in a transaction must use the same storage adapter'
+    );
+  }
+
+  const transaction = await adapters[0].transaction(
+    stores[0].dbName,
+    stores.map((store) => store.storeName),
+    mode
+  );
+  const scope = new TransactionScope(transaction, stores);
+  let result: R;
+  try {
+    result = await operation(scope);
+  } catch (error) {
+    transaction.abort();
+    throw error;
+  }
+  await transaction.commit();
+  scope.notify();
+  return result;
+}
+
+// Stands in for any adapter that can't open here (e.g. IndexedDB in SSR)
+let _fallbackAdapter: StorageAdapter | undefined;
+
+function fallbackAdapter(): StorageAdapter {
+  _fallbackAdapter ??= createMemoryAdapter();
+  return _fallbackAdapter;
+}
+
+const defaultAdapter = createIndexedDBAdapter();
+
+/** The stores holding a database's attachments, shared by its models */
+interface AttachmentStores {
+  attachments: ModelStore<AttachmentRecord>;
+  chunks: ModelStore<ChunkRecord>;
+}
+
+/** A model's attachment fields and where their attachments are stored */
+interface ModelAttachmentStores extends AttachmentStores {
+  fields: string[];
+}
+
+const _attachmentStores = new WeakMap<
+  StorageAdapter,
+  Map<string, AttachmentStores>
+>();
+
+function attachmentStores(
+  adapter: StorageAdapter,
+  dbName: string,
+  vault?: KeyVault
+): AttachmentStores {
+  let databases = _attachmentStores.get(adapter);
+  if (!databases) {
+    databases = new Map();
+    _attachmentStores.set(adapter, databases);
+  }
+  let stores = databases.get(dbName);
+  if (!stores) {
+    stores = {
+      attachments: new ModelStore<AttachmentRecord>(
+        adapter,
+        dbName,
+        ATTACHMENTS_STORE,
+        () => {},
+        [],
+        unchanged,
+        vault
+      ),
+      chunks: new ModelStore<ChunkRecord>(
+        adapter,
+        dbName,
+        CHUNKS_STORE,
+        () => {},
+        [],
+        unchanged,
+        vault
+      ),
+    };
+    databases.set(dbName, stores);
+  }
+  if (stores.attachments.vault !== vault) {
+    throw new Error(
+      `Models with attachments in database "${dbName}" must all use the same vault, or none`
+    );
   }
+  return stores;
 }
 
-class InMemoryStore<T extends { id: string }> implements Store<T> {
-  private data: Map<string, T> = new Map();
+/** A model's search fields and the store holding its index */
+interface ModelSearch {
+  index: ModelStore<SearchEntry>;
+  fields: string[];
+}
 
-  constructor(private notifyChange: () => void) {}
+const _searchStores = new WeakMap<
+  StorageAdapter,
+  Map<string, ModelStore<SearchEntry>>
+>();
 
-  async get(id: string): Promise<T | undefined> {
-    return this.data.get(id);
+// One store holds the search indexes of all models in a database
+function searchStore(
+  adapter: StorageAdapter,
+  dbName: string
+): ModelStore<SearchEntry> {
+  let databases = _searchStores.get(adapter);
+  if (!databases) {
+    databases = new Map();
+    _searchStores.set(adapter, databases);
+  }
+  let store = databases.get(dbName);
+  if (!store) {
+    store = new ModelStore<SearchEntry & { id: RecordId }>(
+      adapter,
+      dbName,
+      SEARCH_STORE,
+      () => {}
+    );
+    databases.set(dbName, store);
   }
+  return store;
+}
 
-  async set(id: string, value: T): Promise<void> {
-    this.data.set(id, value);
-    this.notifyChange();
+/** How a model makes ids, and for `autoincrement`, where it counts them */
+interface ModelIds {
+  strategy: IdStrategy;
+  sequences?: ModelStore<SequenceRecord>;
+}
+
+const _sequenceStores = new WeakMap<
+  StorageAdapter,
+  Map<string, ModelStore<SequenceRecord>>
+>();
+
+// One store holds the sequences of all autoincrement models in a database
+function sequenceStore(
+  adapter: StorageAdapter,
+  dbName: string
+): ModelStore<SequenceRecord> {
+  let databases = _sequenceStores.get(adapter);
+  if (!databases) {
+    databases = new Map();
+    _sequenceStores.set(adapter, databases);
+  }
+  let store = databases.get(dbName);
+  if (!store) {
+    store = new ModelStore<SequenceRecord>(
+      adapter,
+      dbName,
+      SEQUENCES_STORE,
+      () => {}
+    );
+    databases.set(dbName, store);
+  }
+  return store;
+}
+
+/**
+ * A model's store. Each call runs in its own adapter transaction and
+ * notifies subscribers once it has committed.
+ */
+class ModelStore<T extends { id: RecordId }> implements Store<T> {
+  private opening?: Promise<StorageAdapter>;
+  private active?: StorageAdapter;
+  private sweeper?: ReturnType<typeof setInterval>;
+  // Set once the search index is known to be built
+  private searchable = false;
+
+  constructor(
+    readonly adapter: StorageAdapter,
+    readonly dbName: string,
+    readonly storeName: string,
+    readonly notifyChange: ChangeListener<T>,
+    readonly indexes: IndexDefinition[] = [],
+    readonly prepare: Prepare<T> = unchanged,
+    readonly vault?: KeyVault,
+    readonly pipeline: WritePipeline<T> = directWrite,
+    readonly relations: Record<string, Relation> = {},
+    readonly lifecycle: Lifecycle = {},
+    readonly attachments?: ModelAttachmentStores,
+    readonly searchIndex?: ModelSearch,
+    readonly ids: ModelIds = { strategy: 'uuid' }
+  ) {
+    adapter.defineStore(dbName, storeName, indexes);
+    vault?.register(this);
   }
 
-  async delete(id: string): Promise<void> {
-    this.data.delete(id);
-    this.notifyChange();
+  /** This model's side of an adapter transaction, encrypted if it uses a vault */
+  view(transaction: AdapterTransaction): AdapterTransaction {
+    return this.vault
+      ? this.vault.wrap(transaction, this.storeName, this.indexes)
+      : transaction;
+  }
+
+  /** Open the adapter, falling back to memory if it can't run here */
+  init(): Promise<StorageAdapter> {
+    this.opening ??= this.open().catch((error) => {
+      // Let the next call try again
+      this.opening = undefined;
+      throw error;
+    });
+    return this.opening;
+  }
+
+  private async open(): Promise<StorageAdapter> {
+    try {
+      await this.adapter.open(this.dbName);
+      this.active = this.adapter;
+    } catch (error) {
+      // Schema problems mean the data exists but can't be used safely;
+      // surface them instead of silently switching to an empty store.
+      if (
+        error instanceof SchemaVersionError ||
+        error instanceof MigrationError
+      ) {
+        throw error;
+      }
+      console.warn(
+        `${this.adapter.name === 'indexeddb' ? 'IndexedDB' : `Storage adapter "${this.adapter.name}"`} unavailable, falling back to in-memory storage:`,
+        error
+      );
+      const fallback = fallbackAdapter();
+      fallback.defineStore(this.dbName, this.storeName, this.indexes);
+      await fallback.open(this.dbName);
+      this.active = fallback;
+    }
+    this.startSweeping();
+    return this.active;
+  }
+
+  // Expired records are removed on open, then every sweepInterval
+  private startSweeping(): void {
+    const { ttl, sweepInterval = 60_000 } = this.lifecycle;
+    if (ttl === undefined || this.sweeper) return;
+    const sweep = () => {
+      this.sweep().catch((error) =>
+        console.warn(
+          `Could not remove expired "${this.storeName}" records:`,
+          error
+        )
+      );
+    };
+    this.sweeper = setInterval(sweep, sweepInterval);
+    // Don't keep Node (SSR, tests) running just to sweep
+    (this.sweeper as { unref?: () => void }).unref?.();
+    sweep();
+  }
+
+  /** Delete the records whose TTL has run out */
+  async sweep(): Promise<void> {
+    // Encrypted records can't be read while locked; the next sweep will do
+    if (this.vault?.locked) return;
+    await this.run('readwrite', (store) => store.purgeExpired(new Date()));
+  }
+
+  /** The adapter in use, once init() has run */
+  get activeAdapter(): StorageAdapter | undefined {
+    return this.active;
+  }
+
+  private async run<R>(
+    mode: TransactionMode,
+    operation: (store: TransactionStore<T>) => Promise<R>
+  ): Promise<R> {
+    return runScoped([this as unknown as AnyModelStore], mode, (scope) =>
+      operation(scope.store(this))
+    );
+  }
+
+  async get(id: RecordId): Promise<T | undefined> {
+    return this.run('readonly', (store) => store.get(id));
+  }
+
+  async set(id: RecordId, value: T): Promise<void> {
+    return this.run('readwrite', (store) => store.set(id, value));
+  }
+
+  async delete(id: RecordId): Promise<void> {
+    return this.run('readwrite', (store) => store.delete(id));
   }
 
   async getAll(): Promise<T[]> {
-    return Array.from(this.data.values());
+    return this.run('readonly', (store) => store.getAll());
   }
 
-  async insert(value: Omit<T, 'id'>): Promise<T> {
-    const id = crypto.randomUUID();
-    const item = { ...value, id } as T;
-    await this.set(id, item);
-    return item;
+  async insert(value: NewRecord<T>): Promise<T> {
+    return this.run('readwrite', (store) => store.insert(value));
   }
 
-  async update(id: string, value: Partial<T>): Promise<T | undefined> {
-    const existing = await this.get(id);
-    if (!existing) return undefined;
-    const updated = { ...existing, ...value };
-    await this.set(id, updated);
-    return updated;
+  async update(id: RecordId, value: Partial<T>): Promise<T | undefined> {
+    return this.run('readwrite', (store) => store.update(id, value));
+  }
+
+  async query(plan: QueryPlan<T>): Promise<T[]> {
+    return this.run('readonly', (store) => store.query(plan));
+  }
+
+  async scan(plan: QueryPlan<T>, visit: (record: T) => void): Promise<void> {
+    return this.run('readonly', (store) => store.scan(plan, visit));
+  }
+
+  async search(
+    query: string,
+    options?: SearchOptions<T>
+  ): Promise<SearchResult<T>[]> {
+    // The first search may have to build the index
+    const results = await this.run(
+      this.searchable ? 'readonly' : 'readwrite',
+      (store) => store.search(query, options)
+    );
+    this.searchable = true;
+    return results;
+  }
+
+  async bulkInsert(values: NewRecord<T>[]): Promise<BulkResult<T>[]> {
+    return this.run('readwrite', (store) => store.bulkInsert(values));
+  }
+
+  async bulkPut(values: T[]): Promise<BulkResult<T>[]> {
+    return this.run('readwrite', (store) => store.bulkPut(values));
+  }
+
+  async bulkUpdate(
+    updates: BulkUpdate<T>[]
+  ): Promise<BulkResult<T | undefined>[]> {
+    return this.run('readwrite', (store) => store.bulkUpdate(updates));
+  }
+
+  async bulkDelete(ids: RecordId[]): Promise<BulkResult<void>[]> {
+    return this.run('readwrite', (store) => store.bulkDelete(ids));
+  }
+
+  async clear(): Promise<void> {
+    return this.run('readwrite', (store) => store.clear());
   }
+
+  async restore(id: RecordId): Promise<T | undefined> {
+    return this.run('readwrite', (store) => store.restore(id));
+  }
+
+  async purge(id: RecordId): Promise<void> {
+    return this.run('readwrite', (store) => store.purge(id));
+  }
+
+  async emptyTrash(before?: Date): Promise<void> {
+    return this.run('readwrite', (store) => store.emptyTrash(before));
+  }
+}
+
+/** What a table's reads return */
+interface ReadOptions {
+  /** Relations attached to the records, from include() */
+  include: string[];
+  visibility: Visibility;
 }
 
-class TableImpl<T extends { id: string }> implements Table<T> {
-  constructor(private store: Store<T>) {}
+class TableImpl<T extends { id: RecordId }> implements Table<T> {
+  private indexes: IndexDefinition[];
+  private lifecycle: Lifecycle;
+
+  constructor(
+    private model: Model<T>,
+    private store: Store<T>,
+    // Where related records are read from
+    private tableFor: (model: Model) => Table = (model) => model.table(),
+    private reads: ReadOptions = { include: [], visibility: 'live' }
+  ) {
+    this.indexes = model.indexes;
+    this.lifecycle = storeOf(model).lifecycle;
+  }
+
+  private view<R>(changes: Partial<ReadOptions>): TableView<R> {
+    return new TableImpl(this.model, this.store, this.tableFor, {
+      ...this.reads,
+      ...changes,
+    }) as unknown as TableView<R>;
+  }
+
+  private visible = (record: T): boolean =>
+    isVisible(record, this.lifecycle, this.reads.visibility);
+
+  private source: QuerySource<T> = {
+    query: (plan) => this.query(plan),
+    scan: (plan, visit) => this.scan(plan, visit),
+  };
+
+  private load(records: T[]): Promise<T[]> {
+    return loadRelations(
+      this.model,
+      records.filter(this.visible),
+      this.reads.include,
+      this.tableFor
+    );
+  }
+
+  private assertSoftDelete(): void {
+    if (!this.lifecycle.softDelete) {
+      throw new Error(
+        `Model "${this.model.name}" does not use soft delete. Enable it with defineModel(name, { softDelete: true }).`
+      );
+    }
+  }
+
+  include<R extends object = Record<string, unknown>>(
+    ...relations: string[]
+  ): TableView<T & R> {
+    for (const path of relations)
+      assertRelation(this.model, path.split('.')[0]);
+    return this.view({ include: [...this.reads.include, ...relations] });
+  }
+
+  trash(): TableView<T> {
+    this.assertSoftDelete();
+    return this.view({ visibility: 'trash' });
+  }
+
+  withDeleted(): TableView<T> {
+    return this.view({ visibility: 'all' });
+  }
+
+  async restore(id: IdOf<T>): Promise<T | undefined> {
+    this.assertSoftDelete();
+    return this.store.restore(id);
+  }
+
+  async purge(id: IdOf<T>): Promise<void> {
+    return this.store.purge(id);
+  }
+
+  async emptyTrash(before?: Date): Promise<void> {
+    this.assertSoftDelete();
+    return this.store.emptyTrash(before);
+  }
 
-  async insert(value: Omit<T, 'id'>): Promise<T> {
+  async insert(value: NewRecord<T>): Promise<T> {
     return this.store.insert(value);
   }
 
-  async update(id: string, value: Partial<T>): Promise<T | undefined> {
+  async update(id: IdOf<T>, value: Partial<T>): Promise<T | undefined> {
     return this.store.update(id, value);
   }
 
-  async delete(id: string): Promise<void> {
+  async delete(id: IdOf<T>): Promise<void> {
     return this.store.delete(id);
   }
 
-  async get(id: string): Promise<T | undefined> {
-    return this.store.get(id);
+  async bulkInsert(values: NewRecord<T>[]): Promise<BulkResult<T>[]> {
+    return this.store.bulkInsert(values);
+  }
+
+  async bulkPut(values: T[]): Promise<BulkResult<T>[]> {
+    return this.store.bulkPut(values);
+  }
+
+  async bulkUpdate(
+    updates: BulkUpdate<T>[]
+  ): Promise<BulkResult<T | undefined>[]> {
+    return this.store.bulkUpdate(updates);
+  }
+
+  async bulkDelete(ids: IdOf<T>[]): Promise<BulkResult<void>[]> {
+    return this.store.bulkDelete(ids);
+  }
+
+  async clear(): Promise<void> {
+    return this.store.clear();
+  }
+
+  async get(id: IdOf<T>): Promise<T | undefined> {
+    const record = await this.store.get(id);
+    return record && (await this.load([record]))[0];
   }
 
   async getAll(): Promise<T[]> {
-    return this.store.getAll();
+    return this.load(await this.store.getAll());
   }
 
   async find(predicate: (item: T) => boolean): Promise<T[]> {
     const all = await this.getAll();
     return all.filter(predicate);
   }
+
+  where(index: string | string[]): WhereClause<T> {
+    const resolved = resolveIndex(this.indexes, index);
+    if (!resolved) {
+      const label = Array.isArray(index)
+        ? `[${index.join(', ')}]`
+        : `"${index}"`;
+      throw new Error(
+        `Model "${this.model.name}" has no index on ${label}. Declare it in defineModel(name, { indexes }).`
+      );
+    }
+    return new WhereClause<T>(this.source, this.indexes, resolved);
+  }
+
+  count(): Promise<number> {
+    return this.all().count();
+  }
+
+  orderBy(field: string, direction: SortDirection = 'asc'): Query<T> {
+    return this.all(field).orderBy(field, direction);
+  }
+
+  paginate(options: PageOptions): Promise<Page<T>> {
+    return this.all().paginate(options);
+  }
+
+  sum(field: string): Promise<number> {
+    return this.all().sum(field);
+  }
+
+  // An index walk finds the extremes without reading every record
+  private async extreme<V>(
+    field: string,
+    direction: SortDirection
+  ): Promise<V | undefined> {
+    const index = resolveIndex(this.indexes, field);
+    if (!index || index.multiEntry || index.keyPath !== field) {
+      return direction === 'asc'
+        ? this.all().min<V>(field)
+        : this.all().max<V>(field);
+    }
+    const record = await this.orderBy(field, direction).first();
+    return record && (getValueAtPath(record, field) as V);
+  }
+
+  min<V = unknown>(field: string): Promise<V | undefined> {
+    return this.extreme<V>(field, 'asc');
+  }
+
+  max<V = unknown>(field: string): Promise<V | undefined> {
+    return this.extreme<V>(field, 'desc');
+  }
+
+  groupBy<K = unknown>(field: string): Grouping<T, K> {
+    return this.all().groupBy<K>(field);
+  }
+
+  async search(
+    query: string,
+    options: SearchOptions<T> = {}
+  ): Promise<SearchResult<T>[]> {
+    const { filter } = options;
+    const results = await this.store.search(query, {
+      ...options,
+      filter: (record) => this.visible(record) && (!filter || filter(record)),
+    });
+    const records = await this.load(results.map((result) => result.record));
+    return results.map((result, i) => ({ ...result, record: records[i] }));
+  }
+
+  private all(field?: string): Query<T> {
+    return tableQuery(this.source, this.indexes, field);
+  }
+
+  // Hidden records must not count towards offset and limit
+  private withVisibility(plan: QueryPlan<T>): QueryPlan<T> {
+    if (!this.lifecycle.softDelete && this.lifecycle.ttl === undefined)
+      return plan;
+    return { ...plan, filters: [this.visible, ...plan.filters] };
+  }
+
+  private async query(plan: QueryPlan<T>): Promise<T[]> {
+    plan = this.withVisibility(plan);
+    if (this.reads.include.length === 0 || plan.filters.length === 0) {
+      return this.load(await this.store.query(plan));
+    }
+    // Filters may look at related records, so they run once those are loaded
+    const candidates = await this.store.query({
+      ...plan,
+      unique: true,
+      filters: [],
+      sortBy: null,
+      offset: 0,
+      limit: null,
+    });
+    return scanRecords(await this.load(candidates), plan, this.indexes);
+  }
+
+  private async scan(
+    plan: QueryPlan<T>,
+    visit: (record: T) => void
+  ): Promise<void> {
+    // Records with related ones attached have to be loaded in full
+    if (this.reads.include.length > 0) {
+      (await this.query(plan)).forEach((record) => visit(record));
+      return;
+    }
+    await this.store.scan(this.withVisibility(plan), visit);
+  }
 }
 
-export function defineModel<T extends { id: string }>(name: string): Model<T> {
-  const listeners = new Set<StateListener>();
-  const notify = () => {
-    for (const callback of listeners) callback();
+export function defineModel<T extends { id: RecordId }>(
+  name: string,
+  options: ModelOptions<T> = {}
+): Model<T> {
+  const dbName = options.dbName ?? 'nearstack';
+  const listeners = new Set<ChangeListener<T>>();
+  const fire = (events: ChangeEvent<T>[]) => {
+    for (const callback of listeners) callback(events);
+  };
+  const notify = (events: ChangeEvent<T>[]) => {
+    fire(events);
+    // In-memory data is private to this tab, so there is nothing to announce
+    if (store.activeAdapter?.shared) publishChange(dbName, name, events);
+    runAfterHooks(name, options, events);
+  };
+  const { softDelete, ttl, sweepInterval } = options;
+  const indexInputs = options.indexes ?? [];
+  // Expired records are found through an index on their expiry date
+  const indexes = normalizeIndexes(
+    ttl !== undefined &&
+      !resolveIndex(normalizeIndexes(indexInputs), EXPIRES_AT)
+      ? [...indexInputs, EXPIRES_AT]
+      : indexInputs
+  );
+  const {
+    schema,
+    encryption,
+    relations = {},
+    attachments: attachmentFields = [],
+    search: searchFields = [],
+  } = options;
+  if (
+    encryption &&
+    (!(encryption instanceof KeyVault) || encryption.dbName !== dbName)
+  ) {
+    throw new Error(
+      `Model "${name}" must use a vault created with createVault() for database "${dbName}"`
+    );
+  }
+  // The index keeps words in its keys, which can't be encrypted
+  if (encryption && searchFields.length > 0) {
+    throw new Error(
+      `Model "${name}" cannot be both encrypted and searchable: its search index would not be encrypted`
+    );
+  }
+  const adapter = options.adapter ?? defaultAdapter;
+  // Attachment stores are only declared for databases that use them
+  const attachmentStorage: ModelAttachmentStores | undefined =
+    attachmentFields.length > 0
+      ? {
+          ...attachmentStores(adapter, dbName, encryption),
+          fields: attachmentFields,
+        }
+      : undefined;
+  const searchIndex: ModelSearch | undefined =
+    searchFields.length > 0
+      ? { index: searchStore(adapter, dbName), fields: searchFields }
+      : undefined;
+  const { id: strategy = 'uuid' } = options;
+  if (typeof strategy === 'object' && strategy.composite.length === 0) {
+    throw new Error(`Model "${name}" needs at least one composite key field`);
+  }
+  const ids: ModelIds = {
+    strategy,
+    ...(strategy === 'autoincrement' && {
+      sequences: sequenceStore(adapter, dbName),
+    }),
+  };
+  // The id is assigned by the store, so schemas need not declare it
+  const validate = (value: unknown): T => {
+    if (!schema) return value as T;
+    const id = (value as Partial<T> | null)?.id;
+    const record = validateRecord(name, schema, value) as T;
+    return id === undefined ? record : { ...record, id };
   };
-  const store = new IndexedDBStore<T>('nearstack', name, notify);
+  const store = new ModelStore<T>(
+    adapter,
+    dbName,
+    name,
+    notify,
+    indexes,
+    schema ? validate : unchanged,
+    encryption,
+    createPipeline(options),
+    relations,
+    { softDelete, ttl, sweepInterval },
+    attachmentStorage,
+    searchIndex,
+    ids
+  );
+  let stopRemote: Unsubscribe | null = null;
 
-  return {
+  const model: Model<T> = {
     name,
+    indexes,
+    schema,
     store,
+    validate,
+    relations,
+    attachments: new ModelAttachments(
+      name,
+      attachmentFields,
+      attachmentStorage &&
+        ((mode, work) => {
+          const { attachments, chunks } = attachmentStorage;
+          const stores = [
+            store,
+            attachments,
+            chunks,
+          ] as unknown as AnyModelStore[];
+          return runScoped(stores, mode, (scope) =>
+            work({
+              attachments: scope.store(attachments),
+              chunks: scope.store(chunks),
+              records: scope.store(store),
+            })
+          );
+        })
+    ),
     table() {
-      return new TableImpl(store);
+      return new TableImpl(model, store);
     },
-    subscribe(callback: StateListener): Unsubscribe {
+    subscribe(callback: ChangeListener<T>): Unsubscribe {
       listeners.add(callback);
-      return () => listeners.delete(callback);
+      // Only listen across tabs while someone is subscribed
+      stopRemote ??= onRemoteChange<T>(dbName, name, fire);
+      return () => {
+        listeners.delete(callback);
+        if (listeners.size === 0 && stopRemote) {
+          stopRemote();
+          stopRemote = null;
+        }
+      };
     },
   };
+  registerModel(dbName, model);
+  return model;
+}
+
+/**
+ * Create the vault holding a database's encryption keys. Pass it to
+ * `defineModel(name, { encryption: vault })` for each model to encrypt,
+ * and `unlock()` it with the user's passphrase before using them.
+ */
+export function createVault(options: VaultOptions = {}): Vault {
+  const dbName = options.dbName ?? 'nearstack';
+  const keyring = new ModelStore<KeyringRecord>(
+    options.adapter ?? defaultAdapter,
+    dbName,
+    KEYRING_STORE,
+    () => {}
+  );
+  return new KeyVault(dbName, keyring, options.iterations);
+}
+
+function storeOf(model: Model): ModelStore<{ id: RecordId }> {
+  if (!(model.store instanceof ModelStore)) {
+    throw new Error(
+      `Model "${model.name}" was not created by defineModel() and cannot join a transaction`
+    );
+  }
+  return model.store;
+}
+
+/**
+ * Record undo/redo history for writes to `models`, which must share a
+ * database. Each write, transaction() or `history.batch()` becomes one
+ * entry; undoing it restores every record it touched in one transaction.
+ */
+export function createHistory(
+  models: Model[],
+  options: HistoryOptions = {}
+): History {
+  const stores = models.map(storeOf);
+  let saved: ModelStore<HistoryRecord> | undefined;
+  if (options.persist && stores.length > 0) {
+    // Recorded changes hold whole records, so they are kept as securely
+    // as the models' own data
+    saved = new ModelStore<HistoryRecord>(
+      stores[0].adapter,
+      stores[0].dbName,
+      HISTORY_STORE,
+      () => {},
+      [],
+      unchanged,
+      stores.find((store) => store.vault)?.vault
+    );
+  }
+  const write: WriteSnapshots = (snapshots, own) =>
+    runScoped(
+      [...new Set(snapshots.map(({ model }) => storeOf(model)))],
+      'readwrite',
+      async (scope) => {
+        for (const { model, id, record } of snapshots) {
+          await scope
+            .store(storeOf(model))
+            .writeSnapshot(id, record as { id: RecordId } | undefined);
+        }
+        own(scope.events());
+      }
+    );
+  return new ModelHistory(models, write, options, saved);
+}
+
+/**
+ * Run a callback against several models atomically. Everything happens in
+ * one adapter transaction: if the callback throws (or a request fails)
+ * nothing is written, and each model's subscribers fire once after commit.
+ * Models that delete rules reach join a readwrite transaction as well.
+ *
+ * As with any IndexedDB transaction, only await operations on `tx` inside
+ * the callback — awaiting other work (fetch, timers) lets it auto-commit.
+ */
+export async function transaction<R>(
+  models: Model[],
+  mode: TransactionMode,
+  callback: (tx: Transaction) => Promise<R> | R
+): Promise<R> {
+  return runScoped(models.map(storeOf), mode, (scope) =>
+    callback({
+      mode,
+      table: <T>(model: Model<T>) =>
+        scope.table(model as Model<T & { id: RecordId }>) as Table<T>,
+    })
+  );
 }
 
 export { defineModule } from './legacy.js';
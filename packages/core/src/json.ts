@@ -0,0 +1,36 @@
+// JSON encoding for records outside structured-clone storage (exports,
+// encrypted payloads). Dates are written as `{ "$date": "<ISO string>" }`
+// and byte arrays (attachment data) as `{ "$bytes": "<base64>" }`.
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+export function jsonReplacer(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown
+): unknown {
+  const raw = this[key];
+  if (raw instanceof Date) return { $date: raw.toISOString() };
+  if (raw instanceof Uint8Array) return { $bytes: toBase64(raw) };
+  return value;
+}
+
+export function jsonReviver(_key: string, value: unknown): unknown {
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value);
+    const { $date, $bytes } = value as { $date?: unknown; $bytes?: unknown };
+    if (keys.length === 1 && typeof $date === 'string') return new Date($date);
+    if (keys.length === 1 && typeof $bytes === 'string') {
+      return fromBase64($bytes);
+    }
+  }
+  return value;
+}
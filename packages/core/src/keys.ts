@@ -0,0 +1,150 @@
+// IndexedDB key semantics, reimplemented so the in-memory store can
+// order and match records exactly the way IndexedDB would.
+
+import type { IndexDefinition } from './types.js';
+
+/**
+ * A bound on an index scan. Missing bounds are unbounded; both bounds are
+ * inclusive unless marked open.
+ */
+export interface KeyRangeSpec {
+  lower?: IDBValidKey;
+  upper?: IDBValidKey;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
+// IndexedDB orders key types as: number < Date < string < binary < array
+function keyTypeRank(key: IDBValidKey): number {
+  if (typeof key === 'number') return 0;
+  if (key instanceof Date) return 1;
+  if (typeof key === 'string') return 2;
+  if (Array.isArray(key)) return 4;
+  return 3;
+}
+
+function toBytes(key: BufferSource): Uint8Array {
+  if (key instanceof ArrayBuffer) return new Uint8Array(key);
+  return new Uint8Array(key.buffer, key.byteOffset, key.byteLength);
+}
+
+export function isValidKey(value: unknown): value is IDBValidKey {
+  if (typeof value === 'number') return !Number.isNaN(value);
+  if (typeof value === 'string') return true;
+  if (value instanceof Date) return !Number.isNaN(value.getTime());
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return true;
+  if (Array.isArray(value)) return value.every(isValidKey);
+  return false;
+}
+
+export function assertValidKey(value: unknown): asserts value is IDBValidKey {
+  if (!isValidKey(value)) {
+    throw new Error(
+      `${JSON.stringify(value)} is not a valid index key. Keys must be numbers, strings, dates, binary data or arrays of those.`
+    );
+  }
+}
+
+/**
+ * Compare two keys with the same ordering as `indexedDB.cmp()`.
+ */
+export function compareKeys(a: IDBValidKey, b: IDBValidKey): number {
+  const rankA = keyTypeRank(a);
+  const rankB = keyTypeRank(b);
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+
+  switch (rankA) {
+    case 0:
+    case 2:
+      return a === b ? 0 : a < b ? -1 : 1;
+    case 1: {
+      const timeA = (a as Date).getTime();
+      const timeB = (b as Date).getTime();
+      return timeA === timeB ? 0 : timeA < timeB ? -1 : 1;
+    }
+    case 3: {
+      const bytesA = toBytes(a as BufferSource);
+      const bytesB = toBytes(b as BufferSource);
+      const length = Math.min(bytesA.length, bytesB.length);
+      for (let i = 0; i < length; i++) {
+        if (bytesA[i] !== bytesB[i]) return bytesA[i] < bytesB[i] ? -1 : 1;
+      }
+      return Math.sign(bytesA.length - bytesB.length);
+    }
+    default: {
+      const arrA = a as IDBValidKey[];
+      const arrB = b as IDBValidKey[];
+      const length = Math.min(arrA.length, arrB.length);
+      for (let i = 0; i < length; i++) {
+        const result = compareKeys(arrA[i], arrB[i]);
+        if (result !== 0) return result;
+      }
+      return Math.sign(arrA.length - arrB.length);
+    }
+  }
+}
+
+export function isInRange(key: IDBValidKey, range: KeyRangeSpec): boolean {
+  if (range.lower !== undefined) {
+    const result = compareKeys(key, range.lower);
+    if (result < 0 || (result === 0 && range.lowerOpen)) return false;
+  }
+  if (range.upper !== undefined) {
+    const result = compareKeys(key, range.upper);
+    if (result > 0 || (result === 0 && range.upperOpen)) return false;
+  }
+  return true;
+}
+
+export function toIDBKeyRange(range: KeyRangeSpec): IDBKeyRange | undefined {
+  const { lower, upper, lowerOpen = false, upperOpen = false } = range;
+  if (lower !== undefined && upper !== undefined) {
+    return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return undefined;
+}
+
+/**
+ * Read a (possibly dotted) key path from a record.
+ */
+export function getValueAtPath(record: unknown, path: string): unknown {
+  let current: unknown = record;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Compute the keys a record contributes to an index, mirroring how
+ * IndexedDB populates it: records with a missing or invalid value are
+ * left out, and multi-entry indexes get one key per array element.
+ */
+export function extractIndexKeys(
+  record: unknown,
+  index: IndexDefinition
+): IDBValidKey[] {
+  if (Array.isArray(index.keyPath)) {
+    const key = index.keyPath.map((path) => getValueAtPath(record, path));
+    return isValidKey(key) ? [key] : [];
+  }
+
+  const value = getValueAtPath(record, index.keyPath);
+  if (index.multiEntry && Array.isArray(value)) {
+    const keys: IDBValidKey[] = [];
+    for (const item of value) {
+      if (
+        isValidKey(item) &&
+        !keys.some((key) => compareKeys(key, item) === 0)
+      ) {
+        keys.push(item);
+      }
+    }
+    return keys;
+  }
+
+  return isValidKey(value) ? [value] : [];
+}
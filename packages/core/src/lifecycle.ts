@@ -0,0 +1,52 @@
+// Soft delete and TTL expiry. Soft-deleted records stay stored as
+// tombstones carrying a `deletedAt` date; records of a model with a TTL
+// carry an `expiresAt` date and are removed once it has passed.
+
+/** Field marking a soft-deleted record with when it was deleted */
+export const DELETED_AT = 'deletedAt';
+
+/** Field holding when a record of a model with a TTL expires */
+export const EXPIRES_AT = 'expiresAt';
+
+/** How a model's records are deleted and expired */
+export interface Lifecycle {
+  softDelete?: boolean;
+  ttl?: number;
+  sweepInterval?: number;
+}
+
+/** Which of a model's records a table reads */
+export type Visibility = 'live' | 'trash' | 'all';
+
+function field(record: object, name: string): unknown {
+  return (record as Record<string, unknown>)[name];
+}
+
+/** Whether `record` is a tombstone in its model's trash */
+export function isTrashed(record: object, lifecycle: Lifecycle): boolean {
+  return lifecycle.softDelete === true && field(record, DELETED_AT) != null;
+}
+
+export function isExpired(
+  record: object,
+  lifecycle: Lifecycle,
+  now = Date.now()
+): boolean {
+  const expiresAt = field(record, EXPIRES_AT);
+  return (
+    lifecycle.ttl !== undefined &&
+    expiresAt instanceof Date &&
+    expiresAt.getTime() <= now
+  );
+}
+
+/** Expired records are hidden everywhere, even before they are swept */
+export function isVisible(
+  record: object,
+  lifecycle: Lifecycle,
+  visibility: Visibility
+): boolean {
+  if (isExpired(record, lifecycle)) return false;
+  if (visibility === 'all') return true;
+  return isTrashed(record, lifecycle) === (visibility === 'trash');
+}
@@ -0,0 +1,100 @@
+// Extension points around model writes. Middleware and before-hooks run
+// inside each write's transaction; after-hooks run once it has committed.
+
+import type { ChangeEvent, ModelOptions, WriteOperation } from './types.js';
+
+/** Keeps a transaction open while work that doesn't use it runs */
+export type Hold = <R>(work: Promise<R>) => Promise<R>;
+
+/**
+ * Runs one write through a model's middleware and before-hooks, ending
+ * with `write`, which stores whatever `operation` holds by then.
+ */
+export type WritePipeline<T> = (
+  operation: WriteOperation<T>,
+  write: () => Promise<void>,
+  hold: Hold
+) => Promise<void>;
+
+export const directWrite = <T>(
+  _operation: WriteOperation<T>,
+  write: () => Promise<void>
+): Promise<void> => write();
+
+// Only async hooks need the transaction held open
+function settle<R>(result: R | Promise<R>, hold: Hold): R | Promise<R> {
+  return result instanceof Promise ? hold(result) : result;
+}
+
+export function createPipeline<T>(options: ModelOptions<T>): WritePipeline<T> {
+  const { middleware = [], beforeInsert, beforeUpdate, beforeDelete } = options;
+  if (
+    middleware.length === 0 &&
+    !beforeInsert &&
+    !beforeUpdate &&
+    !beforeDelete
+  ) {
+    return directWrite;
+  }
+
+  return (operation, write, hold) => {
+    const hooks = async () => {
+      const { type, record, previous } = operation;
+      if (type === 'insert' && beforeInsert) {
+        operation.record =
+          (await settle(beforeInsert(record!), hold)) ?? record;
+      } else if (type === 'update' && beforeUpdate) {
+        operation.record =
+          (await settle(beforeUpdate(record!, previous!), hold)) ?? record;
+      } else if (type === 'delete' && beforeDelete) {
+        await settle(beforeDelete(previous!), hold);
+      }
+      await write();
+    };
+    const dispatch = async (index: number): Promise<void> => {
+      if (index === middleware.length) return hooks();
+      let called = false;
+      await middleware[index](operation, () => {
+        if (called) {
+          return Promise.reject(new Error('next() called more than once'));
+        }
+        called = true;
+        return dispatch(index + 1);
+      });
+    };
+    return dispatch(0);
+  };
+}
+
+function report(model: string, hook: string, error: unknown): void {
+  console.error(`${hook} hook of model "${model}" failed:`, error);
+}
+
+/** Runs a model's after-hooks for changes that have committed */
+export function runAfterHooks<T>(
+  model: string,
+  options: ModelOptions<T>,
+  events: ChangeEvent<T>[]
+): void {
+  for (const { type, before, after } of events) {
+    const hook =
+      type === 'insert'
+        ? 'afterInsert'
+        : type === 'update'
+          ? 'afterUpdate'
+          : 'afterDelete';
+    try {
+      const result =
+        type === 'insert'
+          ? options.afterInsert?.(after!)
+          : type === 'update'
+            ? options.afterUpdate?.(after!, before!)
+            : options.afterDelete?.(before!);
+      if (result instanceof Promise) {
+        result.catch((error) => report(model, hook, error));
+      }
+    } catch (error) {
+      report(model, hook, error);
+    }
+  }
+}
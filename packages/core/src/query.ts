@@ -0,0 +1,660 @@
+// Index declarations, the query builder behind table().where(), and the
+// shared planning/collection logic both stores use to execute queries.
+
+import type { IndexDefinition, IndexInput } from './types.js';
+import { jsonReplacer, jsonReviver } from './json.js';
+import {
+  assertValidKey,
+  compareKeys,
+  extractIndexKeys,
+  getValueAtPath,
+  isInRange,
+  isValidKey,
+  type KeyRangeSpec,
+} from './keys.js';
+
+export const PRIMARY_KEY_PATH = 'id';
+
+const PRIMARY_INDEX: IndexDefinition = {
+  name: PRIMARY_KEY_PATH,
+  keyPath: PRIMARY_KEY_PATH,
+};
+
+/**
+ * A fully resolved query, as handed to `Store.query()`.
+ *
+ * Stores walk `index` (or the primary key when `null`) over `ranges` in
+ * key order and feed every record to a `ResultCollector`, which applies
+ * the remaining steps.
+ */
+export interface QueryPlan<T> {
+  index: string | null;
+  /** Disjoint ranges in ascending order; `null` scans the whole index */
+  ranges: KeyRangeSpec[] | null;
+  reverse: boolean;
+  /** Skip records already seen (multi-entry indexes yield a record per entry) */
+  unique: boolean;
+  filters: Array<(item: T) => boolean>;
+  /** Field to sort by after scanning, when the index order doesn't already satisfy it */
+  sortBy: string | null;
+  offset: number;
+  limit: number | null;
+}
+
+export function normalizeIndexes(inputs: IndexInput[] = []): IndexDefinition[] {
+  const indexes = inputs.map((input): IndexDefinition => {
+    if (typeof input === 'string') return { name: input, keyPath: input };
+    if (Array.isArray(input))
+      return { name: input.join('+'), keyPath: [...input] };
+
+    const keyPath = Array.isArray(input.keyPath)
+      ? [...input.keyPath]
+      : input.keyPath;
+    if (input.multiEntry && Array.isArray(keyPath)) {
+      throw new Error(
+        `Index "${keyPath.join('+')}" cannot be both compound and multi-entry`
+      );
+    }
+    return {
+      name:
+        input.name ?? (Array.isArray(keyPath) ? keyPath.join('+') : keyPath),
+      keyPath,
+      unique: input.unique ?? false,
+      multiEntry: input.multiEntry ?? false,
+    };
+  });
+
+  const names = new Set<string>();
+  for (const index of indexes) {
+    if (index.name === PRIMARY_KEY_PATH || names.has(index.name)) {
+      throw new Error(`Duplicate index name "${index.name}"`);
+    }
+    names.add(index.name);
+  }
+  return indexes;
+}
+
+function sameKeyPath(a: string | string[], b: string | string[]): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((path, i) => path === b[i]);
+  }
+  return a === b;
+}
+
+/**
+ * Look up a declared index by name or key path. `'id'` resolves to the
+ * primary key.
+ */
+export function resolveIndex(
+  indexes: IndexDefinition[],
+  nameOrKeyPath: string | string[]
+): IndexDefinition | undefined {
+  if (nameOrKeyPath === PRIMARY_KEY_PATH) return PRIMARY_INDEX;
+  return (
+    indexes.find((index) => index.name === nameOrKeyPath) ??
+    indexes.find((index) => sameKeyPath(index.keyPath, nameOrKeyPath))
+  );
+}
+
+/**
+ * Accumulates the records a store scans, applying filters, de-duplication,
+ * sorting and offset/limit. `push()` returns false once no further records
+ * are needed so stores can stop their cursors early.
+ *
+ * With a `sink`, results are handed to it instead of being kept, so
+ * aggregates can run without holding every record. Plans that sort in
+ * memory still hold the matching records until `finish()`.
+ */
+export class ResultCollector<T> {
+  private results: T[] = [];
+  private seen = new Set<unknown>();
+  private skipped = 0;
+  private taken = 0;
+
+  constructor(
+    private plan: QueryPlan<T>,
+    private sink?: (record: T) => void
+  ) {}
+
+  get done(): boolean {
+    return (
+      this.plan.sortBy === null &&
+      this.plan.limit !== null &&
+      this.taken >= this.plan.limit
+    );
+  }
+
+  push(record: T): boolean {
+    if (this.done) return false;
+
+    if (this.plan.unique) {
+      const id = getValueAtPath(record, PRIMARY_KEY_PATH);
+      if (this.seen.has(id)) return true;
+      this.seen.add(id);
+    }
+
+    if (!this.plan.filters.every((filter) => filter(record))) return true;
+
+    if (this.plan.sortBy !== null) {
+      // Like an index walk, sorting skips records without a usable key
+      if (isValidKey(getValueAtPath(record, this.plan.sortBy))) {
+        this.results.push(record);
+      }
+      return true;
+    }
+
+    if (this.skipped < this.plan.offset) {
+      this.skipped++;
+      return true;
+    }
+
+    this.taken++;
+    if (this.sink) this.sink(record);
+    else this.results.push(record);
+    return !this.done;
+  }
+
+  finish(): T[] {
+    const { sortBy, reverse, offset, limit } = this.plan;
+    if (sortBy === null) return this.results;
+
+    const sorted = [...this.results].sort((a, b) =>
+      compareKeys(
+        getValueAtPath(a, sortBy) as IDBValidKey,
+        getValueAtPath(b, sortBy) as IDBValidKey
+      )
+    );
+    if (reverse) sorted.reverse();
+    const page = sorted.slice(
+      offset,
+      limit === null ? undefined : offset + limit
+    );
+    if (!this.sink) return page;
+    page.forEach(this.sink);
+    return [];
+  }
+}
+
+/**
+ * Execute a plan against an in-memory set of records, walking a simulated
+ * index in the same order IndexedDB would.
+ */
+export function scanRecords<T>(
+  records: Iterable<T>,
+  plan: QueryPlan<T>,
+  indexes: IndexDefinition[],
+  sink?: (record: T) => void
+): T[] {
+  const index =
+    plan.index === null ? PRIMARY_INDEX : resolveIndex(indexes, plan.index);
+  if (!index) throw new Error(`Index "${plan.index}" does not exist`);
+
+  const entries: Array<{
+    key: IDBValidKey;
+    primaryKey: IDBValidKey;
+    record: T;
+  }> = [];
+  for (const record of records) {
+    const primaryKey = getValueAtPath(record, PRIMARY_KEY_PATH) as IDBValidKey;
+    for (const key of extractIndexKeys(record, index)) {
+      if (!plan.ranges || plan.ranges.some((range) => isInRange(key, range))) {
+        entries.push({ key, primaryKey, record });
+      }
+    }
+  }
+
+  entries.sort(
+    (a, b) =>
+      compareKeys(a.key, b.key) || compareKeys(a.primaryKey, b.primaryKey)
+  );
+  if (plan.reverse) entries.reverse();
+
+  const collector = new ResultCollector(plan, sink);
+  for (const entry of entries) {
+    if (!collector.push(entry.record)) break;
+  }
+  return collector.finish();
+}
+
+function isEmptyRange(range: KeyRangeSpec): boolean {
+  if (range.lower === undefined || range.upper === undefined) return false;
+  const result = compareKeys(range.lower, range.upper);
+  return (
+    result > 0 ||
+    (result === 0 && (range.lowerOpen || range.upperOpen) === true)
+  );
+}
+
+interface QueryState<T> {
+  index: IndexDefinition;
+  ranges: KeyRangeSpec[] | null;
+  /** Set when the where clause is a single equals(), enabling compound index lookups */
+  equals?: IDBValidKey;
+  filters: Array<(item: T) => boolean>;
+  sortBy: string | null;
+  reverse: boolean;
+  offset: number;
+  limit: number | null;
+}
+
+/**
+ * Where a query's records come from — implemented by `Store`. `scan()`
+ * hands each result to `visit` instead of returning them all, for
+ * aggregates.
+ */
+export interface QuerySource<T> {
+  query(plan: QueryPlan<T>): Promise<T[]>;
+  scan(plan: QueryPlan<T>, visit: (record: T) => void): Promise<void>;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface PageOptions {
+  /** `next` of the previous page; omit for the first page */
+  after?: string | null;
+  limit: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the following page, or null on the last one */
+  next: string | null;
+}
+
+function numberAt(record: unknown, field: string): number | undefined {
+  const value = getValueAtPath(record, field);
+  return typeof value === 'number' && !Number.isNaN(value) ? value : undefined;
+}
+
+// Pick the lower (or, for `sign` -1, higher) of two keys, skipping values
+// that aren't valid keys as an index would
+function extreme(
+  current: IDBValidKey | undefined,
+  value: unknown,
+  sign: 1 | -1
+): IDBValidKey | undefined {
+  if (!isValidKey(value)) return current;
+  if (current === undefined) return value;
+  return sign * compareKeys(value, current) < 0 ? value : current;
+}
+
+// Groups by value; dates and arrays by their contents
+function groupKey(value: unknown): unknown {
+  return value !== null && typeof value === 'object'
+    ? `\u0000${JSON.stringify(value, jsonReplacer)}`
+    : value;
+}
+
+/**
+ * Aggregates of a query's records by the value of one field:
+ * `table().groupBy('status').count()`. Each resolves to a map from the
+ * field's values to the aggregate.
+ */
+export class Grouping<T, K = unknown> {
+  constructor(
+    private query: Query<T>,
+    private field: string
+  ) {}
+
+  private async reduce<A>(
+    initial: () => A,
+    step: (total: A, record: T) => A
+  ): Promise<Map<K, A>> {
+    const groups = new Map<unknown, { key: K; total: A }>();
+    await this.query.scan((record) => {
+      const key = getValueAtPath(record, this.field) as K;
+      const id = groupKey(key);
+      const group = groups.get(id) ?? { key, total: initial() };
+      group.total = step(group.total, record);
+      groups.set(id, group);
+    });
+    return new Map([...groups.values()].map(({ key, total }) => [key, total]));
+  }
+
+  count(): Promise<Map<K, number>> {
+    return this.reduce(
+      () => 0,
+      (count) => count + 1
+    );
+  }
+
+  sum(field: string): Promise<Map<K, number>> {
+    return this.reduce(
+      () => 0,
+      (sum, record) => sum + (numberAt(record, field) ?? 0)
+    );
+  }
+
+  min<V = unknown>(field: string): Promise<Map<K, V | undefined>> {
+    return this.reduce<IDBValidKey | undefined>(
+      () => undefined,
+      (min, record) => extreme(min, getValueAtPath(record, field), 1)
+    ) as Promise<Map<K, V | undefined>>;
+  }
+
+  max<V = unknown>(field: string): Promise<Map<K, V | undefined>> {
+    return this.reduce<IDBValidKey | undefined>(
+      () => undefined,
+      (max, record) => extreme(max, getValueAtPath(record, field), -1)
+    ) as Promise<Map<K, V | undefined>>;
+  }
+}
+
+/**
+ * An immutable, chainable query over a model. Nothing runs until
+ * `toArray()`, `first()`, `paginate()` or an aggregate is called.
+ */
+export class Query<T> {
+  constructor(
+    private source: QuerySource<T>,
+    private indexes: IndexDefinition[],
+    private state: QueryState<T>
+  ) {}
+
+  private with(changes: Partial<QueryState<T>>): Query<T> {
+    return new Query(this.source, this.indexes, { ...this.state, ...changes });
+  }
+
+  /** Keep only records matching a predicate (evaluated after the index scan) */
+  filter(predicate: (item: T) => boolean): Query<T> {
+    return this.with({ filters: [...this.state.filters, predicate] });
+  }
+
+  /**
+   * Order results by a field. Records without a valid key in that field
+   * are left out, matching how an IndexedDB index walk behaves.
+   */
+  sortBy(field: string): Query<T> {
+    return this.with({ sortBy: field });
+  }
+
+  /** Order results by a field, ascending or descending; see `sortBy()` */
+  orderBy(field: string, direction: SortDirection = 'asc'): Query<T> {
+    return this.with({ sortBy: field, reverse: direction === 'desc' });
+  }
+
+  /** Reverse the result order */
+  reverse(): Query<T> {
+    return this.with({ reverse: !this.state.reverse });
+  }
+
+  /** Skip the first `count` results */
+  offset(count: number): Query<T> {
+    return this.with({ offset: Math.max(0, count) });
+  }
+
+  /** Return at most `count` results */
+  limit(count: number): Query<T> {
+    return this.with({ limit: Math.max(0, count) });
+  }
+
+  async toArray(): Promise<T[]> {
+    const plan = this.plan();
+    if (plan.limit === 0 || plan.ranges?.length === 0) return [];
+    return this.source.query(plan);
+  }
+
+  async first(): Promise<T | undefined> {
+    const [item] = await this.limit(1).toArray();
+    return item;
+  }
+
+  /**
+   * Visit each result without collecting them. Results come in order
+   * only when the order needs no in-memory sort.
+   */
+  async scan(visit: (record: T) => void): Promise<void> {
+    const plan = this.plan();
+    if (plan.limit === 0 || plan.ranges?.length === 0) return;
+    await this.source.scan(plan, visit);
+  }
+
+  async count(): Promise<number> {
+    let count = 0;
+    await this.scan(() => count++);
+    return count;
+  }
+
+  /** Total of a numeric field; other values count as 0 */
+  async sum(field: string): Promise<number> {
+    let sum = 0;
+    await this.scan((record) => (sum += numberAt(record, field) ?? 0));
+    return sum;
+  }
+
+  /** Lowest value of a field, in key order, or undefined if there is none */
+  async min<V = unknown>(field: string): Promise<V | undefined> {
+    let min: IDBValidKey | undefined;
+    await this.scan(
+      (record) => (min = extreme(min, getValueAtPath(record, field), 1))
+    );
+    return min as V | undefined;
+  }
+
+  /** Highest value of a field, in key order, or undefined if there is none */
+  async max<V = unknown>(field: string): Promise<V | undefined> {
+    let max: IDBValidKey | undefined;
+    await this.scan(
+      (record) => (max = extreme(max, getValueAtPath(record, field), -1))
+    );
+    return max as V | undefined;
+  }
+
+  groupBy<K = unknown>(field: string): Grouping<T, K> {
+    return new Grouping<T, K>(this, field);
+  }
+
+  // What results are ordered by: the sort field, or the index walked
+  private orderKey(): (record: T) => unknown {
+    const { index, sortBy } = this.state;
+    if (sortBy !== null) return (record) => getValueAtPath(record, sortBy);
+    if (index.multiEntry) {
+      throw new Error(
+        `Queries on multi-entry index "${index.name}" need orderBy() to be paginated`
+      );
+    }
+    const { keyPath } = index;
+    return Array.isArray(keyPath)
+      ? (record) => keyPath.map((path) => getValueAtPath(record, path))
+      : (record) => getValueAtPath(record, keyPath);
+  }
+
+  /**
+   * One page of results, in the query's order. Pass the page's `next`
+   * as `after` to get the following page; unlike `offset()`, pages stay
+   * consistent while records are added or removed.
+   */
+  async paginate({ after, limit }: PageOptions): Promise<Page<T>> {
+    const keyOf = this.orderKey();
+    const idOf = (record: T) =>
+      getValueAtPath(record, PRIMARY_KEY_PATH) as IDBValidKey;
+    const sign = this.state.reverse ? -1 : 1;
+    // Records are ordered by key, then id
+    const compare = (record: T, key: unknown, id: IDBValidKey) =>
+      sign *
+      (compareKeys(keyOf(record) as IDBValidKey, key as IDBValidKey) ||
+        compareKeys(idOf(record), id));
+
+    // One extra result tells whether there is a next page
+    let query = this.with({ offset: 0, limit: Math.max(0, limit) + 1 });
+    const plan = query.plan();
+    // An index walk already orders ties by id; an in-memory sort doesn't,
+    // so it sorts every remaining record here
+    const walked = plan.sortBy === null;
+    if (!walked) query = query.with({ limit: null });
+    if (after) {
+      const [key, id] = JSON.parse(after, jsonReviver) as [
+        IDBValidKey,
+        IDBValidKey,
+      ];
+      query = query.filter((record) => compare(record, key, id) > 0);
+      // A walk over the whole index can start at the cursor
+      if (walked && plan.ranges === null) {
+        const start: KeyRangeSpec = this.state.reverse
+          ? { upper: key }
+          : { lower: key };
+        query = query.with({ ranges: [start] });
+      }
+    }
+    let results = await query.toArray();
+    if (!walked) {
+      results = results
+        .sort((a, b) => compare(a, keyOf(b), idOf(b)))
+        .slice(0, limit + 1);
+    }
+    const items = results.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      next:
+        results.length > limit && last !== undefined
+          ? JSON.stringify([keyOf(last), idOf(last)], jsonReplacer)
+          : null,
+    };
+  }
+
+  /**
+   * Resolve the builder state into the plan stores execute, choosing the
+   * index walk that avoids an in-memory sort when one is available.
+   */
+  plan(): QueryPlan<T> {
+    const { index, sortBy } = this.state;
+    let indexName: string | null = index === PRIMARY_INDEX ? null : index.name;
+    let ranges = this.state.ranges;
+    let remainingSort = sortBy;
+
+    if (
+      sortBy !== null &&
+      !index.multiEntry &&
+      sameKeyPath(index.keyPath, sortBy)
+    ) {
+      remainingSort = null;
+    } else if (
+      sortBy !== null &&
+      this.state.equals !== undefined &&
+      typeof index.keyPath === 'string'
+    ) {
+      // where(a).equals(x).sortBy(b) can walk a compound [a, b] index directly
+      const compound = this.indexes.find((candidate) =>
+        sameKeyPath(candidate.keyPath, [index.keyPath as string, sortBy])
+      );
+      if (compound) {
+        indexName = compound.name;
+        ranges = [
+          { lower: [this.state.equals], upper: [this.state.equals, []] },
+        ];
+        remainingSort = null;
+      }
+    }
+
+    return {
+      index: indexName,
+      ranges,
+      reverse: this.state.reverse,
+      unique: index.multiEntry === true,
+      filters: this.state.filters,
+      sortBy: remainingSort,
+      offset: this.state.offset,
+      limit: this.state.limit,
+    };
+  }
+}
+
+/**
+ * The key-range half of a query: `table().where('status').equals('open')`.
+ */
+export class WhereClause<T> {
+  constructor(
+    private source: QuerySource<T>,
+    private indexes: IndexDefinition[],
+    private index: IndexDefinition
+  ) {}
+
+  private query(ranges: KeyRangeSpec[], equals?: IDBValidKey): Query<T> {
+    for (const range of ranges) {
+      if (range.lower !== undefined) assertValidKey(range.lower);
+      if (range.upper !== undefined) assertValidKey(range.upper);
+    }
+    return new Query(this.source, this.indexes, {
+      index: this.index,
+      // An inverted range matches nothing rather than throwing like IDBKeyRange
+      ranges: ranges.filter((range) => !isEmptyRange(range)),
+      equals,
+      filters: [],
+      sortBy: null,
+      reverse: false,
+      offset: 0,
+      limit: null,
+    });
+  }
+
+  equals(value: IDBValidKey): Query<T> {
+    return this.query([{ lower: value, upper: value }], value);
+  }
+
+  anyOf(values: IDBValidKey[]): Query<T> {
+    values.forEach(assertValidKey);
+    const keys = [...values]
+      .sort(compareKeys)
+      .filter(
+        (key, i, sorted) => i === 0 || compareKeys(sorted[i - 1], key) !== 0
+      );
+    return this.query(keys.map((key) => ({ lower: key, upper: key })));
+  }
+
+  above(value: IDBValidKey): Query<T> {
+    return this.query([{ lower: value, lowerOpen: true }]);
+  }
+
+  aboveOrEqual(value: IDBValidKey): Query<T> {
+    return this.query([{ lower: value }]);
+  }
+
+  below(value: IDBValidKey): Query<T> {
+    return this.query([{ upper: value, upperOpen: true }]);
+  }
+
+  belowOrEqual(value: IDBValidKey): Query<T> {
+    return this.query([{ upper: value }]);
+  }
+
+  between(
+    lower: IDBValidKey,
+    upper: IDBValidKey,
+    includeLower = true,
+    includeUpper = false
+  ): Query<T> {
+    return this.query([
+      { lower, upper, lowerOpen: !includeLower, upperOpen: !includeUpper },
+    ]);
+  }
+
+  startsWith(prefix: string): Query<T> {
+    return this.query([{ lower: prefix, upper: prefix + '\uffff' }]);
+  }
+}
+
+/**
+ * A query over all of a model's records, walking the index on `field`
+ * when there is one so ordering by it needs no in-memory sort.
+ */
+export function tableQuery<T>(
+  source: QuerySource<T>,
+  indexes: IndexDefinition[],
+  field?: string
+): Query<T> {
+  const index = field === undefined ? undefined : resolveIndex(indexes, field);
+  const walk =
+    index && !index.multiEntry && sameKeyPath(index.keyPath, field!)
+      ? index
+      : PRIMARY_INDEX;
+  return new Query(source, indexes, {
+    index: walk,
+    ranges: null,
+    filters: [],
+    sortBy: null,
+    reverse: false,
+    offset: 0,
+    limit: null,
+  });
+}
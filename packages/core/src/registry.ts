@@ -0,0 +1,26 @@
+// Models defined with defineModel(), by database, for features that work
+// on a whole database (export and import, storage monitoring).
+
+import type { Model } from './index.js';
+
+const _models = new Map<string, Map<string, Model>>();
+
+/** Record a model; defining a model again under the same name replaces it */
+export function registerModel(dbName: string, model: Model): void {
+  let models = _models.get(dbName);
+  if (!models) {
+    models = new Map();
+    _models.set(dbName, models);
+  }
+  models.set(model.name, model);
+}
+
+/** The models defined on a database, in definition order */
+export function getModels(dbName: string): Model[] {
+  return [...(_models.get(dbName)?.values() ?? [])];
+}
+
+/** Databases with at least one model defined */
+export function getDatabases(): string[] {
+  return [..._models.keys()];
+}
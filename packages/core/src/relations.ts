@@ -0,0 +1,212 @@
+// Relations between models: declared with defineModel(name, { relations }),
+// loaded by table().include() and enforced when records are deleted.
+
+import { RelationError } from './errors.js';
+import { resolveIndex } from './query.js';
+import type { Model, Table } from './index.js';
+import type { RecordId } from './types.js';
+
+/**
+ * What deleting a record does to the records pointing at it: delete them
+ * too, refuse the delete while any exist, or clear their foreign key.
+ */
+export type DeleteRule = 'cascade' | 'restrict' | 'nullify';
+
+export type RelationKind = 'belongsTo' | 'hasMany' | 'manyToMany';
+
+/** A related model, or a function returning it for models defined later */
+export type ModelReference = Model | (() => Model);
+
+export interface Relation {
+  kind: RelationKind;
+  model: ModelReference;
+  /**
+   * The field linking the records: the related record's id on this model
+   * (`belongsTo`), this model's id on the related one (`hasMany`, or an
+   * array of ids with a multi-entry index), or an array of related ids on
+   * this model (`manyToMany`).
+   */
+  foreignKey: string;
+  /** For `hasMany`: what deleting a record does to the related ones */
+  onDelete?: DeleteRule;
+}
+
+/** Each record points at one record of `model` through `foreignKey` */
+export function belongsTo(model: ModelReference, foreignKey: string): Relation {
+  return { kind: 'belongsTo', model, foreignKey };
+}
+
+/**
+ * Records of `model` point at this one through their `foreignKey`. Index
+ * that field on `model` so related records are found without a scan.
+ */
+export function hasMany(
+  model: ModelReference,
+  foreignKey: string,
+  options: { onDelete?: DeleteRule } = {}
+): Relation {
+  return { kind: 'hasMany', model, foreignKey, onDelete: options.onDelete };
+}
+
+/**
+ * Each record lists the ids of related `model` records in `foreignKey`.
+ * Declare the other side as `hasMany(thisModel, foreignKey)` with a
+ * multi-entry index on the field.
+ */
+export function manyToMany(
+  model: ModelReference,
+  foreignKey: string
+): Relation {
+  return { kind: 'manyToMany', model, foreignKey };
+}
+
+export function relatedModel(relation: Relation): Model {
+  return typeof relation.model === 'function'
+    ? relation.model()
+    : relation.model;
+}
+
+/**
+ * The models `model` has relations to, for live queries that should
+ * re-run when related records change
+ */
+export function relatedModels(model: Model): Model[] {
+  const related = Object.values(model.relations ?? {}).map(relatedModel);
+  return [...new Set(related)].filter((other) => other !== model);
+}
+
+type AnyRecord = { id: RecordId } & Record<string, unknown>;
+
+// A foreign key holds one id or an array of them
+function idsOf(value: unknown): RecordId[] {
+  const ids = Array.isArray(value) ? value : [value];
+  return ids.filter(
+    (id): id is RecordId => typeof id === 'string' || typeof id === 'number'
+  );
+}
+
+// Records of `model` whose `foreignKey` holds any of `ids`
+function findLinked(
+  table: Table,
+  model: Model,
+  foreignKey: string,
+  ids: RecordId[]
+): Promise<AnyRecord[]> {
+  if (resolveIndex(model.indexes, foreignKey)) {
+    return table.where(foreignKey).anyOf(ids).toArray();
+  }
+  const wanted = new Set(ids);
+  return table.find((record: AnyRecord) =>
+    idsOf(record[foreignKey]).some((id) => wanted.has(id))
+  );
+}
+
+export function assertRelation(model: Model, name: string): Relation {
+  const relation = model.relations[name];
+  if (!relation) {
+    throw new Error(`Model "${model.name}" has no relation "${name}"`);
+  }
+  return relation;
+}
+
+/**
+ * Copies of `records` with the related records named by `paths` attached.
+ * A dotted path (`'project.owner'`) loads relations of related records.
+ */
+export async function loadRelations<T extends { id: RecordId }>(
+  model: Model,
+  records: T[],
+  paths: string[],
+  tableFor: (model: Model) => Table = (model) => model.table()
+): Promise<T[]> {
+  if (records.length === 0 || paths.length === 0) return records;
+  const nested = new Map<string, string[]>();
+  for (const path of paths) {
+    const [name, ...rest] = path.split('.');
+    const inner = nested.get(name) ?? [];
+    if (rest.length > 0) inner.push(rest.join('.'));
+    nested.set(name, inner);
+  }
+
+  const loaded = records.map((record) => ({ ...record }) as AnyRecord);
+  for (const [name, inner] of nested) {
+    const relation = assertRelation(model, name);
+    const target = relatedModel(relation);
+    const table = tableFor(target);
+    const key = relation.foreignKey;
+
+    if (relation.kind === 'hasMany') {
+      const ids = loaded.map((record) => record.id);
+      const related = await loadRelations(
+        target,
+        await findLinked(table, target, key, ids),
+        inner,
+        tableFor
+      );
+      const byOwner = new Map<RecordId, AnyRecord[]>();
+      for (const record of related) {
+        for (const id of idsOf(record[key])) {
+          byOwner.set(id, [...(byOwner.get(id) ?? []), record]);
+        }
+      }
+      for (const record of loaded) record[name] = byOwner.get(record.id) ?? [];
+      continue;
+    }
+
+    const ids = [...new Set(loaded.flatMap((record) => idsOf(record[key])))];
+    const related = await loadRelations(
+      target,
+      ids.length > 0 ? await table.where('id').anyOf(ids).toArray() : [],
+      inner,
+      tableFor
+    );
+    const byId = new Map(related.map((record) => [record.id, record]));
+    for (const record of loaded) {
+      const linked = idsOf(record[key])
+        .map((id) => byId.get(id))
+        .filter((found) => found !== undefined);
+      record[name] = relation.kind === 'belongsTo' ? linked[0] : linked;
+    }
+  }
+  return loaded as unknown as T[];
+}
+
+/**
+ * Check the delete rules of a model for a record about to be deleted,
+ * throwing a `RelationError` if a `restrict` rule applies. Resolves to a
+ * function that cascades or nullifies once the record itself is gone,
+ * which keeps cycles of cascading relations from looping.
+ */
+export async function prepareDelete(
+  modelName: string,
+  relations: Record<string, Relation>,
+  record: { id: RecordId },
+  tableFor: (model: Model) => Table
+): Promise<() => Promise<void>> {
+  const work: Array<() => Promise<unknown>> = [];
+  for (const [name, relation] of Object.entries(relations)) {
+    if (relation.kind !== 'hasMany' || !relation.onDelete) continue;
+    const target = relatedModel(relation);
+    const table = tableFor(target);
+    const key = relation.foreignKey;
+    const dependents = await findLinked(table, target, key, [record.id]);
+    if (dependents.length === 0) continue;
+    if (relation.onDelete === 'restrict') {
+      throw new RelationError(modelName, record.id, name);
+    }
+    for (const dependent of dependents) {
+      work.push(() => {
+        if (relation.onDelete === 'cascade') return table.delete(dependent.id);
+        const value = dependent[key];
+        return table.update(dependent.id, {
+          [key]: Array.isArray(value)
+            ? value.filter((id) => id !== record.id)
+            : undefined,
+        });
+      });
+    }
+  }
+  return async () => {
+    for (const step of work) await step();
+  };
+}
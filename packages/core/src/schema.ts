@@ -0,0 +1,419 @@
+// Versioned schema migrations: defineSchema(), the migration context
+// handed to upgrade functions, and IndexedDB / in-memory runners.
+
+import type { IndexDefinition, IndexInput } from './types.js';
+import { MigrationError, SchemaVersionError } from './errors.js';
+import { normalizeIndexes, PRIMARY_KEY_PATH } from './query.js';
+
+/** Object store holding the schema version, kept out of every model API */
+export const META_STORE = '__nearstack_meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+/**
+ * Operations available to a migration's upgrade function.
+ *
+ * Upgrades run inside the database's upgrade transaction, so they must
+ * only await the promises returned here — awaiting anything else (fetch,
+ * timers) lets the transaction commit early.
+ */
+export interface MigrationContext {
+  /** Schema version the database is migrating from */
+  readonly fromVersion: number;
+  /** Schema version this migration produces */
+  readonly toVersion: number;
+
+  storeNames(): string[];
+  createStore(name: string): void;
+  deleteStore(name: string): void;
+  renameStore(from: string, to: string): void;
+  createIndex(store: string, index: IndexInput): void;
+  deleteIndex(store: string, name: string): void;
+
+  getAll<T = unknown>(store: string): Promise<T[]>;
+  put(store: string, record: unknown): Promise<void>;
+  delete(store: string, id: string): Promise<void>;
+  /**
+   * Rewrite every record in a store. Return a replacement record, `null`
+   * to delete it, or nothing to keep the (possibly mutated) original.
+   * The transform must be synchronous.
+   */
+  updateAll<T = unknown, U = T>(
+    store: string,
+    transform: (record: T) => U | null | void
+  ): Promise<void>;
+}
+
+export interface Migration {
+  /** Schema version this migration upgrades to (a positive integer) */
+  version: number;
+  description?: string;
+  upgrade(context: MigrationContext): void | Promise<void>;
+}
+
+export interface SchemaOptions {
+  /** Database the schema applies to */
+  name?: string;
+  migrations: Migration[];
+}
+
+export interface Schema {
+  name: string;
+  /** The latest declared version — the highest migration version */
+  version: number;
+  migrations: Migration[];
+}
+
+const _schemas = new Map<string, Schema>();
+
+/**
+ * Declare the migrations for a database. Like defineModel(), call this at
+ * module import time, before any store is accessed.
+ */
+export function defineSchema(options: SchemaOptions): Schema {
+  const name = options.name ?? 'nearstack';
+  const migrations = [...options.migrations].sort(
+    (a, b) => a.version - b.version
+  );
+
+  migrations.forEach((migration, i) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(
+        `Migration version must be a positive integer, got ${migration.version}`
+      );
+    }
+    if (i > 0 && migrations[i - 1].version === migration.version) {
+      throw new Error(
+        `Duplicate migration for schema version ${migration.version}`
+      );
+    }
+  });
+
+  const schema: Schema = {
+    name,
+    version:
+      migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+    migrations,
+  };
+  _schemas.set(name, schema);
+  return schema;
+}
+
+/**
+ * The schema declared for a database, if any. Adapters that persist data
+ * use it to run pending migrations when they open the database.
+ */
+export function getSchema(dbName: string): Schema | undefined {
+  return _schemas.get(dbName);
+}
+
+export function assertNotDowngrade(
+  dbName: string,
+  storedVersion: number,
+  declaredVersion: number
+): void {
+  if (storedVersion > declaredVersion) {
+    throw new SchemaVersionError(dbName, storedVersion, declaredVersion);
+  }
+}
+
+/**
+ * Run every migration newer than `fromVersion`, in order.
+ */
+export async function runMigrations(
+  schema: Schema,
+  fromVersion: number,
+  createContext: (fromVersion: number, toVersion: number) => MigrationContext
+): Promise<void> {
+  let current = fromVersion;
+  for (const migration of schema.migrations) {
+    if (migration.version <= current) continue;
+    try {
+      await migration.upgrade(createContext(current, migration.version));
+    } catch (error) {
+      throw new MigrationError(migration.version, error);
+    }
+    current = migration.version;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Read the schema version recorded in a database (0 when none is).
+ */
+export function readSchemaVersion(
+  db: IDBDatabase,
+  transaction?: IDBTransaction
+): Promise<number> {
+  if (!db.objectStoreNames.contains(META_STORE)) return Promise.resolve(0);
+  const store = (
+    transaction ?? db.transaction([META_STORE], 'readonly')
+  ).objectStore(META_STORE);
+  return requestToPromise(store.get(SCHEMA_VERSION_KEY)).then((value) =>
+    typeof value === 'number' ? value : 0
+  );
+}
+
+export function writeSchemaVersion(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  version: number
+): void {
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+  transaction.objectStore(META_STORE).put(version, SCHEMA_VERSION_KEY);
+}
+
+/**
+ * Migration context over an IndexedDB upgrade (versionchange) transaction.
+ */
+export class IDBMigrationContext implements MigrationContext {
+  constructor(
+    private db: IDBDatabase,
+    private transaction: IDBTransaction,
+    readonly fromVersion: number,
+    readonly toVersion: number
+  ) {}
+
+  storeNames(): string[] {
+    return Array.from(this.db.objectStoreNames).filter(
+      (name) => name !== META_STORE
+    );
+  }
+
+  createStore(name: string): void {
+    this.db.createObjectStore(name, { keyPath: PRIMARY_KEY_PATH });
+  }
+
+  deleteStore(name: string): void {
+    this.db.deleteObjectStore(name);
+  }
+
+  renameStore(from: string, to: string): void {
+    this.transaction.objectStore(from).name = to;
+  }
+
+  createIndex(store: string, input: IndexInput): void {
+    const [index] = normalizeIndexes([input]);
+    this.transaction.objectStore(store).createIndex(index.name, index.keyPath, {
+      unique: index.unique ?? false,
+      multiEntry: index.multiEntry ?? false,
+    });
+  }
+
+  deleteIndex(store: string, name: string): void {
+    this.transaction.objectStore(store).deleteIndex(name);
+  }
+
+  getAll<T = unknown>(store: string): Promise<T[]> {
+    return requestToPromise(this.transaction.objectStore(store).getAll());
+  }
+
+  async put(store: string, record: unknown): Promise<void> {
+    await requestToPromise(this.transaction.objectStore(store).put(record));
+  }
+
+  async delete(store: string, id: string): Promise<void> {
+    await requestToPromise(this.transaction.objectStore(store).delete(id));
+  }
+
+  updateAll<T = unknown, U = T>(
+    store: string,
+    transform: (record: T) => U | null | void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = this.transaction.objectStore(store).openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        try {
+          const record = cursor.value as T;
+          const next = transform(record);
+          if (next === null) {
+            cursor.delete();
+          } else {
+            cursor.update(next ?? record);
+          }
+          cursor.continue();
+        } catch (error) {
+          reject(error);
+        }
+      };
+    });
+  }
+}
+
+/**
+ * A plain-data copy of a database, used to exercise migrations without
+ * IndexedDB.
+ */
+export interface DatabaseSnapshot {
+  version: number;
+  stores: Record<string, unknown[]>;
+  indexes?: Record<string, IndexDefinition[]>;
+}
+
+interface MemoryStoreState {
+  records: Map<IDBValidKey, unknown>;
+  indexes: IndexDefinition[];
+}
+
+function notFound(store: string): DOMException {
+  return new DOMException(`No object store named "${store}"`, 'NotFoundError');
+}
+
+class MemoryMigrationContext implements MigrationContext {
+  constructor(
+    private stores: Map<string, MemoryStoreState>,
+    readonly fromVersion: number,
+    readonly toVersion: number
+  ) {}
+
+  private store(name: string): MemoryStoreState {
+    const store = this.stores.get(name);
+    if (!store) throw notFound(name);
+    return store;
+  }
+
+  storeNames(): string[] {
+    return [...this.stores.keys()];
+  }
+
+  createStore(name: string): void {
+    if (this.stores.has(name)) {
+      throw new DOMException(
+        `Object store "${name}" already exists`,
+        'ConstraintError'
+      );
+    }
+    this.stores.set(name, { records: new Map(), indexes: [] });
+  }
+
+  deleteStore(name: string): void {
+    this.store(name);
+    this.stores.delete(name);
+  }
+
+  renameStore(from: string, to: string): void {
+    const store = this.store(from);
+    if (from === to) return;
+    if (this.stores.has(to)) {
+      throw new DOMException(
+        `Object store "${to}" already exists`,
+        'ConstraintError'
+      );
+    }
+    this.stores.delete(from);
+    this.stores.set(to, store);
+  }
+
+  createIndex(store: string, input: IndexInput): void {
+    const state = this.store(store);
+    const [index] = normalizeIndexes([input]);
+    if (state.indexes.some((existing) => existing.name === index.name)) {
+      throw new DOMException(
+        `Index "${index.name}" already exists`,
+        'ConstraintError'
+      );
+    }
+    state.indexes.push(index);
+  }
+
+  deleteIndex(store: string, name: string): void {
+    const state = this.store(store);
+    if (!state.indexes.some((index) => index.name === name)) {
+      throw new DOMException(`No index named "${name}"`, 'NotFoundError');
+    }
+    state.indexes = state.indexes.filter((index) => index.name !== name);
+  }
+
+  async getAll<T = unknown>(store: string): Promise<T[]> {
+    return [...this.store(store).records.values()].map(
+      (record) => structuredClone(record) as T
+    );
+  }
+
+  async put(store: string, record: unknown): Promise<void> {
+    const copy = structuredClone(record);
+    this.store(store).records.set(keyOf(copy), copy);
+  }
+
+  async delete(store: string, id: string): Promise<void> {
+    this.store(store).records.delete(id);
+  }
+
+  async updateAll<T = unknown, U = T>(
+    store: string,
+    transform: (record: T) => U | null | void
+  ): Promise<void> {
+    const { records } = this.store(store);
+    for (const [id, value] of [...records]) {
+      const record = structuredClone(value) as T;
+      const next = transform(record);
+      records.delete(id);
+      if (next !== null) {
+        const updated = structuredClone(next ?? record);
+        records.set(keyOf(updated), updated);
+      }
+    }
+  }
+}
+
+function keyOf(record: unknown): IDBValidKey {
+  const id = (record as Record<string, unknown> | null)?.[PRIMARY_KEY_PATH];
+  if (id === undefined) {
+    throw new DOMException(
+      `Record is missing its "${PRIMARY_KEY_PATH}" key`,
+      'DataError'
+    );
+  }
+  return id as IDBValidKey;
+}
+
+/**
+ * Apply a schema's pending migrations to a snapshot, without touching
+ * IndexedDB — handy for unit-testing migrations. The input is not mutated.
+ */
+export async function migrateInMemory(
+  schema: Schema,
+  snapshot: DatabaseSnapshot
+): Promise<DatabaseSnapshot> {
+  assertNotDowngrade(schema.name, snapshot.version, schema.version);
+
+  const stores = new Map<string, MemoryStoreState>();
+  for (const [name, records] of Object.entries(snapshot.stores)) {
+    const copies = records.map((record) => structuredClone(record));
+    stores.set(name, {
+      records: new Map(copies.map((record) => [keyOf(record), record])),
+      indexes: [...(snapshot.indexes?.[name] ?? [])],
+    });
+  }
+
+  await runMigrations(
+    schema,
+    snapshot.version,
+    (fromVersion, toVersion) =>
+      new MemoryMigrationContext(stores, fromVersion, toVersion)
+  );
+
+  const result: DatabaseSnapshot = {
+    version: schema.version,
+    stores: {},
+    indexes: {},
+  };
+  for (const [name, state] of stores) {
+    result.stores[name] = [...state.records.values()];
+    result.indexes![name] = state.indexes;
+  }
+  return result;
+}
@@ -0,0 +1,352 @@
+// Full-text search. The fields named in defineModel(name, { search }) are
+// split into words and kept in an inverted index in one store of the
+// model's database, updated with every write. Searches rank records with
+// BM25 and report where each field matched.
+
+import type { Store } from './index.js';
+import { compareKeys, getValueAtPath } from './keys.js';
+import type { QueryPlan } from './query.js';
+import type { IdOf, RecordId } from './types.js';
+
+/** Store holding the search indexes of a database's models */
+export const SEARCH_STORE = '__nearstack_search';
+
+// BM25 parameters: how quickly repeated words stop adding to a score, and
+// how much long fields are penalized
+const K1 = 1.2;
+const B = 0.75;
+
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+
+export interface SearchOptions<T = unknown> {
+  /** Fields to search, from those declared. Defaults to all of them */
+  fields?: string[];
+  /** Most results to return. Defaults to 20 */
+  limit?: number;
+  /** Match the query's last word as a prefix, for searching as the user types */
+  prefix?: boolean;
+  /** Only return records passing this check */
+  filter?: (record: T) => boolean;
+}
+
+export interface SearchResult<T> {
+  record: T;
+  /** BM25 relevance; higher is better */
+  score: number;
+  /**
+   * Where the query matched, as `[start, end)` offsets into each field's
+   * text. Arrays of strings are searched joined with spaces.
+   */
+  highlights: Record<string, Array<[number, number]>>;
+}
+
+/** One word of one field of one record, with how often it occurs there */
+interface PostingEntry {
+  id: string;
+  record: RecordId;
+  count: number;
+  /** Number of words in the field, for length normalization */
+  length: number;
+}
+
+/** What a record added to the index, so it can be taken out again */
+interface DocumentEntry {
+  id: string;
+  /** Word counts by field */
+  terms: Record<string, Record<string, number>>;
+}
+
+/** Totals BM25 needs, and what the index was built from */
+interface StatsEntry {
+  id: string;
+  fields: string[];
+  version: number;
+  documents: number;
+  /** Total number of words by field */
+  lengths: Record<string, number>;
+}
+
+export type SearchEntry = PostingEntry | DocumentEntry | StatsEntry;
+
+/** A model whose records are indexed */
+export interface SearchTarget {
+  model: string;
+  fields: string[];
+  /**
+   * Schema version of the database. Migrations may have changed records
+   * without the index seeing it, so a new version rebuilds the index.
+   */
+  version: number;
+}
+
+/** The stores a search uses, inside one transaction */
+export interface SearchScope<T> {
+  index: Store<SearchEntry>;
+  /** The model's own records */
+  records: Store<T>;
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Words are matched regardless of case and accents
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(WORD)].map((match) => ({
+    term: match[0].normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+function fieldText(record: unknown, field: string): string {
+  const value = getValueAtPath(record, field);
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) {
+    return value.filter((item) => typeof item === 'string').join(' ');
+  }
+  return '';
+}
+
+// Entry ids start with the entry kind and the model, so one model's
+// entries can be found, or removed, as a key range. Record ids are kept
+// as JSON, so `1` and `'1'` stay apart.
+const postingPrefix = (model: string, field: string, term = '') =>
+  `p\u0000${model}\u0000${field}\u0000${term}`;
+const postingId = (model: string, field: string, term: string, id: RecordId) =>
+  `${postingPrefix(model, field, term)}\u0000${JSON.stringify(id)}`;
+const documentId = (model: string, id?: RecordId) =>
+  `d\u0000${model}\u0000${id === undefined ? '' : JSON.stringify(id)}`;
+const statsId = (model: string) => `s\u0000${model}`;
+
+function startingWith<T>(prefix: string): QueryPlan<T> {
+  return {
+    index: null,
+    ranges: [{ lower: prefix, upper: `${prefix}\uffff` }],
+    reverse: false,
+    unique: false,
+    filters: [],
+    sortBy: null,
+    offset: 0,
+    limit: null,
+  };
+}
+
+function analyze(record: unknown, fields: string[]): DocumentEntry['terms'] {
+  const terms: DocumentEntry['terms'] = {};
+  for (const field of fields) {
+    const counts: Record<string, number> = {};
+    for (const { term } of tokenize(fieldText(record, field))) {
+      counts[term] = (counts[term] ?? 0) + 1;
+    }
+    terms[field] = counts;
+  }
+  return terms;
+}
+
+const fieldLength = (counts: Record<string, number>) =>
+  Object.values(counts).reduce((total, count) => total + count, 0);
+
+function isCurrent(
+  stats: SearchEntry | undefined,
+  { fields, version }: SearchTarget
+): stats is StatsEntry {
+  return (
+    !!stats &&
+    'fields' in stats &&
+    stats.version === version &&
+    stats.fields.join('\u0000') === fields.join('\u0000')
+  );
+}
+
+async function addDocument(
+  index: Store<SearchEntry>,
+  model: string,
+  id: RecordId,
+  terms: DocumentEntry['terms'],
+  stats: StatsEntry
+) {
+  for (const [field, counts] of Object.entries(terms)) {
+    const length = fieldLength(counts);
+    for (const [term, count] of Object.entries(counts)) {
+      const posting = postingId(model, field, term, id);
+      await index.set(posting, { id: posting, record: id, count, length });
+    }
+    stats.lengths[field] = (stats.lengths[field] ?? 0) + length;
+  }
+  await index.set(documentId(model, id), { id: documentId(model, id), terms });
+  stats.documents++;
+}
+
+async function removeDocument(
+  index: Store<SearchEntry>,
+  model: string,
+  id: RecordId,
+  document: DocumentEntry,
+  stats: StatsEntry
+) {
+  for (const [field, counts] of Object.entries(document.terms)) {
+    for (const term of Object.keys(counts)) {
+      await index.delete(postingId(model, field, term, id));
+    }
+    stats.lengths[field] = (stats.lengths[field] ?? 0) - fieldLength(counts);
+  }
+  await index.delete(document.id);
+  stats.documents--;
+}
+
+/**
+ * Index every record of the model from scratch, for models whose search
+ * fields or schema changed since their records were indexed.
+ */
+export async function rebuildSearchIndex<T extends { id: RecordId }>(
+  scope: SearchScope<T>,
+  { model, fields, version }: SearchTarget
+): Promise<StatsEntry> {
+  const { index } = scope;
+  const stale = [
+    ...(await index.query(startingWith(`p\u0000${model}\u0000`))),
+    ...(await index.query(startingWith(documentId(model)))),
+  ];
+  for (const entry of stale) await index.delete(entry.id);
+  const stats: StatsEntry = {
+    id: statsId(model),
+    fields,
+    version,
+    documents: 0,
+    lengths: {},
+  };
+  for (const record of await scope.records.getAll()) {
+    await addDocument(index, model, record.id, analyze(record, fields), stats);
+  }
+  await index.set(stats.id, stats);
+  return stats;
+}
+
+/** Bring the index up to date with a record written (or, if undefined, deleted) */
+export async function updateSearchIndex<T extends { id: RecordId }>(
+  scope: SearchScope<T>,
+  target: SearchTarget,
+  id: RecordId,
+  record: T | undefined
+): Promise<void> {
+  const { index } = scope;
+  const { model, fields } = target;
+  const stats = await index.get(statsId(model));
+  if (!isCurrent(stats, target)) {
+    // The record has been written, so a rebuild picks it up
+    await rebuildSearchIndex(scope, target);
+    return;
+  }
+  const previous = (await index.get(documentId(model, id))) as
+    | DocumentEntry
+    | undefined;
+  const terms = record && analyze(record, fields);
+  if (
+    previous &&
+    terms &&
+    JSON.stringify(previous.terms) === JSON.stringify(terms)
+  ) {
+    return;
+  }
+  if (previous) await removeDocument(index, model, id, previous, stats);
+  if (terms) await addDocument(index, model, id, terms, stats);
+  await index.set(stats.id, stats);
+}
+
+function highlights(
+  record: unknown,
+  fields: string[],
+  matches: (term: string) => boolean
+): SearchResult<unknown>['highlights'] {
+  const found: SearchResult<unknown>['highlights'] = {};
+  for (const field of fields) {
+    const ranges = tokenize(fieldText(record, field))
+      .filter((token) => matches(token.term))
+      .map(({ start, end }): [number, number] => [start, end]);
+    if (ranges.length > 0) found[field] = ranges;
+  }
+  return found;
+}
+
+/**
+ * Records matching any word of `query`, best first. Rebuilds the index
+ * first if it is out of date.
+ */
+export async function searchRecords<T extends { id: RecordId }>(
+  scope: SearchScope<T>,
+  target: SearchTarget,
+  query: string,
+  options: SearchOptions<T> = {}
+): Promise<SearchResult<T>[]> {
+  const { model, fields: declared } = target;
+  const { fields = declared, limit = 20, prefix = false, filter } = options;
+  for (const field of fields) {
+    if (!declared.includes(field)) {
+      throw new Error(
+        `Field "${field}" of model "${model}" is not searchable. Declare it in defineModel(name, { search }).`
+      );
+    }
+  }
+  const { index } = scope;
+  const stats = await index.get(statsId(model));
+  const { documents, lengths } = isCurrent(stats, target)
+    ? stats
+    : await rebuildSearchIndex(scope, target);
+
+  const terms = [...new Set(tokenize(query).map((token) => token.term))];
+  const last = prefix ? terms.pop() : undefined;
+  if (terms.length === 0 && !last) return [];
+
+  const scores = new Map<RecordId, number>();
+  for (const field of fields) {
+    const averageLength = lengths[field] / documents || 1;
+    const searches = [
+      ...terms.map((term) => `${postingPrefix(model, field, term)}\u0000`),
+      ...(last ? [postingPrefix(model, field, last)] : []),
+    ];
+    for (const start of searches) {
+      // A prefix can match several words, each scored on its own
+      const byTerm = new Map<string, PostingEntry[]>();
+      for (const entry of (await index.query(
+        startingWith(start)
+      )) as PostingEntry[]) {
+        const rest = entry.id.slice(postingPrefix(model, field).length);
+        const term = rest.slice(0, rest.indexOf('\u0000'));
+        byTerm.set(term, [...(byTerm.get(term) ?? []), entry]);
+      }
+      for (const postings of byTerm.values()) {
+        const idf = Math.log(
+          1 + (documents - postings.length + 0.5) / (postings.length + 0.5)
+        );
+        for (const { record, count, length } of postings) {
+          const norm = K1 * (1 - B + (B * length) / averageLength);
+          const score = (idf * count * (K1 + 1)) / (count + norm);
+          scores.set(record, (scores.get(record) ?? 0) + score);
+        }
+      }
+    }
+  }
+
+  const ranked = [...scores].sort(
+    ([a, x], [b, y]) => y - x || compareKeys(a, b)
+  );
+  const exact = new Set(terms);
+  const matches = (term: string) =>
+    exact.has(term) || (last !== undefined && term.startsWith(last));
+  const results: SearchResult<T>[] = [];
+  for (const [id, score] of ranked) {
+    if (results.length >= limit) break;
+    const record = await scope.records.get(id as IdOf<T>);
+    if (!record || (filter && !filter(record))) continue;
+    results.push({
+      record,
+      score,
+      highlights: highlights(record, fields, matches),
+    });
+  }
+  return results;
+}
@@ -0,0 +1,279 @@
+// Storage monitoring. Models and downloaded AI models share the origin's
+// quota, and browsers evict an origin's data without warning when space
+// runs out unless it is persisted. A storage monitor reports what is used
+// and by what, and warns as usage nears the quota.
+
+import { getDatabases, getModels } from './registry.js';
+import type { StateListener, Unsubscribe } from './types.js';
+
+/** Approximate space taken by one model's records and attachments */
+export interface ModelStorage {
+  dbName: string;
+  model: string;
+  records: number;
+  /** Estimated size of the records, in bytes */
+  bytes: number;
+  /** Size of the model's attachments, in bytes */
+  attachments: number;
+}
+
+/** A Cache Storage cache holding AI model files */
+export interface CacheUsage {
+  name: string;
+  entries: number;
+  bytes: number;
+}
+
+export interface StorageWarning {
+  level: 'warning' | 'critical';
+  /** Share of the quota in use, from 0 to 1 */
+  ratio: number;
+  message: string;
+}
+
+export interface StorageState {
+  /** Whether the browser reports usage (`navigator.storage`) */
+  supported: boolean;
+  /** Bytes the origin uses, as estimated by the browser */
+  usage: number | null;
+  /** Bytes the origin may use */
+  quota: number | null;
+  /** Whether the browser has agreed not to evict the origin's data */
+  persisted: boolean | null;
+  models: ModelStorage[];
+  caches: CacheUsage[];
+  /** Set while usage is above `warnAt` of the quota */
+  warning: StorageWarning | null;
+  checking: boolean;
+  checkedAt: Date | null;
+  error: Error | null;
+}
+
+export interface StorageMonitorOptions {
+  /** Databases whose models are measured. Defaults to all of them */
+  dbNames?: string[];
+  /** Which Cache Storage caches hold AI models. Defaults to WebLLM's */
+  caches?: (name: string) => boolean;
+  /** Share of the quota at which a warning is raised. Defaults to 0.8 */
+  warnAt?: number;
+  /** Share of the quota at which the warning turns critical. Defaults to 0.95 */
+  criticalAt?: number;
+  /** How often to check while subscribed, in milliseconds (one minute) */
+  interval?: number;
+}
+
+export interface StorageMonitor {
+  getState(): StorageState;
+  /** Called whenever the state changes. Checks run while anyone listens */
+  subscribe(listener: StateListener): Unsubscribe;
+  /** Measure usage now */
+  refresh(): Promise<StorageState>;
+  /**
+   * Ask the browser to keep the origin's data under storage pressure.
+   * Resolves to whether it agreed; some browsers only do for installed
+   * or frequently used sites.
+   */
+  persist(): Promise<boolean>;
+  /** Stop checking and drop every listener */
+  dispose(): void;
+}
+
+function initialState(): StorageState {
+  return {
+    supported:
+      typeof navigator !== 'undefined' && !!navigator.storage?.estimate,
+    usage: null,
+    quota: null,
+    persisted: null,
+    models: [],
+    caches: [],
+    warning: null,
+    checking: false,
+    checkedAt: null,
+    error: null,
+  };
+}
+
+// Rough size of a value once stored: UTF-16 strings, 8-byte numbers
+function sizeOf(value: unknown): number {
+  if (typeof value === 'string') return value.length * 2;
+  if (typeof value === 'number' || value instanceof Date) return 8;
+  if (typeof value === 'boolean') return 4;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (Array.isArray(value)) {
+    return value.reduce((total: number, item) => total + sizeOf(item), 0);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).reduce(
+      (total, [key, item]) => total + key.length * 2 + sizeOf(item),
+      0
+    );
+  }
+  return 0;
+}
+
+async function modelStorage(dbNames: string[]): Promise<ModelStorage[]> {
+  const usages: ModelStorage[] = [];
+  for (const dbName of dbNames) {
+    for (const model of getModels(dbName)) {
+      try {
+        // The store includes trashed records, which take space too
+        const records = await model.store.getAll();
+        const attachments =
+          model.attachments.fields.length > 0
+            ? (await model.attachments.usage()).bytes
+            : 0;
+        usages.push({
+          dbName,
+          model: model.name,
+          records: records.length,
+          bytes: sizeOf(records),
+          attachments,
+        });
+      } catch {
+        // Encrypted models can't be read while their vault is locked
+      }
+    }
+  }
+  return usages;
+}
+
+async function cacheUsage(
+  match: (name: string) => boolean
+): Promise<CacheUsage[]> {
+  if (typeof caches === 'undefined') return [];
+  const names = (await caches.keys()).filter(match);
+  return Promise.all(
+    names.map(async (name) => {
+      const cache = await caches.open(name);
+      const requests = await cache.keys();
+      let bytes = 0;
+      for (const request of requests) {
+        const response = await cache.match(request);
+        if (!response) continue;
+        const length = Number(response.headers.get('content-length'));
+        bytes += length > 0 ? length : (await response.blob()).size;
+      }
+      return { name, entries: requests.length, bytes };
+    })
+  );
+}
+
+class Monitor implements StorageMonitor {
+  private state = initialState();
+  private listeners = new Set<StateListener>();
+  private timer?: ReturnType<typeof setInterval>;
+  private checking?: Promise<StorageState>;
+
+  constructor(private options: StorageMonitorOptions) {}
+
+  getState(): StorageState {
+    return this.state;
+  }
+
+  private update(changes: Partial<StorageState>): void {
+    this.state = { ...this.state, ...changes };
+    for (const listener of this.listeners) listener();
+  }
+
+  subscribe(listener: StateListener): Unsubscribe {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      const check = () => void this.refresh().catch(() => {});
+      this.timer = setInterval(check, this.options.interval ?? 60_000);
+      // Don't keep Node (SSR, tests) running just to check
+      (this.timer as { unref?: () => void }).unref?.();
+      check();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  private stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private warning(usage: number, quota: number): StorageWarning | null {
+    const { warnAt = 0.8, criticalAt = 0.95 } = this.options;
+    const ratio = quota > 0 ? usage / quota : 0;
+    if (ratio < warnAt) return null;
+    const percent = Math.round(ratio * 100);
+    return ratio >= criticalAt
+      ? {
+          level: 'critical',
+          ratio,
+          message: `Storage is ${percent}% full; new data may fail to save`,
+        }
+      : { level: 'warning', ratio, message: `Storage is ${percent}% full` };
+  }
+
+  refresh(): Promise<StorageState> {
+    // Overlapping calls share one check
+    this.checking ??= this.check().finally(() => {
+      this.checking = undefined;
+    });
+    return this.checking;
+  }
+
+  private async check(): Promise<StorageState> {
+    this.update({ checking: true });
+    try {
+      const storage =
+        typeof navigator !== 'undefined' ? navigator.storage : undefined;
+      const estimate = storage?.estimate ? await storage.estimate() : {};
+      const persisted = storage?.persisted ? await storage.persisted() : null;
+      const usage = estimate.usage ?? null;
+      const quota = estimate.quota ?? null;
+      this.update({
+        usage,
+        quota,
+        persisted,
+        models: await modelStorage(this.options.dbNames ?? getDatabases()),
+        caches: await cacheUsage(
+          this.options.caches ?? ((name) => /webllm/i.test(name))
+        ),
+        warning:
+          usage !== null && quota !== null ? this.warning(usage, quota) : null,
+        checking: false,
+        checkedAt: new Date(),
+        error: null,
+      });
+    } catch (error) {
+      this.update({
+        checking: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      throw error;
+    }
+    return this.state;
+  }
+
+  async persist(): Promise<boolean> {
+    const storage =
+      typeof navigator !== 'undefined' ? navigator.storage : undefined;
+    if (!storage?.persist) return false;
+    const persisted = await storage.persist();
+    this.update({ persisted });
+    return persisted;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Watch the origin's storage: usage and quota from
+ * `navigator.storage.estimate()`, an estimate per model and per AI model
+ * cache, and a warning once usage nears the quota.
+ */
+export function createStorageMonitor(
+  options: StorageMonitorOptions = {}
+): StorageMonitor {
+  return new Monitor(options);
+}
@@ -1,3 +1,8 @@
+import type { StorageAdapter } from './adapter.js';
+import type { StandardSchemaV1 } from './validation.js';
+import type { Vault } from './encryption.js';
+import type { Relation } from './relations.js';
+
 export interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -10,4 +15,198 @@ export interface BaseProvider {
 
 export type StateListener = () => void;
 
+export type ChangeType = 'insert' | 'update' | 'delete';
+
+/**
+ * A record's primary key, kept in its `id` field. Strings for most id
+ * strategies, numbers for `autoincrement`.
+ */
+export type RecordId = string | number;
+
+/** The type of `T`'s id */
+export type IdOf<T> = T extends { id: infer K extends RecordId } ? K : RecordId;
+
+/** A record to insert: its id is optional, unless the model uses natural keys */
+export type NewRecord<T> = Omit<T, 'id'> & { id?: IdOf<T> };
+
+/**
+ * How ids of new records are made:
+ *
+ * - `'uuid'`: random UUIDs (the default)
+ * - `'uuidv7'`, `'ulid'`: strings that sort in creation order
+ * - `'autoincrement'`: numbers counting up from 1, kept per model in the database
+ * - `'natural'`: the caller gives every record its id
+ * - `{ composite: fields }`: `compositeKey()` of the values of `fields`
+ */
+export type IdStrategy =
+  | 'uuid'
+  | 'uuidv7'
+  | 'ulid'
+  | 'autoincrement'
+  | 'natural'
+  | { composite: string[] };
+
+/**
+ * A single record-level change. `before` is absent for inserts and `after`
+ * for deletes. `source` tells local writes apart from ones made in
+ * another tab.
+ */
+export interface ChangeEvent<T = unknown> {
+  type: ChangeType;
+  id: RecordId;
+  before?: T;
+  after?: T;
+  source: 'local' | 'remote';
+}
+
+/**
+ * Receives the changes from one write, or every change from a
+ * transaction in a single batch. Listeners that only care that
+ * *something* changed can ignore the argument.
+ */
+export type ChangeListener<T = unknown> = (events: ChangeEvent<T>[]) => void;
+
 export type Unsubscribe = () => void;
+
+/**
+ * Outcome of one item in a bulk operation, at the same position as the
+ * item in the input. A failed item (invalid record, unique index clash)
+ * does not stop the others from being written.
+ */
+export type BulkResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: Error };
+
+/** One entry of a `bulkUpdate()` call */
+export interface BulkUpdate<T> {
+  id: IdOf<T>;
+  changes: Partial<T>;
+}
+
+/**
+ * A secondary index on a model's object store.
+ * `keyPath` is a (possibly dotted) field path, or an array of paths for a
+ * compound index.
+ */
+export interface IndexDefinition {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+/**
+ * Shorthand accepted by `defineModel` for declaring indexes:
+ * `'status'` for a single field, `['status', 'createdAt']` for a compound
+ * index, or a full definition (whose name defaults to the key path).
+ */
+export type IndexInput =
+  | string
+  | string[]
+  | (Omit<IndexDefinition, 'name'> & { name?: string });
+
+export type TransactionMode = 'readonly' | 'readwrite';
+
+/**
+ * A single-record write on its way to storage, as seen by middleware.
+ * Upserts (`bulkPut()`, imports) count as an insert or an update depending
+ * on whether the record existed.
+ */
+export interface WriteOperation<T = unknown> {
+  type: ChangeType;
+  /** Name of the model being written */
+  model: string;
+  id: RecordId;
+  /**
+   * The record to store, for inserts and updates. Replace or mutate it
+   * before calling `next()`; afterwards it holds what was stored.
+   */
+  record?: T;
+  /** The stored record, for updates and deletes */
+  previous?: T;
+}
+
+/**
+ * Wraps every write to a model. Call `next()` to let the write proceed
+ * (middleware later in the chain, hooks, validation and storage), throw to
+ * veto it and fail the operation, or return without calling `next()` to
+ * skip it silently. Middleware runs inside the write's transaction, so
+ * with IndexedDB it should await nothing but `next()`.
+ */
+export type Middleware<T = unknown> = (
+  operation: WriteOperation<T>,
+  next: () => Promise<void>
+) => Promise<void> | void;
+
+export interface ModelOptions<T = unknown> {
+  indexes?: IndexInput[];
+  /** Storage backend. Defaults to IndexedDB, falling back to memory */
+  adapter?: StorageAdapter;
+  /** Database the model's store lives in. Defaults to `'nearstack'` */
+  dbName?: string;
+  /** How ids of new records are made. Defaults to random UUIDs */
+  id?: IdStrategy;
+  /**
+   * Validates every record written through the model, applying defaults.
+   * Accepts the built-in `v` validators or any Standard Schema (Zod,
+   * Valibot, ...). The `id` field does not need to be declared.
+   */
+  schema?: StandardSchemaV1<unknown, Omit<T, 'id'>>;
+  /**
+   * Encrypt the model's records at rest with this vault (see
+   * `createVault()`). `id` and indexed fields are stored in the clear so
+   * they stay queryable.
+   */
+  encryption?: Vault;
+  /**
+   * Runs before a record is inserted, ahead of schema validation. Return
+   * a replacement record (or mutate it), or throw to reject the insert.
+   * May be async; the write's transaction is held open meanwhile.
+   */
+  beforeInsert?(record: T): T | void | Promise<T | void>;
+  /** Runs before an update with the merged record; as `beforeInsert` */
+  beforeUpdate?(record: T, previous: T): T | void | Promise<T | void>;
+  /** Runs before a record is deleted. Throw to reject the delete */
+  beforeDelete?(record: T): void | Promise<void>;
+  /**
+   * Run once the write has committed, for writes made in this tab. Errors
+   * are logged and don't affect the write.
+   */
+  afterInsert?(record: T): void | Promise<void>;
+  afterUpdate?(record: T, previous: T): void | Promise<void>;
+  afterDelete?(record: T): void | Promise<void>;
+  /**
+   * Keep deleted records as tombstones with a `deletedAt` date instead of
+   * removing them. Tables hide them; `trash()`, `restore()`, `purge()` and
+   * `emptyTrash()` manage them. `model.store` and exports still see them,
+   * so they can be synced.
+   */
+  softDelete?: boolean;
+  /**
+   * Expire records this many milliseconds after their last write. Writes
+   * set an indexed `expiresAt` date; expired records are hidden straight
+   * away and deleted when the database opens and every `sweepInterval`.
+   */
+  ttl?: number;
+  /** How often expired records are deleted, in milliseconds (one minute) */
+  sweepInterval?: number;
+  /** Wraps every write, outermost first. See `Middleware` */
+  middleware?: Middleware<T>[];
+  /**
+   * Relations to other models by name, built with `belongsTo()`,
+   * `hasMany()` and `manyToMany()`. Loaded with `table().include(name)`.
+   */
+  relations?: Record<string, Relation>;
+  /**
+   * Fields holding attachments stored with `model.attachments.put()`: an
+   * `Attachment` or an array of them. An attachment is deleted when its
+   * record is deleted (or purged, with `softDelete`) or stops pointing at it.
+   */
+  attachments?: string[];
+  /**
+   * Fields searched by `table().search()`: strings, or arrays of strings.
+   * Their words are kept in an index in the database, updated on every
+   * write. Encrypted models can't be searchable.
+   */
+  search?: string[];
+}
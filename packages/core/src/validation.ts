@@ -0,0 +1,310 @@
+// Runtime record validation: a small built-in validator (`v`) and support
+// for any library implementing the Standard Schema interface.
+
+import { ValidationError } from './errors.js';
+
+// ─── Standard Schema ───────────────────────────────────────────────
+// The subset of https://standardschema.dev that validation relies on.
+// Zod, Valibot, ArkType and others implement it, and so does `v`.
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** One problem found in a record, located by its path from the root */
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+function normalizeIssue(issue: StandardSchemaIssue): ValidationIssue {
+  return {
+    message: issue.message,
+    path: (issue.path ?? []).map((segment) => {
+      const key = typeof segment === 'object' ? segment.key : segment;
+      return typeof key === 'number' ? key : String(key);
+    }),
+  };
+}
+
+/**
+ * Validate a record against a model's schema, returning the parsed value
+ * (with defaults applied) or throwing a `ValidationError`.
+ *
+ * Validation has to be synchronous: writes run inside IndexedDB
+ * transactions, which commit as soon as they are left waiting.
+ */
+export function validateRecord<T>(
+  modelName: string,
+  schema: StandardSchemaV1<unknown, T>,
+  value: unknown
+): T {
+  const result = schema['~standard'].validate(value);
+  if (result instanceof Promise) {
+    throw new TypeError(
+      `The schema for model "${modelName}" validates asynchronously; only synchronous schemas are supported`
+    );
+  }
+  if (result.issues) {
+    throw new ValidationError(modelName, result.issues.map(normalizeIssue));
+  }
+  return result.value;
+}
+
+// ─── Built-in validator ────────────────────────────────────────────
+
+type Check<T> = (
+  value: unknown,
+  path: (string | number)[],
+  issues: ValidationIssue[]
+) => T;
+
+/** Output type of a validator */
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+/**
+ * A composable validator. Build them with `v`; every validator is also a
+ * Standard Schema, so it can be passed anywhere one is accepted.
+ */
+export class Validator<T> implements StandardSchemaV1<unknown, T> {
+  readonly '~standard': StandardSchemaV1<unknown, T>['~standard'];
+
+  constructor(private check: Check<T>) {
+    this['~standard'] = {
+      version: 1,
+      vendor: 'nearstack',
+      validate: (value) => {
+        const issues: ValidationIssue[] = [];
+        const output = this.run(value, [], issues);
+        return issues.length > 0 ? { issues } : { value: output };
+      },
+    };
+  }
+
+  /** Validate `value` at `path`, collecting problems into `issues` */
+  run(value: unknown, path: (string | number)[], issues: ValidationIssue[]): T {
+    return this.check(value, path, issues);
+  }
+
+  /** Also accept `undefined` (a missing field) */
+  optional(): Validator<T | undefined> {
+    return new Validator((value, path, issues) =>
+      value === undefined ? undefined : this.run(value, path, issues)
+    );
+  }
+
+  /** Also accept `null` */
+  nullable(): Validator<T | null> {
+    return new Validator((value, path, issues) =>
+      value === null ? null : this.run(value, path, issues)
+    );
+  }
+
+  /** Use `fallback` (or its result, if a function) when the value is missing */
+  default(fallback: T | (() => T)): Validator<T> {
+    return new Validator((value, path, issues) =>
+      this.run(
+        value === undefined
+          ? typeof fallback === 'function'
+            ? (fallback as () => T)()
+            : fallback
+          : value,
+        path,
+        issues
+      )
+    );
+  }
+
+  /** Add a custom check, reported with `message` when it fails */
+  refine(predicate: (value: T) => boolean, message: string): Validator<T> {
+    return new Validator((value, path, issues) => {
+      const before = issues.length;
+      const output = this.run(value, path, issues);
+      if (issues.length === before && !predicate(output)) {
+        issues.push({ path, message });
+      }
+      return output;
+    });
+  }
+}
+
+function typeCheck<T>(
+  expected: string,
+  test: (value: unknown) => value is T
+): Check<T> {
+  return (value, path, issues) => {
+    if (!test(value)) {
+      issues.push({ path, message: `Expected ${expected}` });
+    }
+    return value as T;
+  };
+}
+
+interface LengthOptions {
+  min?: number;
+  max?: number;
+}
+
+function checkLength(
+  length: number,
+  options: LengthOptions,
+  unit: string,
+  path: (string | number)[],
+  issues: ValidationIssue[]
+): void {
+  if (options.min !== undefined && length < options.min) {
+    issues.push({ path, message: `Expected at least ${options.min} ${unit}` });
+  }
+  if (options.max !== undefined && length > options.max) {
+    issues.push({ path, message: `Expected at most ${options.max} ${unit}` });
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && !Number.isNaN(value);
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Builders for the built-in validator.
+ *
+ * ```ts
+ * const todoSchema = v.object({
+ *   title: v.string({ min: 1 }),
+ *   done: v.boolean().default(false),
+ *   tags: v.array(v.string()).default(() => []),
+ * });
+ * ```
+ */
+export const v = {
+  string(
+    options: LengthOptions & { pattern?: RegExp } = {}
+  ): Validator<string> {
+    const base = typeCheck('a string', isString);
+    return new Validator((value, path, issues) => {
+      const before = issues.length;
+      const output = base(value, path, issues);
+      if (issues.length > before) return output;
+      checkLength(output.length, options, 'characters', path, issues);
+      if (options.pattern && !options.pattern.test(output)) {
+        issues.push({ path, message: `Expected to match ${options.pattern}` });
+      }
+      return output;
+    });
+  },
+
+  number(
+    options: LengthOptions & { integer?: boolean } = {}
+  ): Validator<number> {
+    const base = typeCheck('a number', isNumber);
+    return new Validator((value, path, issues) => {
+      const before = issues.length;
+      const output = base(value, path, issues);
+      if (issues.length > before) return output;
+      if (options.integer && !Number.isInteger(output)) {
+        issues.push({ path, message: 'Expected an integer' });
+      }
+      if (options.min !== undefined && output < options.min) {
+        issues.push({ path, message: `Expected at least ${options.min}` });
+      }
+      if (options.max !== undefined && output > options.max) {
+        issues.push({ path, message: `Expected at most ${options.max}` });
+      }
+      return output;
+    });
+  },
+
+  boolean(): Validator<boolean> {
+    return new Validator(
+      typeCheck(
+        'a boolean',
+        (value): value is boolean => typeof value === 'boolean'
+      )
+    );
+  },
+
+  date(): Validator<Date> {
+    return new Validator(
+      typeCheck(
+        'a valid date',
+        (value): value is Date =>
+          value instanceof Date && !Number.isNaN(value.getTime())
+      )
+    );
+  },
+
+  literal<L extends string | number | boolean | null>(
+    literal: L
+  ): Validator<L> {
+    return new Validator(
+      typeCheck(
+        JSON.stringify(literal),
+        (value): value is L => value === literal
+      )
+    );
+  },
+
+  enum<const E extends readonly (string | number)[]>(
+    values: E
+  ): Validator<E[number]> {
+    return new Validator(
+      typeCheck(
+        `one of ${values.map((value) => JSON.stringify(value)).join(', ')}`,
+        (value): value is E[number] => values.includes(value as E[number])
+      )
+    );
+  },
+
+  unknown(): Validator<unknown> {
+    return new Validator((value) => value);
+  },
+
+  array<I>(item: Validator<I>, options: LengthOptions = {}): Validator<I[]> {
+    return new Validator((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'Expected an array' });
+        return value as I[];
+      }
+      checkLength(value.length, options, 'items', path, issues);
+      return value.map((element, i) => item.run(element, [...path, i], issues));
+    });
+  },
+
+  /**
+   * An object with the given fields. Fields not in the shape are kept
+   * as they are.
+   */
+  object<S extends Record<string, Validator<unknown>>>(
+    shape: S
+  ): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+    return new Validator((value, path, issues) => {
+      if (!isRecord(value)) {
+        issues.push({ path, message: 'Expected an object' });
+        return value as { [K in keyof S]: Infer<S[K]> };
+      }
+      const output: Record<string, unknown> = { ...value };
+      for (const [key, field] of Object.entries(shape)) {
+        const parsed = field.run(value[key], [...path, key], issues);
+        if (parsed !== undefined || key in value) output[key] = parsed;
+      }
+      return output as { [K in keyof S]: Infer<S[K]> };
+    });
+  },
+};
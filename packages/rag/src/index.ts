@@ -1,5 +1,7 @@
 // Text splitter + embedding + vector search (stub)
 
+import type { AI } from '@nearstack-dev/ai';
+
 export interface TextChunk {
   id: string;
   text: string;
@@ -100,9 +102,22 @@ export class VectorStore {
   }
 }
 
-export async function createEmbedding(_text: string): Promise<number[]> {
-  // Stub: Will implement embedding generation (WebLLM or similar)
-  return new Array(384).fill(0);
+export interface EmbeddingOptions {
+  /** AI instance to embed with (defaults to the shared `ai` instance) */
+  ai?: AI;
+  /** Embedding model (defaults to the first one available) */
+  model?: string;
+}
+
+// Importing @nearstack-dev/ai creates the shared instance, which starts
+// detecting providers, so it is only loaded once something needs it
+function loadAI(): Promise<typeof import('@nearstack-dev/ai')> {
+  return import('@nearstack-dev/ai');
+}
+
+export async function createEmbedding(text: string, options: EmbeddingOptions = {}): Promise<number[]> {
+  const ai = options.ai ?? (await loadAI()).ai;
+  return ai.embed(text, { model: options.model });
 }
 
 export interface RAGSearchResult {
@@ -115,6 +130,8 @@ export class RAGEngine {
   private vectorStore = new VectorStore();
   private chunks: TextChunk[] = [];
 
+  constructor(private embeddingOptions: EmbeddingOptions = {}) {}
+
   async addDocument(text: string): Promise<void> {
     const chunk: TextChunk = {
       id: `doc-${this.chunks.length}`,
@@ -122,7 +139,16 @@ export class RAGEngine {
     };
     this.chunks.push(chunk);
     
-    const vector = await createEmbedding(text);
+    let vector: number[];
+    try {
+      vector = await createEmbedding(text, this.embeddingOptions);
+    } catch (error) {
+      // Search is text-based for now, so documents are still added when
+      // embedding fails: no embedding model, or a provider that is down
+      const { AIError } = await loadAI();
+      if (error instanceof AIError) return;
+      throw error;
+    }
     await this.vectorStore.addEmbedding({
       id: chunk.id,
       vector,
@@ -183,6 +209,6 @@ export class RAGEngine {
   }
 }
 
-export function createRAGEngine(): RAGEngine {
-  return new RAGEngine();
+export function createRAGEngine(options?: EmbeddingOptions): RAGEngine {
+  return new RAGEngine(options);
 }
@@ -0,0 +1,85 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  applyChanges,
+  type ChangeEvent,
+  type Model,
+} from '@nearstack-dev/core';
+import { useLiveQuery } from '../useLiveQuery';
+
+interface Todo {
+  id: string;
+  title: string;
+}
+
+function createModel() {
+  let listener: ((events: ChangeEvent<Todo>[]) => void) | undefined;
+  const model = {
+    subscribe: vi.fn((cb: (events: ChangeEvent<Todo>[]) => void) => {
+      listener = cb;
+      return () => undefined;
+    }),
+  } as unknown as Model<Todo>;
+  return { model, emit: (events: ChangeEvent<Todo>[]) => listener?.(events) };
+}
+
+const inserted: ChangeEvent<Todo> = {
+  type: 'insert',
+  id: '2',
+  after: { id: '2', title: 'two' },
+  source: 'local',
+};
+
+describe('useLiveQuery', () => {
+  it('re-runs the query on change', async () => {
+    const { model, emit } = createModel();
+    const query = vi.fn().mockResolvedValue([{ id: '1', title: 'one' }]);
+
+    const { result } = renderHook(() => useLiveQuery(query, [], model));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => emit([inserted]));
+    await waitFor(() => expect(query).toHaveBeenCalledTimes(2));
+  });
+
+  it('patches the result from change events', async () => {
+    const { model, emit } = createModel();
+    const query = vi.fn().mockResolvedValue([{ id: '1', title: 'one' }]);
+
+    const { result } = renderHook(() =>
+      useLiveQuery(query, [], model, {
+        patch: (data: Todo[], events: ChangeEvent<Todo>[]) =>
+          applyChanges(data, events),
+      })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => emit([inserted]));
+
+    expect(result.current.data).toEqual([
+      { id: '1', title: 'one' },
+      { id: '2', title: 'two' },
+    ]);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-runs the query when a related model changes', async () => {
+    const projects = createModel();
+    const { model } = createModel();
+    model.relations = {
+      project: { kind: 'belongsTo', model: projects.model, foreignKey: 'p' },
+    };
+    const query = vi.fn().mockResolvedValue([]);
+
+    const { result, unmount } = renderHook(() =>
+      useLiveQuery(query, [], model, {
+        patch: (data: Todo[]) => data,
+      })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => projects.emit([inserted]));
+    await waitFor(() => expect(query).toHaveBeenCalledTimes(2));
+    unmount();
+  });
+});
@@ -0,0 +1,28 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { createStorageMonitor } from '@nearstack-dev/core';
+import { useStorage } from '../useStorage';
+
+describe('useStorage', () => {
+  it('follows the monitor while mounted', async () => {
+    const storage = {
+      estimate: vi.fn(async () => ({ usage: 90, quota: 100 })),
+      persist: vi.fn(async () => true),
+    };
+    Object.defineProperty(navigator, 'storage', {
+      value: storage,
+      configurable: true,
+    });
+    const monitor = createStorageMonitor({ dbNames: [] });
+
+    const { result, unmount } = renderHook(() => useStorage(monitor));
+    await waitFor(() => expect(result.current.state.usage).toBe(90));
+    expect(result.current.warning?.level).toBe('warning');
+
+    await act(() => result.current.persist());
+    expect(result.current.state.persisted).toBe(true);
+
+    unmount();
+    delete (navigator as { storage?: unknown }).storage;
+  });
+});
@@ -11,6 +11,7 @@ const baseState: AIState = {
   activeProvider: null,
   downloading: null,
   error: null,
+  lastRequest: null,
 };
 
 describe('useAI', () => {
@@ -1,2 +1,4 @@
 export { useModel } from './useModel';
 export { useLiveQuery } from './useLiveQuery';
+export type { LiveQueryOptions } from './useLiveQuery';
+export { useStorage } from './useStorage';
@@ -1,17 +1,39 @@
-import { useEffect, useState } from 'react';
-import type { Model } from '@nearstack-dev/core';
+import { useEffect, useRef, useState } from 'react';
+import {
+  relatedModels,
+  type ChangeEvent,
+  type Model,
+} from '@nearstack-dev/core';
 
-export function useLiveQuery<T = any>(
+export interface LiveQueryOptions<T, M = unknown> {
+  /**
+   * Patch the current result from change events instead of re-running the
+   * query. Return `undefined` to fall back to a full re-run.
+   */
+  patch?: (data: T, events: ChangeEvent<M>[]) => T | undefined;
+}
+
+export function useLiveQuery<T = any, M = unknown>(
   query: () => Promise<T>,
   deps: any[] = [],
-  model?: Model<any>
+  model?: Model<M>,
+  options: LiveQueryOptions<T, M> = {}
 ) {
   const [data, setData] = useState<T | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const dataRef = useRef<T | undefined>(undefined);
+  const patchRef = useRef(options.patch);
+  patchRef.current = options.patch;
 
   useEffect(() => {
     let mounted = true;
+    let loaded = false;
+
+    const update = (value: T) => {
+      dataRef.current = value;
+      setData(value);
+    };
 
     const runQuery = async () => {
       setLoading(true);
@@ -19,7 +41,8 @@ export function useLiveQuery<T = any>(
       try {
         const value = await query();
         if (!mounted) return;
-        setData(value);
+        loaded = true;
+        update(value);
       } catch (err) {
         if (!mounted) return;
         setError(err instanceof Error ? err : new Error(String(err)));
@@ -32,13 +55,27 @@ export function useLiveQuery<T = any>(
 
     void runQuery();
 
-    const unsubscribe = model?.subscribe?.(() => {
+    const unsubscribe = model?.subscribe?.((events) => {
+      const patch = patchRef.current;
+      if (patch && loaded && events) {
+        const patched = patch(dataRef.current as T, events);
+        if (patched !== undefined) {
+          update(patched);
+          return;
+        }
+      }
       void runQuery();
     });
+    // Results may hold related records (table().include()), so changes to
+    // related models re-run the query too
+    const stopRelated = (model ? relatedModels(model) : []).map((related) =>
+      related.subscribe(() => void runQuery())
+    );
 
     return () => {
       mounted = false;
       unsubscribe?.();
+      stopRelated.forEach((stop) => stop());
     };
   }, [model, ...deps]);
 
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
-import type { Model } from '@nearstack-dev/core';
+import type { IdOf, Model } from '@nearstack-dev/core';
 
-export function useModel<T = any>(model: Model<T>, id: string) {
+export function useModel<T = any>(model: Model<T>, id: IdOf<T>) {
   const [data, setData] = useState<T | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
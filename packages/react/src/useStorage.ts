@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { StorageMonitor, StorageState } from '@nearstack-dev/core';
+
+/**
+ * Follow a storage monitor's state. The monitor checks usage while at
+ * least one component uses it.
+ */
+export function useStorage(monitor: StorageMonitor) {
+  const [state, setState] = useState<StorageState>(monitor.getState());
+
+  useEffect(() => {
+    setState(monitor.getState());
+    return monitor.subscribe(() => setState(monitor.getState()));
+  }, [monitor]);
+
+  const refresh = useCallback(() => monitor.refresh(), [monitor]);
+  const persist = useCallback(() => monitor.persist(), [monitor]);
+
+  return { state, warning: state.warning, refresh, persist };
+}
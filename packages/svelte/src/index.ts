@@ -1,11 +1,18 @@
 // Svelte store adapter (simple bridge)
 
-import { writable, type Writable } from 'svelte/store';
-import type { Model } from '@nearstack-dev/core';
+import { readable, writable, type Readable, type Writable } from 'svelte/store';
+import {
+  relatedModels,
+  type ChangeEvent,
+  type IdOf,
+  type Model,
+  type StorageMonitor,
+  type StorageState,
+} from '@nearstack-dev/core';
 
 export function modelStore<T = any>(
   model: Model<T>,
-  id: string
+  id: IdOf<T>
 ): Writable<T | undefined> {
   const store = writable<T | undefined>(undefined);
 
@@ -25,13 +32,85 @@ export function modelStore<T = any>(
   };
 }
 
-export function liveQuery<T = any>(query: () => Promise<T>): Writable<T | undefined> {
-  const store = writable<T | undefined>(undefined);
+export interface LiveQueryOptions<T, M = unknown> {
+  /**
+   * Patch the current result from change events instead of re-running the
+   * query. Return `undefined` to fall back to a full re-run.
+   */
+  patch?: (data: T, events: ChangeEvent<M>[]) => T | undefined;
+}
 
-  // Execute the query and update the store
-  query().then((value) => {
-    store.set(value);
+export interface LiveQueryStore<T> extends Writable<T | undefined> {
+  /** The last query failure, cleared when the query next succeeds */
+  error: Readable<Error | null>;
+}
+
+export function liveQuery<T = any, M = unknown>(
+  query: () => Promise<T>,
+  model?: Model<M>,
+  options: LiveQueryOptions<T, M> = {}
+): LiveQueryStore<T> {
+  const error = writable<Error | null>(null);
+  const store = writable<T | undefined>(undefined, (set) => {
+    let active = true;
+    let loaded = false;
+    let current: T | undefined;
+
+    const update = (value: T) => {
+      current = value;
+      set(value);
+    };
+
+    // Execute the query and update the store
+    const run = () =>
+      query().then(
+        (value) => {
+          if (!active) return;
+          loaded = true;
+          error.set(null);
+          update(value);
+        },
+        (err) => {
+          if (!active) return;
+          error.set(err instanceof Error ? err : new Error(String(err)));
+        }
+      );
+
+    void run();
+
+    const unsubscribe = model?.subscribe((events) => {
+      if (options.patch && loaded) {
+        const patched = options.patch(current as T, events);
+        if (patched !== undefined) {
+          update(patched);
+          return;
+        }
+      }
+      void run();
+    });
+    // Results may hold related records (table().include()), so changes to
+    // related models re-run the query too
+    const stopRelated = (model ? relatedModels(model) : []).map((related) =>
+      related.subscribe(() => void run())
+    );
+
+    return () => {
+      active = false;
+      unsubscribe?.();
+      stopRelated.forEach((stop) => stop());
+    };
   });
 
-  return store;
+  return { ...store, error: { subscribe: error.subscribe } };
+}
+
+/**
+ * A storage monitor's state as a store. The monitor checks usage while the
+ * store has subscribers.
+ */
+export function storageStore(monitor: StorageMonitor): Readable<StorageState> {
+  return readable(monitor.getState(), (set) => {
+    set(monitor.getState());
+    return monitor.subscribe(() => set(monitor.getState()));
+  });
 }